@@ -0,0 +1,15 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'actions': string;
+  'header': string;
+  'item': string;
+  'items': string;
+  'janitor': string;
+  'match': string;
+  'rule': string;
+  'summary': string;
+  'title': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
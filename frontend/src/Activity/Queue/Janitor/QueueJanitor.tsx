@@ -0,0 +1,128 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { createSelector } from 'reselect';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import SpinnerButton from 'Components/Link/SpinnerButton';
+import ConfirmModal from 'Components/Modal/ConfirmModal';
+import { kinds } from 'Helpers/Props';
+import { getQueueJanitorRuleActions } from 'Settings/DownloadClients/QueueJanitor/QueueJanitorRule';
+import { runQueueJanitor } from 'Store/Actions/queueActions';
+import getErrorMessage from 'Utilities/Object/getErrorMessage';
+import translate from 'Utilities/String/translate';
+import getQueueJanitorMatches from './getQueueJanitorMatches';
+import styles from './QueueJanitor.css';
+
+function createQueueJanitorSelector() {
+  return createSelector(
+    (state: AppState) => state.queue.details,
+    (state: AppState) => state.queue.janitor,
+    (details, janitor) => {
+      return {
+        isPopulated: details.isPopulated,
+        items: details.items,
+        ...janitor,
+      };
+    }
+  );
+}
+
+function QueueJanitor() {
+  const { isPopulated, items, isRunning, runError, rules } = useSelector(
+    createQueueJanitorSelector()
+  );
+
+  const dispatch = useDispatch();
+  const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
+
+  const matches = useMemo(() => {
+    return getQueueJanitorMatches(rules, items, Date.now());
+  }, [rules, items]);
+
+  const matchCount = useMemo(() => {
+    return matches.reduce((acc, match) => acc + match.items.length, 0);
+  }, [matches]);
+
+  const onRunPress = useCallback(() => {
+    setIsConfirmModalOpen(true);
+  }, [setIsConfirmModalOpen]);
+
+  const onConfirmModalClose = useCallback(() => {
+    setIsConfirmModalOpen(false);
+  }, [setIsConfirmModalOpen]);
+
+  const onConfirmRun = useCallback(() => {
+    dispatch(runQueueJanitor({ matches }));
+    setIsConfirmModalOpen(false);
+  }, [matches, dispatch, setIsConfirmModalOpen]);
+
+  if (!isPopulated || !rules.some((rule) => rule.enable)) {
+    return null;
+  }
+
+  return (
+    <div className={styles.janitor}>
+      <div className={styles.header}>
+        <div>
+          <div className={styles.title}>{translate('QueueJanitorRules')}</div>
+          <div className={styles.summary}>
+            {translate('QueueJanitorMatchSummary', { count: matchCount })}
+          </div>
+        </div>
+
+        <SpinnerButton
+          kind={kinds.WARNING}
+          isSpinning={isRunning}
+          isDisabled={!matchCount}
+          onPress={onRunPress}
+        >
+          {translate('RunRules')}
+        </SpinnerButton>
+      </div>
+
+      {runError ? (
+        <Alert kind={kinds.DANGER}>
+          {getErrorMessage(runError, translate('QueueJanitorRunError'))}
+        </Alert>
+      ) : null}
+
+      {matches.map(({ rule, items: matchedItems }) => {
+        return (
+          <div key={rule.id} className={styles.match}>
+            <div className={styles.rule}>
+              <div>
+                {rule.name} ({matchedItems.length})
+              </div>
+
+              <div className={styles.actions}>
+                {getQueueJanitorRuleActions(rule)}
+              </div>
+            </div>
+
+            <ul className={styles.items}>
+              {matchedItems.map((item) => {
+                return (
+                  <li key={item.id} className={styles.item} title={item.title}>
+                    {item.title}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+
+      <ConfirmModal
+        isOpen={isConfirmModalOpen}
+        kind={kinds.DANGER}
+        title={translate('RunRules')}
+        message={translate('QueueJanitorRunMessageText', { count: matchCount })}
+        confirmLabel={translate('RunRules')}
+        onConfirm={onConfirmRun}
+        onCancel={onConfirmModalClose}
+      />
+    </div>
+  );
+}
+
+export default QueueJanitor;
@@ -0,0 +1,104 @@
+import { Queue } from 'App/State/QueueAppState';
+import QueueJanitorRule from 'typings/QueueJanitorRule';
+
+const HOUR = 60 * 60 * 1000;
+
+export interface QueueJanitorMatch {
+  rule: QueueJanitorRule;
+  items: Queue[];
+}
+
+// Same convention as release profile terms, `/.../` is a case insensitive
+// regular expression and anything else is a case insensitive substring.
+function createMessageMatcher(pattern: string) {
+  const regexMatch = pattern.match(/^\/(.+)\/$/);
+
+  if (regexMatch) {
+    try {
+      const regex = new RegExp(regexMatch[1], 'i');
+
+      return (message: string) => regex.test(message);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  const lowerPattern = pattern.toLowerCase();
+
+  return (message: string) => message.toLowerCase().includes(lowerPattern);
+}
+
+export function isValidQueueJanitorPattern(pattern: string) {
+  return createMessageMatcher(pattern) != null;
+}
+
+function getMessages(item: Queue) {
+  const messages = (item.statusMessages || []).reduce(
+    (acc: string[], statusMessage) => {
+      return [...acc, statusMessage.title, ...statusMessage.messages];
+    },
+    []
+  );
+
+  return item.errorMessage ? [...messages, item.errorMessage] : messages;
+}
+
+function isStuck(item: Queue) {
+  return (
+    item.trackedDownloadStatus === 'warning' ||
+    item.trackedDownloadStatus === 'error'
+  );
+}
+
+// The server keeps when the download's current status started, so how long
+// it has been stuck doesn't depend on when the queue was last looked at.
+function getStatusChangeTime(item: Queue) {
+  return item.statusChangeTime ? new Date(item.statusChangeTime).getTime() : 0;
+}
+
+function getQueueJanitorMatches(
+  rules: QueueJanitorRule[],
+  items: Queue[],
+  now: number
+) {
+  const matchedIds: number[] = [];
+
+  return rules.reduce((acc: QueueJanitorMatch[], rule) => {
+    const matcher = createMessageMatcher(rule.messagePattern);
+
+    if (!rule.enable || !matcher) {
+      return acc;
+    }
+
+    // An item is only handled by the first rule it matches
+    const matchedItems = items.filter((item) => {
+      const statusChangeTime = getStatusChangeTime(item);
+
+      if (!isStuck(item) || !statusChangeTime || matchedIds.includes(item.id)) {
+        return false;
+      }
+
+      if (
+        rule.trackedDownloadStatus !== 'any' &&
+        rule.trackedDownloadStatus !== item.trackedDownloadStatus
+      ) {
+        return false;
+      }
+
+      if (now - statusChangeTime < rule.minimumHours * HOUR) {
+        return false;
+      }
+
+      return !rule.messagePattern || getMessages(item).some(matcher);
+    });
+
+    if (matchedItems.length) {
+      matchedIds.push(...matchedItems.map((item) => item.id));
+      acc.push({ rule, items: matchedItems });
+    }
+
+    return acc;
+  }, []);
+}
+
+export default getQueueJanitorMatches;
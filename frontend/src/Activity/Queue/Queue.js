@@ -1,6 +1,6 @@
 import _ from 'lodash';
 import PropTypes from 'prop-types';
-import React, { Component } from 'react';
+import React, { Component, Fragment } from 'react';
 import Alert from 'Components/Alert';
 import LoadingIndicator from 'Components/Loading/LoadingIndicator';
 import PageContent from 'Components/Page/PageContent';
@@ -17,13 +17,18 @@ import { align, icons, kinds } from 'Helpers/Props';
 import getRemovedItems from 'Utilities/Object/getRemovedItems';
 import hasDifferentItems from 'Utilities/Object/hasDifferentItems';
 import translate from 'Utilities/String/translate';
+import areAllSelected from 'Utilities/Table/areAllSelected';
 import getSelectedIds from 'Utilities/Table/getSelectedIds';
 import removeOldSelectedState from 'Utilities/Table/removeOldSelectedState';
 import selectAll from 'Utilities/Table/selectAll';
 import toggleSelected from 'Utilities/Table/toggleSelected';
+import getQueueGroups from './getQueueGroups';
+import QueueJanitor from './Janitor/QueueJanitor';
+import QueueGroupRowConnector from './QueueGroupRowConnector';
 import QueueOptionsConnector from './QueueOptionsConnector';
 import QueueRowConnector from './QueueRowConnector';
 import RemoveQueueItemsModal from './RemoveQueueItemsModal';
+import QueueThroughput from './Throughput/QueueThroughput';
 
 class Queue extends Component {
 
@@ -42,6 +47,7 @@ class Queue extends Component {
       selectedState: {},
       isPendingSelected: false,
       isConfirmRemoveModalOpen: false,
+      expandedGroups: {},
       items: props.items
     };
   }
@@ -101,6 +107,25 @@ class Queue extends Component {
     return getSelectedIds(this.state.selectedState);
   };
 
+  getDisplayedItems = () => {
+    const {
+      items,
+      groupBySeason
+    } = this.props;
+
+    return groupBySeason ? _.flatMap(getQueueGroups(items), 'items') : items;
+  };
+
+  getAllItemsSelectedState = () => {
+    const selectedState = this.state.selectedState;
+
+    return this.props.items.reduce((acc, item) => {
+      acc[item.id] = !!selectedState[item.id];
+
+      return acc;
+    }, {});
+  };
+
   //
   // Listeners
 
@@ -109,12 +134,45 @@ class Queue extends Component {
   };
 
   onSelectAllChange = ({ value }) => {
-    this.setState(selectAll(this.state.selectedState, value));
+    // Items in collapsed groups haven't registered their selected state
+    this.setState(selectAll(this.getAllItemsSelectedState(), value));
   };
 
   onSelectedChange = ({ id, value, shiftKey = false }) => {
+    // Rows unmount when their group is collapsed, keep them selected
+    if (value == null && this.props.items.some((item) => item.id === id)) {
+      return;
+    }
+
     this.setState((state) => {
-      return toggleSelected(state, this.props.items, id, value, shiftKey);
+      return toggleSelected(state, this.getDisplayedItems(), id, value, shiftKey);
+    });
+  };
+
+  onGroupSelectedChange = ({ ids, value }) => {
+    this.setState((state) => {
+      const selectedState = { ...state.selectedState };
+
+      ids.forEach((id) => {
+        selectedState[id] = value;
+      });
+
+      return {
+        ...areAllSelected(selectedState),
+        lastToggled: null,
+        selectedState
+      };
+    });
+  };
+
+  onGroupExpandPress = (groupKey) => {
+    this.setState((state) => {
+      return {
+        expandedGroups: {
+          ...state.expandedGroups,
+          [groupKey]: !state.expandedGroups[groupKey]
+        }
+      };
     });
   };
 
@@ -142,6 +200,24 @@ class Queue extends Component {
   //
   // Render
 
+  renderRow = (item) => {
+    const {
+      columns
+    } = this.props;
+
+    return (
+      <QueueRowConnector
+        key={item.id}
+        episodeId={item.episodeId}
+        isSelected={this.state.selectedState[item.id]}
+        columns={columns}
+        {...item}
+        onSelectedChange={this.onSelectedChange}
+        onQueueRowModalOpenOrClose={this.onQueueRowModalOpenOrClose}
+      />
+    );
+  };
+
   render() {
     const {
       isFetching,
@@ -155,19 +231,24 @@ class Queue extends Component {
       isGrabbing,
       isRemoving,
       isRefreshMonitoredDownloadsExecuting,
+      groupBySeason,
       onRefreshPress,
       ...otherProps
     } = this.props;
 
     const {
-      allSelected,
-      allUnselected,
       selectedState,
       isConfirmRemoveModalOpen,
       isPendingSelected,
+      expandedGroups,
       items
     } = this.state;
 
+    const {
+      allSelected,
+      allUnselected
+    } = groupBySeason ? areAllSelected(this.getAllItemsSelectedState()) : this.state;
+
     const isRefreshing = isFetching || isEpisodesFetching || isRefreshMonitoredDownloadsExecuting;
     const isAllPopulated = isPopulated && (isEpisodesPopulated || !items.length || items.every((e) => !e.episodeId));
     const hasError = error || episodesError;
@@ -247,6 +328,10 @@ class Queue extends Component {
           {
             isAllPopulated && !hasError && !!items.length ?
               <div>
+                <QueueThroughput />
+
+                <QueueJanitor />
+
                 <Table
                   columns={columns}
                   selectAll={true}
@@ -258,19 +343,38 @@ class Queue extends Component {
                 >
                   <TableBody>
                     {
-                      items.map((item) => {
-                        return (
-                          <QueueRowConnector
-                            key={item.id}
-                            episodeId={item.episodeId}
-                            isSelected={selectedState[item.id]}
-                            columns={columns}
-                            {...item}
-                            onSelectedChange={this.onSelectedChange}
-                            onQueueRowModalOpenOrClose={this.onQueueRowModalOpenOrClose}
-                          />
-                        );
-                      })
+                      groupBySeason ?
+                        getQueueGroups(items).map((group) => {
+                          if (group.items.length === 1) {
+                            return this.renderRow(group.items[0]);
+                          }
+
+                          const isExpanded = !!expandedGroups[group.key];
+
+                          return (
+                            <Fragment key={group.key}>
+                              <QueueGroupRowConnector
+                                groupKey={group.key}
+                                seriesId={group.seriesId}
+                                seasonNumber={group.seasonNumber}
+                                items={group.items}
+                                selectedState={selectedState}
+                                isExpanded={isExpanded}
+                                columns={columns}
+                                onExpandPress={this.onGroupExpandPress}
+                                onGroupSelectedChange={this.onGroupSelectedChange}
+                                onQueueRowModalOpenOrClose={this.onQueueRowModalOpenOrClose}
+                              />
+
+                              {
+                                isExpanded ?
+                                  group.items.map(this.renderRow) :
+                                  null
+                              }
+                            </Fragment>
+                          );
+                        }) :
+                        items.map(this.renderRow)
                     }
                   </TableBody>
                 </Table>
@@ -327,6 +431,7 @@ Queue.propTypes = {
   isGrabbing: PropTypes.bool.isRequired,
   isRemoving: PropTypes.bool.isRequired,
   isRefreshMonitoredDownloadsExecuting: PropTypes.bool.isRequired,
+  groupBySeason: PropTypes.bool.isRequired,
   onRefreshPress: PropTypes.func.isRequired,
   onGrabSelectedPress: PropTypes.func.isRequired,
   onRemoveSelectedPress: PropTypes.func.isRequired
@@ -49,6 +49,7 @@ class QueueConnector extends Component {
       useCurrentPage,
       fetchQueue,
       fetchQueueStatus,
+      fetchQueueDetails,
       gotoQueueFirstPage
     } = this.props;
 
@@ -61,6 +62,9 @@ class QueueConnector extends Component {
     }
 
     fetchQueueStatus();
+
+    // The throughput and janitor panels work with the entire queue
+    fetchQueueDetails({ all: true });
   }
 
   componentDidUpdate(prevProps) {
@@ -172,6 +176,7 @@ QueueConnector.propTypes = {
   items: PropTypes.arrayOf(PropTypes.object).isRequired,
   fetchQueue: PropTypes.func.isRequired,
   fetchQueueStatus: PropTypes.func.isRequired,
+  fetchQueueDetails: PropTypes.func.isRequired,
   gotoQueueFirstPage: PropTypes.func.isRequired,
   gotoQueuePreviousPage: PropTypes.func.isRequired,
   gotoQueueNextPage: PropTypes.func.isRequired,
@@ -0,0 +1,14 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'actions': string;
+  'count': string;
+  'expandButton': string;
+  'input': string;
+  'progress': string;
+  'row': string;
+  'selectCell': string;
+  'series': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,333 @@
+import _ from 'lodash';
+import PropTypes from 'prop-types';
+import React, { Component } from 'react';
+import ProtocolLabel from 'Activity/Queue/ProtocolLabel';
+import CheckInput from 'Components/Form/CheckInput';
+import IconButton from 'Components/Link/IconButton';
+import SpinnerIconButton from 'Components/Link/SpinnerIconButton';
+import ProgressBar from 'Components/ProgressBar';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import TableRow from 'Components/Table/TableRow';
+import { icons } from 'Helpers/Props';
+import SeriesTitleLink from 'Series/SeriesTitleLink';
+import formatBytes from 'Utilities/Number/formatBytes';
+import translate from 'Utilities/String/translate';
+import { getQueueGroupStatusItem } from './getQueueGroups';
+import QueueStatusCell from './QueueStatusCell';
+import RemoveQueueItemsModal from './RemoveQueueItemsModal';
+import TimeleftCell from './TimeleftCell';
+import styles from './QueueGroupRow.css';
+
+function isPending(item) {
+  return item.status === 'delay' || item.status === 'downloadClientUnavailable';
+}
+
+function getSelectedValue(items, selectedState) {
+  const selectedCount = items.filter((item) => selectedState[item.id]).length;
+
+  if (selectedCount === items.length) {
+    return true;
+  }
+
+  // Neither true nor false shows the checkbox as indeterminate
+  return selectedCount ? null : false;
+}
+
+function getUniqueValue(items, key) {
+  const values = _.uniq(items.map((item) => item[key]).filter((value) => !!value));
+
+  return values.join(', ');
+}
+
+class QueueGroupRow extends Component {
+
+  //
+  // Lifecycle
+
+  constructor(props, context) {
+    super(props, context);
+
+    this.state = {
+      isRemoveQueueItemsModalOpen: false
+    };
+  }
+
+  //
+  // Listeners
+
+  onExpandPress = () => {
+    this.props.onExpandPress(this.props.groupKey);
+  };
+
+  onSelectedChange = ({ value }) => {
+    this.props.onGroupSelectedChange({
+      ids: this.props.items.map((item) => item.id),
+      value
+    });
+  };
+
+  onGrabPress = () => {
+    this.props.onGrabPress(this.props.items.filter(isPending).map((item) => item.id));
+  };
+
+  onRemovePress = () => {
+    this.props.onQueueRowModalOpenOrClose(true);
+
+    this.setState({ isRemoveQueueItemsModalOpen: true });
+  };
+
+  onRemoveQueueItemsModalConfirmed = (payload) => {
+    this.props.onQueueRowModalOpenOrClose(false);
+    this.props.onRemovePress(this.props.items.map((item) => item.id), payload);
+
+    this.setState({ isRemoveQueueItemsModalOpen: false });
+  };
+
+  onRemoveQueueItemsModalClose = () => {
+    this.props.onQueueRowModalOpenOrClose(false);
+
+    this.setState({ isRemoveQueueItemsModalOpen: false });
+  };
+
+  //
+  // Render
+
+  render() {
+    const {
+      groupKey,
+      seasonNumber,
+      items,
+      series,
+      selectedState,
+      isExpanded,
+      showRelativeDates,
+      shortDateFormat,
+      timeFormat,
+      columns
+    } = this.props;
+
+    const {
+      isRemoveQueueItemsModalOpen
+    } = this.state;
+
+    const statusItem = getQueueGroupStatusItem(items);
+    const size = items.reduce((acc, item) => acc + (item.size || 0), 0);
+    const sizeleft = items.reduce((acc, item) => acc + (item.sizeleft || 0), 0);
+    const progress = size ? 100 - (sizeleft / size * 100) : 0;
+    const hasPending = items.some(isPending);
+    const isGrabbing = items.some((item) => item.isGrabbing);
+    const isRemoving = items.some((item) => item.isRemoving);
+
+    // The group is done once the last of its items is
+    const lastItem = _.maxBy(items, (item) => item.estimatedCompletionTime || '');
+
+    return (
+      <TableRow className={styles.row}>
+        <TableRowCell className={styles.selectCell}>
+          <CheckInput
+            className={styles.input}
+            name={groupKey}
+            value={getSelectedValue(items, selectedState)}
+            onChange={this.onSelectedChange}
+          />
+        </TableRowCell>
+
+        {
+          columns.map((column) => {
+            const {
+              name,
+              isVisible
+            } = column;
+
+            if (!isVisible) {
+              return null;
+            }
+
+            if (name === 'status') {
+              return (
+                <QueueStatusCell
+                  key={name}
+                  sourceTitle={statusItem.title}
+                  status={statusItem.status}
+                  trackedDownloadStatus={statusItem.trackedDownloadStatus}
+                  trackedDownloadState={statusItem.trackedDownloadState}
+                  statusMessages={statusItem.statusMessages}
+                  errorMessage={statusItem.errorMessage}
+                />
+              );
+            }
+
+            if (name === 'series.sortTitle') {
+              return (
+                <TableRowCell key={name}>
+                  <div className={styles.series}>
+                    <IconButton
+                      className={styles.expandButton}
+                      name={isExpanded ? icons.COLLAPSE : icons.EXPAND}
+                      title={isExpanded ? translate('HideEpisodes') : translate('ShowEpisodes')}
+                      onPress={this.onExpandPress}
+                    />
+
+                    {
+                      series ?
+                        <SeriesTitleLink
+                          titleSlug={series.titleSlug}
+                          title={series.title}
+                        /> :
+                        items[0].title
+                    }
+                  </div>
+                </TableRowCell>
+              );
+            }
+
+            if (name === 'episode') {
+              return (
+                <TableRowCell key={name}>
+                  {translate('SeasonNumberToken', { seasonNumber })}
+                </TableRowCell>
+              );
+            }
+
+            if (name === 'episodes.title') {
+              return (
+                <TableRowCell
+                  key={name}
+                  className={styles.count}
+                >
+                  {translate('CountQueueItems', { count: items.length })}
+                </TableRowCell>
+              );
+            }
+
+            if (name === 'protocol') {
+              const protocols = _.uniq(items.map((item) => item.protocol));
+
+              return (
+                <TableRowCell key={name}>
+                  {
+                    protocols.map((protocol) => {
+                      return (
+                        <ProtocolLabel
+                          key={protocol}
+                          protocol={protocol}
+                        />
+                      );
+                    })
+                  }
+                </TableRowCell>
+              );
+            }
+
+            if (name === 'indexer' || name === 'downloadClient') {
+              return (
+                <TableRowCell key={name}>
+                  {getUniqueValue(items, name)}
+                </TableRowCell>
+              );
+            }
+
+            if (name === 'size') {
+              return (
+                <TableRowCell key={name}>{formatBytes(size)}</TableRowCell>
+              );
+            }
+
+            if (name === 'estimatedCompletionTime') {
+              return (
+                <TimeleftCell
+                  key={name}
+                  status={lastItem.status}
+                  estimatedCompletionTime={lastItem.estimatedCompletionTime}
+                  timeleft={lastItem.timeleft}
+                  size={size}
+                  sizeleft={sizeleft}
+                  showRelativeDates={showRelativeDates}
+                  shortDateFormat={shortDateFormat}
+                  timeFormat={timeFormat}
+                />
+              );
+            }
+
+            if (name === 'progress') {
+              return (
+                <TableRowCell
+                  key={name}
+                  className={styles.progress}
+                >
+                  {
+                    !!progress &&
+                      <ProgressBar
+                        progress={progress}
+                        title={`${progress.toFixed(1)}%`}
+                      />
+                  }
+                </TableRowCell>
+              );
+            }
+
+            if (name === 'actions') {
+              return (
+                <TableRowCell
+                  key={name}
+                  className={styles.actions}
+                >
+                  {
+                    hasPending &&
+                      <SpinnerIconButton
+                        title={translate('GrabSelected')}
+                        name={icons.DOWNLOAD}
+                        isSpinning={isGrabbing}
+                        onPress={this.onGrabPress}
+                      />
+                  }
+
+                  <SpinnerIconButton
+                    title={translate('RemoveFromQueue')}
+                    name={icons.REMOVE}
+                    isSpinning={isRemoving}
+                    onPress={this.onRemovePress}
+                  />
+                </TableRowCell>
+              );
+            }
+
+            return (
+              <TableRowCell key={name} />
+            );
+          })
+        }
+
+        <RemoveQueueItemsModal
+          isOpen={isRemoveQueueItemsModalOpen}
+          selectedCount={items.length}
+          canIgnore={items.every((item) => !!(item.seriesId && item.episodeId))}
+          allPending={items.every(isPending)}
+          onRemovePress={this.onRemoveQueueItemsModalConfirmed}
+          onModalClose={this.onRemoveQueueItemsModalClose}
+        />
+      </TableRow>
+    );
+  }
+}
+
+QueueGroupRow.propTypes = {
+  groupKey: PropTypes.string.isRequired,
+  seriesId: PropTypes.number,
+  seasonNumber: PropTypes.number,
+  items: PropTypes.arrayOf(PropTypes.object).isRequired,
+  series: PropTypes.object,
+  selectedState: PropTypes.object.isRequired,
+  isExpanded: PropTypes.bool.isRequired,
+  showRelativeDates: PropTypes.bool.isRequired,
+  shortDateFormat: PropTypes.string.isRequired,
+  timeFormat: PropTypes.string.isRequired,
+  columns: PropTypes.arrayOf(PropTypes.object).isRequired,
+  onExpandPress: PropTypes.func.isRequired,
+  onGroupSelectedChange: PropTypes.func.isRequired,
+  onGrabPress: PropTypes.func.isRequired,
+  onRemovePress: PropTypes.func.isRequired,
+  onQueueRowModalOpenOrClose: PropTypes.func.isRequired
+};
+
+export default QueueGroupRow;
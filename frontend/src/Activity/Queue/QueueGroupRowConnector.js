@@ -0,0 +1,62 @@
+import PropTypes from 'prop-types';
+import React, { Component } from 'react';
+import { connect } from 'react-redux';
+import { createSelector } from 'reselect';
+import { grabQueueItems, removeQueueItems } from 'Store/Actions/queueActions';
+import createSeriesSelector from 'Store/Selectors/createSeriesSelector';
+import createUISettingsSelector from 'Store/Selectors/createUISettingsSelector';
+import QueueGroupRow from './QueueGroupRow';
+
+function createMapStateToProps() {
+  return createSelector(
+    createSeriesSelector(),
+    createUISettingsSelector(),
+    (series, uiSettings) => {
+      return {
+        series,
+        showRelativeDates: uiSettings.showRelativeDates,
+        shortDateFormat: uiSettings.shortDateFormat,
+        timeFormat: uiSettings.timeFormat
+      };
+    }
+  );
+}
+
+const mapDispatchToProps = {
+  grabQueueItems,
+  removeQueueItems
+};
+
+class QueueGroupRowConnector extends Component {
+
+  //
+  // Listeners
+
+  onGrabPress = (ids) => {
+    this.props.grabQueueItems({ ids });
+  };
+
+  onRemovePress = (ids, payload) => {
+    this.props.removeQueueItems({ ids, ...payload });
+  };
+
+  //
+  // Render
+
+  render() {
+    return (
+      <QueueGroupRow
+        {...this.props}
+        onGrabPress={this.onGrabPress}
+        onRemovePress={this.onRemovePress}
+      />
+    );
+  }
+}
+
+QueueGroupRowConnector.propTypes = {
+  grabQueueItems: PropTypes.func.isRequired,
+  removeQueueItems: PropTypes.func.isRequired
+};
+
+export default connect(createMapStateToProps, mapDispatchToProps)(QueueGroupRowConnector);
@@ -15,13 +15,15 @@ class QueueOptions extends Component {
     super(props, context);
 
     this.state = {
-      includeUnknownSeriesItems: props.includeUnknownSeriesItems
+      includeUnknownSeriesItems: props.includeUnknownSeriesItems,
+      groupBySeason: props.groupBySeason
     };
   }
 
   componentDidUpdate(prevProps) {
     const {
-      includeUnknownSeriesItems
+      includeUnknownSeriesItems,
+      groupBySeason
     } = this.props;
 
     if (includeUnknownSeriesItems !== prevProps.includeUnknownSeriesItems) {
@@ -29,6 +31,12 @@ class QueueOptions extends Component {
         includeUnknownSeriesItems
       });
     }
+
+    if (groupBySeason !== prevProps.groupBySeason) {
+      this.setState({
+        groupBySeason
+      });
+    }
   }
 
   //
@@ -49,7 +57,8 @@ class QueueOptions extends Component {
 
   render() {
     const {
-      includeUnknownSeriesItems
+      includeUnknownSeriesItems,
+      groupBySeason
     } = this.state;
 
     return (
@@ -65,6 +74,18 @@ class QueueOptions extends Component {
             onChange={this.onOptionChange}
           />
         </FormGroup>
+
+        <FormGroup>
+          <FormLabel>{translate('GroupBySeriesAndSeason')}</FormLabel>
+
+          <FormInputGroup
+            type={inputTypes.CHECK}
+            name="groupBySeason"
+            value={groupBySeason}
+            helpText={translate('QueueGroupBySeasonHelpText')}
+            onChange={this.onOptionChange}
+          />
+        </FormGroup>
       </Fragment>
     );
   }
@@ -72,6 +93,7 @@ class QueueOptions extends Component {
 
 QueueOptions.propTypes = {
   includeUnknownSeriesItems: PropTypes.bool.isRequired,
+  groupBySeason: PropTypes.bool.isRequired,
   onOptionChange: PropTypes.func.isRequired
 };
 
@@ -0,0 +1,18 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'collecting': string;
+  'column': string;
+  'group': string;
+  'groupRow': string;
+  'groups': string;
+  'history': string;
+  'label': string;
+  'name': string;
+  'stat': string;
+  'stats': string;
+  'throughput': string;
+  'value': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { createSelector } from 'reselect';
+import ProtocolLabel from 'Activity/Queue/ProtocolLabel';
+import AppState from 'App/State/AppState';
+import usePrevious from 'Helpers/Hooks/usePrevious';
+import { addQueueThroughputSample } from 'Store/Actions/queueActions';
+import formatTimeSpan from 'Utilities/Date/formatTimeSpan';
+import formatBytes from 'Utilities/Number/formatBytes';
+import translate from 'Utilities/String/translate';
+import getQueueThroughput from './getQueueThroughput';
+import QueueThroughputSparkline from './QueueThroughputSparkline';
+import styles from './QueueThroughput.css';
+
+function formatRate(rate: number) {
+  return `${formatBytes(rate)}/s`;
+}
+
+function formatTimeleft(timeleft: number | null) {
+  if (timeleft == null) {
+    return translate('Unknown');
+  }
+
+  return timeleft ? formatTimeSpan(timeleft) : '-';
+}
+
+function createQueueThroughputSelector() {
+  return createSelector(
+    (state: AppState) => state.queue.details,
+    (state: AppState) => state.queue.throughput,
+    (details, throughput) => {
+      return {
+        isPopulated: details.isPopulated,
+        items: details.items,
+        throughput,
+      };
+    }
+  );
+}
+
+function QueueThroughput() {
+  const { isPopulated, items, throughput } = useSelector(
+    createQueueThroughputSelector()
+  );
+
+  const dispatch = useDispatch();
+  const previousItems = usePrevious(items);
+
+  useEffect(() => {
+    // Details are refetched whenever the queue is updated, so each new set
+    // of items is a sample. Items from before the page was opened are stale.
+    if (previousItems && previousItems !== items) {
+      dispatch(addQueueThroughputSample({ items, time: Date.now() }));
+    }
+  }, [items, previousItems, dispatch]);
+
+  const { clients, protocols, remaining, rate, timeleft, history, hasSamples } =
+    useMemo(() => {
+      return getQueueThroughput(throughput, items, Date.now());
+    }, [throughput, items]);
+
+  if (!isPopulated || !items.length) {
+    return null;
+  }
+
+  return (
+    <div className={styles.throughput}>
+      <div className={styles.stats}>
+        <div className={styles.stat}>
+          <div className={styles.label}>{translate('DownloadRate')}</div>
+          <div className={styles.value}>
+            {hasSamples ? formatRate(rate) : '-'}
+          </div>
+        </div>
+
+        <div className={styles.stat}>
+          <div className={styles.label}>{translate('Remaining')}</div>
+          <div className={styles.value}>{formatBytes(remaining)}</div>
+        </div>
+
+        <div className={styles.stat}>
+          <div className={styles.label}>{translate('TimeUntilEmpty')}</div>
+          <div className={styles.value}>
+            {hasSamples ? formatTimeleft(timeleft) : '-'}
+          </div>
+        </div>
+
+        <div className={styles.history}>
+          <div className={styles.label}>{translate('LastHour')}</div>
+          <QueueThroughputSparkline
+            values={history}
+            title={translate('QueueThroughputHistory')}
+          />
+        </div>
+      </div>
+
+      {hasSamples ? null : (
+        <div className={styles.collecting}>
+          {translate('QueueThroughputCollecting')}
+        </div>
+      )}
+
+      <div className={styles.groups}>
+        <div className={styles.group}>
+          <div className={styles.groupRow}>
+            <div className={styles.name}>{translate('DownloadClient')}</div>
+            <div className={styles.column}>{translate('DownloadRate')}</div>
+            <div className={styles.column}>{translate('Remaining')}</div>
+            <div className={styles.column}>{translate('TimeLeft')}</div>
+          </div>
+
+          {clients.map((client) => {
+            return (
+              <div key={client.name} className={styles.groupRow}>
+                <div className={styles.name} title={client.name}>
+                  {client.name || translate('Unknown')}
+                </div>
+                <div className={styles.column}>{formatRate(client.rate)}</div>
+                <div className={styles.column}>
+                  {formatBytes(client.remaining)}
+                </div>
+                <div className={styles.column}>
+                  {hasSamples ? formatTimeleft(client.timeleft) : '-'}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className={styles.group}>
+          <div className={styles.groupRow}>
+            <div className={styles.name}>{translate('Protocol')}</div>
+            <div className={styles.column}>{translate('Remaining')}</div>
+          </div>
+
+          {protocols.map((protocol) => {
+            return (
+              <div key={protocol.name} className={styles.groupRow}>
+                <div className={styles.name}>
+                  <ProtocolLabel protocol={protocol.name} />
+                </div>
+                <div className={styles.column}>
+                  {formatBytes(protocol.remaining)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default QueueThroughput;
@@ -0,0 +1,9 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'area': string;
+  'line': string;
+  'sparkline': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,47 @@
+import React from 'react';
+import styles from './QueueThroughputSparkline.css';
+
+const WIDTH = 240;
+const HEIGHT = 40;
+
+interface QueueThroughputSparklineProps {
+  values: number[];
+  title?: string;
+}
+
+function QueueThroughputSparkline(props: QueueThroughputSparklineProps) {
+  const { values, title } = props;
+
+  const maxValue = Math.max(...values, 1);
+  const step = values.length > 1 ? WIDTH / (values.length - 1) : WIDTH;
+
+  const points = values
+    .map((value, index) => {
+      const x = index * step;
+      const y = HEIGHT - (value / maxValue) * (HEIGHT - 2) - 1;
+
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg
+      className={styles.sparkline}
+      version="1.1"
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+    >
+      {title ? <title>{title}</title> : null}
+
+      <polyline
+        className={styles.area}
+        points={`0,${HEIGHT} ${points} ${WIDTH},${HEIGHT}`}
+      />
+
+      <polyline className={styles.line} points={points} />
+    </svg>
+  );
+}
+
+export default QueueThroughputSparkline;
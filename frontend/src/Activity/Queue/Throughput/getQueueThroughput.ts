@@ -0,0 +1,200 @@
+import {
+  Queue,
+  QueueThroughputAppState,
+  QueueThroughputItem,
+  QueueThroughputSample,
+} from 'App/State/QueueAppState';
+
+const HISTORY_DURATION = 60 * 60 * 1000;
+const RATE_DURATION = 5 * 60 * 1000;
+const MAX_SAMPLE_GAP = 5 * 60 * 1000;
+const SPARKLINE_BUCKET_COUNT = 60;
+
+// Items that aren't in a download client yet won't make progress until
+// they're grabbed, so they're left out of the time remaining.
+const PENDING_STATUSES = ['delay', 'downloadClientUnavailable'];
+
+export interface QueueThroughputProtocol {
+  name: string;
+  remaining: number;
+}
+
+export interface QueueThroughputClient extends QueueThroughputProtocol {
+  rate: number;
+  timeleft: number | null;
+}
+
+export interface QueueThroughput {
+  clients: QueueThroughputClient[];
+  protocols: QueueThroughputProtocol[];
+  remaining: number;
+  rate: number;
+  timeleft: number | null;
+  history: number[];
+  hasSamples: boolean;
+}
+
+function getRate(samples: QueueThroughputSample[], key?: string) {
+  const elapsed = samples.reduce((acc, sample) => acc + sample.elapsed, 0);
+
+  if (!elapsed) {
+    return 0;
+  }
+
+  const downloaded = samples.reduce((acc, sample) => {
+    if (key == null) {
+      return (
+        acc +
+        Object.values(sample.downloaded).reduce((sum, bytes) => sum + bytes, 0)
+      );
+    }
+
+    return acc + (sample.downloaded[key] ?? 0);
+  }, 0);
+
+  return (downloaded / elapsed) * 1000;
+}
+
+function getTimeleft(remaining: number, rate: number) {
+  if (!remaining) {
+    return 0;
+  }
+
+  return rate ? (remaining / rate) * 1000 : null;
+}
+
+function groupRemaining(items: Queue[], getKey: (item: Queue) => string) {
+  return items.reduce((acc: Record<string, number>, item) => {
+    const key = getKey(item);
+
+    acc[key] = (acc[key] ?? 0) + (item.sizeleft ?? 0);
+
+    return acc;
+  }, {});
+}
+
+export function updateQueueThroughput(
+  state: QueueThroughputAppState,
+  queueItems: Queue[],
+  time: number
+): QueueThroughputAppState {
+  const items: QueueThroughputItem[] = queueItems.map((item) => {
+    return {
+      id: item.id,
+      sizeleft: item.sizeleft ?? 0,
+      protocol: item.protocol,
+      downloadClient: item.downloadClient ?? '',
+    };
+  });
+
+  const samples = state.samples.filter((sample) => {
+    return sample.time > time - HISTORY_DURATION;
+  });
+
+  const elapsed = state.time == null ? 0 : time - state.time;
+
+  // A long gap means the queue wasn't watched in between, items that finished
+  // during it are gone so the difference wouldn't reflect the actual rate.
+  if (elapsed <= 0 || elapsed > MAX_SAMPLE_GAP) {
+    return { time, items, samples };
+  }
+
+  const downloaded = items.reduce((acc: Record<string, number>, item) => {
+    const previous = state.items.find((i) => i.id === item.id);
+
+    if (previous && previous.sizeleft > item.sizeleft) {
+      acc[item.downloadClient] =
+        (acc[item.downloadClient] ?? 0) + previous.sizeleft - item.sizeleft;
+    }
+
+    return acc;
+  }, {});
+
+  return {
+    time,
+    items,
+    samples: [...samples, { time, elapsed, downloaded }],
+  };
+}
+
+function getQueueThroughput(
+  state: QueueThroughputAppState,
+  items: Queue[],
+  now: number
+): QueueThroughput {
+  const recentSamples = state.samples.filter((sample) => {
+    return sample.time > now - RATE_DURATION;
+  });
+
+  const activeItems = items.filter((item) => {
+    return !PENDING_STATUSES.includes(item.status);
+  });
+
+  const clientRemaining = groupRemaining(
+    activeItems,
+    (item) => item.downloadClient ?? ''
+  );
+
+  const clients = Object.keys(clientRemaining)
+    .map((name) => {
+      const remaining = clientRemaining[name];
+      const rate = getRate(recentSamples, name);
+
+      return {
+        name,
+        remaining,
+        rate,
+        timeleft: getTimeleft(remaining, rate),
+      };
+    })
+    .sort((a, b) => b.remaining - a.remaining);
+
+  const protocolRemaining = groupRemaining(items, (item) => item.protocol);
+
+  const protocols = Object.keys(protocolRemaining)
+    .map((name) => {
+      return {
+        name,
+        remaining: protocolRemaining[name],
+      };
+    })
+    .sort((a, b) => b.remaining - a.remaining);
+
+  // Clients download in parallel, so the queue is empty once the slowest
+  // client is done with its items.
+  const timeleft = clients.reduce((acc: number | null, client) => {
+    if (acc == null || client.timeleft == null) {
+      return null;
+    }
+
+    return Math.max(acc, client.timeleft);
+  }, 0);
+
+  const bucketDuration = HISTORY_DURATION / SPARKLINE_BUCKET_COUNT;
+  const historyStart = now - HISTORY_DURATION;
+
+  const history = Array.from({ length: SPARKLINE_BUCKET_COUNT }, (_, index) => {
+    const bucketStart = historyStart + index * bucketDuration;
+
+    return getRate(
+      state.samples.filter((sample) => {
+        return (
+          sample.time > bucketStart &&
+          sample.time <= bucketStart + bucketDuration
+        );
+      })
+    );
+  });
+
+  return {
+    clients,
+    protocols,
+    remaining: items.reduce((acc, item) => acc + (item.sizeleft ?? 0), 0),
+    rate: getRate(recentSamples),
+    timeleft,
+    history,
+    hasSamples: state.samples.length > 0,
+  };
+}
+
+export default getQueueThroughput;
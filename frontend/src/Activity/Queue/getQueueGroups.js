@@ -0,0 +1,61 @@
+const statusPriority = ['error', 'warning'];
+
+const statePriority = [
+  'failedPending',
+  'failed',
+  'importPending',
+  'importing',
+  'downloading',
+  'imported',
+  'ignored'
+];
+
+function getPriority(priorities, value) {
+  const index = priorities.indexOf(value);
+
+  return index === -1 ? priorities.length : index;
+}
+
+// The item that best represents the state of the whole group, problems
+// take precedence so they aren't hidden when the group is collapsed.
+export function getQueueGroupStatusItem(items) {
+  return items.reduce((result, item) => {
+    const statusDifference =
+      getPriority(statusPriority, item.trackedDownloadStatus) -
+      getPriority(statusPriority, result.trackedDownloadStatus);
+
+    if (statusDifference !== 0) {
+      return statusDifference < 0 ? item : result;
+    }
+
+    return getPriority(statePriority, item.trackedDownloadState) <
+      getPriority(statePriority, result.trackedDownloadState) ? item : result;
+  });
+}
+
+function getQueueGroups(items) {
+  const groups = [];
+  const groupMap = {};
+
+  items.forEach((item) => {
+    const {
+      seriesId,
+      seasonNumber
+    } = item;
+
+    const key = seriesId && seasonNumber != null ?
+      `${seriesId}-${seasonNumber}` :
+      `item-${item.id}`;
+
+    if (groupMap[key] == null) {
+      groupMap[key] = groups.length;
+      groups.push({ key, seriesId, seasonNumber, items: [] });
+    }
+
+    groups[groupMap[key]].items.push(item);
+  });
+
+  return groups;
+}
+
+export default getQueueGroups;
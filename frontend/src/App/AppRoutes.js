@@ -9,9 +9,11 @@ import ImportSeries from 'AddSeries/ImportSeries/ImportSeries';
 import CalendarPageConnector from 'Calendar/CalendarPageConnector';
 import NotFound from 'Components/NotFound';
 import Switch from 'Components/Router/Switch';
+import Parse from 'Parse/Parse';
 import SeriesDetailsPageConnector from 'Series/Details/SeriesDetailsPageConnector';
 import SeriesIndex from 'Series/Index/SeriesIndex';
 import CustomFormatSettingsPage from 'Settings/CustomFormats/CustomFormatSettingsPage';
+import CustomFormatScoresPage from 'Settings/CustomFormats/Scores/CustomFormatScoresPage';
 import DownloadClientSettingsConnector from 'Settings/DownloadClients/DownloadClientSettingsConnector';
 import GeneralSettingsConnector from 'Settings/General/GeneralSettingsConnector';
 import ImportListSettingsConnector from 'Settings/ImportLists/ImportListSettingsConnector';
@@ -25,6 +27,8 @@ import QualityConnector from 'Settings/Quality/QualityConnector';
 import Settings from 'Settings/Settings';
 import TagSettings from 'Settings/Tags/TagSettings';
 import UISettingsConnector from 'Settings/UI/UISettingsConnector';
+import StatisticsEpisodeFiles from 'Statistics/EpisodeFiles/StatisticsEpisodeFiles';
+import Statistics from 'Statistics/Statistics';
 import BackupsConnector from 'System/Backup/BackupsConnector';
 import LogsTableConnector from 'System/Events/LogsTableConnector';
 import Logs from 'System/Logs/Logs';
@@ -152,6 +156,30 @@ function AppRoutes(props) {
         component={CutoffUnmetConnector}
       />
 
+      {/*
+        Statistics
+      */}
+
+      <Route
+        exact={true}
+        path="/statistics"
+        component={Statistics}
+      />
+
+      <Route
+        path="/statistics/episodefiles"
+        component={StatisticsEpisodeFiles}
+      />
+
+      {/*
+        Parse
+      */}
+
+      <Route
+        path="/parse"
+        component={Parse}
+      />
+
       {/*
         Settings
       */}
@@ -177,6 +205,11 @@ function AppRoutes(props) {
         component={QualityConnector}
       />
 
+      <Route
+        path="/settings/customformats/scores"
+        component={CustomFormatScoresPage}
+      />
+
       <Route
         path="/settings/customformats"
         component={CustomFormatSettingsPage}
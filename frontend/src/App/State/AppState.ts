@@ -1,6 +1,7 @@
 import InteractiveImportAppState from 'App/State/InteractiveImportAppState';
 import CalendarAppState from './CalendarAppState';
 import CommandAppState from './CommandAppState';
+import CustomFiltersAppState from './CustomFiltersAppState';
 import EpisodeFilesAppState from './EpisodeFilesAppState';
 import EpisodesAppState from './EpisodesAppState';
 import ParseAppState from './ParseAppState';
@@ -8,6 +9,7 @@ import QueueAppState from './QueueAppState';
 import RootFolderAppState from './RootFolderAppState';
 import SeriesAppState, { SeriesIndexAppState } from './SeriesAppState';
 import SettingsAppState from './SettingsAppState';
+import StatisticsAppState from './StatisticsAppState';
 import SystemAppState from './SystemAppState';
 import TagsAppState from './TagsAppState';
 
@@ -24,28 +26,50 @@ export interface FilterBuilderProp<T> {
   optionsSelector?: (items: T[]) => FilterBuilderPropOption[];
 }
 
+export interface DateFilterValue {
+  time: string;
+  value: number;
+}
+
 export interface PropertyFilter {
   key: string;
-  value: boolean | string | number | string[] | number[];
+  value:
+    | boolean
+    | string
+    | number
+    | boolean[]
+    | string[]
+    | number[]
+    | DateFilterValue;
   type: string;
 }
 
+export type FilterGroupType = 'and' | 'or';
+
+export interface FilterGroup {
+  groupType: FilterGroupType;
+  filters: (PropertyFilter | FilterGroup)[];
+}
+
+export type FilterCondition = PropertyFilter | FilterGroup;
+
 export interface Filter {
   key: string;
   label: string;
-  filers: PropertyFilter[];
+  filters: PropertyFilter[];
 }
 
 export interface CustomFilter {
   id: number;
   type: string;
   label: string;
-  filers: PropertyFilter[];
+  filters: FilterCondition[];
 }
 
 interface AppState {
   calendar: CalendarAppState;
   commands: CommandAppState;
+  customFilters: CustomFiltersAppState;
   episodeFiles: EpisodeFilesAppState;
   episodesSelection: EpisodesAppState;
   interactiveImport: InteractiveImportAppState;
@@ -55,6 +79,7 @@ interface AppState {
   series: SeriesAppState;
   seriesIndex: SeriesIndexAppState;
   settings: SettingsAppState;
+  statistics: StatisticsAppState;
   system: SystemAppState;
   tags: TagsAppState;
 }
@@ -2,7 +2,25 @@ import AppSectionState from 'App/State/AppSectionState';
 import Episode from 'Episode/Episode';
 import { FilterBuilderProp } from './AppState';
 
+export type CalendarTimelineScale = 'week' | 'quarter';
+
+export interface CalendarOptions {
+  collapseMultipleEpisodes: boolean;
+  showEpisodeInformation: boolean;
+  showFinaleIcon: boolean;
+  showSpecialIcon: boolean;
+  showCutoffUnmetIcon: boolean;
+  fullColorEvents: boolean;
+}
+
 interface CalendarAppState extends AppSectionState<Episode> {
+  start: string;
+  end: string;
+  time: string;
+  view: string;
+  dates: string[];
+  timelineScale: CalendarTimelineScale;
+  options: CalendarOptions;
   filterBuilderProps: FilterBuilderProp<Episode>[];
 }
 
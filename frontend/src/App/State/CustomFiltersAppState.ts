@@ -1,10 +1,12 @@
 import AppSectionState, {
   AppSectionDeleteState,
+  AppSectionSaveState,
 } from 'App/State/AppSectionState';
 import { CustomFilter } from './AppState';
 
 interface CustomFiltersAppState
   extends AppSectionState<CustomFilter>,
-    AppSectionDeleteState {}
+    AppSectionDeleteState,
+    AppSectionSaveState {}
 
 export default CustomFiltersAppState;
@@ -1,12 +1,33 @@
-import AppSectionState from 'App/State/AppSectionState';
+import AppSectionState, { Error } from 'App/State/AppSectionState';
+import { EpisodeFile } from 'EpisodeFile/EpisodeFile';
 import RecentFolder from 'InteractiveImport/Folder/RecentFolder';
 import ImportMode from '../../InteractiveImport/ImportMode';
-import InteractiveImport from '../../InteractiveImport/InteractiveImport';
+import InteractiveImport, {
+  InteractiveImportPreview,
+} from '../../InteractiveImport/InteractiveImport';
+
+export interface InteractiveImportPreviewAppState {
+  isFetching: boolean;
+  isPopulated: boolean;
+  error: Error;
+  items: InteractiveImportPreview[];
+}
+
+export interface InteractiveImportExistingFilesAppState {
+  isFetching: boolean;
+  isPopulated: boolean;
+  error: Error;
+  items: EpisodeFile[];
+}
 
 interface InteractiveImportAppState extends AppSectionState<InteractiveImport> {
+  isApplyingRule: boolean;
+  applyRuleError?: Error;
   originalItems: InteractiveImport[];
   importMode: ImportMode;
   recentFolders: RecentFolder[];
+  preview: InteractiveImportPreviewAppState;
+  existingFiles: InteractiveImportExistingFilesAppState;
 }
 
 export default InteractiveImportAppState;
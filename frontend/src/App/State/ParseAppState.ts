@@ -1,6 +1,10 @@
 import ModelBase from 'App/ModelBase';
-import { AppSectionItemState } from 'App/State/AppSectionState';
+import AppSectionState, {
+  AppSectionItemState,
+  Error,
+} from 'App/State/AppSectionState';
 import Episode from 'Episode/Episode';
+import { EpisodeFile } from 'EpisodeFile/EpisodeFile';
 import Language from 'Language/Language';
 import { QualityModel } from 'Quality/Quality';
 import Series from 'Series/Series';
@@ -49,6 +53,18 @@ export interface ParseModel extends ModelBase {
   customFormatScore?: number;
 }
 
-type ParseAppState = AppSectionItemState<ParseModel>;
+export interface ParseBatchItem extends ModelBase {
+  title: string;
+  isFetching: boolean;
+  error?: Error;
+  parseResult?: ParseModel;
+}
+
+export type ParseBatchAppState = AppSectionState<ParseBatchItem>;
+
+interface ParseAppState extends AppSectionItemState<ParseModel> {
+  batch: ParseBatchAppState;
+  episodeFiles: AppSectionState<EpisodeFile>;
+}
 
 export default ParseAppState;
@@ -2,6 +2,7 @@ import ModelBase from 'App/ModelBase';
 import Language from 'Language/Language';
 import { QualityModel } from 'Quality/Quality';
 import CustomFormat from 'typings/CustomFormat';
+import QueueJanitorRule from 'typings/QueueJanitorRule';
 import AppSectionState, { AppSectionItemState, Error } from './AppSectionState';
 
 export interface StatusMessage {
@@ -21,6 +22,7 @@ export interface Queue extends ModelBase {
   status: string;
   trackedDownloadStatus: string;
   trackedDownloadState: string;
+  statusChangeTime?: string;
   statusMessages: StatusMessage[];
   errorMessage: string;
   downloadId: string;
@@ -44,10 +46,37 @@ export interface QueuePagedAppState extends AppSectionState<Queue> {
   removeError: Error;
 }
 
+export interface QueueThroughputItem {
+  id: number;
+  sizeleft: number;
+  protocol: string;
+  downloadClient: string;
+}
+
+export interface QueueThroughputSample {
+  time: number;
+  elapsed: number;
+  downloaded: Record<string, number>;
+}
+
+export interface QueueThroughputAppState {
+  time: number | null;
+  items: QueueThroughputItem[];
+  samples: QueueThroughputSample[];
+}
+
+export interface QueueJanitorAppState {
+  isRunning: boolean;
+  runError: Error;
+  rules: QueueJanitorRule[];
+}
+
 interface QueueAppState {
   status: AppSectionItemState<Queue>;
   details: QueueDetailsAppState;
   paged: QueuePagedAppState;
+  throughput: QueueThroughputAppState;
+  janitor: QueueJanitorAppState;
 }
 
 export default QueueAppState;
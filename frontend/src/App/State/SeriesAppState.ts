@@ -1,11 +1,63 @@
 import AppSectionState, {
   AppSectionDeleteState,
   AppSectionSaveState,
+  Error,
 } from 'App/State/AppSectionState';
 import Column from 'Components/Table/Column';
 import SortDirection from 'Helpers/Props/SortDirection';
+import { SeriesIndexGroupBy } from 'Series/Index/Group/SeriesIndexGroup';
 import Series from 'Series/Series';
-import { Filter, FilterBuilderProp } from './AppState';
+import { Filter, FilterBuilderProp, PropertyFilter } from './AppState';
+
+export interface SeriesIndexPosterOptions {
+  detailedProgressBar: boolean;
+  size: string;
+  showTitle: boolean;
+  showMonitored: boolean;
+  showQualityProfile: boolean;
+  showSearchAction: boolean;
+}
+
+export interface SeriesIndexOverviewOptions {
+  detailedProgressBar: boolean;
+  size: string;
+  showMonitored: boolean;
+  showNetwork: boolean;
+  showQualityProfile: boolean;
+  showPreviousAiring: boolean;
+  showAdded: boolean;
+  showSeasonCount: boolean;
+  showPath: boolean;
+  showSizeOnDisk: boolean;
+  showSearchAction: boolean;
+}
+
+export interface SeriesIndexTableOptions {
+  showBanners: boolean;
+  showSearchAction: boolean;
+}
+
+export interface SeriesIndexWorkspaceColumn {
+  name: string;
+  isVisible: boolean;
+}
+
+export interface SeriesIndexWorkspaceOptions {
+  view: string;
+  groupBy: SeriesIndexGroupBy;
+  sortKey: string;
+  sortDirection: SortDirection;
+  selectedFilterKey: string | number;
+  columns: SeriesIndexWorkspaceColumn[];
+  posterOptions: SeriesIndexPosterOptions;
+  overviewOptions: SeriesIndexOverviewOptions;
+  tableOptions: SeriesIndexTableOptions;
+}
+
+export interface SeriesIndexWorkspace extends SeriesIndexWorkspaceOptions {
+  id: number;
+  name: string;
+}
 
 export interface SeriesIndexAppState {
   sortKey: string;
@@ -13,39 +65,22 @@ export interface SeriesIndexAppState {
   secondarySortKey: string;
   secondarySortDirection: SortDirection;
   view: string;
+  groupBy: SeriesIndexGroupBy;
+  query: string;
+  queryFilters: PropertyFilter[];
 
-  posterOptions: {
-    detailedProgressBar: boolean;
-    size: string;
-    showTitle: boolean;
-    showMonitored: boolean;
-    showQualityProfile: boolean;
-    showSearchAction: boolean;
-  };
-
-  overviewOptions: {
-    detailedProgressBar: boolean;
-    size: string;
-    showMonitored: boolean;
-    showNetwork: boolean;
-    showQualityProfile: boolean;
-    showPreviousAiring: boolean;
-    showAdded: boolean;
-    showSeasonCount: boolean;
-    showPath: boolean;
-    showSizeOnDisk: boolean;
-    showSearchAction: boolean;
-  };
-
-  tableOptions: {
-    showBanners: boolean;
-    showSearchAction: boolean;
-  };
+  posterOptions: SeriesIndexPosterOptions;
+  overviewOptions: SeriesIndexOverviewOptions;
+  tableOptions: SeriesIndexTableOptions;
 
   selectedFilterKey: string;
   filterBuilderProps: FilterBuilderProp<Series>[];
   filters: Filter[];
   columns: Column[];
+  workspaces: SeriesIndexWorkspace[];
+  selectedWorkspaceId: number | null;
+  isImportingWorkspaces: boolean;
+  importWorkspacesError?: Error;
 }
 
 interface SeriesAppState
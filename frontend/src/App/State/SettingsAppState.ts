@@ -3,15 +3,35 @@ import AppSectionState, {
   AppSectionItemState,
   AppSectionSaveState,
   AppSectionSchemaState,
+  Error,
 } from 'App/State/AppSectionState';
 import Language from 'Language/Language';
+import CustomFormat, { CustomFormatSpecification } from 'typings/CustomFormat';
 import DownloadClient from 'typings/DownloadClient';
 import ImportList from 'typings/ImportList';
 import Indexer from 'typings/Indexer';
+import { NamingSettings } from 'typings/NamingSettings';
 import Notification from 'typings/Notification';
-import QualityProfile from 'typings/QualityProfile';
+import QualityProfile, { QualityProfileSnapshot } from 'typings/QualityProfile';
 import { UiSettings } from 'typings/UiSettings';
 
+export interface CustomFormatAppState extends AppSectionState<CustomFormat> {
+  isImporting: boolean;
+  importError: Error;
+}
+
+export interface CustomFormatSpecificationsAppState
+  extends AppSectionState<CustomFormatSpecification> {
+  isSchemaFetching: boolean;
+  isSchemaPopulated: boolean;
+  schemaError: Error;
+  schema: CustomFormatSpecification[];
+}
+
+export interface CustomFormatScoresAppState extends AppSectionSaveState {
+  pendingChanges: Record<number, Record<number, number>>;
+}
+
 export interface DownloadClientAppState
   extends AppSectionState<DownloadClient>,
     AppSectionDeleteState,
@@ -33,16 +53,23 @@ export interface NotificationAppState
 
 export interface QualityProfilesAppState
   extends AppSectionState<QualityProfile>,
-    AppSectionSchemaState<QualityProfile> {}
+    AppSectionSchemaState<QualityProfile> {
+  history: Record<number, QualityProfileSnapshot[]>;
+}
 
 export type LanguageSettingsAppState = AppSectionState<Language>;
+export type NamingSettingsAppState = AppSectionItemState<NamingSettings>;
 export type UiSettingsAppState = AppSectionItemState<UiSettings>;
 
 interface SettingsAppState {
+  customFormats: CustomFormatAppState;
+  customFormatScores: CustomFormatScoresAppState;
+  customFormatSpecifications: CustomFormatSpecificationsAppState;
   downloadClients: DownloadClientAppState;
   importLists: ImportListAppState;
   indexers: IndexerAppState;
   languages: LanguageSettingsAppState;
+  naming: NamingSettingsAppState;
   notifications: NotificationAppState;
   qualityProfiles: QualityProfilesAppState;
   ui: UiSettingsAppState;
@@ -0,0 +1,28 @@
+import { Error } from 'App/State/AppSectionState';
+
+export interface StatisticsEpisodeFile {
+  id: number;
+  seriesId: number;
+  relativePath: string;
+  quality: string;
+  videoCodec: string;
+  resolution: string;
+  releaseGroup: string;
+  size: number;
+  dateAdded: string;
+}
+
+export interface StatisticsCutoffUnmet {
+  qualityProfileId: number;
+  count: number;
+}
+
+interface StatisticsAppState {
+  isFetching: boolean;
+  isPopulated: boolean;
+  error: Error;
+  episodeFiles: StatisticsEpisodeFile[];
+  cutoffUnmet: StatisticsCutoffUnmet[];
+}
+
+export default StatisticsAppState;
@@ -8,6 +8,7 @@ import * as calendarViews from './calendarViews';
 import CalendarDaysConnector from './Day/CalendarDaysConnector';
 import DaysOfWeekConnector from './Day/DaysOfWeekConnector';
 import CalendarHeaderConnector from './Header/CalendarHeaderConnector';
+import Timeline from './Timeline/Timeline';
 import styles from './Calendar.css';
 
 class Calendar extends Component {
@@ -44,7 +45,15 @@ class Calendar extends Component {
         }
 
         {
-          !error && isPopulated && view !== calendarViews.AGENDA &&
+          !error && isPopulated && view === calendarViews.TIMELINE &&
+            <div className={styles.calendarContent}>
+              <CalendarHeaderConnector />
+              <Timeline />
+            </div>
+        }
+
+        {
+          !error && isPopulated && view !== calendarViews.AGENDA && view !== calendarViews.TIMELINE &&
             <div className={styles.calendarContent}>
               <CalendarHeaderConnector />
               <DaysOfWeekConnector />
@@ -50,6 +50,8 @@ export default function CalendarFilterModal(
       sectionItems={sectionItems}
       filterBuilderProps={filterBuilderProps}
       customFilterType={customFilterType}
+      // The calendar is filtered by the server, which can't evaluate groups
+      isGroupingSupported={false}
       dispatchSetFilter={dispatchSetFilter}
     />
   );
@@ -10,8 +10,10 @@ import PageToolbarSection from 'Components/Page/Toolbar/PageToolbarSection';
 import PageToolbarSeparator from 'Components/Page/Toolbar/PageToolbarSeparator';
 import { align, icons } from 'Helpers/Props';
 import NoSeries from 'Series/NoSeries';
+import translate from 'Utilities/String/translate';
 import CalendarConnector from './CalendarConnector';
 import CalendarFilterModal from './CalendarFilterModal';
+import CalendarDigestModal from './Digest/CalendarDigestModal';
 import CalendarLinkModal from './iCal/CalendarLinkModal';
 import LegendConnector from './Legend/LegendConnector';
 import CalendarOptionsModal from './Options/CalendarOptionsModal';
@@ -29,6 +31,7 @@ class CalendarPage extends Component {
 
     this.state = {
       isCalendarLinkModalOpen: false,
+      isDigestModalOpen: false,
       isOptionsModalOpen: false,
       width: 0
     };
@@ -52,6 +55,14 @@ class CalendarPage extends Component {
     this.setState({ isCalendarLinkModalOpen: false });
   };
 
+  onDigestPress = () => {
+    this.setState({ isDigestModalOpen: true });
+  };
+
+  onDigestModalClose = () => {
+    this.setState({ isDigestModalOpen: false });
+  };
+
   onOptionsPress = () => {
     this.setState({ isOptionsModalOpen: true });
   };
@@ -88,6 +99,7 @@ class CalendarPage extends Component {
 
     const {
       isCalendarLinkModalOpen,
+      isDigestModalOpen,
       isOptionsModalOpen
     } = this.state;
 
@@ -104,6 +116,13 @@ class CalendarPage extends Component {
               onPress={this.onGetCalendarLinkPress}
             />
 
+            <PageToolbarButton
+              label={translate('Digest')}
+              iconName={icons.EXPORT}
+              isDisabled={!hasSeries}
+              onPress={this.onDigestPress}
+            />
+
             <PageToolbarSeparator />
 
             <PageToolbarButton
@@ -169,6 +188,11 @@ class CalendarPage extends Component {
           onModalClose={this.onGetCalendarLinkModalClose}
         />
 
+        <CalendarDigestModal
+          isOpen={isDigestModalOpen}
+          onModalClose={this.onDigestModalClose}
+        />
+
         <CalendarOptionsModal
           isOpen={isOptionsModalOpen}
           onModalClose={this.onOptionsModalClose}
@@ -0,0 +1,20 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import CalendarDigestModalContent from './CalendarDigestModalContent';
+
+interface CalendarDigestModalProps {
+  isOpen: boolean;
+  onModalClose(): void;
+}
+
+function CalendarDigestModal(props: CalendarDigestModalProps) {
+  const { isOpen, onModalClose } = props;
+
+  return (
+    <Modal isOpen={isOpen} onModalClose={onModalClose}>
+      <CalendarDigestModalContent onModalClose={onModalClose} />
+    </Modal>
+  );
+}
+
+export default CalendarDigestModal;
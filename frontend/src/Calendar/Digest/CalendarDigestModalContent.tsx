@@ -0,0 +1,164 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { createSelector } from 'reselect';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import Form from 'Components/Form/Form';
+import FormGroup from 'Components/Form/FormGroup';
+import FormInputGroup from 'Components/Form/FormInputGroup';
+import FormLabel from 'Components/Form/FormLabel';
+import Button from 'Components/Link/Button';
+import ClipboardButton from 'Components/Link/ClipboardButton';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { inputTypes, kinds, sizes } from 'Helpers/Props';
+import createUISettingsSelector from 'Store/Selectors/createUISettingsSelector';
+import downloadFile from 'Utilities/File/downloadFile';
+import translate from 'Utilities/String/translate';
+import getCalendarDigest, {
+  CalendarDigestFormat,
+  getCalendarDigestDays,
+} from './getCalendarDigest';
+
+const FORMAT_OPTIONS = [
+  {
+    key: 'markdown',
+    get value() {
+      return translate('Markdown');
+    },
+  },
+  {
+    key: 'html',
+    get value() {
+      return translate('Html');
+    },
+  },
+  {
+    key: 'text',
+    get value() {
+      return translate('PlainText');
+    },
+  },
+];
+
+const FILE_TYPES: Record<
+  CalendarDigestFormat,
+  { extension: string; type: string }
+> = {
+  markdown: { extension: 'md', type: 'text/markdown' },
+  html: { extension: 'html', type: 'text/html' },
+  text: { extension: 'txt', type: 'text/plain' },
+};
+
+function createCalendarDigestSelector() {
+  return createSelector(
+    (state: AppState) => state.calendar,
+    (state: AppState) => state.queue.details.items,
+    createUISettingsSelector(),
+    (calendar, queueItems, uiSettings) => {
+      return getCalendarDigestDays(calendar.items, {
+        start: calendar.start,
+        end: calendar.end,
+        queuedEpisodeIds: queueItems.reduce((acc: number[], item) => {
+          return item.episodeId == null ? acc : [...acc, item.episodeId];
+        }, []),
+        longDateFormat: uiSettings.longDateFormat,
+        timeFormat: uiSettings.timeFormat,
+      });
+    }
+  );
+}
+
+interface CalendarDigestModalContentProps {
+  onModalClose(): void;
+}
+
+function CalendarDigestModalContent(props: CalendarDigestModalContentProps) {
+  const { onModalClose } = props;
+
+  const days = useSelector(createCalendarDigestSelector());
+  const [format, setFormat] = useState<CalendarDigestFormat>('markdown');
+
+  const digest = useMemo(() => {
+    return getCalendarDigest(days, format);
+  }, [days, format]);
+
+  const onFormatChange = useCallback(
+    ({ value }: { value: CalendarDigestFormat }) => {
+      setFormat(value);
+    },
+    [setFormat]
+  );
+
+  const onDigestChange = useCallback(() => {
+    // The digest is read only, it's generated from the calendar
+  }, []);
+
+  const onDownloadPress = useCallback(() => {
+    const { extension, type } = FILE_TYPES[format];
+
+    downloadFile(`sonarr-calendar.${extension}`, digest, type);
+  }, [format, digest]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('CalendarDigest')}</ModalHeader>
+
+      <ModalBody>
+        {days.length ? null : (
+          <Alert kind={kinds.INFO}>{translate('CalendarDigestEmpty')}</Alert>
+        )}
+
+        <Form>
+          <FormGroup>
+            <FormLabel>{translate('Format')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.SELECT}
+              name="format"
+              value={format}
+              values={FORMAT_OPTIONS}
+              helpText={translate('CalendarDigestFormatHelpText')}
+              onChange={onFormatChange}
+            />
+          </FormGroup>
+
+          <FormGroup size={sizes.LARGE}>
+            <FormLabel>{translate('Digest')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.TEXT_AREA}
+              name="digest"
+              value={digest}
+              readOnly={true}
+              buttons={[
+                <ClipboardButton
+                  key="copy"
+                  value={digest}
+                  kind={kinds.DEFAULT}
+                />,
+              ]}
+              onChange={onDigestChange}
+            />
+          </FormGroup>
+        </Form>
+      </ModalBody>
+
+      <ModalFooter>
+        <Button onPress={onModalClose}>{translate('Close')}</Button>
+
+        <Button
+          kind={kinds.PRIMARY}
+          isDisabled={!days.length}
+          onPress={onDownloadPress}
+        >
+          {translate('Download')}
+        </Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default CalendarDigestModalContent;
@@ -0,0 +1,175 @@
+import moment from 'moment';
+import Episode from 'Episode/Episode';
+import formatTime from 'Utilities/Date/formatTime';
+import padNumber from 'Utilities/Number/padNumber';
+import translate from 'Utilities/String/translate';
+
+export type CalendarDigestFormat = 'markdown' | 'html' | 'text';
+
+export type CalendarDigestStatus =
+  | 'downloaded'
+  | 'downloading'
+  | 'missing'
+  | 'unaired';
+
+export interface CalendarDigestEpisode {
+  seriesTitle: string;
+  episodeNumber: string;
+  title: string;
+  airTime: string;
+  status: CalendarDigestStatus;
+}
+
+export interface CalendarDigestDay {
+  date: string;
+  episodes: CalendarDigestEpisode[];
+}
+
+interface CalendarDigestOptions {
+  start: string;
+  end: string;
+  queuedEpisodeIds: number[];
+  longDateFormat: string;
+  timeFormat: string;
+}
+
+const statusLabels: Record<CalendarDigestStatus, () => string> = {
+  downloaded: () => translate('Downloaded'),
+  downloading: () => translate('Downloading'),
+  missing: () => translate('Missing'),
+  unaired: () => translate('Unaired'),
+};
+
+function getStatus(episode: Episode, queuedEpisodeIds: number[]) {
+  if (episode.hasFile) {
+    return 'downloaded';
+  }
+
+  if (queuedEpisodeIds.includes(episode.id)) {
+    return 'downloading';
+  }
+
+  return moment(episode.airDateUtc).isAfter(moment()) ? 'unaired' : 'missing';
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeMarkdown(value: string) {
+  return value.replace(/([\\`*_[\]<>#|])/g, '\\$1');
+}
+
+export function getCalendarDigestDays(
+  episodes: Episode[],
+  options: CalendarDigestOptions
+) {
+  const { start, end, queuedEpisodeIds, longDateFormat, timeFormat } = options;
+
+  const sortedEpisodes = episodes
+    .filter((episode) => {
+      const airDate = moment(episode.airDateUtc);
+
+      return (
+        !!episode.airDateUtc &&
+        airDate.isSameOrAfter(start) &&
+        airDate.isSameOrBefore(end)
+      );
+    })
+    .sort((a, b) => moment(a.airDateUtc).diff(moment(b.airDateUtc)));
+
+  return sortedEpisodes.reduce((acc: CalendarDigestDay[], episode) => {
+    const airDate = moment(episode.airDateUtc);
+    const date = `${airDate.format('dddd')}, ${airDate.format(longDateFormat)}`;
+
+    let day = acc[acc.length - 1];
+
+    if (!day || day.date !== date) {
+      day = { date, episodes: [] };
+      acc.push(day);
+    }
+
+    day.episodes.push({
+      seriesTitle: episode.series?.title ?? episode.seriesTitle ?? '',
+      episodeNumber: `${episode.seasonNumber}x${padNumber(
+        episode.episodeNumber,
+        2
+      )}`,
+      title: episode.title,
+      airTime: formatTime(episode.airDateUtc, timeFormat),
+      status: getStatus(episode, queuedEpisodeIds),
+    });
+
+    return acc;
+  }, []);
+}
+
+function formatMarkdown(days: CalendarDigestDay[]) {
+  return days
+    .map((day) => {
+      const lines = day.episodes.map((e) => {
+        return `- ${e.airTime} **${escapeMarkdown(e.seriesTitle)}** ${
+          e.episodeNumber
+        } - ${escapeMarkdown(e.title)} _(${statusLabels[e.status]()})_`;
+      });
+
+      return [`### ${day.date}`, '', ...lines].join('\n');
+    })
+    .join('\n\n');
+}
+
+function formatHtml(days: CalendarDigestDay[]) {
+  return days
+    .map((day) => {
+      const items = day.episodes.map((e) => {
+        return `  <li>${escapeHtml(e.airTime)} <strong>${escapeHtml(
+          e.seriesTitle
+        )}</strong> ${e.episodeNumber} - ${escapeHtml(
+          e.title
+        )} <em>(${escapeHtml(statusLabels[e.status]())})</em></li>`;
+      });
+
+      return [
+        `<h3>${escapeHtml(day.date)}</h3>`,
+        '<ul>',
+        ...items,
+        '</ul>',
+      ].join('\n');
+    })
+    .join('\n');
+}
+
+function formatText(days: CalendarDigestDay[]) {
+  return days
+    .map((day) => {
+      const lines = day.episodes.map((e) => {
+        return `  ${e.airTime}  ${e.seriesTitle} ${e.episodeNumber} - ${
+          e.title
+        } (${statusLabels[e.status]()})`;
+      });
+
+      return [day.date, ...lines].join('\n');
+    })
+    .join('\n\n');
+}
+
+function getCalendarDigest(
+  days: CalendarDigestDay[],
+  format: CalendarDigestFormat
+) {
+  if (format === 'html') {
+    return formatHtml(days);
+  }
+
+  if (format === 'text') {
+    return formatText(days);
+  }
+
+  return formatMarkdown(days);
+}
+
+export default getCalendarDigest;
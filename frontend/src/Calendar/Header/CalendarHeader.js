@@ -202,6 +202,14 @@ class CalendarHeader extends Component {
                     >
                       Agenda
                     </ViewMenuItem>
+
+                    <ViewMenuItem
+                      name={calendarViews.TIMELINE}
+                      selectedView={view}
+                      onPress={this.onViewChange}
+                    >
+                      Timeline
+                    </ViewMenuItem>
                   </MenuContent>
                 </Menu> :
 
@@ -237,6 +245,13 @@ class CalendarHeader extends Component {
                   <CalendarHeaderViewButton
                     view={calendarViews.AGENDA}
                     selectedView={view}
+                    buttonGroupPosition={align.CENTER}
+                    onPress={this.onViewChange}
+                  />
+
+                  <CalendarHeaderViewButton
+                    view={calendarViews.TIMELINE}
+                    selectedView={view}
                     buttonGroupPosition={align.RIGHT}
                     onPress={this.onViewChange}
                   />
@@ -0,0 +1,15 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'column': string;
+  'grid': string;
+  'header': string;
+  'isToday': string;
+  'laneTitle': string;
+  'lanes': string;
+  'noEpisodes': string;
+  'toolbar': string;
+  'zoomLabel': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
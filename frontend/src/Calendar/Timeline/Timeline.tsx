@@ -0,0 +1,130 @@
+import classNames from 'classnames';
+import moment from 'moment';
+import React, { useCallback, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Button from 'Components/Link/Button';
+import { align } from 'Helpers/Props';
+import { setCalendarTimelineScale } from 'Store/Actions/calendarActions';
+import createUISettingsSelector from 'Store/Selectors/createUISettingsSelector';
+import translate from 'Utilities/String/translate';
+import getTimelineLanes, {
+  getTimelineColumnIndex,
+  getTimelineColumns,
+} from './getTimelineLanes';
+import TimelineLane from './TimelineLane';
+import * as timelineScales from './timelineScales';
+import styles from './Timeline.css';
+
+function onEventModalOpenToggle() {
+  // The timeline scrolls horizontally instead of navigating on swipe, so
+  // there is nothing to pause while an episode's details are open.
+}
+
+function Timeline() {
+  const { dates, items, timelineScale, options } = useSelector(
+    (state: AppState) => state.calendar
+  );
+
+  const { calendarWeekColumnHeader, shortDateFormat } = useSelector(
+    createUISettingsSelector()
+  );
+
+  const dispatch = useDispatch();
+
+  const columns = useMemo(() => {
+    return getTimelineColumns(dates, timelineScale);
+  }, [dates, timelineScale]);
+
+  const lanes = useMemo(() => {
+    return getTimelineLanes(
+      items,
+      columns,
+      timelineScale,
+      options.collapseMultipleEpisodes
+    );
+  }, [items, columns, timelineScale, options.collapseMultipleEpisodes]);
+
+  const todayIndex = columns.length
+    ? getTimelineColumnIndex(moment().toISOString(), columns[0], timelineScale)
+    : -1;
+
+  const onWeekScalePress = useCallback(() => {
+    dispatch(setCalendarTimelineScale({ timelineScale: timelineScales.WEEK }));
+  }, [dispatch]);
+
+  const onQuarterScalePress = useCallback(() => {
+    dispatch(
+      setCalendarTimelineScale({ timelineScale: timelineScales.QUARTER })
+    );
+  }, [dispatch]);
+
+  return (
+    <div>
+      <div className={styles.toolbar}>
+        <span className={styles.zoomLabel}>{translate('Zoom')}</span>
+
+        <Button
+          buttonGroupPosition={align.LEFT}
+          isDisabled={timelineScale === timelineScales.WEEK}
+          onPress={onWeekScalePress}
+        >
+          {translate('Week')}
+        </Button>
+
+        <Button
+          buttonGroupPosition={align.RIGHT}
+          isDisabled={timelineScale === timelineScales.QUARTER}
+          onPress={onQuarterScalePress}
+        >
+          {translate('Quarter')}
+        </Button>
+      </div>
+
+      <div className={styles.grid}>
+        <div className={styles.lanes}>
+          <div className={styles.header}>
+            <div className={styles.laneTitle} />
+
+            {columns.map((date, index) => {
+              return (
+                <div
+                  key={date}
+                  className={classNames(
+                    styles.column,
+                    index === todayIndex && styles.isToday
+                  )}
+                >
+                  {moment(date).format(
+                    timelineScale === timelineScales.QUARTER
+                      ? shortDateFormat
+                      : calendarWeekColumnHeader
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {lanes.length ? (
+            lanes.map((lane) => {
+              return (
+                <TimelineLane
+                  key={lane.seriesId}
+                  lane={lane}
+                  todayIndex={todayIndex}
+                  onEventModalOpenToggle={onEventModalOpenToggle}
+                />
+              );
+            })
+          ) : (
+            <div className={styles.noEpisodes}>
+              {translate('CalendarTimelineNoEpisodes')}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default Timeline;
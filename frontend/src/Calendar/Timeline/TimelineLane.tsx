@@ -0,0 +1,68 @@
+import classNames from 'classnames';
+import React from 'react';
+import CalendarEventConnector from 'Calendar/Events/CalendarEventConnector';
+import CalendarEventGroupConnector from 'Calendar/Events/CalendarEventGroupConnector';
+import Series from 'Series/Series';
+import SeriesTitleLink from 'Series/SeriesTitleLink';
+import { TimelineLane as Lane } from './getTimelineLanes';
+import styles from './TimelineLane.css';
+
+interface TimelineLaneProps {
+  lane: Lane;
+  todayIndex: number;
+  onEventModalOpenToggle(...args: unknown[]): unknown;
+}
+
+function TimelineLane(props: TimelineLaneProps) {
+  const { lane, todayIndex, onEventModalOpenToggle } = props;
+  const { title, titleSlug, cells } = lane;
+
+  return (
+    <div className={styles.lane}>
+      <div className={styles.title} title={title}>
+        {titleSlug ? (
+          <SeriesTitleLink titleSlug={titleSlug} title={title} />
+        ) : (
+          title
+        )}
+      </div>
+
+      {cells.map((events, index) => {
+        return (
+          <div
+            key={index}
+            className={classNames(
+              styles.cell,
+              index === todayIndex && styles.isToday
+            )}
+          >
+            {events.map((event) => {
+              if (event.isGroup) {
+                return (
+                  <CalendarEventGroupConnector
+                    key={`${event.seriesId}-${event.seasonNumber}`}
+                    {...event}
+                    onEventModalOpenToggle={onEventModalOpenToggle}
+                  />
+                );
+              }
+
+              return (
+                <CalendarEventConnector
+                  key={event.id}
+                  {...event}
+                  episodeId={event.id}
+                  series={event.series as Series}
+                  airDateUtc={event.airDateUtc as string}
+                  onEventModalOpenToggle={onEventModalOpenToggle}
+                />
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default TimelineLane;
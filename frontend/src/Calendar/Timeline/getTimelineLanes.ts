@@ -0,0 +1,131 @@
+import moment from 'moment';
+import { CalendarTimelineScale } from 'App/State/CalendarAppState';
+import Episode from 'Episode/Episode';
+import CalendarEventGroup, { CalendarEvent } from 'typings/CalendarEventGroup';
+
+export type TimelineEvent = CalendarEvent | CalendarEventGroup;
+
+export interface TimelineLane {
+  seriesId: number;
+  title: string;
+  titleSlug?: string;
+  sortTitle: string;
+  cells: TimelineEvent[][];
+}
+
+function getAirTime(episode: Episode) {
+  return moment(episode.airDateUtc).valueOf();
+}
+
+// The calendar range starts on the first day of the week, so every seventh
+// day starts a column when zoomed out to the quarter scale.
+export function getTimelineColumns(
+  dates: string[],
+  scale: CalendarTimelineScale
+) {
+  if (scale === 'quarter') {
+    return dates.filter((_date, index) => index % 7 === 0);
+  }
+
+  return dates;
+}
+
+export function getTimelineColumnIndex(
+  date: string | undefined,
+  start: string,
+  scale: CalendarTimelineScale
+) {
+  const unit = scale === 'quarter' ? 'weeks' : 'days';
+
+  return Math.floor(moment(date).diff(moment(start), unit, true));
+}
+
+function getCellEvents(
+  episodes: Episode[],
+  collapseMultipleEpisodes: boolean
+): TimelineEvent[] {
+  const sorted = [...episodes].sort((a, b) => getAirTime(a) - getAirTime(b));
+
+  if (!collapseMultipleEpisodes) {
+    return sorted.map((episode) => ({ ...episode, isGroup: false }));
+  }
+
+  const seasons = sorted.reduce((acc: Record<number, Episode[]>, episode) => {
+    acc[episode.seasonNumber] = [...(acc[episode.seasonNumber] ?? []), episode];
+
+    return acc;
+  }, {});
+
+  return Object.values(seasons)
+    .sort((a, b) => getAirTime(a[0]) - getAirTime(b[0]))
+    .map((events): TimelineEvent => {
+      if (events.length === 1) {
+        return { ...events[0], isGroup: false };
+      }
+
+      return {
+        isGroup: true,
+        seriesId: events[0].seriesId,
+        seasonNumber: events[0].seasonNumber,
+        episodeIds: events.map((event) => event.id),
+        events,
+      };
+    });
+}
+
+function getTimelineLanes(
+  episodes: Episode[],
+  columns: string[],
+  scale: CalendarTimelineScale,
+  collapseMultipleEpisodes: boolean
+): TimelineLane[] {
+  if (!columns.length) {
+    return [];
+  }
+
+  const lanes = episodes.reduce(
+    (
+      acc: Record<number, { episode: Episode; cells: Episode[][] }>,
+      episode
+    ) => {
+      const index = getTimelineColumnIndex(
+        episode.airDateUtc,
+        columns[0],
+        scale
+      );
+
+      if (!episode.airDateUtc || index < 0 || index >= columns.length) {
+        return acc;
+      }
+
+      if (!acc[episode.seriesId]) {
+        acc[episode.seriesId] = { episode, cells: columns.map(() => []) };
+      }
+
+      acc[episode.seriesId].cells[index].push(episode);
+
+      return acc;
+    },
+    {}
+  );
+
+  // A daily show would fill each week with separate events, so episodes
+  // are always grouped by season when zoomed out.
+  const isCollapsed = collapseMultipleEpisodes || scale === 'quarter';
+
+  return Object.values(lanes)
+    .map(({ episode, cells }) => {
+      const title = episode.series?.title ?? episode.seriesTitle ?? '';
+
+      return {
+        seriesId: episode.seriesId,
+        title,
+        titleSlug: episode.series?.titleSlug,
+        sortTitle: episode.series?.sortTitle ?? title.toLowerCase(),
+        cells: cells.map((cell) => getCellEvents(cell, isCollapsed)),
+      };
+    })
+    .sort((a, b) => a.sortTitle.localeCompare(b.sortTitle));
+}
+
+export default getTimelineLanes;
@@ -0,0 +1,4 @@
+export const WEEK = 'week';
+export const QUARTER = 'quarter';
+
+export const all = [WEEK, QUARTER];
@@ -3,5 +3,6 @@ export const WEEK = 'week';
 export const MONTH = 'month';
 export const FORECAST = 'forecast';
 export const AGENDA = 'agenda';
+export const TIMELINE = 'timeline';
 
-export const all = [DAY, WEEK, MONTH, FORECAST, AGENDA];
+export const all = [DAY, WEEK, MONTH, FORECAST, AGENDA, TIMELINE];
@@ -0,0 +1,12 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'addGroupButton': string;
+  'addGroupIcon': string;
+  'group': string;
+  'groupTypeContainer': string;
+  'header': string;
+  'rootGroup': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
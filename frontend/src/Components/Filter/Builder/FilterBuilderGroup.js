@@ -0,0 +1,204 @@
+import PropTypes from 'prop-types';
+import React, { Component } from 'react';
+import SelectInput from 'Components/Form/SelectInput';
+import Icon from 'Components/Icon';
+import Button from 'Components/Link/Button';
+import IconButton from 'Components/Link/IconButton';
+import { filterGroupTypes, icons, sizes } from 'Helpers/Props';
+import isFilterGroup from 'Utilities/Filter/isFilterGroup';
+import translate from 'Utilities/String/translate';
+import FilterBuilderRow from './FilterBuilderRow';
+import styles from './FilterBuilderGroup.css';
+
+function getGroupTypeOptions() {
+  return [
+    {
+      key: filterGroupTypes.AND,
+      value: translate('FilterGroupAll')
+    },
+    {
+      key: filterGroupTypes.OR,
+      value: translate('FilterGroupAny')
+    }
+  ];
+}
+
+class FilterBuilderGroup extends Component {
+
+  //
+  // Control
+
+  setFilters = (filters) => {
+    const {
+      index,
+      groupType,
+      onGroupChange
+    } = this.props;
+
+    onGroupChange(index, { groupType, filters });
+  };
+
+  //
+  // Listeners
+
+  onGroupTypeChange = ({ value }) => {
+    const {
+      index,
+      filters,
+      onGroupChange
+    } = this.props;
+
+    onGroupChange(index, { groupType: value, filters });
+  };
+
+  onFilterChange = (filterIndex, filter) => {
+    const filters = [...this.props.filters];
+    filters.splice(filterIndex, 1, filter);
+
+    this.setFilters(filters);
+  };
+
+  onAddFilterPress = () => {
+    this.setFilters([...this.props.filters, {}]);
+  };
+
+  onAddGroupPress = () => {
+    // Push a group with an empty filter, FilterBuilderRow
+    // will handle initializing the filter.
+
+    this.setFilters([
+      ...this.props.filters,
+      {
+        groupType: filterGroupTypes.OR,
+        filters: [{}]
+      }
+    ]);
+  };
+
+  onRemoveFilterPress = (filterIndex) => {
+    const filters = [...this.props.filters];
+    filters.splice(filterIndex, 1);
+
+    this.setFilters(filters);
+  };
+
+  onRemoveGroupPress = () => {
+    const {
+      index,
+      onRemovePress
+    } = this.props;
+
+    onRemovePress(index);
+  };
+
+  //
+  // Render
+
+  render() {
+    const {
+      groupType,
+      filters,
+      isRoot,
+      isGroupingSupported,
+      sectionItems,
+      filterBuilderProps
+    } = this.props;
+
+    return (
+      <div className={isRoot ? styles.rootGroup : styles.group}>
+        {
+          isRoot && !isGroupingSupported ?
+            null :
+            <div className={styles.header}>
+              <div className={styles.groupTypeContainer}>
+                <SelectInput
+                  name="groupType"
+                  value={groupType}
+                  values={getGroupTypeOptions()}
+                  onChange={this.onGroupTypeChange}
+                />
+              </div>
+
+              {
+                isRoot ?
+                  null :
+                  <IconButton
+                    name={icons.REMOVE}
+                    title={translate('RemoveGroup')}
+                    onPress={this.onRemoveGroupPress}
+                  />
+              }
+            </div>
+        }
+
+        {
+          filters.map((filter, index) => {
+            if (isFilterGroup(filter)) {
+              return (
+                <FilterBuilderGroup
+                  key={`group-${index}`}
+                  index={index}
+                  groupType={filter.groupType}
+                  filters={filter.filters}
+                  isRoot={false}
+                  isGroupingSupported={isGroupingSupported}
+                  sectionItems={sectionItems}
+                  filterBuilderProps={filterBuilderProps}
+                  onGroupChange={this.onFilterChange}
+                  onRemovePress={this.onRemoveFilterPress}
+                />
+              );
+            }
+
+            return (
+              <FilterBuilderRow
+                key={`${filter.key}-${index}`}
+                index={index}
+                sectionItems={sectionItems}
+                filterBuilderProps={filterBuilderProps}
+                filterKey={filter.key}
+                filterValue={filter.value}
+                filterType={filter.type}
+                filterCount={filters.length}
+                onAddPress={this.onAddFilterPress}
+                onRemovePress={this.onRemoveFilterPress}
+                onFilterChange={this.onFilterChange}
+              />
+            );
+          })
+        }
+
+        {
+          isGroupingSupported ?
+            <Button
+              className={styles.addGroupButton}
+              size={sizes.SMALL}
+              onPress={this.onAddGroupPress}
+            >
+              <Icon
+                className={styles.addGroupIcon}
+                name={icons.GROUP}
+              />
+
+              {translate('AddGroup')}
+            </Button> :
+            null
+        }
+      </div>
+    );
+  }
+}
+
+FilterBuilderGroup.propTypes = {
+  index: PropTypes.number.isRequired,
+  groupType: PropTypes.oneOf(filterGroupTypes.all).isRequired,
+  filters: PropTypes.arrayOf(PropTypes.object).isRequired,
+  isRoot: PropTypes.bool.isRequired,
+  isGroupingSupported: PropTypes.bool.isRequired,
+  sectionItems: PropTypes.arrayOf(PropTypes.object).isRequired,
+  filterBuilderProps: PropTypes.arrayOf(PropTypes.object).isRequired,
+  onGroupChange: PropTypes.func.isRequired,
+  onRemovePress: PropTypes.func
+};
+
+export default FilterBuilderGroup;
@@ -7,10 +7,29 @@ import ModalBody from 'Components/Modal/ModalBody';
 import ModalContent from 'Components/Modal/ModalContent';
 import ModalFooter from 'Components/Modal/ModalFooter';
 import ModalHeader from 'Components/Modal/ModalHeader';
-import { inputTypes } from 'Helpers/Props';
-import FilterBuilderRow from './FilterBuilderRow';
+import { filterGroupTypes, inputTypes } from 'Helpers/Props';
+import isFilterGroup from 'Utilities/Filter/isFilterGroup';
+import FilterBuilderGroup from './FilterBuilderGroup';
 import styles from './FilterBuilderModalContent.css';
 
+function getRootGroup(filters, isGroupingSupported) {
+  // Filters that only match any of their conditions are saved as a single
+  // OR group, everything else is ANDed so existing filters keep working.
+
+  if (
+    isGroupingSupported &&
+    filters.length === 1 &&
+    isFilterGroup(filters[0])
+  ) {
+    return filters[0];
+  }
+
+  return {
+    groupType: filterGroupTypes.AND,
+    filters
+  };
+}
+
 class FilterBuilderModalContent extends Component {
 
   //
@@ -19,7 +38,12 @@ class FilterBuilderModalContent extends Component {
   constructor(props, context) {
     super(props, context);
 
-    const filters = [...props.filters];
+    const {
+      groupType,
+      filters: rootFilters
+    } = getRootGroup(props.filters, props.isGroupingSupported);
+
+    const filters = [...rootFilters];
 
     // Push an empty filter if there aren't any filters. FilterBuilderRow
     // will handle initializing the filter.
@@ -30,6 +54,7 @@ class FilterBuilderModalContent extends Component {
 
     this.state = {
       label: props.label,
+      groupType,
       filters,
       labelErrors: []
     };
@@ -64,29 +89,9 @@ class FilterBuilderModalContent extends Component {
     this.setState({ label: value });
   };
 
-  onFilterChange = (index, filter) => {
-    const filters = [...this.state.filters];
-    filters.splice(index, 1, filter);
-
-    this.setState({
-      filters
-    });
-  };
-
-  onAddFilterPress = () => {
-    const filters = [...this.state.filters];
-    filters.push({});
-
-    this.setState({
-      filters
-    });
-  };
-
-  onRemoveFilterPress = (index) => {
-    const filters = [...this.state.filters];
-    filters.splice(index, 1);
-
+  onGroupChange = (index, { groupType, filters }) => {
     this.setState({
+      groupType,
       filters
     });
   };
@@ -100,6 +105,7 @@ class FilterBuilderModalContent extends Component {
 
     const {
       label,
+      groupType,
       filters
     } = this.state;
 
@@ -119,7 +125,7 @@ class FilterBuilderModalContent extends Component {
       id,
       type: customFilterType,
       label,
-      filters
+      filters: groupType === filterGroupTypes.OR ? [{ groupType, filters }] : filters
     });
   };
 
@@ -130,6 +136,7 @@ class FilterBuilderModalContent extends Component {
     const {
       sectionItems,
       filterBuilderProps,
+      isGroupingSupported,
       isSaving,
       saveError,
       onCancelPress,
@@ -138,6 +145,7 @@ class FilterBuilderModalContent extends Component {
 
     const {
       label,
+      groupType,
       filters,
       labelErrors
     } = this.state;
@@ -168,25 +176,16 @@ class FilterBuilderModalContent extends Component {
           <div className={styles.label}>Filters</div>
 
           <div className={styles.rows}>
-            {
-              filters.map((filter, index) => {
-                return (
-                  <FilterBuilderRow
-                    key={`${filter.key}-${index}`}
-                    index={index}
-                    sectionItems={sectionItems}
-                    filterBuilderProps={filterBuilderProps}
-                    filterKey={filter.key}
-                    filterValue={filter.value}
-                    filterType={filter.type}
-                    filterCount={filters.length}
-                    onAddPress={this.onAddFilterPress}
-                    onRemovePress={this.onRemoveFilterPress}
-                    onFilterChange={this.onFilterChange}
-                  />
-                );
-              })
-            }
+            <FilterBuilderGroup
+              index={0}
+              groupType={groupType}
+              filters={filters}
+              isRoot={true}
+              isGroupingSupported={isGroupingSupported}
+              sectionItems={sectionItems}
+              filterBuilderProps={filterBuilderProps}
+              onGroupChange={this.onGroupChange}
+            />
           </div>
         </ModalBody>
 
@@ -216,6 +215,7 @@ FilterBuilderModalContent.propTypes = {
   filters: PropTypes.arrayOf(PropTypes.object).isRequired,
   filterBuilderProps: PropTypes.arrayOf(PropTypes.object).isRequired,
   customFilters: PropTypes.arrayOf(PropTypes.object).isRequired,
+  isGroupingSupported: PropTypes.bool.isRequired,
   isSaving: PropTypes.bool.isRequired,
   saveError: PropTypes.object,
   dispatchDeleteCustomFilter: PropTypes.func.isRequired,
@@ -225,4 +225,8 @@ FilterBuilderModalContent.propTypes = {
   onModalClose: PropTypes.func.isRequired
 };
 
+FilterBuilderModalContent.defaultProps = {
+  isGroupingSupported: true
+};
+
 export default FilterBuilderModalContent;
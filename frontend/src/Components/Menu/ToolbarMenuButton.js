@@ -54,7 +54,8 @@ function ToolbarMenuButton(props) {
 ToolbarMenuButton.propTypes = {
   iconName: PropTypes.object.isRequired,
   showIndicator: PropTypes.bool.isRequired,
-  text: PropTypes.string
+  text: PropTypes.string,
+  isDisabled: PropTypes.bool
 };
 
 ToolbarMenuButton.defaultProps = {
@@ -19,7 +19,7 @@ function getShortcuts() {
 }
 
 function getShortcutKey(combo, isOsx) {
-  const comboMatch = combo.match(/(.+?)\+(.)/);
+  const comboMatch = combo.match(/(.+?)\+(.+)/);
 
   if (!comboMatch) {
     return combo;
@@ -79,6 +79,12 @@ const links = [
     ]
   },
 
+  {
+    iconName: icons.CHART,
+    title: () => translate('Statistics'),
+    to: '/statistics'
+  },
+
   {
     iconName: icons.SETTINGS,
     title: () => translate('Settings'),
@@ -21,6 +21,7 @@ function TableRow(props) {
 }
 
 TableRow.propTypes = {
+  id: PropTypes.string,
   className: PropTypes.string.isRequired,
   children: PropTypes.node,
   overlayContent: PropTypes.bool
@@ -26,6 +26,71 @@ export const shortcuts = {
   SAVE_SETTINGS: {
     key: 'mod+s',
     name: 'Save Settings'
+  },
+
+  INTERACTIVE_IMPORT_PREVIOUS_ROW: {
+    key: 'up',
+    name: 'Manual Import: Focus Previous Row'
+  },
+
+  INTERACTIVE_IMPORT_NEXT_ROW: {
+    key: 'down',
+    name: 'Manual Import: Focus Next Row'
+  },
+
+  INTERACTIVE_IMPORT_PREVIOUS_CELL: {
+    key: 'left',
+    name: 'Manual Import: Focus Previous Cell'
+  },
+
+  INTERACTIVE_IMPORT_NEXT_CELL: {
+    key: 'right',
+    name: 'Manual Import: Focus Next Cell'
+  },
+
+  INTERACTIVE_IMPORT_TOGGLE_SELECTED: {
+    key: 'space',
+    name: 'Manual Import: Toggle Focused Row'
+  },
+
+  INTERACTIVE_IMPORT_TOGGLE_SELECTED_RANGE: {
+    key: 'shift+space',
+    name: 'Manual Import: Toggle Rows Since Last Toggled'
+  },
+
+  INTERACTIVE_IMPORT_EDIT_CELL: {
+    key: 'enter',
+    name: 'Manual Import: Edit Focused Cell'
+  },
+
+  INTERACTIVE_IMPORT_SELECT_SERIES: {
+    key: 't',
+    name: 'Manual Import: Select Series'
+  },
+
+  INTERACTIVE_IMPORT_SELECT_SEASON: {
+    key: 'n',
+    name: 'Manual Import: Select Season'
+  },
+
+  INTERACTIVE_IMPORT_SELECT_EPISODE: {
+    key: 'e',
+    name: 'Manual Import: Select Episode(s)'
+  },
+
+  INTERACTIVE_IMPORT_SELECT_RELEASE_GROUP: {
+    key: 'g',
+    name: 'Manual Import: Select Release Group'
+  },
+
+  INTERACTIVE_IMPORT_SELECT_QUALITY: {
+    key: 'q',
+    name: 'Manual Import: Select Quality'
+  },
+
+  INTERACTIVE_IMPORT_SELECT_LANGUAGE: {
+    key: 'l',
+    name: 'Manual Import: Select Language'
   }
 };
 
@@ -157,6 +157,7 @@ class EpisodeDetailsModalContent extends Component {
             <TabPanel>
               {/* Don't wrap in tabContent so we not have a top margin */}
               <EpisodeSearchConnector
+                seriesId={seriesId}
                 episodeId={episodeId}
                 startInteractiveSearch={startInteractiveSearch}
                 onModalClose={onModalClose}
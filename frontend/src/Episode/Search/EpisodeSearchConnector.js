@@ -61,12 +61,16 @@ class EpisodeSearchConnector extends Component {
   // Render
 
   render() {
-    const { episodeId } = this.props;
+    const {
+      seriesId,
+      episodeId
+    } = this.props;
 
     if (this.state.isInteractiveSearchOpen) {
       return (
         <InteractiveSearchConnector
           type="episode"
+          seriesId={seriesId}
           searchPayload={{ episodeId }}
         />
       );
@@ -83,6 +87,7 @@ class EpisodeSearchConnector extends Component {
 }
 
 EpisodeSearchConnector.propTypes = {
+  seriesId: PropTypes.number.isRequired,
   episodeId: PropTypes.number.isRequired,
   isPopulated: PropTypes.bool.isRequired,
   startInteractiveSearch: PropTypes.bool.isRequired,
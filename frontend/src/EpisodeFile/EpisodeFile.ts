@@ -15,6 +15,7 @@ export interface EpisodeFile extends ModelBase {
   languages: CustomFormat[];
   quality: QualityModel;
   customFormats: CustomFormat[];
+  customFormatScore: number;
   mediaInfo: MediaInfo;
   qualityCutoffNotMet: boolean;
 }
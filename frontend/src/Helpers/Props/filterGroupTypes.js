@@ -0,0 +1,4 @@
+export const AND = 'and';
+export const OR = 'or';
+
+export const all = [AND, OR];
@@ -34,6 +34,7 @@ import {
   faCalculator as fasCalculator,
   faCalendarAlt as fasCalendarAlt,
   faCaretDown as fasCaretDown,
+  faChartBar as fasChartBar,
   faCheck as fasCheck,
   faCheckCircle as fasCheckCircle,
   faChevronCircleDown as fasChevronCircleDown,
@@ -56,6 +57,7 @@ import {
   faFastBackward as fasFastBackward,
   faFastForward as fasFastForward,
   faFileExport as fasFileExport,
+  faFileImport as fasFileImport,
   faFileInvoice as farFileInvoice,
   faFilter as fasFilter,
   faFolderOpen as fasFolderOpen,
@@ -65,6 +67,7 @@ import {
   faHome as fasHome,
   faInfoCircle as fasInfoCircle,
   faLaptop as fasLaptop,
+  faLayerGroup as fasLayerGroup,
   faLevelUpAlt as fasLevelUpAlt,
   faListCheck as fasListCheck,
   faMedkit as fasMedkit,
@@ -119,6 +122,7 @@ export const BUG = fasBug;
 export const CALENDAR = fasCalendarAlt;
 export const CALENDAR_O = farCalendar;
 export const CARET_DOWN = fasCaretDown;
+export const CHART = fasChartBar;
 export const CHECK = fasCheck;
 export const CHECK_INDETERMINATE = fasMinus;
 export const CHECK_CIRCLE = fasCheckCircle;
@@ -156,6 +160,7 @@ export const HEART = fasHeart;
 export const HISTORY = fasHistory;
 export const HOUSEKEEPING = fasHome;
 export const IGNORE = fasTimesCircle;
+export const IMPORT = fasFileImport;
 export const INFO = fasInfoCircle;
 export const INTERACTIVE = fasUser;
 export const KEYBOARD = farKeyboard;
@@ -218,3 +223,4 @@ export const UNSAVED_SETTING = farDotCircle;
 export const VIEW = fasEye;
 export const WARNING = fasExclamationTriangle;
 export const WIKI = fasBookReader;
+export const WORKSPACE = fasLayerGroup;
@@ -1,6 +1,7 @@
 import * as align from './align';
 import * as filterBuilderTypes from './filterBuilderTypes';
 import * as filterBuilderValueTypes from './filterBuilderValueTypes';
+import * as filterGroupTypes from './filterGroupTypes';
 import filterTypePredicates from './filterTypePredicates';
 import * as filterTypes from './filterTypes';
 import * as icons from './icons';
@@ -17,6 +18,7 @@ export {
   inputTypes,
   filterBuilderTypes,
   filterBuilderValueTypes,
+  filterGroupTypes,
   filterTypePredicates,
   filterTypes,
   icons,
@@ -0,0 +1,9 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'group': string;
+  'header': string;
+  'title': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,93 @@
+import React, { useCallback } from 'react';
+import Button from 'Components/Link/Button';
+import { sizes } from 'Helpers/Props';
+import InteractiveImport from 'InteractiveImport/InteractiveImport';
+import translate from 'Utilities/String/translate';
+import {
+  getInteractiveImportConflictTitle,
+  InteractiveImportConflict,
+} from './getInteractiveImportConflicts';
+import InteractiveImportConflictItem from './InteractiveImportConflictItem';
+import styles from './InteractiveImportConflictGroup.css';
+
+interface InteractiveImportConflictGroupProps {
+  conflict: InteractiveImportConflict;
+  items: InteractiveImport[];
+  onKeepPress(conflict: InteractiveImportConflict, id: number): void;
+  onDeselectPress(id: number): void;
+}
+
+function InteractiveImportConflictGroup(
+  props: InteractiveImportConflictGroupProps
+) {
+  const { conflict, items, onKeepPress, onDeselectPress } = props;
+  const { type, ids, bestId, existingFiles } = conflict;
+  const isDowngrade = type === 'downgrade';
+
+  const onKeepItemPress = useCallback(
+    (id: number) => {
+      onKeepPress(conflict, id);
+    },
+    [conflict, onKeepPress]
+  );
+
+  const onKeepBestPress = useCallback(() => {
+    if (bestId != null) {
+      onKeepPress(conflict, bestId);
+    }
+  }, [conflict, bestId, onKeepPress]);
+
+  return (
+    <div className={styles.group}>
+      <div className={styles.header}>
+        <div className={styles.title}>
+          {getInteractiveImportConflictTitle(type)}
+        </div>
+
+        {bestId == null ? null : (
+          <Button size={sizes.SMALL} onPress={onKeepBestPress}>
+            {translate('KeepBest')}
+          </Button>
+        )}
+      </div>
+
+      {ids.map((id) => {
+        const item = items.find((i) => i.id === id);
+
+        if (!item) {
+          return null;
+        }
+
+        return (
+          <InteractiveImportConflictItem
+            key={id}
+            id={id}
+            relativePath={item.relativePath}
+            episodes={item.episodes}
+            quality={item.quality}
+            customFormatScore={item.customFormatScore}
+            label={id === bestId ? translate('Best') : undefined}
+            actionLabel={
+              isDowngrade ? translate('Deselect') : translate('Keep')
+            }
+            onActionPress={isDowngrade ? onDeselectPress : onKeepItemPress}
+          />
+        );
+      })}
+
+      {existingFiles.map((file) => {
+        return (
+          <InteractiveImportConflictItem
+            key={`existing-${file.id}`}
+            relativePath={file.relativePath}
+            quality={file.quality}
+            customFormatScore={file.customFormatScore}
+            label={translate('ExistingFile')}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export default InteractiveImportConflictGroup;
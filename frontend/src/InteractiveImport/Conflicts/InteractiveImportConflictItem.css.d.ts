@@ -0,0 +1,12 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'actions': string;
+  'episodes': string;
+  'item': string;
+  'quality': string;
+  'relativePath': string;
+  'score': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
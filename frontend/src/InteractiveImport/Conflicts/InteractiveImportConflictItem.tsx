@@ -0,0 +1,77 @@
+import React, { useCallback } from 'react';
+import Label from 'Components/Label';
+import Button from 'Components/Link/Button';
+import Episode from 'Episode/Episode';
+import { kinds, sizes } from 'Helpers/Props';
+import { QualityModel } from 'Quality/Quality';
+import formatCustomFormatScore from 'Utilities/Number/formatCustomFormatScore';
+import padNumber from 'Utilities/Number/padNumber';
+import styles from './InteractiveImportConflictItem.css';
+
+function formatEpisodes(episodes: Episode[] = []) {
+  return episodes
+    .map((episode) => {
+      return `${episode.seasonNumber}x${padNumber(episode.episodeNumber, 2)}`;
+    })
+    .join(', ');
+}
+
+interface InteractiveImportConflictItemProps {
+  id?: number;
+  relativePath: string;
+  episodes?: Episode[];
+  quality?: QualityModel;
+  customFormatScore?: number;
+  label?: string;
+  actionLabel?: string;
+  onActionPress?(id: number): void;
+}
+
+function InteractiveImportConflictItem(
+  props: InteractiveImportConflictItemProps
+) {
+  const {
+    id,
+    relativePath,
+    episodes,
+    quality,
+    customFormatScore,
+    label,
+    actionLabel,
+    onActionPress,
+  } = props;
+
+  const onPress = useCallback(() => {
+    if (id != null) {
+      onActionPress?.(id);
+    }
+  }, [id, onActionPress]);
+
+  return (
+    <div className={styles.item}>
+      <div className={styles.relativePath} title={relativePath}>
+        {relativePath}
+      </div>
+
+      {label ? <Label kind={kinds.INFO}>{label}</Label> : null}
+
+      <div className={styles.episodes}>{formatEpisodes(episodes)}</div>
+
+      <div className={styles.quality}>{quality?.quality.name}</div>
+
+      <div className={styles.score}>
+        {formatCustomFormatScore(customFormatScore)}
+      </div>
+
+      <div className={styles.actions}>
+        {actionLabel ? (
+          <Button size={sizes.SMALL} onPress={onPress}>
+            {actionLabel}
+          </Button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+export default InteractiveImportConflictItem;
@@ -0,0 +1,10 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'conflicts': string;
+  'groups': string;
+  'header': string;
+  'icon': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,71 @@
+import React, { useCallback } from 'react';
+import Icon from 'Components/Icon';
+import { icons, kinds } from 'Helpers/Props';
+import InteractiveImport from 'InteractiveImport/InteractiveImport';
+import translate from 'Utilities/String/translate';
+import {
+  getOverlappingIds,
+  InteractiveImportConflict,
+} from './getInteractiveImportConflicts';
+import InteractiveImportConflictGroup from './InteractiveImportConflictGroup';
+import styles from './InteractiveImportConflicts.css';
+
+interface InteractiveImportConflictsProps {
+  conflicts: InteractiveImportConflict[];
+  items: InteractiveImport[];
+  onDeselect(ids: number[]): void;
+}
+
+function InteractiveImportConflicts(props: InteractiveImportConflictsProps) {
+  const { conflicts, items, onDeselect } = props;
+
+  const onKeepPress = useCallback(
+    (conflict: InteractiveImportConflict, id: number) => {
+      onDeselect(getOverlappingIds(items, conflict, id));
+    },
+    [items, onDeselect]
+  );
+
+  const onDeselectPress = useCallback(
+    (id: number) => {
+      onDeselect([id]);
+    },
+    [onDeselect]
+  );
+
+  if (!conflicts.length) {
+    return null;
+  }
+
+  return (
+    <div className={styles.conflicts}>
+      <div className={styles.header}>
+        <Icon
+          className={styles.icon}
+          name={icons.WARNING}
+          kind={kinds.WARNING}
+        />
+
+        {translate('InteractiveImportConflictsFound', {
+          count: conflicts.length,
+        })}
+      </div>
+
+      <div className={styles.groups}>
+        {conflicts.map((conflict) => {
+          return (
+            <InteractiveImportConflictGroup
+              key={conflict.key}
+              conflict={conflict}
+              items={items}
+              onKeepPress={onKeepPress}
+              onDeselectPress={onDeselectPress}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default InteractiveImportConflicts;
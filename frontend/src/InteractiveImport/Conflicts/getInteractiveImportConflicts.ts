@@ -0,0 +1,223 @@
+import { EpisodeFile } from 'EpisodeFile/EpisodeFile';
+import InteractiveImport from 'InteractiveImport/InteractiveImport';
+import { QualityModel } from 'Quality/Quality';
+import QualityProfile from 'typings/QualityProfile';
+import getQualityProfileItemIndex from 'Utilities/Quality/getQualityProfileItemIndex';
+import translate from 'Utilities/String/translate';
+
+export type InteractiveImportConflictType =
+  | 'duplicate'
+  | 'overlap'
+  | 'downgrade';
+
+export interface InteractiveImportConflict {
+  key: string;
+  type: InteractiveImportConflictType;
+  ids: number[];
+  bestId?: number;
+  existingFiles: EpisodeFile[];
+}
+
+const conflictTitles: Record<InteractiveImportConflictType, () => string> = {
+  duplicate: () => translate('InteractiveImportConflictDuplicate'),
+  overlap: () => translate('InteractiveImportConflictOverlap'),
+  downgrade: () => translate('InteractiveImportConflictDowngrade'),
+};
+
+interface Rankable {
+  quality?: QualityModel;
+  customFormatScore?: number;
+}
+
+function getEpisodeIds(item: InteractiveImport) {
+  return (item.episodes || []).map((e) => e.id).sort((a, b) => a - b);
+}
+
+// Ranks by quality profile order, then revision and finally custom format
+// score, a positive result means `a` is better than `b`.
+function compare(
+  qualityProfile: QualityProfile | undefined,
+  a: Rankable,
+  b: Rankable
+) {
+  if (!a.quality || !b.quality) {
+    return Number(!!a.quality) - Number(!!b.quality);
+  }
+
+  if (qualityProfile) {
+    const aIndex = getQualityProfileItemIndex(
+      qualityProfile.items,
+      a.quality.quality.id
+    );
+    const bIndex = getQualityProfileItemIndex(
+      qualityProfile.items,
+      b.quality.quality.id
+    );
+
+    if (aIndex !== bIndex) {
+      return aIndex - bIndex;
+    }
+  }
+
+  const aRevision = a.quality.revision;
+  const bRevision = b.quality.revision;
+
+  if (aRevision.version !== bRevision.version) {
+    return aRevision.version - bRevision.version;
+  }
+
+  if (aRevision.real !== bRevision.real) {
+    return aRevision.real - bRevision.real;
+  }
+
+  return (a.customFormatScore ?? 0) - (b.customFormatScore ?? 0);
+}
+
+function getQualityProfile(
+  qualityProfiles: QualityProfile[],
+  item: InteractiveImport
+) {
+  return qualityProfiles.find((p) => p.id === item.series?.qualityProfileId);
+}
+
+function getOverlapConflicts(
+  items: InteractiveImport[],
+  qualityProfiles: QualityProfile[]
+) {
+  // Rows that share at least one episode end up with the same root
+  const parents: Record<number, number> = {};
+  const episodeOwners: Record<number, number> = {};
+
+  const findRoot = (id: number): number => {
+    return parents[id] === id ? id : findRoot(parents[id]);
+  };
+
+  items.forEach((item) => {
+    parents[item.id] = item.id;
+
+    getEpisodeIds(item).forEach((episodeId) => {
+      const owner = episodeOwners[episodeId];
+
+      if (owner == null) {
+        episodeOwners[episodeId] = item.id;
+      } else {
+        parents[findRoot(item.id)] = findRoot(owner);
+      }
+    });
+  });
+
+  const groups = items.reduce(
+    (acc: Record<number, InteractiveImport[]>, item) => {
+      const root = findRoot(item.id);
+
+      acc[root] = [...(acc[root] ?? []), item];
+
+      return acc;
+    },
+    {}
+  );
+
+  return Object.keys(groups).reduce(
+    (acc: InteractiveImportConflict[], root) => {
+      const group = groups[parseInt(root)];
+
+      if (group.length < 2) {
+        return acc;
+      }
+
+      const episodeKey = getEpisodeIds(group[0]).join(',');
+      const isDuplicate = group.every(
+        (item) => getEpisodeIds(item).join(',') === episodeKey
+      );
+      const qualityProfile = getQualityProfile(qualityProfiles, group[0]);
+
+      const best = group.reduce((bestItem, item) => {
+        return compare(qualityProfile, item, bestItem) > 0 ? item : bestItem;
+      });
+
+      acc.push({
+        key: `${isDuplicate ? 'duplicate' : 'overlap'}-${root}`,
+        type: isDuplicate ? 'duplicate' : 'overlap',
+        ids: group.map((item) => item.id),
+        bestId: best.id,
+        existingFiles: [],
+      });
+
+      return acc;
+    },
+    []
+  );
+}
+
+function getDowngradeConflicts(
+  items: InteractiveImport[],
+  existingFiles: EpisodeFile[],
+  qualityProfiles: QualityProfile[]
+) {
+  return items.reduce((acc: InteractiveImportConflict[], item) => {
+    const qualityProfile = getQualityProfile(qualityProfiles, item);
+
+    const betterFiles = existingFiles.filter((file) => {
+      const isReplaced = (item.episodes || []).some(
+        (e) => e.episodeFileId === file.id
+      );
+
+      return (
+        isReplaced &&
+        file.id !== item.episodeFileId &&
+        compare(qualityProfile, item, file) < 0
+      );
+    });
+
+    if (betterFiles.length) {
+      acc.push({
+        key: `downgrade-${item.id}`,
+        type: 'downgrade',
+        ids: [item.id],
+        existingFiles: betterFiles,
+      });
+    }
+
+    return acc;
+  }, []);
+}
+
+export function getInteractiveImportConflictTitle(
+  type: InteractiveImportConflictType
+) {
+  return conflictTitles[type]();
+}
+
+export function getOverlappingIds(
+  items: InteractiveImport[],
+  conflict: InteractiveImportConflict,
+  keepId: number
+) {
+  const keepItem = items.find((item) => item.id === keepId);
+  const keepEpisodeIds = keepItem ? getEpisodeIds(keepItem) : [];
+
+  return conflict.ids.filter((id) => {
+    const item = items.find((i) => i.id === id);
+
+    return (
+      id !== keepId &&
+      !!item &&
+      getEpisodeIds(item).some((episodeId) =>
+        keepEpisodeIds.includes(episodeId)
+      )
+    );
+  });
+}
+
+function getInteractiveImportConflicts(
+  items: InteractiveImport[],
+  existingFiles: EpisodeFile[],
+  qualityProfiles: QualityProfile[]
+) {
+  return [
+    ...getOverlapConflicts(items, qualityProfiles),
+    ...getDowngradeConflicts(items, existingFiles, qualityProfiles),
+  ];
+}
+
+export default getInteractiveImportConflicts;
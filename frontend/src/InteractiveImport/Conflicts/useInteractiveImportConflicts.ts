@@ -0,0 +1,68 @@
+import { uniq } from 'lodash';
+import { useEffect, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { createSelector } from 'reselect';
+import AppState from 'App/State/AppState';
+import InteractiveImport from 'InteractiveImport/InteractiveImport';
+import { fetchInteractiveImportExistingFiles } from 'Store/Actions/interactiveImportActions';
+import getInteractiveImportConflicts from './getInteractiveImportConflicts';
+
+const conflictSourcesSelector = createSelector(
+  (state: AppState) => state.interactiveImport.existingFiles.items,
+  (state: AppState) => state.settings.qualityProfiles.items,
+  (existingFiles, qualityProfiles) => {
+    return {
+      existingFiles,
+      qualityProfiles,
+    };
+  }
+);
+
+function useInteractiveImportConflicts(
+  items: InteractiveImport[],
+  selectedIds: number[]
+) {
+  const dispatch = useDispatch();
+  const { existingFiles, qualityProfiles } = useSelector(
+    conflictSourcesSelector
+  );
+
+  // A string key keeps reprocessed rows from refetching the same files
+  const episodeFileIdsKey = useMemo(() => {
+    const episodeFileIds = items.reduce((acc: number[], item) => {
+      (item.episodes || []).forEach((episode) => {
+        if (episode.episodeFileId) {
+          acc.push(episode.episodeFileId);
+        }
+      });
+
+      return acc;
+    }, []);
+
+    return uniq(episodeFileIds)
+      .sort((a, b) => a - b)
+      .join(',');
+  }, [items]);
+
+  useEffect(() => {
+    if (episodeFileIdsKey) {
+      dispatch(
+        fetchInteractiveImportExistingFiles({
+          episodeFileIds: episodeFileIdsKey.split(',').map(Number),
+        })
+      );
+    }
+  }, [episodeFileIdsKey, dispatch]);
+
+  return useMemo(() => {
+    const selectedItems = items.filter((item) => selectedIds.includes(item.id));
+
+    return getInteractiveImportConflicts(
+      selectedItems,
+      existingFiles,
+      qualityProfiles
+    );
+  }, [items, selectedIds, existingFiles, qualityProfiles]);
+}
+
+export default useInteractiveImportConflicts;
@@ -10,6 +10,7 @@ interface CssExports {
   'importMode': string;
   'leftButtons': string;
   'rightButtons': string;
+  'rulesButton': string;
 }
 export const cssExports: CssExports;
 export default cssExports;
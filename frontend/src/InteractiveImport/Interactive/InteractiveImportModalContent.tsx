@@ -7,6 +7,7 @@ import InteractiveImportAppState from 'App/State/InteractiveImportAppState';
 import * as commandNames from 'Commands/commandNames';
 import SelectInput from 'Components/Form/SelectInput';
 import Icon from 'Components/Icon';
+import keyboardShortcuts, { shortcuts } from 'Components/keyboardShortcuts';
 import Button from 'Components/Link/Button';
 import SpinnerButton from 'Components/Link/SpinnerButton';
 import LoadingIndicator from 'Components/Loading/LoadingIndicator';
@@ -26,6 +27,9 @@ import { EpisodeFile } from 'EpisodeFile/EpisodeFile';
 import usePrevious from 'Helpers/Hooks/usePrevious';
 import useSelectState from 'Helpers/Hooks/useSelectState';
 import { align, icons, kinds, scrollDirections } from 'Helpers/Props';
+import { getInteractiveImportConflictTitle } from 'InteractiveImport/Conflicts/getInteractiveImportConflicts';
+import InteractiveImportConflicts from 'InteractiveImport/Conflicts/InteractiveImportConflicts';
+import useInteractiveImportConflicts from 'InteractiveImport/Conflicts/useInteractiveImportConflicts';
 import SelectEpisodeModal from 'InteractiveImport/Episode/SelectEpisodeModal';
 import { SelectedEpisode } from 'InteractiveImport/Episode/SelectEpisodeModalContent';
 import ImportMode from 'InteractiveImport/ImportMode';
@@ -33,8 +37,10 @@ import InteractiveImport, {
   InteractiveImportCommandOptions,
 } from 'InteractiveImport/InteractiveImport';
 import SelectLanguageModal from 'InteractiveImport/Language/SelectLanguageModal';
+import InteractiveImportPreviewModal from 'InteractiveImport/Preview/InteractiveImportPreviewModal';
 import SelectQualityModal from 'InteractiveImport/Quality/SelectQualityModal';
 import SelectReleaseGroupModal from 'InteractiveImport/ReleaseGroup/SelectReleaseGroupModal';
+import InteractiveImportRules from 'InteractiveImport/Rules/InteractiveImportRules';
 import SelectSeasonModal from 'InteractiveImport/Season/SelectSeasonModal';
 import SelectSeriesModal from 'InteractiveImport/Series/SelectSeriesModal';
 import Language from 'Language/Language';
@@ -61,7 +67,9 @@ import getErrorMessage from 'Utilities/Object/getErrorMessage';
 import hasDifferentItems from 'Utilities/Object/hasDifferentItems';
 import translate from 'Utilities/String/translate';
 import getSelectedIds from 'Utilities/Table/getSelectedIds';
-import InteractiveImportRow from './InteractiveImportRow';
+import InteractiveImportRow, {
+  SelectType as RowSelectType,
+} from './InteractiveImportRow';
 import styles from './InteractiveImportModalContent.css';
 
 type SelectType =
@@ -75,6 +83,11 @@ type SelectType =
 
 type FilterExistingFiles = 'all' | 'new';
 
+interface FocusedCell {
+  id: number;
+  column: string;
+}
+
 // TODO: This feels janky to do, but not sure of a better way currently
 type OnSelectedChangeCallback = React.ComponentProps<
   typeof InteractiveImportRow
@@ -146,12 +159,56 @@ const COLUMNS = [
   },
 ];
 
+// Editable columns in the order they're navigated with the keyboard
+const KEYBOARD_COLUMNS: {
+  name: string;
+  selectType: RowSelectType;
+  shortcut: { key: string };
+}[] = [
+  {
+    name: 'series',
+    selectType: 'series',
+    shortcut: shortcuts.INTERACTIVE_IMPORT_SELECT_SERIES,
+  },
+  {
+    name: 'season',
+    selectType: 'season',
+    shortcut: shortcuts.INTERACTIVE_IMPORT_SELECT_SEASON,
+  },
+  {
+    name: 'episodes',
+    selectType: 'episode',
+    shortcut: shortcuts.INTERACTIVE_IMPORT_SELECT_EPISODE,
+  },
+  {
+    name: 'releaseGroup',
+    selectType: 'releaseGroup',
+    shortcut: shortcuts.INTERACTIVE_IMPORT_SELECT_RELEASE_GROUP,
+  },
+  {
+    name: 'quality',
+    selectType: 'quality',
+    shortcut: shortcuts.INTERACTIVE_IMPORT_SELECT_QUALITY,
+  },
+  {
+    name: 'languages',
+    selectType: 'language',
+    shortcut: shortcuts.INTERACTIVE_IMPORT_SELECT_LANGUAGE,
+  },
+];
+
 const importModeOptions = [
   { key: 'chooseImportMode', value: 'Choose Import Mode', disabled: true },
   { key: 'move', value: 'Move Files' },
   { key: 'copy', value: 'Hardlink/Copy Files' },
 ];
 
+function isInteractiveElementFocused() {
+  const activeElement = document.activeElement;
+
+  return !!activeElement && !!activeElement.closest('a, button');
+}
+
 function isSameEpisodeFile(
   file: InteractiveImport,
   originalFile?: InteractiveImport
@@ -207,6 +264,12 @@ interface InteractiveImportModalContentProps {
   initialSortKey?: string;
   initialSortDirection?: string;
   modalTitle: string;
+  bindShortcut(
+    key: string,
+    callback: (event: KeyboardEvent) => boolean | void,
+    options?: { isGlobal?: boolean }
+  ): void;
+  unbindShortcut(key: string): void;
   onModalClose(): void;
 }
 
@@ -227,6 +290,8 @@ function InteractiveImportModalContent(
     initialSortKey,
     initialSortDirection,
     modalTitle,
+    bindShortcut,
+    unbindShortcut,
     onModalClose,
   } = props;
 
@@ -256,6 +321,15 @@ function InteractiveImportModalContent(
   const [isConfirmDeleteModalOpen, setIsConfirmDeleteModalOpen] =
     useState(false);
   const [filterExistingFiles, setFilterExistingFiles] = useState(false);
+  const [isRulesVisible, setIsRulesVisible] = useState(false);
+  const [focusedCell, setFocusedCell] = useState<FocusedCell | null>(null);
+  const [pendingSelectModal, setPendingSelectModal] =
+    useState<RowSelectType | null>(null);
+  const [isRowSelectModalOpen, setIsRowSelectModalOpen] = useState(false);
+  const [isRulesSelectModalOpen, setIsRulesSelectModalOpen] = useState(false);
+  const [previewFiles, setPreviewFiles] = useState<
+    InteractiveImportCommandOptions[] | null
+  >(null);
   const [interactiveImportErrorMessage, setInteractiveImportErrorMessage] =
     useState<string | null>(null);
   const [selectState, setSelectState] = useSelectState();
@@ -285,10 +359,33 @@ function InteractiveImportModalContent(
     return result;
   }, [showSeries]);
 
+  const keyboardColumns = useMemo(() => {
+    return KEYBOARD_COLUMNS.filter((keyboardColumn) => {
+      return (
+        columns.find((c) => c.name === keyboardColumn.name)?.isVisible ?? false
+      );
+    });
+  }, [columns]);
+
   const selectedIds: number[] = useMemo(() => {
     return getSelectedIds(selectedState);
   }, [selectedState]);
 
+  const conflicts = useInteractiveImportConflicts(items, selectedIds);
+
+  const conflictMessages = useMemo(() => {
+    return conflicts.reduce((acc: Record<number, string[]>, conflict) => {
+      conflict.ids.forEach((id) => {
+        acc[id] = [
+          ...(acc[id] ?? []),
+          getInteractiveImportConflictTitle(conflict.type),
+        ];
+      });
+
+      return acc;
+    }, {});
+  }, [conflicts]);
+
   useEffect(
     () => {
       if (allowSeriesChange) {
@@ -370,6 +467,30 @@ function InteractiveImportModalContent(
     ]
   );
 
+  const onConflictDeselect = useCallback(
+    (ids: number[]) => {
+      ids.forEach((id) => {
+        setSelectState({
+          type: 'toggleSelected',
+          items,
+          id,
+          isSelected: false,
+          shiftKey: false,
+        });
+      });
+
+      setWithoutEpisodeFileIdRowsSelected(
+        without(withoutEpisodeFileIdRowsSelected, ...ids)
+      );
+    },
+    [
+      items,
+      withoutEpisodeFileIdRowsSelected,
+      setSelectState,
+      setWithoutEpisodeFileIdRowsSelected,
+    ]
+  );
+
   const onValidRowChange = useCallback(
     (id: number, isValid: boolean) => {
       if (isValid && invalidRowsSelected.includes(id)) {
@@ -381,6 +502,144 @@ function InteractiveImportModalContent(
     [invalidRowsSelected, setInvalidRowsSelected]
   );
 
+  const onPendingSelectModalHandled = useCallback(() => {
+    setPendingSelectModal(null);
+  }, [setPendingSelectModal]);
+
+  const moveFocus = useCallback(
+    (rowOffset: number, columnOffset: number) => {
+      if (!items.length || !keyboardColumns.length) {
+        return;
+      }
+
+      if (!focusedCell) {
+        setFocusedCell({ id: items[0].id, column: keyboardColumns[0].name });
+        return;
+      }
+
+      const rowIndex = Math.max(
+        items.findIndex((item) => item.id === focusedCell.id),
+        0
+      );
+      const columnIndex = Math.max(
+        keyboardColumns.findIndex((c) => c.name === focusedCell.column),
+        0
+      );
+
+      const nextRowIndex = Math.min(
+        Math.max(rowIndex + rowOffset, 0),
+        items.length - 1
+      );
+      const nextColumnIndex = Math.min(
+        Math.max(columnIndex + columnOffset, 0),
+        keyboardColumns.length - 1
+      );
+
+      setFocusedCell({
+        id: items[nextRowIndex].id,
+        column: keyboardColumns[nextColumnIndex].name,
+      });
+    },
+    [items, keyboardColumns, focusedCell, setFocusedCell]
+  );
+
+  const toggleFocusedRow = useCallback(
+    (shiftKey: boolean) => {
+      const item = focusedCell
+        ? items.find((i) => i.id === focusedCell.id)
+        : undefined;
+
+      if (item) {
+        onSelectedChange({
+          id: item.id,
+          value: !selectedState[item.id],
+          hasEpisodeFileId: !!item.episodeFileId,
+          shiftKey,
+        });
+      }
+    },
+    [items, focusedCell, selectedState, onSelectedChange]
+  );
+
+  const openFocusedSelectModal = useCallback(
+    (column: string) => {
+      const keyboardColumn = keyboardColumns.find((c) => c.name === column);
+
+      if (focusedCell && keyboardColumn) {
+        setFocusedCell({ id: focusedCell.id, column });
+        setPendingSelectModal(keyboardColumn.selectType);
+      }
+    },
+    [keyboardColumns, focusedCell, setFocusedCell, setPendingSelectModal]
+  );
+
+  const isKeyboardNavigationEnabled =
+    isPopulated &&
+    !isFetching &&
+    !!items.length &&
+    !selectModalOpen &&
+    !previewFiles &&
+    !isConfirmDeleteModalOpen &&
+    !isRowSelectModalOpen &&
+    !isRulesSelectModalOpen;
+
+  useEffect(() => {
+    if (!isKeyboardNavigationEnabled) {
+      return;
+    }
+
+    const bindings: Record<string, () => void> = {
+      [shortcuts.INTERACTIVE_IMPORT_PREVIOUS_ROW.key]: () => moveFocus(-1, 0),
+      [shortcuts.INTERACTIVE_IMPORT_NEXT_ROW.key]: () => moveFocus(1, 0),
+      [shortcuts.INTERACTIVE_IMPORT_PREVIOUS_CELL.key]: () => moveFocus(0, -1),
+      [shortcuts.INTERACTIVE_IMPORT_NEXT_CELL.key]: () => moveFocus(0, 1),
+      [shortcuts.INTERACTIVE_IMPORT_TOGGLE_SELECTED.key]: () =>
+        toggleFocusedRow(false),
+      [shortcuts.INTERACTIVE_IMPORT_TOGGLE_SELECTED_RANGE.key]: () =>
+        toggleFocusedRow(true),
+      [shortcuts.INTERACTIVE_IMPORT_EDIT_CELL.key]: () => {
+        if (focusedCell) {
+          openFocusedSelectModal(focusedCell.column);
+        }
+      },
+    };
+
+    // Letter shortcuts open the picker for their column in the focused row
+    KEYBOARD_COLUMNS.forEach(({ name, shortcut }) => {
+      bindings[shortcut.key] = () => openFocusedSelectModal(name);
+    });
+
+    Object.keys(bindings).forEach((key) => {
+      bindShortcut(key, () => {
+        // Leave the key to the browser when a button or link has focus
+        // so it can still be pressed with enter or space.
+        if (isInteractiveElementFocused()) {
+          return true;
+        }
+
+        bindings[key]();
+
+        // Only stop the browser from scrolling the modal while a cell
+        // has focus, otherwise the first arrow key just focuses the grid.
+        return !focusedCell;
+      });
+    });
+
+    return () => {
+      Object.keys(bindings).forEach((key) => {
+        unbindShortcut(key);
+      });
+    };
+  }, [
+    isKeyboardNavigationEnabled,
+    focusedCell,
+    moveFocus,
+    toggleFocusedRow,
+    openFocusedSelectModal,
+    bindShortcut,
+    unbindShortcut,
+  ]);
+
   const onDeleteSelectedPress = useCallback(() => {
     setIsConfirmDeleteModalOpen(true);
   }, [setIsConfirmDeleteModalOpen]);
@@ -403,18 +662,10 @@ function InteractiveImportModalContent(
     setIsConfirmDeleteModalOpen(false);
   }, [setIsConfirmDeleteModalOpen]);
 
-  const onImportSelectedPress = useCallback(() => {
-    const finalImportMode = downloadId || !showImportMode ? 'auto' : importMode;
-
+  const getImportFiles = useCallback(() => {
     const existingFiles: Partial<EpisodeFile>[] = [];
     const files: InteractiveImportCommandOptions[] = [];
 
-    if (finalImportMode === 'chooseImportMode') {
-      setInteractiveImportErrorMessage('An import mode must be selected');
-
-      return;
-    }
-
     items.forEach((item) => {
       const isSelected = selectedIds.indexOf(item.id) > -1;
 
@@ -495,6 +746,20 @@ function InteractiveImportModalContent(
       }
     });
 
+    return { existingFiles, files };
+  }, [downloadId, items, originalItems, selectedIds]);
+
+  const onImportSelectedPress = useCallback(() => {
+    const finalImportMode = downloadId || !showImportMode ? 'auto' : importMode;
+
+    if (finalImportMode === 'chooseImportMode') {
+      setInteractiveImportErrorMessage('An import mode must be selected');
+
+      return;
+    }
+
+    const { existingFiles, files } = getImportFiles();
+
     let shouldClose = false;
 
     if (existingFiles.length) {
@@ -526,13 +791,24 @@ function InteractiveImportModalContent(
     downloadId,
     showImportMode,
     importMode,
-    items,
-    originalItems,
-    selectedIds,
+    getImportFiles,
     onModalClose,
     dispatch,
   ]);
 
+  const onPreviewPress = useCallback(() => {
+    setPreviewFiles(getImportFiles().files);
+  }, [getImportFiles, setPreviewFiles]);
+
+  const onPreviewModalClose = useCallback(() => {
+    setPreviewFiles(null);
+  }, [setPreviewFiles]);
+
+  const onPreviewImportPress = useCallback(() => {
+    setPreviewFiles(null);
+    onImportSelectedPress();
+  }, [onImportSelectedPress, setPreviewFiles]);
+
   const onSortPress = useCallback<SortCallback>(
     (sortKey, sortDirection) => {
       dispatch(setInteractiveImportSort({ sortKey, sortDirection }));
@@ -578,6 +854,10 @@ function InteractiveImportModalContent(
     [setSelectModalOpen]
   );
 
+  const onRulesPress = useCallback(() => {
+    setIsRulesVisible(!isRulesVisible);
+  }, [isRulesVisible, setIsRulesVisible]);
+
   const onSelectModalClose = useCallback(() => {
     setSelectModalOpen(null);
   }, [setSelectModalOpen]);
@@ -741,6 +1021,22 @@ function InteractiveImportModalContent(
           </div>
         )}
 
+        {isRulesVisible && isPopulated && !!items.length ? (
+          <InteractiveImportRules
+            items={items}
+            modalTitle={modalTitle}
+            onSelectModalOpenChange={setIsRulesSelectModalOpen}
+          />
+        ) : null}
+
+        {isPopulated && !isFetching ? (
+          <InteractiveImportConflicts
+            conflicts={conflicts}
+            items={items}
+            onDeselect={onConflictDeselect}
+          />
+        ) : null}
+
         {isFetching ? <LoadingIndicator /> : null}
 
         {error ? <div>{errorMessage}</div> : null}
@@ -759,6 +1055,8 @@ function InteractiveImportModalContent(
           >
             <TableBody>
               {items.map((item) => {
+                const isFocused = focusedCell?.id === item.id;
+
                 return (
                   <InteractiveImportRow
                     key={item.id}
@@ -766,9 +1064,14 @@ function InteractiveImportModalContent(
                     {...item}
                     allowSeriesChange={allowSeriesChange}
                     columns={columns}
+                    conflicts={conflictMessages[item.id]}
                     modalTitle={modalTitle}
+                    focusedColumn={isFocused ? focusedCell?.column : undefined}
+                    pendingSelectModal={isFocused ? pendingSelectModal : null}
                     onSelectedChange={onSelectedChange}
                     onValidRowChange={onValidRowChange}
+                    onPendingSelectModalHandled={onPendingSelectModalHandled}
+                    onSelectModalOpenChange={setIsRowSelectModalOpen}
                   />
                 );
               })}
@@ -815,6 +1118,16 @@ function InteractiveImportModalContent(
             isDisabled={!selectedIds.length}
             onChange={onSelectModalSelect}
           />
+
+          <Button
+            className={styles.rulesButton}
+            isDisabled={!items.length}
+            onPress={onRulesPress}
+          >
+            {isRulesVisible
+              ? translate('HideRules')
+              : translate('InteractiveImportRules')}
+          </Button>
         </div>
 
         <div className={styles.rightButtons}>
@@ -826,6 +1139,13 @@ function InteractiveImportModalContent(
             </span>
           )}
 
+          <Button
+            isDisabled={!selectedIds.length || !!invalidRowsSelected.length}
+            onPress={onPreviewPress}
+          >
+            {translate('Preview')}
+          </Button>
+
           <Button
             kind={kinds.SUCCESS}
             isDisabled={!selectedIds.length || !!invalidRowsSelected.length}
@@ -888,6 +1208,14 @@ function InteractiveImportModalContent(
         onModalClose={onSelectModalClose}
       />
 
+      <InteractiveImportPreviewModal
+        isOpen={!!previewFiles}
+        files={previewFiles ?? []}
+        modalTitle={modalTitle}
+        onImportPress={onPreviewImportPress}
+        onModalClose={onPreviewModalClose}
+      />
+
       <ConfirmModal
         isOpen={isConfirmDeleteModalOpen}
         kind={kinds.DANGER}
@@ -901,4 +1229,4 @@ function InteractiveImportModalContent(
   );
 }
 
-export default InteractiveImportModalContent;
+export default keyboardShortcuts(InteractiveImportModalContent);
@@ -1,12 +1,16 @@
 // This file is automatically generated.
 // Please do not change this file!
 interface CssExports {
+  'cell': string;
   'customFormatTooltip': string;
+  'focusedCell': string;
+  'focusedRow': string;
   'label': string;
   'languages': string;
   'quality': string;
   'relativePath': string;
   'reprocessing': string;
+  'row': string;
 }
 export const cssExports: CssExports;
 export default cssExports;
@@ -1,3 +1,4 @@
+import classNames from 'classnames';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useDispatch } from 'react-redux';
 import Icon from 'Components/Icon';
@@ -29,13 +30,14 @@ import {
 } from 'Store/Actions/interactiveImportActions';
 import { SelectStateInputProps } from 'typings/props';
 import Rejection from 'typings/Rejection';
+import getUniqueElementId from 'Utilities/getUniqueElementId';
 import formatBytes from 'Utilities/Number/formatBytes';
 import formatCustomFormatScore from 'Utilities/Number/formatCustomFormatScore';
 import translate from 'Utilities/String/translate';
 import InteractiveImportRowCellPlaceholder from './InteractiveImportRowCellPlaceholder';
 import styles from './InteractiveImportRow.css';
 
-type SelectType =
+export type SelectType =
   | 'series'
   | 'season'
   | 'episode'
@@ -61,13 +63,18 @@ interface InteractiveImportRowProps {
   customFormats?: object[];
   customFormatScore?: number;
   rejections: Rejection[];
+  conflicts?: string[];
   columns: Column[];
   episodeFileId?: number;
   isReprocessing?: boolean;
   isSelected?: boolean;
   modalTitle: string;
+  focusedColumn?: string;
+  pendingSelectModal?: SelectType | null;
   onSelectedChange(result: SelectedChangeProps): void;
   onValidRowChange(id: number, isValid: boolean): void;
+  onPendingSelectModalHandled?(): void;
+  onSelectModalOpenChange?(isOpen: boolean): void;
 }
 
 function InteractiveImportRow(props: InteractiveImportRowProps) {
@@ -85,16 +92,23 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
     customFormats,
     customFormatScore,
     rejections,
+    conflicts,
     isReprocessing,
     isSelected,
     modalTitle,
     episodeFileId,
     columns,
+    focusedColumn,
+    pendingSelectModal,
     onSelectedChange,
     onValidRowChange,
+    onPendingSelectModalHandled,
+    onSelectModalOpenChange,
   } = props;
 
   const dispatch = useDispatch();
+  const rowId = useMemo(() => getUniqueElementId(), []);
+  const isFocused = !!focusedColumn;
 
   const isSeriesColumnVisible = useMemo(
     () => columns.find((c) => c.name === 'series')?.isVisible ?? false,
@@ -105,6 +119,50 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
     null
   );
 
+  useEffect(() => {
+    if (isFocused) {
+      document.getElementById(rowId)?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [rowId, isFocused]);
+
+  useEffect(() => {
+    if (!selectModalOpen) {
+      return;
+    }
+
+    onSelectModalOpenChange?.(true);
+
+    return () => {
+      onSelectModalOpenChange?.(false);
+    };
+  }, [selectModalOpen, onSelectModalOpenChange]);
+
+  useEffect(() => {
+    if (!pendingSelectModal) {
+      return;
+    }
+
+    // Mirror the disabled state of the cell buttons so shortcuts
+    // can't open a picker that can't be used with a mouse either
+    const isAllowed =
+      (pendingSelectModal !== 'series' || allowSeriesChange) &&
+      (pendingSelectModal !== 'season' || !!series) &&
+      (pendingSelectModal !== 'episode' ||
+        (!!series && !isNaN(Number(seasonNumber))));
+
+    if (isAllowed) {
+      setSelectModalOpen(pendingSelectModal);
+    }
+
+    onPendingSelectModalHandled?.();
+  }, [
+    pendingSelectModal,
+    allowSeriesChange,
+    series,
+    seasonNumber,
+    onPendingSelectModalHandled,
+  ]);
+
   useEffect(
     () => {
       if (
@@ -323,6 +381,13 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
     );
   });
 
+  const getCellClassName = (column: string, className = styles.cell) => {
+    return classNames(
+      className,
+      column === focusedColumn && styles.focusedCell
+    );
+  };
+
   const requiresSeasonNumber = isNaN(Number(seasonNumber));
   const showSeriesPlaceholder = isSelected && !series;
   const showSeasonNumberPlaceholder =
@@ -334,7 +399,7 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
   const showLanguagePlaceholder = isSelected && !languages;
 
   return (
-    <TableRow>
+    <TableRow id={rowId} className={isFocused ? styles.focusedRow : styles.row}>
       <TableSelectCell
         id={id}
         isSelected={isSelected}
@@ -347,6 +412,7 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
 
       {isSeriesColumnVisible ? (
         <TableRowCellButton
+          className={getCellClassName('series')}
           isDisabled={!allowSeriesChange}
           title={allowSeriesChange ? 'Click to change series' : undefined}
           onPress={onSelectSeriesPress}
@@ -360,6 +426,7 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
       ) : null}
 
       <TableRowCellButton
+        className={getCellClassName('season')}
         isDisabled={!series}
         title={series ? 'Click to change season' : undefined}
         onPress={onSelectSeasonPress}
@@ -376,6 +443,7 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
       </TableRowCellButton>
 
       <TableRowCellButton
+        className={getCellClassName('episodes')}
         isDisabled={!series || requiresSeasonNumber}
         title={
           series && !requiresSeasonNumber
@@ -392,6 +460,7 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
       </TableRowCellButton>
 
       <TableRowCellButton
+        className={getCellClassName('releaseGroup')}
         title="Click to change release group"
         onPress={onSelectReleaseGroupPress}
       >
@@ -403,7 +472,7 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
       </TableRowCellButton>
 
       <TableRowCellButton
-        className={styles.quality}
+        className={getCellClassName('quality', styles.quality)}
         title="Click to change quality"
         onPress={onSelectQualityPress}
       >
@@ -415,7 +484,7 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
       </TableRowCellButton>
 
       <TableRowCellButton
-        className={styles.languages}
+        className={getCellClassName('languages', styles.languages)}
         title="Click to change language"
         onPress={onSelectLanguagePress}
       >
@@ -447,6 +516,22 @@ function InteractiveImportRow(props: InteractiveImportRowProps) {
       </TableRowCell>
 
       <TableRowCell>
+        {conflicts?.length ? (
+          <Popover
+            anchor={<Icon name={icons.WARNING} kind={kinds.WARNING} />}
+            title={translate('Conflicts')}
+            body={
+              <ul>
+                {conflicts.map((conflict) => {
+                  return <li key={conflict}>{conflict}</li>;
+                })}
+              </ul>
+            }
+            position={tooltipPositions.LEFT}
+            canFlip={false}
+          />
+        ) : null}
+
         {rejections.length ? (
           <Popover
             anchor={<Icon name={icons.DANGER} kind={kinds.DANGER} />}
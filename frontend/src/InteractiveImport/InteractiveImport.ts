@@ -17,6 +17,15 @@ export interface InteractiveImportCommandOptions {
   episodeFileId?: number;
 }
 
+export interface InteractiveImportPreview {
+  path: string;
+  seriesId: number;
+  episodeIds: number[];
+  destinationPath?: string;
+  existingFilePaths: string[];
+  error?: string;
+}
+
 interface InteractiveImport extends ModelBase {
   path: string;
   relativePath: string;
@@ -31,6 +40,7 @@ interface InteractiveImport extends ModelBase {
   episodes: Episode[];
   qualityWeight: number;
   customFormats: object[];
+  customFormatScore: number;
   rejections: Rejection[];
   episodeFileId?: number;
 }
@@ -0,0 +1,32 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import { sizes } from 'Helpers/Props';
+import { InteractiveImportCommandOptions } from 'InteractiveImport/InteractiveImport';
+import InteractiveImportPreviewModalContent from './InteractiveImportPreviewModalContent';
+
+interface InteractiveImportPreviewModalProps {
+  isOpen: boolean;
+  files: InteractiveImportCommandOptions[];
+  modalTitle: string;
+  onImportPress(): void;
+  onModalClose(): void;
+}
+
+function InteractiveImportPreviewModal(
+  props: InteractiveImportPreviewModalProps
+) {
+  const { isOpen, files, modalTitle, onImportPress, onModalClose } = props;
+
+  return (
+    <Modal isOpen={isOpen} size={sizes.EXTRA_LARGE} onModalClose={onModalClose}>
+      <InteractiveImportPreviewModalContent
+        files={files}
+        modalTitle={modalTitle}
+        onImportPress={onImportPress}
+        onModalClose={onModalClose}
+      />
+    </Modal>
+  );
+}
+
+export default InteractiveImportPreviewModal;
@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { createSelector } from 'reselect';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import Button from 'Components/Link/Button';
+import LoadingIndicator from 'Components/Loading/LoadingIndicator';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import Table from 'Components/Table/Table';
+import TableBody from 'Components/Table/TableBody';
+import { kinds, scrollDirections } from 'Helpers/Props';
+import { InteractiveImportCommandOptions } from 'InteractiveImport/InteractiveImport';
+import {
+  clearInteractiveImportPreview,
+  fetchInteractiveImportPreview,
+} from 'Store/Actions/interactiveImportActions';
+import { fetchNamingSettings } from 'Store/Actions/settingsActions';
+import getErrorMessage from 'Utilities/Object/getErrorMessage';
+import translate from 'Utilities/String/translate';
+import InteractiveImportPreviewRow from './InteractiveImportPreviewRow';
+
+const COLUMNS = [
+  {
+    name: 'sourcePath',
+    label: () => translate('SourcePath'),
+    isVisible: true,
+  },
+  {
+    name: 'destinationPath',
+    label: () => translate('DestinationPath'),
+    isVisible: true,
+  },
+  {
+    name: 'existingFiles',
+    label: () => translate('Replaces'),
+    isVisible: true,
+  },
+];
+
+function createInteractiveImportPreviewSelector() {
+  return createSelector(
+    (state: AppState) => state.interactiveImport.preview,
+    (state: AppState) => state.settings.naming,
+    (preview, naming) => {
+      return {
+        isFetching: preview.isFetching || naming.isFetching,
+        isPopulated: preview.isPopulated && naming.isPopulated,
+        error: preview.error || naming.error,
+        items: preview.items,
+        renameEpisodes: naming.item.renameEpisodes,
+      };
+    }
+  );
+}
+
+interface InteractiveImportPreviewModalContentProps {
+  files: InteractiveImportCommandOptions[];
+  modalTitle: string;
+  onImportPress(): void;
+  onModalClose(): void;
+}
+
+function InteractiveImportPreviewModalContent(
+  props: InteractiveImportPreviewModalContentProps
+) {
+  const { files, modalTitle, onImportPress, onModalClose } = props;
+
+  const { isFetching, isPopulated, error, items, renameEpisodes } = useSelector(
+    createInteractiveImportPreviewSelector()
+  );
+
+  const dispatch = useDispatch();
+
+  const collisionPaths = useMemo(() => {
+    const counts = items.reduce((acc: Record<string, number>, item) => {
+      if (item.destinationPath) {
+        const key = item.destinationPath.toLowerCase();
+
+        acc[key] = (acc[key] ?? 0) + 1;
+      }
+
+      return acc;
+    }, {});
+
+    return Object.keys(counts).filter((key) => counts[key] > 1);
+  }, [items]);
+
+  useEffect(() => {
+    dispatch(fetchInteractiveImportPreview({ files }));
+    dispatch(fetchNamingSettings());
+
+    return () => {
+      dispatch(clearInteractiveImportPreview());
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>
+        {modalTitle} - {translate('ImportPreview')}
+      </ModalHeader>
+
+      <ModalBody scrollDirection={scrollDirections.BOTH}>
+        {isFetching ? <LoadingIndicator /> : null}
+
+        {!isFetching && error ? (
+          <Alert kind={kinds.DANGER}>
+            {getErrorMessage(error, translate('ImportPreviewLoadError'))}
+          </Alert>
+        ) : null}
+
+        {!isFetching && isPopulated ? (
+          <div>
+            {renameEpisodes ? null : (
+              <Alert kind={kinds.INFO}>
+                {translate('ImportPreviewRenamingDisabled')}
+              </Alert>
+            )}
+
+            {collisionPaths.length ? (
+              <Alert kind={kinds.DANGER}>
+                {translate('ImportPreviewCollisions', {
+                  count: collisionPaths.length,
+                })}
+              </Alert>
+            ) : null}
+
+            <Table columns={COLUMNS} horizontalScroll={true}>
+              <TableBody>
+                {items.map((item) => {
+                  return (
+                    <InteractiveImportPreviewRow
+                      key={item.path}
+                      {...item}
+                      isCollision={
+                        !!item.destinationPath &&
+                        collisionPaths.includes(
+                          item.destinationPath.toLowerCase()
+                        )
+                      }
+                    />
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ) : null}
+      </ModalBody>
+
+      <ModalFooter>
+        <Button onPress={onModalClose}>{translate('Cancel')}</Button>
+
+        <Button
+          kind={kinds.SUCCESS}
+          isDisabled={!isPopulated}
+          onPress={onImportPress}
+        >
+          {translate('Import')}
+        </Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default InteractiveImportPreviewModalContent;
@@ -0,0 +1,10 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'collision': string;
+  'collisionIcon': string;
+  'error': string;
+  'path': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
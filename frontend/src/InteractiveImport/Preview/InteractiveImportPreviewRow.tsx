@@ -0,0 +1,52 @@
+import classNames from 'classnames';
+import React from 'react';
+import Icon from 'Components/Icon';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import TableRow from 'Components/Table/TableRow';
+import { icons, kinds } from 'Helpers/Props';
+import translate from 'Utilities/String/translate';
+import styles from './InteractiveImportPreviewRow.css';
+
+interface InteractiveImportPreviewRowProps {
+  path: string;
+  destinationPath?: string;
+  existingFilePaths: string[];
+  error?: string;
+  isCollision: boolean;
+}
+
+function InteractiveImportPreviewRow(props: InteractiveImportPreviewRowProps) {
+  const { path, destinationPath, existingFilePaths, error, isCollision } =
+    props;
+
+  return (
+    <TableRow>
+      <TableRowCell className={styles.path}>{path}</TableRowCell>
+
+      <TableRowCell
+        className={classNames(styles.path, isCollision && styles.collision)}
+      >
+        {isCollision ? (
+          <Icon
+            className={styles.collisionIcon}
+            name={icons.WARNING}
+            kind={kinds.DANGER}
+            title={translate('ImportPreviewCollision')}
+          />
+        ) : null}
+
+        {destinationPath}
+
+        {error ? <div className={styles.error}>{error}</div> : null}
+      </TableRowCell>
+
+      <TableRowCell className={styles.path}>
+        {existingFilePaths.map((existingFilePath) => {
+          return <div key={existingFilePath}>{existingFilePath}</div>;
+        })}
+      </TableRowCell>
+    </TableRow>
+  );
+}
+
+export default InteractiveImportPreviewRow;
@@ -0,0 +1,11 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'error': string;
+  'from': string;
+  'label': string;
+  'noChanges': string;
+  'relativePath': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,104 @@
+import React from 'react';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import TableRow from 'Components/Table/TableRow';
+import InteractiveImport from 'InteractiveImport/InteractiveImport';
+import translate from 'Utilities/String/translate';
+import { InteractiveImportRuleMatch } from './getInteractiveImportRuleMatches';
+import styles from './InteractiveImportRulePreviewRow.css';
+
+interface InteractiveImportRulePreviewRowProps {
+  match: InteractiveImportRuleMatch;
+  item: InteractiveImport;
+}
+
+function InteractiveImportRulePreviewRow(
+  props: InteractiveImportRulePreviewRowProps
+) {
+  const { match, item } = props;
+  const { relativePath, changes, errors } = match;
+
+  const descriptions = [];
+
+  if (changes.series) {
+    descriptions.push({
+      label: translate('Series'),
+      from: item.series?.title,
+      to: changes.series.title,
+    });
+  }
+
+  if (changes.seasonNumber != null) {
+    descriptions.push({
+      label: translate('Season'),
+      from: item.seasonNumber,
+      to: changes.seasonNumber,
+    });
+  }
+
+  if (changes.episodeNumbers) {
+    descriptions.push({
+      label: translate('Episodes'),
+      from: (item.episodes || []).map((e) => e.episodeNumber).join(', '),
+      to: changes.episodeNumbers.join(', '),
+    });
+  }
+
+  if (changes.releaseGroup) {
+    descriptions.push({
+      label: translate('ReleaseGroup'),
+      from: item.releaseGroup,
+      to: changes.releaseGroup,
+    });
+  }
+
+  if (changes.quality) {
+    descriptions.push({
+      label: translate('Quality'),
+      from: item.quality?.quality.name,
+      to: changes.quality.quality.name,
+    });
+  }
+
+  if (changes.languages) {
+    descriptions.push({
+      label: translate('Languages'),
+      from: (item.languages || []).map((l) => l.name).join(', '),
+      to: changes.languages.map((l) => l.name).join(', '),
+    });
+  }
+
+  return (
+    <TableRow>
+      <TableRowCell className={styles.relativePath} title={relativePath}>
+        {relativePath}
+      </TableRowCell>
+
+      <TableRowCell>
+        {errors.map((error) => {
+          return (
+            <div key={error} className={styles.error}>
+              {error}
+            </div>
+          );
+        })}
+
+        {descriptions.map(({ label, from, to }) => {
+          return (
+            <div key={label}>
+              <span className={styles.label}>{label}:</span>{' '}
+              <span className={styles.from}>{from ?? '-'}</span>
+              {' → '}
+              {to}
+            </div>
+          );
+        })}
+
+        {!errors.length && !descriptions.length ? (
+          <span className={styles.noChanges}>{translate('NoChanges')}</span>
+        ) : null}
+      </TableRowCell>
+    </TableRow>
+  );
+}
+
+export default InteractiveImportRulePreviewRow;
@@ -0,0 +1,17 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'applyButton': string;
+  'buttons': string;
+  'field': string;
+  'fields': string;
+  'helpText': string;
+  'label': string;
+  'patternField': string;
+  'preview': string;
+  'rules': string;
+  'selectButton': string;
+  'summary': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
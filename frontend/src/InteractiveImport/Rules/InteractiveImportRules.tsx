@@ -0,0 +1,354 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import SelectInput from 'Components/Form/SelectInput';
+import TextInput from 'Components/Form/TextInput';
+import Button from 'Components/Link/Button';
+import SpinnerButton from 'Components/Link/SpinnerButton';
+import Table from 'Components/Table/Table';
+import TableBody from 'Components/Table/TableBody';
+import { kinds } from 'Helpers/Props';
+import InteractiveImport from 'InteractiveImport/InteractiveImport';
+import SelectLanguageModal from 'InteractiveImport/Language/SelectLanguageModal';
+import SelectQualityModal from 'InteractiveImport/Quality/SelectQualityModal';
+import SelectSeriesModal from 'InteractiveImport/Series/SelectSeriesModal';
+import Language from 'Language/Language';
+import { QualityModel } from 'Quality/Quality';
+import Series from 'Series/Series';
+import { applyInteractiveImportRule } from 'Store/Actions/interactiveImportActions';
+import getErrorMessage from 'Utilities/Object/getErrorMessage';
+import translate from 'Utilities/String/translate';
+import getInteractiveImportRuleMatches, {
+  InteractiveImportRule,
+  InteractiveImportRulePatternType,
+} from './getInteractiveImportRuleMatches';
+import InteractiveImportRulePreviewRow from './InteractiveImportRulePreviewRow';
+import styles from './InteractiveImportRules.css';
+
+type SelectType = 'series' | 'quality' | 'language';
+
+const DEFAULT_RULE: InteractiveImportRule = {
+  patternType: 'glob',
+  pattern: '',
+  season: '',
+  episodes: '',
+  releaseGroup: '',
+};
+
+const PATTERN_TYPE_OPTIONS = [
+  {
+    key: 'glob',
+    get value() {
+      return translate('Glob');
+    },
+  },
+  {
+    key: 'regex',
+    get value() {
+      return translate('RegularExpression');
+    },
+  },
+];
+
+const COLUMNS = [
+  {
+    name: 'relativePath',
+    label: () => translate('RelativePath'),
+    isVisible: true,
+  },
+  {
+    name: 'changes',
+    label: () => translate('Changes'),
+    isVisible: true,
+  },
+];
+
+interface InteractiveImportRulesProps {
+  items: InteractiveImport[];
+  modalTitle: string;
+  onSelectModalOpenChange?(isOpen: boolean): void;
+}
+
+function InteractiveImportRules(props: InteractiveImportRulesProps) {
+  const { items, modalTitle, onSelectModalOpenChange } = props;
+
+  const { isApplyingRule, applyRuleError } = useSelector(
+    (state: AppState) => state.interactiveImport
+  );
+
+  const dispatch = useDispatch();
+  const [rule, setRule] = useState<InteractiveImportRule>(DEFAULT_RULE);
+  const [selectModalOpen, setSelectModalOpen] = useState<SelectType | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!selectModalOpen) {
+      return;
+    }
+
+    onSelectModalOpenChange?.(true);
+
+    return () => {
+      onSelectModalOpenChange?.(false);
+    };
+  }, [selectModalOpen, onSelectModalOpenChange]);
+
+  const { matches, error } = useMemo(() => {
+    return getInteractiveImportRuleMatches(items, rule);
+  }, [items, rule]);
+
+  const applicableMatches = useMemo(() => {
+    return matches.filter((match) => {
+      return !match.errors.length && Object.keys(match.changes).length;
+    });
+  }, [matches]);
+
+  const onInputChange = useCallback(
+    ({ name, value }: { name: string; value: string }) => {
+      setRule((currentRule) => ({ ...currentRule, [name]: value }));
+    },
+    [setRule]
+  );
+
+  const onPatternTypeChange = useCallback(
+    ({ value }: { value: InteractiveImportRulePatternType }) => {
+      setRule((currentRule) => ({ ...currentRule, patternType: value }));
+    },
+    [setRule]
+  );
+
+  const onSelectSeriesPress = useCallback(() => {
+    setSelectModalOpen('series');
+  }, [setSelectModalOpen]);
+
+  const onSelectQualityPress = useCallback(() => {
+    setSelectModalOpen('quality');
+  }, [setSelectModalOpen]);
+
+  const onSelectLanguagePress = useCallback(() => {
+    setSelectModalOpen('language');
+  }, [setSelectModalOpen]);
+
+  const onSelectModalClose = useCallback(() => {
+    setSelectModalOpen(null);
+  }, [setSelectModalOpen]);
+
+  const onSeriesSelect = useCallback(
+    (series: Series) => {
+      setRule((currentRule) => ({ ...currentRule, series }));
+      setSelectModalOpen(null);
+    },
+    [setRule, setSelectModalOpen]
+  );
+
+  const onQualitySelect = useCallback(
+    (quality: QualityModel) => {
+      setRule((currentRule) => ({ ...currentRule, quality }));
+      setSelectModalOpen(null);
+    },
+    [setRule, setSelectModalOpen]
+  );
+
+  const onLanguagesSelect = useCallback(
+    (languages: Language[]) => {
+      setRule((currentRule) => ({ ...currentRule, languages }));
+      setSelectModalOpen(null);
+    },
+    [setRule, setSelectModalOpen]
+  );
+
+  const onClearPress = useCallback(() => {
+    setRule(DEFAULT_RULE);
+  }, [setRule]);
+
+  const onApplyPress = useCallback(() => {
+    dispatch(applyInteractiveImportRule({ matches: applicableMatches }));
+  }, [applicableMatches, dispatch]);
+
+  return (
+    <div className={styles.rules}>
+      <div className={styles.fields}>
+        <label className={styles.field}>
+          <div className={styles.label}>{translate('Type')}</div>
+
+          <SelectInput
+            name="patternType"
+            value={rule.patternType}
+            values={PATTERN_TYPE_OPTIONS}
+            onChange={onPatternTypeChange}
+          />
+        </label>
+
+        <label className={styles.patternField}>
+          <div className={styles.label}>{translate('Pattern')}</div>
+
+          <TextInput
+            name="pattern"
+            value={rule.pattern}
+            placeholder={
+              rule.patternType === 'glob'
+                ? '*.S??E??.*'
+                : '^.*S(?<season>\\d+)E(?<episode>\\d+).*$'
+            }
+            onChange={onInputChange}
+          />
+        </label>
+
+        <div className={styles.field}>
+          <div className={styles.label}>{translate('Series')}</div>
+
+          <Button className={styles.selectButton} onPress={onSelectSeriesPress}>
+            {rule.series?.title ?? translate('Unchanged')}
+          </Button>
+        </div>
+
+        <label className={styles.field}>
+          <div className={styles.label}>{translate('Season')}</div>
+
+          <TextInput
+            name="season"
+            value={rule.season}
+            placeholder={translate('Unchanged')}
+            onChange={onInputChange}
+          />
+        </label>
+
+        <label className={styles.field}>
+          <div className={styles.label}>{translate('Episodes')}</div>
+
+          <TextInput
+            name="episodes"
+            value={rule.episodes}
+            placeholder={translate('Unchanged')}
+            onChange={onInputChange}
+          />
+        </label>
+
+        <label className={styles.field}>
+          <div className={styles.label}>{translate('ReleaseGroup')}</div>
+
+          <TextInput
+            name="releaseGroup"
+            value={rule.releaseGroup}
+            placeholder={translate('Unchanged')}
+            onChange={onInputChange}
+          />
+        </label>
+
+        <div className={styles.field}>
+          <div className={styles.label}>{translate('Quality')}</div>
+
+          <Button
+            className={styles.selectButton}
+            onPress={onSelectQualityPress}
+          >
+            {rule.quality?.quality.name ?? translate('Unchanged')}
+          </Button>
+        </div>
+
+        <div className={styles.field}>
+          <div className={styles.label}>{translate('Languages')}</div>
+
+          <Button
+            className={styles.selectButton}
+            onPress={onSelectLanguagePress}
+          >
+            {rule.languages
+              ? rule.languages.map((l) => l.name).join(', ')
+              : translate('Unchanged')}
+          </Button>
+        </div>
+      </div>
+
+      <div className={styles.helpText}>
+        {translate('InteractiveImportRulesHelpText')}
+      </div>
+
+      {error ? <Alert kind={kinds.DANGER}>{error}</Alert> : null}
+
+      {applyRuleError ? (
+        <Alert kind={kinds.DANGER}>
+          {getErrorMessage(
+            applyRuleError,
+            translate('InteractiveImportRuleApplyError')
+          )}
+        </Alert>
+      ) : null}
+
+      {rule.pattern && !error ? (
+        <div className={styles.summary}>
+          {translate('InteractiveImportRuleMatchSummary', {
+            matchCount: matches.length,
+            changeCount: applicableMatches.length,
+            total: items.length,
+          })}
+        </div>
+      ) : null}
+
+      {matches.length ? (
+        <div className={styles.preview}>
+          <Table columns={COLUMNS}>
+            <TableBody>
+              {matches.map((match) => {
+                const item = items.find((i) => i.id === match.id);
+
+                return item ? (
+                  <InteractiveImportRulePreviewRow
+                    key={match.id}
+                    match={match}
+                    item={item}
+                  />
+                ) : null;
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      ) : null}
+
+      <div className={styles.buttons}>
+        <Button onPress={onClearPress}>{translate('Clear')}</Button>
+
+        <SpinnerButton
+          className={styles.applyButton}
+          kind={kinds.PRIMARY}
+          isSpinning={isApplyingRule}
+          isDisabled={!applicableMatches.length}
+          onPress={onApplyPress}
+        >
+          {translate('InteractiveImportRuleApply', {
+            count: applicableMatches.length,
+          })}
+        </SpinnerButton>
+      </div>
+
+      <SelectSeriesModal
+        isOpen={selectModalOpen === 'series'}
+        modalTitle={modalTitle}
+        onSeriesSelect={onSeriesSelect}
+        onModalClose={onSelectModalClose}
+      />
+
+      <SelectQualityModal
+        isOpen={selectModalOpen === 'quality'}
+        qualityId={rule.quality?.quality.id ?? 0}
+        proper={false}
+        real={false}
+        modalTitle={modalTitle}
+        onQualitySelect={onQualitySelect}
+        onModalClose={onSelectModalClose}
+      />
+
+      <SelectLanguageModal
+        isOpen={selectModalOpen === 'language'}
+        languageIds={rule.languages?.map(({ id }) => id) ?? [0]}
+        modalTitle={modalTitle}
+        onLanguagesSelect={onLanguagesSelect}
+        onModalClose={onSelectModalClose}
+      />
+    </div>
+  );
+}
+
+export default InteractiveImportRules;
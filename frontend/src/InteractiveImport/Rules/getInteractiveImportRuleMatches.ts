@@ -0,0 +1,234 @@
+import InteractiveImport from 'InteractiveImport/InteractiveImport';
+import Language from 'Language/Language';
+import { QualityModel } from 'Quality/Quality';
+import Series from 'Series/Series';
+import translate from 'Utilities/String/translate';
+
+export type InteractiveImportRulePatternType = 'glob' | 'regex';
+
+export interface InteractiveImportRule {
+  patternType: InteractiveImportRulePatternType;
+  pattern: string;
+  series?: Series;
+  season: string;
+  episodes: string;
+  releaseGroup: string;
+  quality?: QualityModel;
+  languages?: Language[];
+}
+
+export interface InteractiveImportRuleChanges {
+  series?: Series;
+  seasonNumber?: number;
+  episodeNumbers?: number[];
+  releaseGroup?: string;
+  quality?: QualityModel;
+  languages?: Language[];
+}
+
+export interface InteractiveImportRuleMatch {
+  id: number;
+  relativePath: string;
+  changes: InteractiveImportRuleChanges;
+  errors: string[];
+}
+
+export interface InteractiveImportRuleMatches {
+  matches: InteractiveImportRuleMatch[];
+  error?: string;
+}
+
+const GLOB_SPECIAL_CHARACTERS = /[.+^${}()|[\]\\]/g;
+const TEMPLATE_TOKEN = /\$(?:(\d+)|<(\w+)>)/g;
+
+// Globs have no capture groups of their own, so every wildcard becomes
+// one and can be referenced as $1, $2, ... in the same way as a regex.
+function createGlobRegex(pattern: string) {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '(.*)';
+      i++;
+    } else if (char === '*') {
+      source += '([^/\\\\]*)';
+    } else if (char === '?') {
+      source += '([^/\\\\])';
+    } else if (char === '/' || char === '\\') {
+      source += '[/\\\\]';
+    } else {
+      source += char.replace(GLOB_SPECIAL_CHARACTERS, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function createRuleRegex(rule: InteractiveImportRule) {
+  try {
+    if (rule.patternType === 'glob') {
+      return createGlobRegex(rule.pattern);
+    }
+
+    return new RegExp(rule.pattern, 'i');
+  } catch (error) {
+    return null;
+  }
+}
+
+function getMatchTarget(rule: InteractiveImportRule, relativePath: string) {
+  // Like .gitignore, a glob without a path separator only matches the file name
+  if (rule.patternType === 'glob' && !/[/\\]/.test(rule.pattern)) {
+    return relativePath.split(/[/\\]/).pop() ?? relativePath;
+  }
+
+  return relativePath;
+}
+
+function resolveTemplate(template: string, match: RegExpMatchArray) {
+  return template
+    .replace(TEMPLATE_TOKEN, (_token, index, name) => {
+      const value = name ? match.groups?.[name] : match[parseInt(index)];
+
+      return value ?? '';
+    })
+    .trim();
+}
+
+function parseNumber(value: string) {
+  return /^\d+$/.test(value) ? parseInt(value) : null;
+}
+
+function parseEpisodeNumbers(value: string) {
+  const episodeNumbers: number[] = [];
+
+  const isValid = value.split(',').every((part) => {
+    const [start, end] = part.split('-').map((p) => parseNumber(p.trim()));
+
+    if (start == null || (part.includes('-') && (end == null || end < start))) {
+      return false;
+    }
+
+    for (let i = start; i <= (end ?? start); i++) {
+      episodeNumbers.push(i);
+    }
+
+    return true;
+  });
+
+  return isValid ? episodeNumbers : null;
+}
+
+function isSameQuality(a: QualityModel, b: QualityModel) {
+  return (
+    a.quality.id === b.quality.id &&
+    a.revision.version === b.revision.version &&
+    a.revision.real === b.revision.real
+  );
+}
+
+function isSameLanguages(a: Language[], b: Language[]) {
+  const aIds = a.map(({ id }) => id).sort((x, y) => x - y);
+  const bIds = b.map(({ id }) => id).sort((x, y) => x - y);
+
+  return aIds.length === bIds.length && aIds.every((id, i) => id === bIds[i]);
+}
+
+function getRuleChanges(
+  rule: InteractiveImportRule,
+  item: InteractiveImport,
+  match: RegExpMatchArray
+) {
+  const changes: InteractiveImportRuleChanges = {};
+  const errors: string[] = [];
+
+  if (rule.series && rule.series.id !== item.series?.id) {
+    changes.series = rule.series;
+  }
+
+  if (rule.season) {
+    const value = resolveTemplate(rule.season, match);
+    const seasonNumber = parseNumber(value);
+
+    if (seasonNumber == null) {
+      errors.push(translate('InteractiveImportRuleInvalidSeason', { value }));
+    } else if (changes.series || seasonNumber !== item.seasonNumber) {
+      changes.seasonNumber = seasonNumber;
+    }
+  }
+
+  if (rule.episodes) {
+    const value = resolveTemplate(rule.episodes, match);
+    const episodeNumbers = parseEpisodeNumbers(value);
+    const currentEpisodeNumbers = (item.episodes || []).map(
+      (e) => e.episodeNumber
+    );
+
+    if (episodeNumbers == null) {
+      errors.push(translate('InteractiveImportRuleInvalidEpisodes', { value }));
+    } else if (
+      changes.series ||
+      changes.seasonNumber != null ||
+      episodeNumbers.join(',') !==
+        currentEpisodeNumbers.sort((a, b) => a - b).join(',')
+    ) {
+      changes.episodeNumbers = episodeNumbers;
+    }
+  }
+
+  if (rule.releaseGroup) {
+    const releaseGroup = resolveTemplate(rule.releaseGroup, match);
+
+    if (releaseGroup && releaseGroup !== item.releaseGroup) {
+      changes.releaseGroup = releaseGroup;
+    }
+  }
+
+  if (rule.quality && !isSameQuality(rule.quality, item.quality)) {
+    changes.quality = rule.quality;
+  }
+
+  if (rule.languages && !isSameLanguages(rule.languages, item.languages)) {
+    changes.languages = rule.languages;
+  }
+
+  return { changes, errors };
+}
+
+function getInteractiveImportRuleMatches(
+  items: InteractiveImport[],
+  rule: InteractiveImportRule
+): InteractiveImportRuleMatches {
+  if (!rule.pattern) {
+    return { matches: [] };
+  }
+
+  const regex = createRuleRegex(rule);
+
+  if (!regex) {
+    return {
+      matches: [],
+      error: translate('InteractiveImportRuleInvalidPattern'),
+    };
+  }
+
+  return {
+    matches: items.reduce<InteractiveImportRuleMatch[]>((acc, item) => {
+      const match = getMatchTarget(rule, item.relativePath).match(regex);
+
+      if (match) {
+        acc.push({
+          id: item.id,
+          relativePath: item.relativePath,
+          ...getRuleChanges(rule, item, match),
+        });
+      }
+
+      return acc;
+    }, []),
+  };
+}
+
+export default getInteractiveImportRuleMatches;
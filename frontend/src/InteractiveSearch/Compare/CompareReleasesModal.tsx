@@ -0,0 +1,26 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import { sizes } from 'Helpers/Props';
+import Release from 'InteractiveSearch/Release';
+import CompareReleasesModalContent from './CompareReleasesModalContent';
+
+interface CompareReleasesModalProps {
+  isOpen: boolean;
+  releases: Release[];
+  onModalClose(): void;
+}
+
+function CompareReleasesModal(props: CompareReleasesModalProps) {
+  const { isOpen, onModalClose, ...otherProps } = props;
+
+  return (
+    <Modal isOpen={isOpen} size={sizes.EXTRA_LARGE} onModalClose={onModalClose}>
+      <CompareReleasesModalContent
+        {...otherProps}
+        onModalClose={onModalClose}
+      />
+    </Modal>
+  );
+}
+
+export default CompareReleasesModal;
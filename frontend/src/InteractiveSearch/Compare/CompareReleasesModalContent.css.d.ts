@@ -0,0 +1,13 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'best': string;
+  'criteria': string;
+  'decisive': string;
+  'list': string;
+  'score': string;
+  'title': string;
+  'value': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { createSelector } from 'reselect';
+import ProtocolLabel from 'Activity/Queue/ProtocolLabel';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import Button from 'Components/Link/Button';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import Table from 'Components/Table/Table';
+import TableBody from 'Components/Table/TableBody';
+import TableRow from 'Components/Table/TableRow';
+import EpisodeQuality from 'Episode/EpisodeQuality';
+import { kinds, scrollDirections } from 'Helpers/Props';
+import Peers from 'InteractiveSearch/Peers';
+import Release from 'InteractiveSearch/Release';
+import { fetchIndexers } from 'Store/Actions/settingsActions';
+import formatAge from 'Utilities/Number/formatAge';
+import formatBytes from 'Utilities/Number/formatBytes';
+import formatCustomFormatScore from 'Utilities/Number/formatCustomFormatScore';
+import translate from 'Utilities/String/translate';
+import getReleaseComparison, {
+  getReleaseComparisonTitle,
+  ReleaseComparisonItem,
+  ReleaseComparisonKey,
+} from './getReleaseComparison';
+import styles from './CompareReleasesModalContent.css';
+
+const ROW_KEYS: ReleaseComparisonKey[] = [
+  'quality',
+  'customFormatScore',
+  'protocol',
+  'episodeCount',
+  'indexerPriority',
+  'peers',
+  'age',
+  'size',
+  'rejections',
+];
+
+function renderValue(key: ReleaseComparisonKey, item: ReleaseComparisonItem) {
+  const { release, formats, indexerPriority, sizePerMinute } = item;
+
+  switch (key) {
+    case 'quality':
+      return <EpisodeQuality quality={release.quality} />;
+    case 'customFormatScore':
+      return (
+        <div>
+          <div className={styles.score}>
+            {formatCustomFormatScore(release.customFormatScore, formats.length)}
+          </div>
+
+          <ul className={styles.list}>
+            {formats.map((format) => {
+              return (
+                <li key={format.id}>
+                  {format.name} ({formatCustomFormatScore(format.score)})
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      );
+    case 'protocol':
+      return <ProtocolLabel protocol={release.protocol} />;
+    case 'episodeCount':
+      return release.fullSeason
+        ? translate('FullSeason')
+        : release.mappedEpisodeInfo.length;
+    case 'indexerPriority':
+      return `${release.indexer} (${indexerPriority ?? '-'})`;
+    case 'peers':
+      return release.protocol === 'torrent' ? (
+        <Peers seeders={release.seeders} leechers={release.leechers} />
+      ) : (
+        '-'
+      );
+    case 'age':
+      return formatAge(release.age, release.ageHours, release.ageMinutes);
+    case 'size':
+      return (
+        <div>
+          <div>{formatBytes(release.size)}</div>
+          {sizePerMinute ? (
+            <div>
+              {translate('SizePerMinute', {
+                size: formatBytes(sizePerMinute),
+              })}
+            </div>
+          ) : null}
+        </div>
+      );
+    default:
+      return release.rejections.length ? (
+        <ul className={styles.list}>
+          {release.rejections.map((rejection, index) => {
+            return <li key={index}>{rejection}</li>;
+          })}
+        </ul>
+      ) : (
+        '-'
+      );
+  }
+}
+
+function createCompareReleasesSelector(releases: Release[]) {
+  return createSelector(
+    (state: AppState) => state.series.items,
+    (state: AppState) => state.settings.qualityProfiles.items,
+    (state: AppState) => state.settings.indexers.items,
+    (allSeries, qualityProfiles, indexers) => {
+      const seriesId = releases.find((r) => r.mappedSeriesId)?.mappedSeriesId;
+      const series = allSeries.find((s) => s.id === seriesId);
+
+      return {
+        qualityProfile: qualityProfiles.find(
+          (p) => p.id === series?.qualityProfileId
+        ),
+        runtime: series?.runtime ?? 0,
+        indexers,
+      };
+    }
+  );
+}
+
+interface CompareReleasesModalContentProps {
+  releases: Release[];
+  onModalClose(): void;
+}
+
+function CompareReleasesModalContent(props: CompareReleasesModalContentProps) {
+  const { releases, onModalClose } = props;
+
+  const selector = useMemo(() => {
+    return createCompareReleasesSelector(releases);
+  }, [releases]);
+
+  const { qualityProfile, runtime, indexers } = useSelector(selector);
+  const dispatch = useDispatch();
+
+  useEffect(() => {
+    dispatch(fetchIndexers());
+  }, [dispatch]);
+
+  const { items, decisiveKey } = useMemo(() => {
+    return getReleaseComparison(releases, qualityProfile, runtime, indexers);
+  }, [releases, qualityProfile, runtime, indexers]);
+
+  const columns = useMemo(() => {
+    return [
+      {
+        name: 'criteria',
+        label: '',
+        isVisible: true,
+      },
+      ...items.map(({ release }, index) => {
+        return {
+          name: `${release.indexerId}-${release.guid}`,
+          label: (
+            <div className={styles.title}>
+              {index === 0 ? `${translate('Best')}: ` : null}
+              {release.title}
+            </div>
+          ),
+          isVisible: true,
+        };
+      }),
+    ];
+  }, [items]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('CompareReleases')}</ModalHeader>
+
+      <ModalBody scrollDirection={scrollDirections.BOTH}>
+        {decisiveKey ? (
+          <Alert kind={kinds.INFO}>
+            {translate('CompareReleasesDecisiveDifference', {
+              criteria: getReleaseComparisonTitle(decisiveKey),
+            })}
+          </Alert>
+        ) : null}
+
+        <Table columns={columns}>
+          <TableBody>
+            {ROW_KEYS.map((key) => {
+              return (
+                <TableRow
+                  key={key}
+                  className={key === decisiveKey ? styles.decisive : undefined}
+                >
+                  <TableRowCell className={styles.criteria}>
+                    {getReleaseComparisonTitle(key)}
+                  </TableRowCell>
+
+                  {items.map((item, index) => {
+                    return (
+                      <TableRowCell
+                        key={`${item.release.indexerId}-${item.release.guid}`}
+                        className={
+                          index === 0 && key === decisiveKey
+                            ? styles.best
+                            : styles.value
+                        }
+                      >
+                        {renderValue(key, item)}
+                      </TableRowCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </ModalBody>
+
+      <ModalFooter>
+        <Button onPress={onModalClose}>{translate('Close')}</Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default CompareReleasesModalContent;
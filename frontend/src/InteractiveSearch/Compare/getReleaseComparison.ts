@@ -0,0 +1,190 @@
+import Release from 'InteractiveSearch/Release';
+import Indexer from 'typings/Indexer';
+import QualityProfile from 'typings/QualityProfile';
+import translate from 'Utilities/String/translate';
+
+export type ReleaseComparisonKey =
+  | 'rejections'
+  | 'quality'
+  | 'customFormatScore'
+  | 'protocol'
+  | 'episodeCount'
+  | 'indexerPriority'
+  | 'peers'
+  | 'age'
+  | 'size';
+
+export interface ReleaseComparisonFormat {
+  id: number;
+  name: string;
+  score: number;
+}
+
+export interface ReleaseComparisonItem {
+  release: Release;
+  formats: ReleaseComparisonFormat[];
+  indexerPriority?: number;
+  sizePerMinute?: number;
+}
+
+export interface ReleaseComparison {
+  items: ReleaseComparisonItem[];
+  decisiveKey: ReleaseComparisonKey | null;
+}
+
+interface ReleaseComparer {
+  key: ReleaseComparisonKey;
+  getValue(item: ReleaseComparisonItem): number | string | undefined;
+}
+
+const SIZE_ROUNDING = 200 * 1024 * 1024;
+
+function getAgeBucket({ release }: ReleaseComparisonItem) {
+  if (release.ageHours < 1) {
+    return 1000;
+  }
+
+  if (release.ageHours <= 24) {
+    return 100;
+  }
+
+  return release.age <= 7 ? 10 : 1;
+}
+
+function getPeersBucket(count?: number) {
+  return count && count > 0 ? Math.round(Math.log10(count)) : 0;
+}
+
+// Mirrors the order the server ranks releases in, values are bucketed the same
+// way so tiny differences aren't reported as the reason one release won.
+const COMPARERS: ReleaseComparer[] = [
+  {
+    key: 'rejections',
+    getValue: ({ release }) => (release.rejections.length ? 0 : 1),
+  },
+  {
+    key: 'quality',
+    getValue: ({ release }) => release.qualityWeight,
+  },
+  {
+    key: 'customFormatScore',
+    getValue: ({ release }) => release.customFormatScore,
+  },
+  {
+    key: 'protocol',
+    getValue: ({ release }) => release.protocol,
+  },
+  {
+    key: 'episodeCount',
+    getValue: ({ release }) => {
+      return release.fullSeason
+        ? 'fullSeason'
+        : release.mappedEpisodeInfo.length;
+    },
+  },
+  {
+    key: 'indexerPriority',
+    getValue: (item) => item.indexerPriority,
+  },
+  {
+    key: 'peers',
+    getValue: ({ release }) => {
+      if (release.protocol !== 'torrent') {
+        return undefined;
+      }
+
+      return `${getPeersBucket(release.seeders)}-${getPeersBucket(
+        (release.seeders ?? 0) + (release.leechers ?? 0)
+      )}`;
+    },
+  },
+  {
+    key: 'age',
+    getValue: (item) => {
+      return item.release.protocol === 'usenet'
+        ? getAgeBucket(item)
+        : undefined;
+    },
+  },
+  {
+    key: 'size',
+    getValue: ({ release }) => Math.round(release.size / SIZE_ROUNDING),
+  },
+];
+
+export function getReleaseComparisonTitle(key: ReleaseComparisonKey) {
+  switch (key) {
+    case 'rejections':
+      return translate('Rejections');
+    case 'quality':
+      return translate('Quality');
+    case 'customFormatScore':
+      return translate('CustomFormatScore');
+    case 'protocol':
+      return translate('Protocol');
+    case 'episodeCount':
+      return translate('Episodes');
+    case 'indexerPriority':
+      return translate('IndexerPriority');
+    case 'peers':
+      return translate('Peers');
+    case 'age':
+      return translate('Age');
+    default:
+      return translate('Size');
+  }
+}
+
+function getReleaseComparison(
+  releases: Release[],
+  qualityProfile: QualityProfile | undefined,
+  runtime: number,
+  indexers: Indexer[]
+): ReleaseComparison {
+  const items = [...releases]
+    .sort((a, b) => a.releaseWeight - b.releaseWeight)
+    .map((release) => {
+      const formats = release.customFormats.map(({ id, name }) => {
+        const formatItem = qualityProfile?.formatItems.find(
+          (f) => f.format === id
+        );
+
+        return { id, name, score: formatItem?.score ?? 0 };
+      });
+
+      const episodeCount = release.mappedEpisodeInfo.length;
+      const minutes = runtime * episodeCount;
+
+      return {
+        release,
+        formats,
+        indexerPriority: indexers.find((i) => i.id === release.indexerId)
+          ?.priority,
+        sizePerMinute: minutes ? release.size / minutes : undefined,
+      };
+    });
+
+  if (items.length < 2) {
+    return { items, decisiveKey: null };
+  }
+
+  // The best release only has to beat the runner up
+  const [best, runnerUp] = items;
+  const decisiveComparer = COMPARERS.find(({ getValue }) => {
+    const bestValue = getValue(best);
+    const runnerUpValue = getValue(runnerUp);
+
+    return (
+      bestValue !== undefined &&
+      runnerUpValue !== undefined &&
+      bestValue !== runnerUpValue
+    );
+  });
+
+  return {
+    items,
+    decisiveKey: decisiveComparer?.key ?? null,
+  };
+}
+
+export default getReleaseComparison;
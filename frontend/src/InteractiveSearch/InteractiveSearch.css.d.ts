@@ -1,6 +1,7 @@
 // This file is automatically generated.
 // Please do not change this file!
 interface CssExports {
+  'button': string;
   'filterMenuContainer': string;
   'filteredMessage': string;
 }
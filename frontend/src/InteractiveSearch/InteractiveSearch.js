@@ -1,95 +1,29 @@
 import PropTypes from 'prop-types';
-import React, { Fragment } from 'react';
+import React, { Fragment, useCallback, useMemo, useState } from 'react';
 import Alert from 'Components/Alert';
-import Icon from 'Components/Icon';
+import Button from 'Components/Link/Button';
 import LoadingIndicator from 'Components/Loading/LoadingIndicator';
 import FilterMenu from 'Components/Menu/FilterMenu';
 import PageMenuButton from 'Components/Menu/PageMenuButton';
 import Table from 'Components/Table/Table';
 import TableBody from 'Components/Table/TableBody';
-import { align, icons, kinds, sortDirections } from 'Helpers/Props';
+import TableOptionsModalWrapper from 'Components/Table/TableOptions/TableOptionsModalWrapper';
+import { align, icons, kinds } from 'Helpers/Props';
 import getErrorMessage from 'Utilities/Object/getErrorMessage';
 import translate from 'Utilities/String/translate';
+import CompareReleasesModal from './Compare/CompareReleasesModal';
 import InteractiveSearchFilterModalConnector from './InteractiveSearchFilterModalConnector';
 import InteractiveSearchRow from './InteractiveSearchRow';
+import InteractiveSearchPresetsModal from './Presets/InteractiveSearchPresetsModal';
 import styles from './InteractiveSearch.css';
 
-const columns = [
-  {
-    name: 'protocol',
-    label: () => translate('Source'),
-    isSortable: true,
-    isVisible: true
-  },
-  {
-    name: 'age',
-    label: () => translate('Age'),
-    isSortable: true,
-    isVisible: true
-  },
-  {
-    name: 'title',
-    label: () => translate('Title'),
-    isSortable: true,
-    isVisible: true
-  },
-  {
-    name: 'indexer',
-    label: () => translate('Indexer'),
-    isSortable: true,
-    isVisible: true
-  },
-  {
-    name: 'size',
-    label: () => translate('Size'),
-    isSortable: true,
-    isVisible: true
-  },
-  {
-    name: 'peers',
-    label: () => translate('Peers'),
-    isSortable: true,
-    isVisible: true
-  },
-  {
-    name: 'languageWeight',
-    label: () => translate('Languages'),
-    isSortable: true,
-    isVisible: true
-  },
-  {
-    name: 'qualityWeight',
-    label: () => translate('Quality'),
-    isSortable: true,
-    isVisible: true
-  },
-  {
-    name: 'customFormatScore',
-    label: React.createElement(Icon, {
-      name: icons.SCORE,
-      title: () => translate('CustomFormatScore')
-    }),
-    isSortable: true,
-    isVisible: true
-  },
-  {
-    name: 'rejections',
-    label: React.createElement(Icon, {
-      name: icons.DANGER,
-      title: () => translate('Rejections')
-    }),
-    isSortable: true,
-    fixedSortDirection: sortDirections.ASCENDING,
-    isVisible: true
-  },
-  {
-    name: 'releaseWeight',
-    label: React.createElement(Icon, { name: icons.DOWNLOAD }),
-    isSortable: true,
-    fixedSortDirection: sortDirections.ASCENDING,
-    isVisible: true
-  }
-];
+const MAX_COMPARE_COUNT = 5;
+
+const compareColumn = {
+  name: 'compare',
+  label: '',
+  isVisible: true
+};
 
 function InteractiveSearch(props) {
   const {
@@ -99,6 +33,9 @@ function InteractiveSearch(props) {
     error,
     totalReleasesCount,
     items,
+    columns,
+    presets,
+    activePreset,
     selectedFilterKey,
     filters,
     customFilters,
@@ -109,14 +46,98 @@ function InteractiveSearch(props) {
     timeFormat,
     onSortPress,
     onFilterSelect,
-    onGrabPress
+    onGrabPress,
+    onTableOptionChange,
+    onSavePresetPress,
+    onDeletePresetPress
   } = props;
 
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareKeys, setCompareKeys] = useState([]);
+  const [isCompareModalOpen, setIsCompareModalOpen] = useState(false);
+  const [isPresetsModalOpen, setIsPresetsModalOpen] = useState(false);
+
+  const tableColumns = useMemo(() => {
+    return isComparing ? [compareColumn, ...columns] : columns;
+  }, [isComparing, columns]);
+
+  const compareReleases = useMemo(() => {
+    return items.filter((item) => {
+      return compareKeys.includes(`${item.indexerId}-${item.guid}`);
+    });
+  }, [items, compareKeys]);
+
+  const onComparePress = useCallback(() => {
+    setIsComparing(!isComparing);
+    setCompareKeys([]);
+  }, [isComparing, setIsComparing, setCompareKeys]);
+
+  const onCompareSelectedChange = useCallback((key, isSelected) => {
+    setCompareKeys((keys) => {
+      return isSelected ? [...keys, key] : keys.filter((k) => k !== key);
+    });
+  }, [setCompareKeys]);
+
+  const onCompareSelectedPress = useCallback(() => {
+    setIsCompareModalOpen(true);
+  }, [setIsCompareModalOpen]);
+
+  const onCompareModalClose = useCallback(() => {
+    setIsCompareModalOpen(false);
+  }, [setIsCompareModalOpen]);
+
+  const onPresetsPress = useCallback(() => {
+    setIsPresetsModalOpen(true);
+  }, [setIsPresetsModalOpen]);
+
+  const onPresetsModalClose = useCallback(() => {
+    setIsPresetsModalOpen(false);
+  }, [setIsPresetsModalOpen]);
+
   const errorMessage = getErrorMessage(error);
 
   return (
     <div>
       <div className={styles.filterMenuContainer}>
+        {
+          isComparing ?
+            <Button
+              className={styles.button}
+              kind={kinds.PRIMARY}
+              isDisabled={compareReleases.length < 2}
+              onPress={onCompareSelectedPress}
+            >
+              {translate('CompareSelectedReleases', { count: compareReleases.length, max: MAX_COMPARE_COUNT })}
+            </Button> :
+            null
+        }
+
+        <Button
+          className={styles.button}
+          onPress={onComparePress}
+        >
+          {isComparing ? translate('Cancel') : translate('Compare')}
+        </Button>
+
+        <Button
+          className={styles.button}
+          kind={activePreset ? kinds.PRIMARY : kinds.DEFAULT}
+          title={activePreset ? translate('InteractiveSearchPresetApplied', { name: activePreset.name }) : undefined}
+          onPress={onPresetsPress}
+        >
+          {translate('Presets')}
+        </Button>
+
+        <TableOptionsModalWrapper
+          columns={columns}
+          onTableOptionChange={onTableOptionChange}
+        >
+          <PageMenuButton
+            iconName={icons.TABLE}
+            text={translate('Options')}
+          />
+        </TableOptionsModalWrapper>
+
         <FilterMenu
           alignMenu={align.RIGHT}
           selectedFilterKey={selectedFilterKey}
@@ -167,7 +188,7 @@ function InteractiveSearch(props) {
       {
         isPopulated && !!items.length ?
           <Table
-            columns={columns}
+            columns={tableColumns}
             sortKey={sortKey}
             sortDirection={sortDirection}
             onSortPress={onSortPress}
@@ -182,7 +203,11 @@ function InteractiveSearch(props) {
                       searchPayload={searchPayload}
                       longDateFormat={longDateFormat}
                       timeFormat={timeFormat}
+                      columns={tableColumns}
+                      isCompareSelected={compareKeys.includes(`${item.indexerId}-${item.guid}`)}
+                      isCompareDisabled={compareKeys.length >= MAX_COMPARE_COUNT}
                       onGrabPress={onGrabPress}
+                      onCompareSelectedChange={onCompareSelectedChange}
                     />
                   );
                 })
@@ -199,6 +224,27 @@ function InteractiveSearch(props) {
           </div> :
           null
       }
+
+      <InteractiveSearchPresetsModal
+        isOpen={isPresetsModalOpen}
+        presets={presets}
+        activePreset={activePreset}
+        sortKey={sortKey}
+        sortDirection={sortDirection}
+        selectedFilterKey={selectedFilterKey}
+        filters={filters}
+        customFilters={customFilters}
+        columns={columns}
+        onSavePresetPress={onSavePresetPress}
+        onDeletePresetPress={onDeletePresetPress}
+        onModalClose={onPresetsModalClose}
+      />
+
+      <CompareReleasesModal
+        isOpen={isCompareModalOpen}
+        releases={compareReleases}
+        onModalClose={onCompareModalClose}
+      />
     </div>
   );
 }
@@ -210,6 +256,9 @@ InteractiveSearch.propTypes = {
   error: PropTypes.object,
   totalReleasesCount: PropTypes.number.isRequired,
   items: PropTypes.arrayOf(PropTypes.object).isRequired,
+  columns: PropTypes.arrayOf(PropTypes.object).isRequired,
+  presets: PropTypes.arrayOf(PropTypes.object).isRequired,
+  activePreset: PropTypes.object,
   selectedFilterKey: PropTypes.oneOfType([PropTypes.string, PropTypes.number]).isRequired,
   filters: PropTypes.arrayOf(PropTypes.object).isRequired,
   customFilters: PropTypes.arrayOf(PropTypes.object).isRequired,
@@ -220,7 +269,10 @@ InteractiveSearch.propTypes = {
   timeFormat: PropTypes.string.isRequired,
   onSortPress: PropTypes.func.isRequired,
   onFilterSelect: PropTypes.func.isRequired,
-  onGrabPress: PropTypes.func.isRequired
+  onGrabPress: PropTypes.func.isRequired,
+  onTableOptionChange: PropTypes.func.isRequired,
+  onSavePresetPress: PropTypes.func.isRequired,
+  onDeletePresetPress: PropTypes.func.isRequired
 };
 
 export default InteractiveSearch;
@@ -13,11 +13,28 @@ function createMapStateToProps(appState, { type }) {
     createClientSideCollectionSelector('releases', `releases.${type}`),
     createUISettingsSelector(),
     (totalReleasesCount, releases, uiSettings) => {
+      const {
+        columns,
+        presets,
+        activePresetId
+      } = releases;
+
+      const activePreset = presets.find((preset) => preset.id === activePresetId);
+
       return {
         totalReleasesCount,
         longDateFormat: uiSettings.longDateFormat,
         timeFormat: uiSettings.timeFormat,
-        ...releases
+        ...releases,
+        activePreset,
+        columns: activePreset ?
+          columns.map((column) => {
+            return {
+              ...column,
+              isVisible: column.isModifiable === false || activePreset.columns.includes(column.name)
+            };
+          }) :
+          columns
       };
     }
   );
@@ -29,6 +46,13 @@ function createMapDispatchToProps(dispatch, props) {
       dispatch(releaseActions.fetchReleases(payload));
     },
 
+    dispatchApplyReleasesPreset() {
+      dispatch(releaseActions.applyReleasesPreset({
+        seriesId: props.seriesId,
+        type: props.type
+      }));
+    },
+
     onSortPress(sortKey, sortDirection) {
       dispatch(releaseActions.setReleasesSort({ sortKey, sortDirection }));
     },
@@ -43,6 +67,18 @@ function createMapDispatchToProps(dispatch, props) {
 
     onGrabPress(payload) {
       dispatch(releaseActions.grabRelease(payload));
+    },
+
+    onTableOptionChange(payload) {
+      dispatch(releaseActions.setReleasesTableOption(payload));
+    },
+
+    onSavePresetPress(payload) {
+      dispatch(releaseActions.saveReleasesPreset(payload));
+    },
+
+    onDeletePresetPress(id) {
+      dispatch(releaseActions.deleteReleasesPreset({ id }));
     }
   };
 }
@@ -56,9 +92,12 @@ class InteractiveSearchConnector extends Component {
     const {
       searchPayload,
       isPopulated,
-      dispatchFetchReleases
+      dispatchFetchReleases,
+      dispatchApplyReleasesPreset
     } = this.props;
 
+    dispatchApplyReleasesPreset();
+
     // If search results are not yet isPopulated fetch them,
     // otherwise re-show the existing props.
 
@@ -73,6 +112,7 @@ class InteractiveSearchConnector extends Component {
   render() {
     const {
       dispatchFetchReleases,
+      dispatchApplyReleasesPreset,
       ...otherProps
     } = this.props;
 
@@ -86,9 +126,11 @@ class InteractiveSearchConnector extends Component {
 }
 
 InteractiveSearchConnector.propTypes = {
+  seriesId: PropTypes.number.isRequired,
   searchPayload: PropTypes.object.isRequired,
   isPopulated: PropTypes.bool.isRequired,
-  dispatchFetchReleases: PropTypes.func.isRequired
+  dispatchFetchReleases: PropTypes.func.isRequired,
+  dispatchApplyReleasesPreset: PropTypes.func.isRequired
 };
 
 export default connect(createMapStateToProps, createMapDispatchToProps)(InteractiveSearchConnector);
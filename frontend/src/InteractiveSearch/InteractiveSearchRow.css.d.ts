@@ -2,6 +2,7 @@
 // Please do not change this file!
 interface CssExports {
   'age': string;
+  'compare': string;
   'customFormatScore': string;
   'download': string;
   'downloadIcon': string;
@@ -1,10 +1,12 @@
 import React, { useCallback, useState } from 'react';
 import ProtocolLabel from 'Activity/Queue/ProtocolLabel';
+import CheckInput from 'Components/Form/CheckInput';
 import Icon from 'Components/Icon';
 import Link from 'Components/Link/Link';
 import SpinnerIconButton from 'Components/Link/SpinnerIconButton';
 import ConfirmModal from 'Components/Modal/ConfirmModal';
 import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import Column from 'Components/Table/Column';
 import TableRow from 'Components/Table/TableRow';
 import Popover from 'Components/Tooltip/Popover';
 import Tooltip from 'Components/Tooltip/Tooltip';
@@ -16,6 +18,7 @@ import { icons, kinds, tooltipPositions } from 'Helpers/Props';
 import Language from 'Language/Language';
 import { QualityModel } from 'Quality/Quality';
 import CustomFormat from 'typings/CustomFormat';
+import { CheckInputChanged } from 'typings/inputs';
 import formatDateTime from 'Utilities/Date/formatDateTime';
 import formatAge from 'Utilities/Number/formatAge';
 import formatBytes from 'Utilities/Number/formatBytes';
@@ -107,7 +110,11 @@ interface InteractiveSearchRowProps {
   longDateFormat: string;
   timeFormat: string;
   searchPayload: object;
+  columns: Column[];
+  isCompareSelected?: boolean;
+  isCompareDisabled?: boolean;
   onGrabPress(...args: unknown[]): void;
+  onCompareSelectedChange?(key: string, isSelected: boolean): void;
 }
 
 function InteractiveSearchRow(props: InteractiveSearchRowProps) {
@@ -148,7 +155,11 @@ function InteractiveSearchRow(props: InteractiveSearchRowProps) {
     timeFormat,
     grabError,
     searchPayload,
+    columns,
+    isCompareSelected = false,
+    isCompareDisabled = false,
     onGrabPress,
+    onCompareSelectedChange,
   } = props;
 
   const [isConfirmGrabModalOpen, setIsConfirmGrabModalOpen] = useState(false);
@@ -195,114 +206,193 @@ function InteractiveSearchRow(props: InteractiveSearchRowProps) {
     setIsOverrideModalOpen(false);
   }, [setIsOverrideModalOpen]);
 
+  const onCompareChange = useCallback(
+    ({ name, value }: CheckInputChanged) => {
+      onCompareSelectedChange?.(name, value);
+    },
+    [onCompareSelectedChange]
+  );
+
   return (
     <TableRow>
-      <TableRowCell className={styles.protocol}>
-        <ProtocolLabel protocol={protocol} />
-      </TableRowCell>
-
-      <TableRowCell
-        className={styles.age}
-        title={formatDateTime(publishDate, longDateFormat, timeFormat, {
-          includeSeconds: true,
-        })}
-      >
-        {formatAge(age, ageHours, ageMinutes)}
-      </TableRowCell>
-
-      <TableRowCell>
-        <div className={styles.titleContent}>
-          <Link to={infoUrl}>{title}</Link>
-          <ReleaseSceneIndicator
-            className={styles.sceneMapping}
-            seasonNumber={mappedSeasonNumber}
-            episodeNumbers={mappedEpisodeNumbers}
-            absoluteEpisodeNumbers={mappedAbsoluteEpisodeNumbers}
-            sceneSeasonNumber={seasonNumber}
-            sceneEpisodeNumbers={episodeNumbers}
-            sceneAbsoluteEpisodeNumbers={absoluteEpisodeNumbers}
-            sceneMapping={sceneMapping}
-            episodeRequested={episodeRequested}
-            isDaily={isDaily}
-          />
-        </div>
-      </TableRowCell>
-
-      <TableRowCell className={styles.indexer}>{indexer}</TableRowCell>
-
-      <TableRowCell className={styles.size}>{formatBytes(size)}</TableRowCell>
-
-      <TableRowCell className={styles.peers}>
-        {protocol === 'torrent' ? (
-          <Peers seeders={seeders} leechers={leechers} />
-        ) : null}
-      </TableRowCell>
-
-      <TableRowCell className={styles.languages}>
-        <EpisodeLanguages languages={languages} />
-      </TableRowCell>
-
-      <TableRowCell className={styles.quality}>
-        <EpisodeQuality quality={quality} />
-      </TableRowCell>
-
-      <TableRowCell className={styles.customFormatScore}>
-        <Tooltip
-          anchor={formatCustomFormatScore(
-            customFormatScore,
-            customFormats.length
-          )}
-          tooltip={<EpisodeFormats formats={customFormats} />}
-          position={tooltipPositions.BOTTOM}
-        />
-      </TableRowCell>
-
-      <TableRowCell className={styles.rejected}>
-        {rejections.length ? (
-          <Popover
-            anchor={<Icon name={icons.DANGER} kind={kinds.DANGER} />}
-            title="Release Rejected"
-            body={
-              <ul>
-                {rejections.map((rejection, index) => {
-                  return <li key={index}>{rejection}</li>;
-                })}
-              </ul>
-            }
-            position={tooltipPositions.LEFT}
-          />
-        ) : null}
-      </TableRowCell>
-
-      <TableRowCell className={styles.download}>
-        <SpinnerIconButton
-          name={getDownloadIcon(isGrabbing, isGrabbed, grabError)}
-          kind={getDownloadKind(isGrabbed, grabError)}
-          title={getDownloadTooltip(isGrabbing, isGrabbed, grabError)}
-          isSpinning={isGrabbing}
-          onPress={onGrabPressWrapper}
-        />
-
-        <Link
-          className={styles.manualDownloadContent}
-          title="Override and add to download queue"
-          onPress={onOverridePress}
-        >
-          <div className={styles.manualDownloadContent}>
-            <Icon
-              className={styles.interactiveIcon}
-              name={icons.INTERACTIVE}
-              size={12}
-            />
-
-            <Icon
-              className={styles.downloadIcon}
-              name={icons.CIRCLE_DOWN}
-              size={10}
-            />
-          </div>
-        </Link>
-      </TableRowCell>
+      {columns.map((column) => {
+        const { name, isVisible } = column;
+
+        if (!isVisible) {
+          return null;
+        }
+
+        if (name === 'compare') {
+          return (
+            <TableRowCell key={name} className={styles.compare}>
+              <CheckInput
+                name={`${indexerId}-${guid}`}
+                value={isCompareSelected}
+                isDisabled={isCompareDisabled && !isCompareSelected}
+                onChange={onCompareChange}
+              />
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'protocol') {
+          return (
+            <TableRowCell key={name} className={styles.protocol}>
+              <ProtocolLabel protocol={protocol} />
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'age') {
+          return (
+            <TableRowCell
+              key={name}
+              className={styles.age}
+              title={formatDateTime(publishDate, longDateFormat, timeFormat, {
+                includeSeconds: true,
+              })}
+            >
+              {formatAge(age, ageHours, ageMinutes)}
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'title') {
+          return (
+            <TableRowCell key={name}>
+              <div className={styles.titleContent}>
+                <Link to={infoUrl}>{title}</Link>
+                <ReleaseSceneIndicator
+                  className={styles.sceneMapping}
+                  seasonNumber={mappedSeasonNumber}
+                  episodeNumbers={mappedEpisodeNumbers}
+                  absoluteEpisodeNumbers={mappedAbsoluteEpisodeNumbers}
+                  sceneSeasonNumber={seasonNumber}
+                  sceneEpisodeNumbers={episodeNumbers}
+                  sceneAbsoluteEpisodeNumbers={absoluteEpisodeNumbers}
+                  sceneMapping={sceneMapping}
+                  episodeRequested={episodeRequested}
+                  isDaily={isDaily}
+                />
+              </div>
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'indexer') {
+          return (
+            <TableRowCell key={name} className={styles.indexer}>
+              {indexer}
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'size') {
+          return (
+            <TableRowCell key={name} className={styles.size}>
+              {formatBytes(size)}
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'peers') {
+          return (
+            <TableRowCell key={name} className={styles.peers}>
+              {protocol === 'torrent' ? (
+                <Peers seeders={seeders} leechers={leechers} />
+              ) : null}
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'languageWeight') {
+          return (
+            <TableRowCell key={name} className={styles.languages}>
+              <EpisodeLanguages languages={languages} />
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'qualityWeight') {
+          return (
+            <TableRowCell key={name} className={styles.quality}>
+              <EpisodeQuality quality={quality} />
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'customFormatScore') {
+          return (
+            <TableRowCell key={name} className={styles.customFormatScore}>
+              <Tooltip
+                anchor={formatCustomFormatScore(
+                  customFormatScore,
+                  customFormats.length
+                )}
+                tooltip={<EpisodeFormats formats={customFormats} />}
+                position={tooltipPositions.BOTTOM}
+              />
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'rejections') {
+          return (
+            <TableRowCell key={name} className={styles.rejected}>
+              {rejections.length ? (
+                <Popover
+                  anchor={<Icon name={icons.DANGER} kind={kinds.DANGER} />}
+                  title="Release Rejected"
+                  body={
+                    <ul>
+                      {rejections.map((rejection, index) => {
+                        return <li key={index}>{rejection}</li>;
+                      })}
+                    </ul>
+                  }
+                  position={tooltipPositions.LEFT}
+                />
+              ) : null}
+            </TableRowCell>
+          );
+        }
+
+        if (name === 'releaseWeight') {
+          return (
+            <TableRowCell key={name} className={styles.download}>
+              <SpinnerIconButton
+                name={getDownloadIcon(isGrabbing, isGrabbed, grabError)}
+                kind={getDownloadKind(isGrabbed, grabError)}
+                title={getDownloadTooltip(isGrabbing, isGrabbed, grabError)}
+                isSpinning={isGrabbing}
+                onPress={onGrabPressWrapper}
+              />
+
+              <Link
+                className={styles.manualDownloadContent}
+                title="Override and add to download queue"
+                onPress={onOverridePress}
+              >
+                <div className={styles.manualDownloadContent}>
+                  <Icon
+                    className={styles.interactiveIcon}
+                    name={icons.INTERACTIVE}
+                    size={12}
+                  />
+
+                  <Icon
+                    className={styles.downloadIcon}
+                    name={icons.CIRCLE_DOWN}
+                    size={10}
+                  />
+                </div>
+              </Link>
+            </TableRowCell>
+          );
+        }
+
+        return null;
+      })}
 
       <ConfirmModal
         isOpen={isConfirmGrabModalOpen}
@@ -0,0 +1,28 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import { sizes } from 'Helpers/Props';
+import InteractiveSearchPresetsModalContent, {
+  InteractiveSearchPresetsModalContentProps,
+} from './InteractiveSearchPresetsModalContent';
+
+interface InteractiveSearchPresetsModalProps
+  extends InteractiveSearchPresetsModalContentProps {
+  isOpen: boolean;
+}
+
+function InteractiveSearchPresetsModal(
+  props: InteractiveSearchPresetsModalProps
+) {
+  const { isOpen, onModalClose, ...otherProps } = props;
+
+  return (
+    <Modal isOpen={isOpen} size={sizes.LARGE} onModalClose={onModalClose}>
+      <InteractiveSearchPresetsModalContent
+        {...otherProps}
+        onModalClose={onModalClose}
+      />
+    </Modal>
+  );
+}
+
+export default InteractiveSearchPresetsModal;
@@ -0,0 +1,9 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'actions': string;
+  'helpText': string;
+  'legend': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
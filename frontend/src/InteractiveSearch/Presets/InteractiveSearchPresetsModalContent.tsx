@@ -0,0 +1,326 @@
+import React, { useCallback, useState } from 'react';
+import { CustomFilter, Filter } from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import Form from 'Components/Form/Form';
+import FormGroup from 'Components/Form/FormGroup';
+import FormInputGroup from 'Components/Form/FormInputGroup';
+import FormLabel from 'Components/Form/FormLabel';
+import Button from 'Components/Link/Button';
+import IconButton from 'Components/Link/IconButton';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import Column from 'Components/Table/Column';
+import Table from 'Components/Table/Table';
+import TableBody from 'Components/Table/TableBody';
+import TableRow from 'Components/Table/TableRow';
+import TagListConnector from 'Components/TagListConnector';
+import { icons, inputTypes, kinds } from 'Helpers/Props';
+import { SeriesType } from 'Series/Series';
+import InteractiveSearchPreset from 'typings/InteractiveSearchPreset';
+import translate from 'Utilities/String/translate';
+import styles from './InteractiveSearchPresetsModalContent.css';
+
+const ANY_SERIES_TYPE = 'any';
+
+const SERIES_TYPE_OPTIONS = [
+  {
+    key: ANY_SERIES_TYPE,
+    get value() {
+      return translate('Any');
+    },
+  },
+  {
+    key: 'standard',
+    get value() {
+      return translate('Standard');
+    },
+  },
+  {
+    key: 'daily',
+    get value() {
+      return translate('Daily');
+    },
+  },
+  {
+    key: 'anime',
+    get value() {
+      return translate('Anime');
+    },
+  },
+];
+
+const COLUMNS = [
+  {
+    name: 'name',
+    label: () => translate('Name'),
+    isVisible: true,
+  },
+  {
+    name: 'seriesType',
+    label: () => translate('SeriesType'),
+    isVisible: true,
+  },
+  {
+    name: 'tags',
+    label: () => translate('Tags'),
+    isVisible: true,
+  },
+  {
+    name: 'sortKey',
+    label: () => translate('Sort'),
+    isVisible: true,
+  },
+  {
+    name: 'filter',
+    label: () => translate('Filter'),
+    isVisible: true,
+  },
+  {
+    name: 'actions',
+    label: '',
+    isVisible: true,
+  },
+];
+
+// Labels are either strings or functions so they're translated when shown
+function getLabel(label: unknown): string | undefined {
+  if (typeof label === 'function') {
+    return label();
+  }
+
+  return typeof label === 'string' ? label : undefined;
+}
+
+export interface InteractiveSearchPresetsModalContentProps {
+  presets: InteractiveSearchPreset[];
+  activePreset?: InteractiveSearchPreset;
+  sortKey: string;
+  sortDirection: string;
+  selectedFilterKey: string | number;
+  filters: Filter[];
+  customFilters: CustomFilter[];
+  columns: Column[];
+  onSavePresetPress(preset: Partial<InteractiveSearchPreset>): void;
+  onDeletePresetPress(id: number): void;
+  onModalClose(): void;
+}
+
+function InteractiveSearchPresetsModalContent(
+  props: InteractiveSearchPresetsModalContentProps
+) {
+  const {
+    presets,
+    activePreset,
+    sortKey,
+    sortDirection,
+    selectedFilterKey,
+    filters,
+    customFilters,
+    columns,
+    onSavePresetPress,
+    onDeletePresetPress,
+    onModalClose,
+  } = props;
+
+  const [name, setName] = useState(activePreset?.name ?? '');
+  const [seriesType, setSeriesType] = useState<string>(
+    activePreset?.seriesType ?? ANY_SERIES_TYPE
+  );
+  const [tags, setTags] = useState<number[]>(activePreset?.tags ?? []);
+
+  const canSave =
+    !!name.trim() && (seriesType !== ANY_SERIES_TYPE || !!tags.length);
+
+  const getColumnLabel = useCallback(
+    (key: string) => {
+      const column = columns.find((c) => c.name === key);
+
+      return getLabel(column?.columnLabel ?? column?.label) || key;
+    },
+    [columns]
+  );
+
+  const getFilterLabel = useCallback(
+    (key: string | number) => {
+      const filter = filters.find((f) => f.key === key);
+
+      if (filter) {
+        return getLabel(filter.label);
+      }
+
+      return customFilters.find((f) => f.id === key)?.label ?? key;
+    },
+    [filters, customFilters]
+  );
+
+  const onInputChange = useCallback(
+    ({ name: inputName, value }: { name: string; value: unknown }) => {
+      switch (inputName) {
+        case 'name':
+          setName(value as string);
+          break;
+        case 'seriesType':
+          setSeriesType(value as string);
+          break;
+        case 'tags':
+          setTags(value as number[]);
+          break;
+        default:
+          console.warn(
+            `InteractiveSearchPresets Unknown Input: '${inputName}'`
+          );
+      }
+    },
+    []
+  );
+
+  const onSavePress = useCallback(() => {
+    onSavePresetPress({
+      id: activePreset?.id,
+      name: name.trim(),
+      seriesType:
+        seriesType === ANY_SERIES_TYPE ? null : (seriesType as SeriesType),
+      tags,
+      sortKey,
+      sortDirection,
+      selectedFilterKey,
+      columns: columns.filter((c) => c.isVisible).map((c) => c.name),
+    });
+
+    onModalClose();
+  }, [
+    activePreset,
+    name,
+    seriesType,
+    tags,
+    sortKey,
+    sortDirection,
+    selectedFilterKey,
+    columns,
+    onSavePresetPress,
+    onModalClose,
+  ]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('InteractiveSearchPresets')}</ModalHeader>
+
+      <ModalBody>
+        <div className={styles.helpText}>
+          {translate('InteractiveSearchPresetsHelpText')}
+        </div>
+
+        {activePreset ? (
+          <Alert kind={kinds.INFO}>
+            {translate('InteractiveSearchPresetApplied', {
+              name: activePreset.name,
+            })}
+          </Alert>
+        ) : null}
+
+        {presets.length ? (
+          <Table columns={COLUMNS}>
+            <TableBody>
+              {presets.map((preset) => {
+                return (
+                  <TableRow key={preset.id}>
+                    <TableRowCell>{preset.name}</TableRowCell>
+
+                    <TableRowCell>
+                      {getLabel(
+                        SERIES_TYPE_OPTIONS.find(
+                          (o) =>
+                            o.key === (preset.seriesType ?? ANY_SERIES_TYPE)
+                        )?.value
+                      )}
+                    </TableRowCell>
+
+                    <TableRowCell>
+                      <TagListConnector tags={preset.tags} />
+                    </TableRowCell>
+
+                    <TableRowCell>
+                      {getColumnLabel(preset.sortKey)}
+                    </TableRowCell>
+
+                    <TableRowCell>
+                      {getFilterLabel(preset.selectedFilterKey)}
+                    </TableRowCell>
+
+                    <TableRowCell className={styles.actions}>
+                      <IconButton
+                        name={icons.DELETE}
+                        title={translate('Delete')}
+                        onPress={() => onDeletePresetPress(preset.id)}
+                      />
+                    </TableRowCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : null}
+
+        <div className={styles.legend}>
+          {activePreset
+            ? translate('UpdatePresetFromCurrentView')
+            : translate('SavePresetFromCurrentView')}
+        </div>
+
+        <Form>
+          <FormGroup>
+            <FormLabel>{translate('Name')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.TEXT}
+              name="name"
+              value={name}
+              onChange={onInputChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('SeriesType')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.SELECT}
+              name="seriesType"
+              value={seriesType}
+              values={SERIES_TYPE_OPTIONS}
+              onChange={onInputChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('Tags')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.TAG}
+              name="tags"
+              value={tags}
+              helpText={translate('InteractiveSearchPresetTagsHelpText')}
+              onChange={onInputChange}
+            />
+          </FormGroup>
+        </Form>
+      </ModalBody>
+
+      <ModalFooter>
+        <Button onPress={onModalClose}>{translate('Cancel')}</Button>
+
+        <Button
+          kind={kinds.PRIMARY}
+          isDisabled={!canSave}
+          onPress={onSavePress}
+        >
+          {translate('Save')}
+        </Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default InteractiveSearchPresetsModalContent;
@@ -0,0 +1,37 @@
+import Series from 'Series/Series';
+import InteractiveSearchPreset from 'typings/InteractiveSearchPreset';
+
+function getSpecificity(preset: InteractiveSearchPreset) {
+  return (preset.tags.length ? 2 : 0) + (preset.seriesType ? 1 : 0);
+}
+
+function isMatch(preset: InteractiveSearchPreset, series: Series) {
+  if (!getSpecificity(preset)) {
+    return false;
+  }
+
+  if (preset.seriesType && preset.seriesType !== series.seriesType) {
+    return false;
+  }
+
+  return (
+    !preset.tags.length || preset.tags.some((tag) => series.tags.includes(tag))
+  );
+}
+
+// A preset for a tag is more specific than one for a series type, so it wins
+// when both match the series.
+function getInteractiveSearchPreset(
+  presets: InteractiveSearchPreset[],
+  series?: Series
+) {
+  if (!series) {
+    return undefined;
+  }
+
+  return presets
+    .filter((preset) => isMatch(preset, series))
+    .sort((a, b) => getSpecificity(b) - getSpecificity(a))[0];
+}
+
+export default getInteractiveSearchPreset;
@@ -0,0 +1,33 @@
+import type DownloadProtocol from 'DownloadClient/DownloadProtocol';
+import Language from 'Language/Language';
+import { QualityModel } from 'Quality/Quality';
+import CustomFormat from 'typings/CustomFormat';
+import ReleaseEpisode from './ReleaseEpisode';
+
+interface Release {
+  guid: string;
+  protocol: DownloadProtocol;
+  age: number;
+  ageHours: number;
+  ageMinutes: number;
+  publishDate: string;
+  title: string;
+  infoUrl: string;
+  indexerId: number;
+  indexer: string;
+  size: number;
+  seeders?: number;
+  leechers?: number;
+  quality: QualityModel;
+  qualityWeight: number;
+  languages: Language[];
+  customFormats: CustomFormat[];
+  customFormatScore: number;
+  fullSeason: boolean;
+  mappedSeriesId?: number;
+  mappedEpisodeInfo: ReleaseEpisode[];
+  rejections: string[];
+  releaseWeight: number;
+}
+
+export default Release;
@@ -2,11 +2,15 @@
 // Please do not change this file!
 interface CssExports {
   'clearButton': string;
+  'copyButton': string;
   'helpText': string;
   'input': string;
   'inputContainer': string;
   'inputIconContainer': string;
   'message': string;
+  'selectSeriesButton': string;
+  'seriesContainer': string;
+  'seriesLabel': string;
 }
 export const cssExports: CssExports;
 export default cssExports;
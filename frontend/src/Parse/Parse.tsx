@@ -1,47 +1,178 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { useDispatch, useSelector } from 'react-redux';
+import { useHistory, useLocation } from 'react-router-dom';
 import TextInput from 'Components/Form/TextInput';
 import Icon from 'Components/Icon';
 import Button from 'Components/Link/Button';
+import ClipboardButton from 'Components/Link/ClipboardButton';
+import IconButton from 'Components/Link/IconButton';
 import LoadingIndicator from 'Components/Loading/LoadingIndicator';
 import PageContent from 'Components/Page/PageContent';
 import PageContentBody from 'Components/Page/PageContentBody';
-import { icons } from 'Helpers/Props';
+import { icons, sizes } from 'Helpers/Props';
+import SelectSeriesModal from 'InteractiveImport/Series/SelectSeriesModal';
+import Series from 'Series/Series';
 import { clear, fetch } from 'Store/Actions/parseActions';
+import { createSeriesSelectorForHook } from 'Store/Selectors/createSeriesSelector';
 import getErrorMessage from 'Utilities/Object/getErrorMessage';
+import translate from 'Utilities/String/translate';
+import getParseLink, {
+  getParseLinkParams,
+  ParseLinkParams,
+} from './getParseLink';
+import ParseBatch from './ParseBatch';
+import ParseModeMenu, { ParseMode } from './ParseModeMenu';
 import ParseResult from './ParseResult';
 import parseStateSelector from './parseStateSelector';
 import styles from './Parse.css';
 
+// Wait for typing to pause before adding the title to the browser history
+const HISTORY_DELAY = 1000;
+
 function Parse() {
   const { isFetching, error, item } = useSelector(parseStateSelector());
+  const history = useHistory();
+  const { search } = useLocation();
+
+  const { title: linkTitle, seriesId } = useMemo(
+    () => getParseLinkParams(search),
+    [search]
+  );
 
-  const [title, setTitle] = useState('');
+  const series: Series | undefined = useSelector(
+    createSeriesSelectorForHook(seriesId)
+  );
+
+  const [mode, setMode] = useState<ParseMode>('single');
+  const [title, setTitle] = useState(linkTitle);
+  const [isSelectSeriesModalOpen, setIsSelectSeriesModalOpen] = useState(false);
+  const lastParsed = useRef<ParseLinkParams | null>(null);
+  const historyTimeout = useRef<number | null>(null);
   const dispatch = useDispatch();
 
-  const onInputChange = useCallback(
-    ({ value }: { value: string }) => {
+  const parseTitle = useCallback(
+    (value: string, parseSeriesId?: number) => {
       const trimmedValue = value.trim();
 
-      setTitle(value);
+      lastParsed.current = { title: trimmedValue, seriesId: parseSeriesId };
 
       if (trimmedValue === '') {
         dispatch(clear());
       } else {
-        dispatch(fetch({ title: trimmedValue }));
+        dispatch(fetch({ title: trimmedValue, seriesId: parseSeriesId }));
       }
     },
-    [setTitle, dispatch]
+    [dispatch]
+  );
+
+  const pushHistory = useCallback(
+    (value: string, newSeriesId?: number) => {
+      if (historyTimeout.current) {
+        clearTimeout(historyTimeout.current);
+        historyTimeout.current = null;
+      }
+
+      const link = getParseLink(value.trim(), newSeriesId);
+      const { pathname, search: currentSearch } = history.location;
+
+      if (link !== `${pathname}${currentSearch}`) {
+        history.push(link);
+      }
+    },
+    [history]
+  );
+
+  const onInputChange = useCallback(
+    ({ value }: { value: string }) => {
+      setTitle(value);
+      parseTitle(value, seriesId);
+
+      if (historyTimeout.current) {
+        clearTimeout(historyTimeout.current);
+      }
+
+      historyTimeout.current = window.setTimeout(() => {
+        pushHistory(value, seriesId);
+      }, HISTORY_DELAY);
+    },
+    [seriesId, setTitle, parseTitle, pushHistory]
   );
 
   const onClearPress = useCallback(() => {
     setTitle('');
-    dispatch(clear());
-  }, [setTitle, dispatch]);
+    parseTitle('', seriesId);
+    pushHistory('', seriesId);
+  }, [seriesId, setTitle, parseTitle, pushHistory]);
+
+  const onModeChange = useCallback(
+    (value: ParseMode) => {
+      setMode(value);
+      setTitle('');
+      parseTitle('', seriesId);
+      pushHistory('', seriesId);
+    },
+    [seriesId, setMode, setTitle, parseTitle, pushHistory]
+  );
+
+  const onSelectSeriesPress = useCallback(() => {
+    setIsSelectSeriesModalOpen(true);
+  }, [setIsSelectSeriesModalOpen]);
+
+  const onSelectSeriesModalClose = useCallback(() => {
+    setIsSelectSeriesModalOpen(false);
+  }, [setIsSelectSeriesModalOpen]);
+
+  const onSeriesSelect = useCallback(
+    (selectedSeries: Series) => {
+      setIsSelectSeriesModalOpen(false);
+      pushHistory(title, selectedSeries.id);
+    },
+    [title, setIsSelectSeriesModalOpen, pushHistory]
+  );
+
+  const onResetSeriesPress = useCallback(() => {
+    pushHistory(title);
+  }, [title, pushHistory]);
+
+  useEffect(() => {
+    const previous = lastParsed.current;
+
+    // Titles tested on this page are already parsed before they're added to
+    // the history, only links and back/forward navigation need to be parsed.
+    if (
+      previous &&
+      previous.title === linkTitle &&
+      previous.seriesId === seriesId
+    ) {
+      return;
+    }
+
+    if (historyTimeout.current) {
+      clearTimeout(historyTimeout.current);
+      historyTimeout.current = null;
+    }
+
+    if (linkTitle) {
+      setMode('single');
+    }
+
+    setTitle(linkTitle);
+    parseTitle(linkTitle, seriesId);
+  }, [linkTitle, seriesId, setMode, setTitle, parseTitle]);
 
   useEffect(
     () => {
       return () => {
+        if (historyTimeout.current) {
+          clearTimeout(historyTimeout.current);
+        }
+
         dispatch(clear());
       };
     },
@@ -52,58 +183,100 @@ function Parse() {
   return (
     <PageContent title="Parse">
       <PageContentBody>
-        <div className={styles.inputContainer}>
-          <div className={styles.inputIconContainer}>
-            <Icon name={icons.PARSE} size={20} />
-          </div>
-
-          <TextInput
-            className={styles.input}
-            name="title"
-            value={title}
-            placeholder="eg. Series.Title.S01E05.720p.HDTV-RlsGroup"
-            autoFocus={true}
-            onChange={onInputChange}
-          />
-
-          <Button className={styles.clearButton} onPress={onClearPress}>
-            <Icon name={icons.REMOVE} size={20} />
-          </Button>
-        </div>
-
-        {isFetching ? <LoadingIndicator /> : null}
-
-        {!isFetching && !!error ? (
-          <div className={styles.message}>
-            <div className={styles.helpText}>
-              Error parsing, please try again.
-            </div>
-            <div>{getErrorMessage(error)}</div>
-          </div>
-        ) : null}
-
-        {!isFetching && title && !error && !item.parsedEpisodeInfo ? (
-          <div className={styles.message}>
-            Unable to parse the provided title, please try again.
-          </div>
-        ) : null}
-
-        {!isFetching && !error && item.parsedEpisodeInfo ? (
-          <ParseResult item={item} />
-        ) : null}
-
-        {title ? null : (
-          <div className={styles.message}>
-            <div className={styles.helpText}>
-              Enter a release title in the input above
+        <ParseModeMenu mode={mode} onModeChange={onModeChange} />
+
+        {mode === 'batch' ? (
+          <ParseBatch />
+        ) : (
+          <>
+            <div className={styles.inputContainer}>
+              <div className={styles.inputIconContainer}>
+                <Icon name={icons.PARSE} size={20} />
+              </div>
+
+              <TextInput
+                className={styles.input}
+                name="title"
+                value={title}
+                placeholder="eg. Series.Title.S01E05.720p.HDTV-RlsGroup"
+                autoFocus={true}
+                onChange={onInputChange}
+              />
+
+              <ClipboardButton
+                className={styles.copyButton}
+                value={getParseLink(title.trim(), seriesId, true)}
+              />
+
+              <Button className={styles.clearButton} onPress={onClearPress}>
+                <Icon name={icons.REMOVE} size={20} />
+              </Button>
             </div>
-            <div>
-              Sonarr will attempt to parse the title and show you details about
-              it
+
+            <div className={styles.seriesContainer}>
+              <span className={styles.seriesLabel}>{translate('Series')}</span>
+
+              <span>{series ? series.title : translate('AutomaticMatch')}</span>
+
+              <Button
+                className={styles.selectSeriesButton}
+                size={sizes.SMALL}
+                onPress={onSelectSeriesPress}
+              >
+                {translate('SelectSeries')}
+              </Button>
+
+              {seriesId ? (
+                <IconButton
+                  name={icons.REMOVE}
+                  title={translate('AutomaticMatch')}
+                  onPress={onResetSeriesPress}
+                />
+              ) : null}
             </div>
-          </div>
+
+            {isFetching ? <LoadingIndicator /> : null}
+
+            {!isFetching && !!error ? (
+              <div className={styles.message}>
+                <div className={styles.helpText}>
+                  Error parsing, please try again.
+                </div>
+                <div>{getErrorMessage(error)}</div>
+              </div>
+            ) : null}
+
+            {!isFetching && title && !error && !item.parsedEpisodeInfo ? (
+              <div className={styles.message}>
+                Unable to parse the provided title, please try again.
+              </div>
+            ) : null}
+
+            {!isFetching && !error && item.parsedEpisodeInfo ? (
+              <ParseResult item={item} />
+            ) : null}
+
+            {title ? null : (
+              <div className={styles.message}>
+                <div className={styles.helpText}>
+                  Enter a release title in the input above
+                </div>
+                <div>
+                  Sonarr will attempt to parse the title and show you details
+                  about it
+                </div>
+              </div>
+            )}
+          </>
         )}
       </PageContentBody>
+
+      <SelectSeriesModal
+        isOpen={isSelectSeriesModalOpen}
+        modalTitle={translate('TestParsing')}
+        onSeriesSelect={onSeriesSelect}
+        onModalClose={onSelectSeriesModalClose}
+      />
     </PageContent>
   );
 }
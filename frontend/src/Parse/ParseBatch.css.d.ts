@@ -0,0 +1,10 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'actions': string;
+  'button': string;
+  'input': string;
+  'progress': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,213 @@
+import { uniq } from 'lodash';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import ClientSideCollectionAppState from 'App/State/ClientSideCollectionAppState';
+import { ParseBatchAppState } from 'App/State/ParseAppState';
+import TextArea from 'Components/Form/TextArea';
+import Button from 'Components/Link/Button';
+import SpinnerButton from 'Components/Link/SpinnerButton';
+import Column from 'Components/Table/Column';
+import Table from 'Components/Table/Table';
+import TableBody from 'Components/Table/TableBody';
+import { kinds } from 'Helpers/Props';
+import {
+  clearBatch,
+  fetchBatch,
+  setBatchSort,
+} from 'Store/Actions/parseActions';
+import createClientSideCollectionSelector from 'Store/Selectors/createClientSideCollectionSelector';
+import { SortCallback } from 'typings/callbacks';
+import downloadFile from 'Utilities/File/downloadFile';
+import createCsv from 'Utilities/String/createCsv';
+import translate from 'Utilities/String/translate';
+import getParseBatchItemValues, {
+  ParseBatchItemValues,
+} from './getParseBatchItemValues';
+import ParseBatchRow from './ParseBatchRow';
+import styles from './ParseBatch.css';
+
+interface ParseBatchColumn extends Column {
+  name: keyof ParseBatchItemValues;
+  label: () => string;
+}
+
+const COLUMNS: ParseBatchColumn[] = [
+  {
+    name: 'title',
+    label: () => translate('ReleaseTitle'),
+    isSortable: true,
+    isVisible: true,
+  },
+  {
+    name: 'series',
+    label: () => translate('Series'),
+    isSortable: true,
+    isVisible: true,
+  },
+  {
+    name: 'seasonNumber',
+    label: () => translate('Season'),
+    isSortable: true,
+    isVisible: true,
+  },
+  {
+    name: 'episodeNumbers',
+    label: () => translate('Episodes'),
+    isSortable: true,
+    isVisible: true,
+  },
+  {
+    name: 'quality',
+    label: () => translate('Quality'),
+    isSortable: true,
+    isVisible: true,
+  },
+  {
+    name: 'languages',
+    label: () => translate('Languages'),
+    isSortable: true,
+    isVisible: true,
+  },
+  {
+    name: 'releaseGroup',
+    label: () => translate('ReleaseGroup'),
+    isSortable: true,
+    isVisible: true,
+  },
+  {
+    name: 'customFormatScore',
+    label: () => translate('CustomFormatScore'),
+    isSortable: true,
+    isVisible: true,
+  },
+];
+
+function ParseBatch() {
+  const { isFetching, items, sortKey, sortDirection } = useSelector(
+    createClientSideCollectionSelector('parse.batch')
+  ) as ParseBatchAppState & ClientSideCollectionAppState;
+
+  const [titles, setTitles] = useState('');
+  const dispatch = useDispatch();
+
+  const parsedCount = items.filter((item) => !item.isFetching).length;
+
+  const onTitlesChange = useCallback(
+    ({ value }: { value: string }) => {
+      setTitles(value);
+    },
+    [setTitles]
+  );
+
+  const onParsePress = useCallback(() => {
+    const releaseTitles = uniq(
+      titles
+        .split(/\r?\n/)
+        .map((title) => title.trim())
+        .filter((title) => title !== '')
+    );
+
+    if (releaseTitles.length) {
+      dispatch(fetchBatch({ titles: releaseTitles }));
+    }
+  }, [titles, dispatch]);
+
+  const onClearPress = useCallback(() => {
+    setTitles('');
+    dispatch(clearBatch());
+  }, [setTitles, dispatch]);
+
+  const onExportPress = useCallback(() => {
+    const csv = createCsv(
+      COLUMNS.map((column) => column.label()),
+      items.map((item) => {
+        const values = getParseBatchItemValues(item);
+
+        return COLUMNS.map((column) => values[column.name]);
+      })
+    );
+
+    downloadFile('parse-results.csv', csv, 'text/csv');
+  }, [items]);
+
+  const onSortPress = useCallback<SortCallback>(
+    (sortKey, sortDirection) => {
+      dispatch(setBatchSort({ sortKey, sortDirection }));
+    },
+    [dispatch]
+  );
+
+  useEffect(
+    () => {
+      return () => {
+        dispatch(clearBatch());
+      };
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+
+  return (
+    <div>
+      <TextArea
+        className={styles.input}
+        name="titles"
+        value={titles}
+        placeholder={translate('ParseBatchPlaceholder')}
+        autoFocus={true}
+        onChange={onTitlesChange}
+      />
+
+      <div className={styles.actions}>
+        <div className={styles.progress}>
+          {items.length
+            ? translate('ParseBatchProgress', {
+                parsedCount,
+                totalCount: items.length,
+              })
+            : null}
+        </div>
+
+        <Button className={styles.button} onPress={onClearPress}>
+          {translate('Clear')}
+        </Button>
+
+        <Button
+          className={styles.button}
+          isDisabled={!items.length || isFetching}
+          onPress={onExportPress}
+        >
+          {translate('ExportCsv')}
+        </Button>
+
+        <SpinnerButton
+          className={styles.button}
+          kind={kinds.PRIMARY}
+          isSpinning={isFetching}
+          isDisabled={!titles.trim()}
+          onPress={onParsePress}
+        >
+          {translate('Parse')}
+        </SpinnerButton>
+      </div>
+
+      {items.length ? (
+        <Table
+          columns={COLUMNS}
+          horizontalScroll={true}
+          sortKey={sortKey}
+          sortDirection={sortDirection}
+          onSortPress={onSortPress}
+        >
+          <TableBody>
+            {items.map((item) => {
+              return <ParseBatchRow key={item.id} item={item} />;
+            })}
+          </TableBody>
+        </Table>
+      ) : null}
+    </div>
+  );
+}
+
+export default ParseBatch;
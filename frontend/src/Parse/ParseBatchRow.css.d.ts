@@ -0,0 +1,10 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'customFormatTooltip': string;
+  'loading': string;
+  'message': string;
+  'title': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { ParseBatchItem } from 'App/State/ParseAppState';
+import Icon from 'Components/Icon';
+import LoadingIndicator from 'Components/Loading/LoadingIndicator';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import TableRow from 'Components/Table/TableRow';
+import Popover from 'Components/Tooltip/Popover';
+import EpisodeFormats from 'Episode/EpisodeFormats';
+import { icons, kinds, tooltipPositions } from 'Helpers/Props';
+import SeriesTitleLink from 'Series/SeriesTitleLink';
+import getErrorMessage from 'Utilities/Object/getErrorMessage';
+import translate from 'Utilities/String/translate';
+import getParseBatchItemValues from './getParseBatchItemValues';
+import styles from './ParseBatchRow.css';
+
+interface ParseBatchRowProps {
+  item: ParseBatchItem;
+}
+
+function ParseBatchRow(props: ParseBatchRowProps) {
+  const { item } = props;
+  const { isFetching, error, parseResult } = item;
+  const values = getParseBatchItemValues(item);
+  const series = parseResult?.series;
+  const customFormats = parseResult?.customFormats ?? [];
+
+  return (
+    <TableRow>
+      <TableRowCell className={styles.title} title={values.title}>
+        {values.title}
+      </TableRowCell>
+
+      {isFetching ? (
+        <TableRowCell colSpan={7}>
+          <LoadingIndicator className={styles.loading} size={20} />
+        </TableRowCell>
+      ) : null}
+
+      {!isFetching && !!error ? (
+        <TableRowCell className={styles.message} colSpan={7}>
+          <Icon name={icons.DANGER} kind={kinds.DANGER} />{' '}
+          {getErrorMessage(error, translate('ErrorParsingTitle'))}
+        </TableRowCell>
+      ) : null}
+
+      {!isFetching && !error && !parseResult?.parsedEpisodeInfo ? (
+        <TableRowCell className={styles.message} colSpan={7}>
+          {translate('UnableToParseTitle')}
+        </TableRowCell>
+      ) : null}
+
+      {!isFetching && !error && parseResult?.parsedEpisodeInfo ? (
+        <>
+          <TableRowCell>
+            {series ? (
+              <SeriesTitleLink
+                titleSlug={series.titleSlug}
+                title={series.title}
+              />
+            ) : (
+              values.series
+            )}
+          </TableRowCell>
+
+          <TableRowCell>{values.seasonNumber}</TableRowCell>
+
+          <TableRowCell>{values.episodeNumbers}</TableRowCell>
+
+          <TableRowCell>{values.quality}</TableRowCell>
+
+          <TableRowCell>{values.languages}</TableRowCell>
+
+          <TableRowCell>{values.releaseGroup}</TableRowCell>
+
+          <TableRowCell>
+            {customFormats.length ? (
+              <Popover
+                anchor={values.customFormatScore}
+                title={translate('CustomFormats')}
+                body={
+                  <div className={styles.customFormatTooltip}>
+                    <EpisodeFormats formats={customFormats} />
+                  </div>
+                }
+                position={tooltipPositions.LEFT}
+              />
+            ) : (
+              values.customFormatScore
+            )}
+          </TableRowCell>
+        </>
+      ) : null}
+    </TableRow>
+  );
+}
+
+export default ParseBatchRow;
@@ -2,6 +2,7 @@
 // Please do not change this file!
 interface CssExports {
   'clearButton': string;
+  'copyButton': string;
   'helpText': string;
   'input': string;
   'inputContainer': string;
@@ -3,6 +3,7 @@ import { useDispatch, useSelector } from 'react-redux';
 import TextInput from 'Components/Form/TextInput';
 import Icon from 'Components/Icon';
 import Button from 'Components/Link/Button';
+import ClipboardButton from 'Components/Link/ClipboardButton';
 import LoadingIndicator from 'Components/Loading/LoadingIndicator';
 import ModalBody from 'Components/Modal/ModalBody';
 import ModalContent from 'Components/Modal/ModalContent';
@@ -12,6 +13,9 @@ import { icons } from 'Helpers/Props';
 import { clear, fetch } from 'Store/Actions/parseActions';
 import getErrorMessage from 'Utilities/Object/getErrorMessage';
 import translate from 'Utilities/String/translate';
+import getParseLink from './getParseLink';
+import ParseBatch from './ParseBatch';
+import ParseModeMenu, { ParseMode } from './ParseModeMenu';
 import ParseResult from './ParseResult';
 import parseStateSelector from './parseStateSelector';
 import styles from './ParseModalContent.css';
@@ -24,6 +28,7 @@ function ParseModalContent(props: ParseModalContentProps) {
   const { onModalClose } = props;
   const { isFetching, error, item } = useSelector(parseStateSelector());
 
+  const [mode, setMode] = useState<ParseMode>('single');
   const [title, setTitle] = useState('');
   const dispatch = useDispatch();
 
@@ -47,6 +52,15 @@ function ParseModalContent(props: ParseModalContentProps) {
     dispatch(clear());
   }, [setTitle, dispatch]);
 
+  const onModeChange = useCallback(
+    (value: ParseMode) => {
+      setMode(value);
+      setTitle('');
+      dispatch(clear());
+    },
+    [setMode, setTitle, dispatch]
+  );
+
   useEffect(
     () => {
       return () => {
@@ -62,56 +76,71 @@ function ParseModalContent(props: ParseModalContentProps) {
       <ModalHeader>{translate('TestParsing')}</ModalHeader>
 
       <ModalBody>
-        <div className={styles.inputContainer}>
-          <div className={styles.inputIconContainer}>
-            <Icon name={icons.PARSE} size={20} />
-          </div>
-
-          <TextInput
-            className={styles.input}
-            name="title"
-            value={title}
-            placeholder="eg. Series.Title.S01E05.720p.HDTV-RlsGroup"
-            autoFocus={true}
-            onChange={onInputChange}
-          />
-
-          <Button className={styles.clearButton} onPress={onClearPress}>
-            <Icon name={icons.REMOVE} size={20} />
-          </Button>
-        </div>
-
-        {isFetching ? <LoadingIndicator /> : null}
-
-        {!isFetching && !!error ? (
-          <div className={styles.message}>
-            <div className={styles.helpText}>
-              Error parsing, please try again.
+        <ParseModeMenu mode={mode} onModeChange={onModeChange} />
+
+        {mode === 'batch' ? (
+          <ParseBatch />
+        ) : (
+          <>
+            <div className={styles.inputContainer}>
+              <div className={styles.inputIconContainer}>
+                <Icon name={icons.PARSE} size={20} />
+              </div>
+
+              <TextInput
+                className={styles.input}
+                name="title"
+                value={title}
+                placeholder="eg. Series.Title.S01E05.720p.HDTV-RlsGroup"
+                autoFocus={true}
+                onChange={onInputChange}
+              />
+
+              {/* The modal can't be linked to, so link to the same title on the Parse page */}
+              <ClipboardButton
+                className={styles.copyButton}
+                title={translate('CopyParsePageLink')}
+                value={getParseLink(title.trim(), undefined, true)}
+              />
+
+              <Button className={styles.clearButton} onPress={onClearPress}>
+                <Icon name={icons.REMOVE} size={20} />
+              </Button>
             </div>
-            <div>{getErrorMessage(error)}</div>
-          </div>
-        ) : null}
-
-        {!isFetching && title && !error && !item.parsedEpisodeInfo ? (
-          <div className={styles.message}>
-            Unable to parse the provided title, please try again.
-          </div>
-        ) : null}
-
-        {!isFetching && !error && item.parsedEpisodeInfo ? (
-          <ParseResult item={item} />
-        ) : null}
-
-        {title ? null : (
-          <div className={styles.message}>
-            <div className={styles.helpText}>
-              Enter a release title in the input above
-            </div>
-            <div>
-              Sonarr will attempt to parse the title and show you details about
-              it
-            </div>
-          </div>
+
+            {isFetching ? <LoadingIndicator /> : null}
+
+            {!isFetching && !!error ? (
+              <div className={styles.message}>
+                <div className={styles.helpText}>
+                  Error parsing, please try again.
+                </div>
+                <div>{getErrorMessage(error)}</div>
+              </div>
+            ) : null}
+
+            {!isFetching && title && !error && !item.parsedEpisodeInfo ? (
+              <div className={styles.message}>
+                Unable to parse the provided title, please try again.
+              </div>
+            ) : null}
+
+            {!isFetching && !error && item.parsedEpisodeInfo ? (
+              <ParseResult item={item} />
+            ) : null}
+
+            {title ? null : (
+              <div className={styles.message}>
+                <div className={styles.helpText}>
+                  Enter a release title in the input above
+                </div>
+                <div>
+                  Sonarr will attempt to parse the title and show you details
+                  about it
+                </div>
+              </div>
+            )}
+          </>
         )}
       </ModalBody>
 
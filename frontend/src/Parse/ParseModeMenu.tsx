@@ -0,0 +1,56 @@
+import React from 'react';
+import Icon from 'Components/Icon';
+import Menu from 'Components/Menu/Menu';
+import MenuButton from 'Components/Menu/MenuButton';
+import MenuContent from 'Components/Menu/MenuContent';
+import SelectedMenuItem from 'Components/Menu/SelectedMenuItem';
+import { align, icons } from 'Helpers/Props';
+import translate from 'Utilities/String/translate';
+import styles from './ParseModeMenu.css';
+
+export type ParseMode = 'single' | 'batch';
+
+interface ParseModeMenuProps {
+  mode: ParseMode;
+  onModeChange(mode: ParseMode): void;
+}
+
+function ParseModeMenu(props: ParseModeMenuProps) {
+  const { mode, onModeChange } = props;
+
+  return (
+    <div className={styles.container}>
+      <Menu alignMenu={align.RIGHT}>
+        <MenuButton>
+          <Icon name={icons.PARSE} size={22} />
+
+          <div className={styles.modeText}>
+            {mode === 'batch'
+              ? translate('MultipleTitles')
+              : translate('SingleTitle')}
+          </div>
+        </MenuButton>
+
+        <MenuContent>
+          <SelectedMenuItem
+            name="single"
+            isSelected={mode === 'single'}
+            onPress={onModeChange}
+          >
+            {translate('SingleTitle')}
+          </SelectedMenuItem>
+
+          <SelectedMenuItem
+            name="batch"
+            isSelected={mode === 'batch'}
+            onPress={onModeChange}
+          >
+            {translate('MultipleTitles')}
+          </SelectedMenuItem>
+        </MenuContent>
+      </Menu>
+    </div>
+  );
+}
+
+export default ParseModeMenu;
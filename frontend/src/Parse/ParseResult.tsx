@@ -5,6 +5,7 @@ import EpisodeFormats from 'Episode/EpisodeFormats';
 import SeriesTitleLink from 'Series/SeriesTitleLink';
 import translate from 'Utilities/String/translate';
 import ParseResultItem from './ParseResultItem';
+import ParseUpgradeComparison from './ParseUpgradeComparison';
 import styles from './ParseResult.css';
 
 interface ParseResultProps {
@@ -236,6 +237,8 @@ function ParseResult(props: ParseResultProps) {
           data={customFormatScore}
         />
       </FieldSet>
+
+      <ParseUpgradeComparison item={item} />
     </div>
   );
 }
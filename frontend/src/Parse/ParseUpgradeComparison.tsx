@@ -0,0 +1,86 @@
+import { uniq } from 'lodash';
+import React, { useEffect, useMemo } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import { ParseModel } from 'App/State/ParseAppState';
+import FieldSet from 'Components/FieldSet';
+import LoadingIndicator from 'Components/Loading/LoadingIndicator';
+import {
+  clearEpisodeFiles,
+  fetchEpisodeFiles,
+} from 'Store/Actions/parseActions';
+import { createQualityProfileSelectorForHook } from 'Store/Selectors/createQualityProfileSelector';
+import getErrorMessage from 'Utilities/Object/getErrorMessage';
+import translate from 'Utilities/String/translate';
+import ParseUpgradeComparisonFile from './ParseUpgradeComparisonFile';
+
+interface ParseUpgradeComparisonProps {
+  item: ParseModel;
+}
+
+function ParseUpgradeComparison(props: ParseUpgradeComparisonProps) {
+  const { item } = props;
+  const { series, episodes, parsedEpisodeInfo, customFormats = [] } = item;
+
+  const { isFetching, isPopulated, error, items } = useSelector(
+    (state: AppState) => state.parse.episodeFiles
+  );
+  const qualityProfile = useSelector(
+    createQualityProfileSelectorForHook(series?.qualityProfileId ?? 0)
+  );
+  const dispatch = useDispatch();
+
+  const episodeFileIds = useMemo(() => {
+    return uniq(
+      episodes.reduce((acc: number[], episode) => {
+        if (episode.episodeFileId) {
+          acc.push(episode.episodeFileId);
+        }
+
+        return acc;
+      }, [])
+    );
+  }, [episodes]);
+
+  useEffect(() => {
+    if (!episodeFileIds.length) {
+      return;
+    }
+
+    dispatch(fetchEpisodeFiles({ episodeFileIds }));
+
+    return () => {
+      dispatch(clearEpisodeFiles());
+    };
+  }, [episodeFileIds, dispatch]);
+
+  if (!series || !qualityProfile || !episodeFileIds.length) {
+    return null;
+  }
+
+  return (
+    <FieldSet legend={translate('UpgradeComparison')}>
+      {isFetching && !isPopulated ? <LoadingIndicator /> : null}
+
+      {!isFetching && !!error ? (
+        <div>{getErrorMessage(error, translate('EpisodeFilesLoadError'))}</div>
+      ) : null}
+
+      {isPopulated && !error
+        ? items.map((episodeFile) => {
+            return (
+              <ParseUpgradeComparisonFile
+                key={episodeFile.id}
+                episodeFile={episodeFile}
+                qualityProfile={qualityProfile}
+                quality={parsedEpisodeInfo.quality}
+                customFormats={customFormats}
+              />
+            );
+          })
+        : null}
+    </FieldSet>
+  );
+}
+
+export default ParseUpgradeComparison;
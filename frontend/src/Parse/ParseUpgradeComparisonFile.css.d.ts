@@ -0,0 +1,12 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'file': string;
+  'header': string;
+  'name': string;
+  'reason': string;
+  'relativePath': string;
+  'total': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,162 @@
+import { uniqBy } from 'lodash';
+import React, { useMemo } from 'react';
+import Label from 'Components/Label';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import Table from 'Components/Table/Table';
+import TableBody from 'Components/Table/TableBody';
+import TableRow from 'Components/Table/TableRow';
+import EpisodeQuality from 'Episode/EpisodeQuality';
+import { EpisodeFile } from 'EpisodeFile/EpisodeFile';
+import { kinds } from 'Helpers/Props';
+import { QualityModel } from 'Quality/Quality';
+import CustomFormat from 'typings/CustomFormat';
+import QualityProfile from 'typings/QualityProfile';
+import formatCustomFormatScore from 'Utilities/Number/formatCustomFormatScore';
+import getCustomFormatScore, {
+  getCustomFormatItemScore,
+} from 'Utilities/Quality/getCustomFormatScore';
+import translate from 'Utilities/String/translate';
+import getUpgradeVerdict from './getUpgradeVerdict';
+import styles from './ParseUpgradeComparisonFile.css';
+
+const COLUMNS = [
+  {
+    name: 'name',
+    label: '',
+    isVisible: true,
+  },
+  {
+    name: 'existing',
+    label: () => translate('ExistingFile'),
+    isVisible: true,
+  },
+  {
+    name: 'candidate',
+    label: () => translate('Release'),
+    isVisible: true,
+  },
+  {
+    name: 'scoreDelta',
+    label: () => translate('ScoreDelta'),
+    isVisible: true,
+  },
+];
+
+interface ParseUpgradeComparisonFileProps {
+  episodeFile: EpisodeFile;
+  qualityProfile: QualityProfile;
+  quality: QualityModel;
+  customFormats: CustomFormat[];
+}
+
+function ParseUpgradeComparisonFile(props: ParseUpgradeComparisonFileProps) {
+  const { episodeFile, qualityProfile, quality, customFormats } = props;
+  const { formatItems } = qualityProfile;
+
+  const allCustomFormats = useMemo(() => {
+    return uniqBy([...episodeFile.customFormats, ...customFormats], 'id');
+  }, [episodeFile, customFormats]);
+
+  const existingScore = getCustomFormatScore(
+    formatItems,
+    episodeFile.customFormats
+  );
+  const candidateScore = getCustomFormatScore(formatItems, customFormats);
+
+  const { isUpgrade, reason } = getUpgradeVerdict(
+    qualityProfile,
+    episodeFile.quality,
+    existingScore,
+    quality,
+    candidateScore
+  );
+
+  return (
+    <div className={styles.file}>
+      <div className={styles.header}>
+        <div className={styles.relativePath} title={episodeFile.relativePath}>
+          {episodeFile.relativePath}
+        </div>
+
+        <Label kind={isUpgrade ? kinds.SUCCESS : kinds.DANGER}>
+          {isUpgrade ? translate('Upgrade') : translate('NotAnUpgrade')}
+        </Label>
+      </div>
+
+      <div className={styles.reason}>{reason}</div>
+
+      <Table columns={COLUMNS}>
+        <TableBody>
+          <TableRow>
+            <TableRowCell className={styles.name}>
+              {translate('Quality')}
+            </TableRowCell>
+
+            <TableRowCell>
+              <EpisodeQuality quality={episodeFile.quality} />
+            </TableRowCell>
+
+            <TableRowCell>
+              <EpisodeQuality quality={quality} />
+            </TableRowCell>
+
+            <TableRowCell />
+          </TableRow>
+
+          {allCustomFormats.map((customFormat) => {
+            const score = getCustomFormatItemScore(
+              formatItems,
+              customFormat.id
+            );
+            const hasExisting = episodeFile.customFormats.some(
+              (f) => f.id === customFormat.id
+            );
+            const hasCandidate = customFormats.some(
+              (f) => f.id === customFormat.id
+            );
+            const delta =
+              (hasCandidate ? score : 0) - (hasExisting ? score : 0);
+
+            return (
+              <TableRow key={customFormat.id}>
+                <TableRowCell className={styles.name}>
+                  {customFormat.name}
+                </TableRowCell>
+
+                <TableRowCell>
+                  {hasExisting ? formatCustomFormatScore(score, 1) : '-'}
+                </TableRowCell>
+
+                <TableRowCell>
+                  {hasCandidate ? formatCustomFormatScore(score, 1) : '-'}
+                </TableRowCell>
+
+                <TableRowCell>{formatCustomFormatScore(delta, 1)}</TableRowCell>
+              </TableRow>
+            );
+          })}
+
+          <TableRow>
+            <TableRowCell className={styles.name}>
+              {translate('CustomFormatScore')}
+            </TableRowCell>
+
+            <TableRowCell>
+              {formatCustomFormatScore(existingScore, 1)}
+            </TableRowCell>
+
+            <TableRowCell>
+              {formatCustomFormatScore(candidateScore, 1)}
+            </TableRowCell>
+
+            <TableRowCell className={styles.total}>
+              {formatCustomFormatScore(candidateScore - existingScore, 1)}
+            </TableRowCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default ParseUpgradeComparisonFile;
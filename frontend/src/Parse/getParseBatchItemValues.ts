@@ -0,0 +1,63 @@
+import { ParseBatchItem } from 'App/State/ParseAppState';
+import formatCustomFormatScore from 'Utilities/Number/formatCustomFormatScore';
+
+export interface ParseBatchItemValues {
+  title: string;
+  series: string;
+  seasonNumber: string;
+  episodeNumbers: string;
+  quality: string;
+  languages: string;
+  releaseGroup: string;
+  customFormatScore: string;
+}
+
+function getParseBatchItemValues(item: ParseBatchItem): ParseBatchItemValues {
+  const { title, parseResult } = item;
+  const parsedEpisodeInfo = parseResult?.parsedEpisodeInfo;
+
+  if (!parseResult || !parsedEpisodeInfo) {
+    return {
+      title,
+      series: '',
+      seasonNumber: '',
+      episodeNumbers: '',
+      quality: '',
+      languages: '',
+      releaseGroup: '',
+      customFormatScore: '',
+    };
+  }
+
+  const {
+    seriesTitle,
+    seasonNumber,
+    episodeNumbers,
+    absoluteEpisodeNumbers,
+    quality,
+    releaseGroup,
+  } = parsedEpisodeInfo;
+
+  const languages = parseResult.languages ?? parsedEpisodeInfo.languages;
+
+  return {
+    title,
+    series: parseResult.series?.title ?? seriesTitle,
+    seasonNumber:
+      seasonNumber === 0 && absoluteEpisodeNumbers.length
+        ? ''
+        : String(seasonNumber),
+    episodeNumbers: episodeNumbers.length
+      ? episodeNumbers.join(', ')
+      : absoluteEpisodeNumbers.join(', '),
+    quality: quality.quality.name,
+    languages: languages.map((l) => l.name).join(', '),
+    releaseGroup: releaseGroup ?? '',
+    customFormatScore: formatCustomFormatScore(
+      parseResult.customFormatScore,
+      parseResult.customFormats?.length
+    ),
+  };
+}
+
+export default getParseBatchItemValues;
@@ -0,0 +1,33 @@
+export interface ParseLinkParams {
+  title: string;
+  seriesId?: number;
+}
+
+export function getParseLinkParams(search: string): ParseLinkParams {
+  const params = new URLSearchParams(search);
+  const seriesId = parseInt(params.get('seriesId') ?? '');
+
+  return {
+    title: params.get('title') ?? '',
+    seriesId: isNaN(seriesId) ? undefined : seriesId,
+  };
+}
+
+function getParseLink(title: string, seriesId?: number, absolute = false) {
+  const params = new URLSearchParams();
+
+  if (title) {
+    params.set('title', title);
+  }
+
+  if (seriesId) {
+    params.set('seriesId', String(seriesId));
+  }
+
+  const query = params.toString();
+  const path = `${window.Sonarr.urlBase}/parse${query ? `?${query}` : ''}`;
+
+  return absolute ? `${window.location.origin}${path}` : path;
+}
+
+export default getParseLink;
@@ -0,0 +1,115 @@
+import { QualityModel } from 'Quality/Quality';
+import QualityProfile from 'typings/QualityProfile';
+import getQualityProfileItemIndex, {
+  getQualityProfileCutoffIndex,
+  isQualityAllowed,
+} from 'Utilities/Quality/getQualityProfileItemIndex';
+import translate from 'Utilities/String/translate';
+
+export interface UpgradeVerdict {
+  isUpgrade: boolean;
+  reason: string;
+}
+
+function compareRevisions(quality: QualityModel, otherQuality: QualityModel) {
+  const { revision } = quality;
+  const { revision: otherRevision } = otherQuality;
+
+  if (revision.version !== otherRevision.version) {
+    return revision.version - otherRevision.version;
+  }
+
+  return revision.real - otherRevision.real;
+}
+
+function getUpgradeVerdict(
+  qualityProfile: QualityProfile,
+  existingQuality: QualityModel,
+  existingScore: number,
+  candidateQuality: QualityModel,
+  candidateScore: number
+): UpgradeVerdict {
+  const { items, cutoff, upgradeAllowed, minFormatScore, cutoffFormatScore } =
+    qualityProfile;
+
+  if (!isQualityAllowed(items, candidateQuality.quality.id)) {
+    return {
+      isUpgrade: false,
+      reason: translate('UpgradeVerdictQualityNotAllowed'),
+    };
+  }
+
+  if (candidateScore < minFormatScore) {
+    return {
+      isUpgrade: false,
+      reason: translate('UpgradeVerdictBelowMinimumFormatScore', {
+        minFormatScore,
+      }),
+    };
+  }
+
+  const existingIndex = getQualityProfileItemIndex(
+    items,
+    existingQuality.quality.id
+  );
+  const candidateIndex = getQualityProfileItemIndex(
+    items,
+    candidateQuality.quality.id
+  );
+  const qualityComparison =
+    candidateIndex === existingIndex
+      ? compareRevisions(candidateQuality, existingQuality)
+      : candidateIndex - existingIndex;
+
+  if (qualityComparison < 0) {
+    return {
+      isUpgrade: false,
+      reason: translate('UpgradeVerdictLowerQuality'),
+    };
+  }
+
+  if (candidateIndex === existingIndex && qualityComparison > 0) {
+    return {
+      isUpgrade: true,
+      reason: translate('UpgradeVerdictBetterRevision'),
+    };
+  }
+
+  if (!upgradeAllowed) {
+    return {
+      isUpgrade: false,
+      reason: translate('UpgradeVerdictUpgradesNotAllowed'),
+    };
+  }
+
+  const isQualityCutoffMet =
+    existingIndex >= getQualityProfileCutoffIndex(items, cutoff);
+
+  if (isQualityCutoffMet && existingScore >= cutoffFormatScore) {
+    return {
+      isUpgrade: false,
+      reason: translate('UpgradeVerdictCutoffMet'),
+    };
+  }
+
+  if (qualityComparison > 0) {
+    return {
+      isUpgrade: true,
+      reason: translate('UpgradeVerdictBetterQuality'),
+    };
+  }
+
+  if (candidateScore > existingScore) {
+    return {
+      isUpgrade: true,
+      reason: translate('UpgradeVerdictBetterFormatScore'),
+    };
+  }
+
+  return {
+    isUpgrade: false,
+    reason: translate('UpgradeVerdictNotBetter'),
+  };
+}
+
+export default getUpgradeVerdict;
@@ -0,0 +1,130 @@
+import { maxBy } from 'lodash';
+import { Tag } from 'App/State/TagsAppState';
+import Column from 'Components/Table/Column';
+import Series from 'Series/Series';
+import QualityProfile from 'typings/QualityProfile';
+import formatBytes from 'Utilities/Number/formatBytes';
+import titleCase from 'Utilities/String/titleCase';
+
+export type SeriesIndexExportValue = string | number | boolean | null;
+
+export interface SeriesIndexExportData {
+  columns: { name: string; label: string }[];
+  rows: Record<string, SeriesIndexExportValue>[];
+}
+
+interface SeriesIndexExportOptions {
+  qualityProfiles: QualityProfile[];
+  tags: Tag[];
+}
+
+// Columns that only contain actions can't be exported
+const EXCLUDED_COLUMNS = ['actions'];
+
+function getColumnLabel(column: Column) {
+  const label = column.columnLabel ?? column.label;
+
+  if (typeof label === 'function') {
+    return label();
+  }
+
+  return typeof label === 'string' ? label : column.name;
+}
+
+function getValue(
+  series: Series,
+  name: string,
+  options: SeriesIndexExportOptions
+): SeriesIndexExportValue {
+  const { statistics } = series;
+
+  switch (name) {
+    case 'status':
+      return titleCase(series.status);
+    case 'sortTitle':
+      return series.title;
+    case 'seriesType':
+      return titleCase(series.seriesType);
+    case 'network':
+      return series.network ?? null;
+    case 'qualityProfileId':
+      return (
+        options.qualityProfiles.find((p) => p.id === series.qualityProfileId)
+          ?.name ?? null
+      );
+    case 'nextAiring':
+      return series.nextAiring ?? null;
+    case 'previousAiring':
+      return series.previousAiring ?? null;
+    case 'originalLanguage':
+      return series.originalLanguage?.name ?? null;
+    case 'added':
+      return series.added ?? null;
+    case 'seasonCount':
+      return statistics?.seasonCount ?? 0;
+    case 'seasonFolder':
+      return series.seasonFolder;
+    case 'episodeProgress':
+      return `${statistics?.episodeFileCount ?? 0} / ${
+        statistics?.episodeCount ?? 0
+      }`;
+    case 'episodeCount':
+      return statistics?.totalEpisodeCount ?? 0;
+    case 'latestSeason':
+      return (
+        maxBy(series.seasons, (season) => season.seasonNumber)?.seasonNumber ??
+        null
+      );
+    case 'year':
+      return series.year;
+    case 'path':
+      return series.path;
+    case 'sizeOnDisk':
+      return formatBytes(statistics?.sizeOnDisk ?? 0);
+    case 'genres':
+      return (series.genres ?? []).join(', ');
+    case 'ratings':
+      return series.ratings?.value ?? null;
+    case 'certification':
+      return series.certification ?? null;
+    case 'releaseGroups':
+      return (statistics?.releaseGroups ?? []).join(', ');
+    case 'tags':
+      return series.tags
+        .map((id) => options.tags.find((t) => t.id === id)?.label)
+        .filter((label) => !!label)
+        .join(', ');
+    case 'useSceneNumbering':
+      return series.useSceneNumbering;
+    default:
+      return null;
+  }
+}
+
+function getSeriesIndexExportData(
+  items: Series[],
+  columns: Column[],
+  options: SeriesIndexExportOptions
+): SeriesIndexExportData {
+  const exportColumns = columns
+    .filter((c) => c.isVisible && !EXCLUDED_COLUMNS.includes(c.name))
+    .map((c) => ({ name: c.name, label: getColumnLabel(c) }));
+
+  const rows = items.map((series) => {
+    return exportColumns.reduce<Record<string, SeriesIndexExportValue>>(
+      (acc, { name }) => {
+        acc[name] = getValue(series, name, options);
+
+        return acc;
+      },
+      {}
+    );
+  });
+
+  return {
+    columns: exportColumns,
+    rows,
+  };
+}
+
+export default getSeriesIndexExportData;
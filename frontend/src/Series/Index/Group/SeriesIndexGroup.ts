@@ -0,0 +1,36 @@
+import Series from 'Series/Series';
+
+export type SeriesIndexGroupBy =
+  | 'none'
+  | 'network'
+  | 'status'
+  | 'seriesType'
+  | 'qualityProfileId'
+  | 'rootFolderPath'
+  | 'year'
+  | 'tags';
+
+export interface SeriesIndexGroupStatistics {
+  seriesCount: number;
+  episodeFileCount: number;
+  episodeCount: number;
+  sizeOnDisk: number;
+}
+
+export interface SeriesIndexGroup {
+  key: string;
+  label: string;
+  items: Series[];
+  statistics: SeriesIndexGroupStatistics;
+}
+
+export type SeriesIndexListItem =
+  | {
+      type: 'group';
+      group: SeriesIndexGroup;
+      isCollapsed: boolean;
+    }
+  | {
+      type: 'series';
+      items: Series[];
+    };
@@ -0,0 +1,10 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'groupHeader': string;
+  'label': string;
+  'statistic': string;
+  'statistics': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
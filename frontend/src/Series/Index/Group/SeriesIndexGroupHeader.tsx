@@ -0,0 +1,55 @@
+import React, { useCallback } from 'react';
+import Icon from 'Components/Icon';
+import Link from 'Components/Link/Link';
+import { icons } from 'Helpers/Props';
+import formatBytes from 'Utilities/Number/formatBytes';
+import translate from 'Utilities/String/translate';
+import { SeriesIndexGroup } from './SeriesIndexGroup';
+import styles from './SeriesIndexGroupHeader.css';
+
+interface SeriesIndexGroupHeaderProps {
+  group: SeriesIndexGroup;
+  isCollapsed: boolean;
+  onCollapseToggle(key: string): void;
+}
+
+function SeriesIndexGroupHeader(props: SeriesIndexGroupHeaderProps) {
+  const { group, isCollapsed, onCollapseToggle } = props;
+  const { key, label, statistics } = group;
+  const { seriesCount, episodeFileCount, episodeCount, sizeOnDisk } =
+    statistics;
+
+  const onPress = useCallback(() => {
+    onCollapseToggle(key);
+  }, [key, onCollapseToggle]);
+
+  return (
+    <Link className={styles.groupHeader} onPress={onPress}>
+      <Icon
+        name={isCollapsed ? icons.EXPAND : icons.COLLAPSE}
+        title={isCollapsed ? translate('Expand') : translate('Collapse')}
+      />
+
+      <div className={styles.label} title={label}>
+        {label}
+      </div>
+
+      <div className={styles.statistics}>
+        <div className={styles.statistic}>
+          {translate('CountSeries', { count: seriesCount })}
+        </div>
+
+        <div className={styles.statistic}>
+          {translate('EpisodeProgressCount', {
+            episodeFileCount,
+            episodeCount,
+          })}
+        </div>
+
+        <div className={styles.statistic}>{formatBytes(sizeOnDisk)}</div>
+      </div>
+    </Link>
+  );
+}
+
+export default SeriesIndexGroupHeader;
@@ -0,0 +1,7 @@
+function getSeriesIndexJumpCharacter(value: string) {
+  const character = value.charAt(0).toLowerCase();
+
+  return /^\d/.test(character) ? '#' : character;
+}
+
+export default getSeriesIndexJumpCharacter;
@@ -0,0 +1,10 @@
+import dimensions from 'Styles/Variables/dimensions';
+import { SeriesIndexListItem } from './SeriesIndexGroup';
+
+const groupHeaderHeight = parseInt(dimensions.seriesIndexGroupHeaderHeight);
+
+function getSeriesIndexRowHeight(row: SeriesIndexListItem, rowHeight: number) {
+  return row.type === 'group' ? groupHeaderHeight : rowHeight;
+}
+
+export default getSeriesIndexRowHeight;
@@ -0,0 +1,28 @@
+import getSeriesIndexJumpCharacter from './getSeriesIndexJumpCharacter';
+import { SeriesIndexListItem } from './SeriesIndexGroup';
+
+// When grouped the jump bar lists the first character of each group
+// so jump to the group header, otherwise jump to the first series.
+function getSeriesIndexRowIndexOfFirstCharacter(
+  rows: SeriesIndexListItem[],
+  character: string
+) {
+  const isGrouped = rows.some((row) => row.type === 'group');
+
+  return rows.findIndex((row) => {
+    if (row.type === 'group') {
+      return getSeriesIndexJumpCharacter(row.group.label) === character;
+    }
+
+    // Rows can hold several series, so the character may start after
+    // the first item in the row.
+    return (
+      !isGrouped &&
+      row.items.some((series) => {
+        return getSeriesIndexJumpCharacter(series.sortTitle) === character;
+      })
+    );
+  });
+}
+
+export default getSeriesIndexRowIndexOfFirstCharacter;
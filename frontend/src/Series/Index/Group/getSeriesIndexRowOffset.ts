@@ -0,0 +1,14 @@
+import getSeriesIndexRowHeight from './getSeriesIndexRowHeight';
+import { SeriesIndexListItem } from './SeriesIndexGroup';
+
+function getSeriesIndexRowOffset(
+  rows: SeriesIndexListItem[],
+  index: number,
+  rowHeight: number
+) {
+  return rows.slice(0, index).reduce((acc, row) => {
+    return acc + getSeriesIndexRowHeight(row, rowHeight);
+  }, 0);
+}
+
+export default getSeriesIndexRowOffset;
@@ -0,0 +1,40 @@
+import Series from 'Series/Series';
+import { SeriesIndexGroup, SeriesIndexListItem } from './SeriesIndexGroup';
+
+function chunkItems(items: Series[], itemsPerRow: number) {
+  const rows: SeriesIndexListItem[] = [];
+
+  for (let i = 0; i < items.length; i += itemsPerRow) {
+    rows.push({
+      type: 'series',
+      items: items.slice(i, i + itemsPerRow),
+    });
+  }
+
+  return rows;
+}
+
+function getSeriesIndexRows(
+  items: Series[],
+  groups: SeriesIndexGroup[] | null,
+  collapsedGroups: string[],
+  itemsPerRow: number
+) {
+  if (!groups) {
+    return chunkItems(items, itemsPerRow);
+  }
+
+  return groups.reduce((acc: SeriesIndexListItem[], group) => {
+    const isCollapsed = collapsedGroups.includes(group.key);
+
+    acc.push({ type: 'group', group, isCollapsed });
+
+    if (!isCollapsed) {
+      acc.push(...chunkItems(group.items, itemsPerRow));
+    }
+
+    return acc;
+  }, []);
+}
+
+export default getSeriesIndexRows;
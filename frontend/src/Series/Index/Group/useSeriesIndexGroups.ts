@@ -0,0 +1,207 @@
+import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { createSelector } from 'reselect';
+import AppState from 'App/State/AppState';
+import Series from 'Series/Series';
+import { getSeriesStatusDetails } from 'Series/SeriesStatus';
+import translate from 'Utilities/String/translate';
+import { SeriesIndexGroup, SeriesIndexGroupBy } from './SeriesIndexGroup';
+
+interface GroupKey {
+  key: string;
+  label: string;
+  sortValue: string | number;
+}
+
+const UNKNOWN_KEY = '__unknown__';
+
+const seriesTypeLabels: Record<string, () => string> = {
+  anime: () => translate('Anime'),
+  daily: () => translate('Daily'),
+  standard: () => translate('Standard'),
+};
+
+const groupSourcesSelector = createSelector(
+  (state: AppState) => state.series.items,
+  (state: AppState) => state.settings.qualityProfiles.items,
+  (state: AppState) => state.tags.items,
+  (series, qualityProfiles, tags) => {
+    return {
+      seriesMap: series.reduce((acc: Record<number, Series>, s) => {
+        acc[s.id] = s;
+
+        return acc;
+      }, {}),
+      qualityProfiles,
+      tags,
+    };
+  }
+);
+
+function getUnknownGroupKey(label = translate('Unknown')): GroupKey {
+  return { key: UNKNOWN_KEY, label, sortValue: '' };
+}
+
+function useSeriesIndexGroups(
+  items: Series[],
+  groupBy: SeriesIndexGroupBy
+): SeriesIndexGroup[] | null {
+  const { seriesMap, qualityProfiles, tags } =
+    useSelector(groupSourcesSelector);
+
+  return useMemo(() => {
+    if (groupBy === 'none') {
+      return null;
+    }
+
+    const getGroupKeys = (series: Series): GroupKey[] => {
+      switch (groupBy) {
+        case 'network':
+          return series.network
+            ? [
+                {
+                  key: series.network,
+                  label: series.network,
+                  sortValue: series.network.toLowerCase(),
+                },
+              ]
+            : [getUnknownGroupKey()];
+        case 'status': {
+          const { title } = getSeriesStatusDetails(series.status);
+
+          return [{ key: series.status, label: title, sortValue: title }];
+        }
+        case 'seriesType': {
+          const label = seriesTypeLabels[series.seriesType]?.();
+
+          return label
+            ? [{ key: series.seriesType, label, sortValue: label }]
+            : [getUnknownGroupKey()];
+        }
+        case 'qualityProfileId': {
+          const qualityProfile = qualityProfiles.find(
+            (p) => p.id === series.qualityProfileId
+          );
+
+          return qualityProfile
+            ? [
+                {
+                  key: `${qualityProfile.id}`,
+                  label: qualityProfile.name,
+                  sortValue: qualityProfile.name.toLowerCase(),
+                },
+              ]
+            : [getUnknownGroupKey()];
+        }
+        case 'rootFolderPath':
+          return series.rootFolderPath
+            ? [
+                {
+                  key: series.rootFolderPath,
+                  label: series.rootFolderPath,
+                  sortValue: series.rootFolderPath.toLowerCase(),
+                },
+              ]
+            : [getUnknownGroupKey()];
+        case 'year':
+          return series.year
+            ? [
+                {
+                  key: `${series.year}`,
+                  label: `${series.year}`,
+                  sortValue: series.year,
+                },
+              ]
+            : [getUnknownGroupKey()];
+        case 'tags': {
+          const seriesTags = tags.filter((t) => series.tags.includes(t.id));
+
+          // Series with multiple tags are included in the group for each tag
+          return seriesTags.length
+            ? seriesTags.map((tag) => ({
+                key: `${tag.id}`,
+                label: tag.label,
+                sortValue: tag.label.toLowerCase(),
+              }))
+            : [getUnknownGroupKey(translate('NoTags'))];
+        }
+        default:
+          return [getUnknownGroupKey()];
+      }
+    };
+
+    const groups = new Map<
+      string,
+      { group: SeriesIndexGroup; sortValue: string | number }
+    >();
+
+    items.forEach((item) => {
+      const series = seriesMap[item.id];
+
+      if (!series) {
+        return;
+      }
+
+      getGroupKeys(series).forEach(({ key, label, sortValue }) => {
+        let entry = groups.get(key);
+
+        if (!entry) {
+          entry = {
+            group: {
+              key,
+              label,
+              items: [],
+              statistics: {
+                seriesCount: 0,
+                episodeFileCount: 0,
+                episodeCount: 0,
+                sizeOnDisk: 0,
+              },
+            },
+            sortValue,
+          };
+
+          groups.set(key, entry);
+        }
+
+        const { statistics } = entry.group;
+        const {
+          episodeFileCount = 0,
+          episodeCount = 0,
+          sizeOnDisk = 0,
+        } = series.statistics ?? {};
+
+        entry.group.items.push(item);
+        statistics.seriesCount++;
+        statistics.episodeFileCount += episodeFileCount;
+        statistics.episodeCount += episodeCount;
+        statistics.sizeOnDisk += sizeOnDisk;
+      });
+    });
+
+    // Items keep the current sort order within each group while the groups
+    // themselves are sorted by label, with the unknown group always last.
+    return Array.from(groups.values())
+      .sort((a, b) => {
+        if (a.group.key === UNKNOWN_KEY) {
+          return 1;
+        }
+
+        if (b.group.key === UNKNOWN_KEY) {
+          return -1;
+        }
+
+        if (
+          typeof a.sortValue === 'number' &&
+          typeof b.sortValue === 'number'
+        ) {
+          return a.sortValue - b.sortValue;
+        }
+
+        return `${a.sortValue}`.localeCompare(`${b.sortValue}`);
+      })
+      .map(({ group }) => group);
+  }, [items, groupBy, seriesMap, qualityProfiles, tags]);
+}
+
+export default useSeriesIndexGroups;
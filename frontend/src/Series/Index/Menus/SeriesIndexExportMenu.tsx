@@ -0,0 +1,83 @@
+import React, { useCallback } from 'react';
+import { useSelector } from 'react-redux';
+import { createSelector } from 'reselect';
+import AppState from 'App/State/AppState';
+import Menu from 'Components/Menu/Menu';
+import MenuContent from 'Components/Menu/MenuContent';
+import MenuItem from 'Components/Menu/MenuItem';
+import ToolbarMenuButton from 'Components/Menu/ToolbarMenuButton';
+import Column from 'Components/Table/Column';
+import { align, icons } from 'Helpers/Props';
+import getSeriesIndexExportData from 'Series/Index/Export/getSeriesIndexExportData';
+import Series from 'Series/Series';
+import createTagsSelector from 'Store/Selectors/createTagsSelector';
+import downloadFile from 'Utilities/File/downloadFile';
+import createCsv from 'Utilities/String/createCsv';
+import translate from 'Utilities/String/translate';
+
+function createExportOptionsSelector() {
+  return createSelector(
+    (state: AppState) => state.settings.qualityProfiles.items,
+    createTagsSelector(),
+    (qualityProfiles, tags) => {
+      return {
+        qualityProfiles,
+        tags,
+      };
+    }
+  );
+}
+
+interface SeriesIndexExportMenuProps {
+  items: Series[];
+  columns: Column[];
+  isDisabled: boolean;
+}
+
+function SeriesIndexExportMenu(props: SeriesIndexExportMenuProps) {
+  const { items, columns, isDisabled } = props;
+  const options = useSelector(createExportOptionsSelector());
+
+  const onCsvPress = useCallback(() => {
+    const { columns: exportColumns, rows } = getSeriesIndexExportData(
+      items,
+      columns,
+      options
+    );
+
+    const csv = createCsv(
+      exportColumns.map((c) => c.label),
+      rows.map((row) => exportColumns.map((c) => row[c.name]))
+    );
+
+    downloadFile('sonarr-series.csv', csv, 'text/csv');
+  }, [items, columns, options]);
+
+  const onJsonPress = useCallback(() => {
+    const { rows } = getSeriesIndexExportData(items, columns, options);
+
+    downloadFile(
+      'sonarr-series.json',
+      JSON.stringify(rows, null, 2),
+      'application/json'
+    );
+  }, [items, columns, options]);
+
+  return (
+    <Menu alignMenu={align.RIGHT}>
+      <ToolbarMenuButton
+        iconName={icons.EXPORT}
+        text={translate('Export')}
+        isDisabled={isDisabled}
+      />
+
+      <MenuContent>
+        <MenuItem onPress={onCsvPress}>{translate('ExportCsv')}</MenuItem>
+
+        <MenuItem onPress={onJsonPress}>{translate('ExportJson')}</MenuItem>
+      </MenuContent>
+    </Menu>
+  );
+}
+
+export default SeriesIndexExportMenu;
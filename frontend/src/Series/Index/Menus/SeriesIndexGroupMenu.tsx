@@ -0,0 +1,64 @@
+import React, { useCallback } from 'react';
+import Menu from 'Components/Menu/Menu';
+import MenuContent from 'Components/Menu/MenuContent';
+import SelectedMenuItem from 'Components/Menu/SelectedMenuItem';
+import ToolbarMenuButton from 'Components/Menu/ToolbarMenuButton';
+import { align, icons } from 'Helpers/Props';
+import { SeriesIndexGroupBy } from 'Series/Index/Group/SeriesIndexGroup';
+import translate from 'Utilities/String/translate';
+
+const groupByOptions: { key: SeriesIndexGroupBy; label: () => string }[] = [
+  { key: 'none', label: () => translate('None') },
+  { key: 'network', label: () => translate('Network') },
+  { key: 'status', label: () => translate('Status') },
+  { key: 'seriesType', label: () => translate('Type') },
+  { key: 'qualityProfileId', label: () => translate('QualityProfile') },
+  { key: 'rootFolderPath', label: () => translate('RootFolderPath') },
+  { key: 'year', label: () => translate('Year') },
+  { key: 'tags', label: () => translate('Tags') },
+];
+
+interface SeriesIndexGroupMenuProps {
+  groupBy: SeriesIndexGroupBy;
+  isDisabled: boolean;
+  onGroupBySelect(value: SeriesIndexGroupBy): unknown;
+}
+
+function SeriesIndexGroupMenu(props: SeriesIndexGroupMenuProps) {
+  const { groupBy, isDisabled, onGroupBySelect } = props;
+
+  const onPress = useCallback(
+    (name: string) => {
+      onGroupBySelect(name as SeriesIndexGroupBy);
+    },
+    [onGroupBySelect]
+  );
+
+  return (
+    <Menu alignMenu={align.RIGHT}>
+      <ToolbarMenuButton
+        iconName={icons.GROUP}
+        text={translate('Group')}
+        showIndicator={groupBy !== 'none'}
+        isDisabled={isDisabled}
+      />
+
+      <MenuContent>
+        {groupByOptions.map(({ key, label }) => {
+          return (
+            <SelectedMenuItem
+              key={key}
+              name={key}
+              isSelected={groupBy === key}
+              onPress={onPress}
+            >
+              {label()}
+            </SelectedMenuItem>
+          );
+        })}
+      </MenuContent>
+    </Menu>
+  );
+}
+
+export default SeriesIndexGroupMenu;
@@ -0,0 +1,75 @@
+import React, { useCallback } from 'react';
+import { SeriesIndexWorkspace } from 'App/State/SeriesAppState';
+import Menu from 'Components/Menu/Menu';
+import MenuContent from 'Components/Menu/MenuContent';
+import MenuItem from 'Components/Menu/MenuItem';
+import MenuItemSeparator from 'Components/Menu/MenuItemSeparator';
+import SelectedMenuItem from 'Components/Menu/SelectedMenuItem';
+import ToolbarMenuButton from 'Components/Menu/ToolbarMenuButton';
+import { align, icons } from 'Helpers/Props';
+import translate from 'Utilities/String/translate';
+
+interface SeriesIndexWorkspaceMenuProps {
+  workspaces: SeriesIndexWorkspace[];
+  selectedWorkspaceId: number | null;
+  isDisabled: boolean;
+  onWorkspaceSelect(id: number): unknown;
+  onSaveWorkspacePress(): unknown;
+  onManageWorkspacesPress(): unknown;
+}
+
+function SeriesIndexWorkspaceMenu(props: SeriesIndexWorkspaceMenuProps) {
+  const {
+    workspaces,
+    selectedWorkspaceId,
+    isDisabled,
+    onWorkspaceSelect,
+    onSaveWorkspacePress,
+    onManageWorkspacesPress,
+  } = props;
+
+  const onWorkspacePress = useCallback(
+    (name: string) => {
+      onWorkspaceSelect(parseInt(name));
+    },
+    [onWorkspaceSelect]
+  );
+
+  return (
+    <Menu alignMenu={align.RIGHT}>
+      <ToolbarMenuButton
+        iconName={icons.WORKSPACE}
+        text={translate('Workspace')}
+        showIndicator={selectedWorkspaceId != null}
+        isDisabled={isDisabled}
+      />
+
+      <MenuContent>
+        {workspaces.map((workspace) => {
+          return (
+            <SelectedMenuItem
+              key={workspace.id}
+              name={`${workspace.id}`}
+              isSelected={workspace.id === selectedWorkspaceId}
+              onPress={onWorkspacePress}
+            >
+              {workspace.name}
+            </SelectedMenuItem>
+          );
+        })}
+
+        {workspaces.length ? <MenuItemSeparator /> : null}
+
+        <MenuItem onPress={onSaveWorkspacePress}>
+          {translate('SaveWorkspace')}
+        </MenuItem>
+
+        <MenuItem onPress={onManageWorkspacesPress}>
+          {translate('ManageWorkspaces')}
+        </MenuItem>
+      </MenuContent>
+    </Menu>
+  );
+}
+
+export default SeriesIndexWorkspaceMenu;
@@ -1,11 +1,29 @@
 import { throttle } from 'lodash';
-import React, { RefObject, useEffect, useMemo, useRef, useState } from 'react';
+import React, {
+  RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { useSelector } from 'react-redux';
-import { FixedSizeList as List, ListChildComponentProps } from 'react-window';
+import {
+  ListChildComponentProps,
+  VariableSizeList as List,
+} from 'react-window';
 import useMeasure from 'Helpers/Hooks/useMeasure';
+import getSeriesIndexRowHeight from 'Series/Index/Group/getSeriesIndexRowHeight';
+import getSeriesIndexRowIndexOfFirstCharacter from 'Series/Index/Group/getSeriesIndexRowIndexOfFirstCharacter';
+import getSeriesIndexRowOffset from 'Series/Index/Group/getSeriesIndexRowOffset';
+import getSeriesIndexRows from 'Series/Index/Group/getSeriesIndexRows';
+import {
+  SeriesIndexGroup,
+  SeriesIndexListItem,
+} from 'Series/Index/Group/SeriesIndexGroup';
+import SeriesIndexGroupHeader from 'Series/Index/Group/SeriesIndexGroupHeader';
 import Series from 'Series/Series';
 import dimensions from 'Styles/Variables/dimensions';
-import getIndexOfFirstCharacter from 'Utilities/Array/getIndexOfFirstCharacter';
 import selectOverviewOptions from './selectOverviewOptions';
 import SeriesIndexOverview from './SeriesIndexOverview';
 
@@ -22,13 +40,14 @@ const bodyPaddingSmallScreen = parseInt(
 );
 
 interface RowItemData {
-  items: Series[];
+  rows: SeriesIndexListItem[];
   sortKey: string;
   posterWidth: number;
   posterHeight: number;
   rowHeight: number;
   isSelectMode: boolean;
   isSmallScreen: boolean;
+  onGroupCollapseToggle(key: string): void;
 }
 
 interface SeriesIndexOverviewsProps {
@@ -40,6 +59,9 @@ interface SeriesIndexOverviewsProps {
   scrollerRef: RefObject<HTMLElement>;
   isSelectMode: boolean;
   isSmallScreen: boolean;
+  groups: SeriesIndexGroup[] | null;
+  collapsedGroups: string[];
+  onGroupCollapseToggle(key: string): void;
 }
 
 const Row: React.FC<ListChildComponentProps<RowItemData>> = ({
@@ -47,13 +69,27 @@ const Row: React.FC<ListChildComponentProps<RowItemData>> = ({
   style,
   data,
 }) => {
-  const { items, ...otherData } = data;
+  const { rows, onGroupCollapseToggle, ...otherData } = data;
 
-  if (index >= items.length) {
+  if (index >= rows.length) {
     return null;
   }
 
-  const series = items[index];
+  const row = rows[index];
+
+  if (row.type === 'group') {
+    return (
+      <div style={style}>
+        <SeriesIndexGroupHeader
+          group={row.group}
+          isCollapsed={row.isCollapsed}
+          onCollapseToggle={onGroupCollapseToggle}
+        />
+      </div>
+    );
+  }
+
+  const series = row.items[0];
 
   return (
     <div style={style}>
@@ -74,6 +110,9 @@ function SeriesIndexOverviews(props: SeriesIndexOverviewsProps) {
     scrollerRef,
     isSelectMode,
     isSmallScreen,
+    groups,
+    collapsedGroups,
+    onGroupCollapseToggle,
   } = props;
 
   const { size: posterSize, detailedProgressBar } = useSelector(
@@ -111,6 +150,19 @@ function SeriesIndexOverviews(props: SeriesIndexOverviewsProps) {
     return heights.reduce((acc, height) => acc + height, 0);
   }, [detailedProgressBar, posterHeight, isSmallScreen]);
 
+  const rows = useMemo(() => {
+    return getSeriesIndexRows(items, groups, collapsedGroups, 1);
+  }, [items, groups, collapsedGroups]);
+
+  const getRowHeight = useCallback(
+    (index: number) => getSeriesIndexRowHeight(rows[index], rowHeight),
+    [rows, rowHeight]
+  );
+
+  useEffect(() => {
+    listRef.current?.resetAfterIndex(0);
+  }, [rows, rowHeight, listRef]);
+
   useEffect(() => {
     const current = scrollerRef.current as HTMLElement;
 
@@ -162,10 +214,13 @@ function SeriesIndexOverviews(props: SeriesIndexOverviewsProps) {
 
   useEffect(() => {
     if (jumpToCharacter) {
-      const index = getIndexOfFirstCharacter(items, jumpToCharacter);
+      const index = getSeriesIndexRowIndexOfFirstCharacter(
+        rows,
+        jumpToCharacter
+      );
 
-      if (index != null) {
-        let scrollTop = index * rowHeight;
+      if (index !== -1) {
+        let scrollTop = getSeriesIndexRowOffset(rows, index, rowHeight);
 
         // If the offset is zero go to the top, otherwise offset
         // by the approximate size of the header + padding (37 + 20).
@@ -179,7 +234,7 @@ function SeriesIndexOverviews(props: SeriesIndexOverviewsProps) {
         scrollerRef.current?.scrollTo(0, scrollTop);
       }
     }
-  }, [jumpToCharacter, rowHeight, items, scrollerRef, listRef]);
+  }, [jumpToCharacter, rowHeight, rows, scrollerRef, listRef]);
 
   return (
     <div ref={measureRef}>
@@ -192,16 +247,17 @@ function SeriesIndexOverviews(props: SeriesIndexOverviewsProps) {
         }}
         width={size.width}
         height={size.height}
-        itemCount={items.length}
-        itemSize={rowHeight}
+        itemCount={rows.length}
+        itemSize={getRowHeight}
         itemData={{
-          items,
+          rows,
           sortKey,
           posterWidth,
           posterHeight,
           rowHeight,
           isSelectMode,
           isSmallScreen,
+          onGroupCollapseToggle,
         }}
       >
         {Row}
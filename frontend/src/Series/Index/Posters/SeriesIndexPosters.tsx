@@ -1,15 +1,33 @@
 import { throttle } from 'lodash';
-import React, { RefObject, useEffect, useMemo, useRef, useState } from 'react';
+import React, {
+  RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { useSelector } from 'react-redux';
-import { FixedSizeGrid as Grid, GridChildComponentProps } from 'react-window';
+import {
+  ListChildComponentProps,
+  VariableSizeList as List,
+} from 'react-window';
 import { createSelector } from 'reselect';
 import AppState from 'App/State/AppState';
 import useMeasure from 'Helpers/Hooks/useMeasure';
 import SortDirection from 'Helpers/Props/SortDirection';
+import getSeriesIndexRowHeight from 'Series/Index/Group/getSeriesIndexRowHeight';
+import getSeriesIndexRowIndexOfFirstCharacter from 'Series/Index/Group/getSeriesIndexRowIndexOfFirstCharacter';
+import getSeriesIndexRowOffset from 'Series/Index/Group/getSeriesIndexRowOffset';
+import getSeriesIndexRows from 'Series/Index/Group/getSeriesIndexRows';
+import {
+  SeriesIndexGroup,
+  SeriesIndexListItem,
+} from 'Series/Index/Group/SeriesIndexGroup';
+import SeriesIndexGroupHeader from 'Series/Index/Group/SeriesIndexGroupHeader';
 import SeriesIndexPoster from 'Series/Index/Posters/SeriesIndexPoster';
 import Series from 'Series/Series';
 import dimensions from 'Styles/Variables/dimensions';
-import getIndexOfFirstCharacter from 'Utilities/Array/getIndexOfFirstCharacter';
 
 const bodyPadding = parseInt(dimensions.pageContentBodyPadding);
 const bodyPaddingSmallScreen = parseInt(
@@ -28,16 +46,18 @@ const ADDITIONAL_COLUMN_COUNT: Record<string, number> = {
   large: 1,
 };
 
-interface CellItemData {
+interface RowItemData {
   layout: {
-    columnCount: number;
+    columnWidth: number;
+    rowHeight: number;
     padding: number;
     posterWidth: number;
     posterHeight: number;
   };
-  items: Series[];
+  rows: SeriesIndexListItem[];
   sortKey: string;
   isSelectMode: boolean;
+  onGroupCollapseToggle(key: string): void;
 }
 
 interface SeriesIndexPostersProps {
@@ -49,6 +69,9 @@ interface SeriesIndexPostersProps {
   scrollerRef: RefObject<HTMLElement>;
   isSelectMode: boolean;
   isSmallScreen: boolean;
+  groups: SeriesIndexGroup[] | null;
+  collapsedGroups: string[];
+  onGroupCollapseToggle(key: string): void;
 }
 
 const seriesIndexSelector = createSelector(
@@ -60,36 +83,59 @@ const seriesIndexSelector = createSelector(
   }
 );
 
-const Cell: React.FC<GridChildComponentProps<CellItemData>> = ({
-  columnIndex,
-  rowIndex,
+const Row: React.FC<ListChildComponentProps<RowItemData>> = ({
+  index,
   style,
   data,
 }) => {
-  const { layout, items, sortKey, isSelectMode } = data;
-  const { columnCount, padding, posterWidth, posterHeight } = layout;
-  const index = rowIndex * columnCount + columnIndex;
+  const { layout, rows, sortKey, isSelectMode, onGroupCollapseToggle } = data;
+  const { columnWidth, rowHeight, padding, posterWidth, posterHeight } = layout;
 
-  if (index >= items.length) {
+  if (index >= rows.length) {
     return null;
   }
 
-  const series = items[index];
+  const row = rows[index];
+
+  if (row.type === 'group') {
+    return (
+      <div style={style}>
+        <SeriesIndexGroupHeader
+          group={row.group}
+          isCollapsed={row.isCollapsed}
+          onCollapseToggle={onGroupCollapseToggle}
+        />
+      </div>
+    );
+  }
 
   return (
     <div
       style={{
-        padding,
+        display: 'flex',
         ...style,
       }}
     >
-      <SeriesIndexPoster
-        seriesId={series.id}
-        sortKey={sortKey}
-        isSelectMode={isSelectMode}
-        posterWidth={posterWidth}
-        posterHeight={posterHeight}
-      />
+      {row.items.map((series) => {
+        return (
+          <div
+            key={series.id}
+            style={{
+              padding,
+              width: columnWidth,
+              height: rowHeight,
+            }}
+          >
+            <SeriesIndexPoster
+              seriesId={series.id}
+              sortKey={sortKey}
+              isSelectMode={isSelectMode}
+              posterWidth={posterWidth}
+              posterHeight={posterHeight}
+            />
+          </div>
+        );
+      })}
     </div>
   );
 };
@@ -106,10 +152,13 @@ export default function SeriesIndexPosters(props: SeriesIndexPostersProps) {
     jumpToCharacter,
     isSelectMode,
     isSmallScreen,
+    groups,
+    collapsedGroups,
+    onGroupCollapseToggle,
   } = props;
 
   const { posterOptions } = useSelector(seriesIndexSelector);
-  const ref = useRef<Grid>(null);
+  const ref = useRef<List<RowItemData>>(null);
   const [measureRef, bounds] = useMeasure();
   const [size, setSize] = useState({ width: 0, height: 0 });
 
@@ -185,6 +234,19 @@ export default function SeriesIndexPosters(props: SeriesIndexPostersProps) {
     return heights.reduce((acc, height) => acc + height, 0);
   }, [isSmallScreen, posterOptions, sortKey, posterHeight]);
 
+  const rows = useMemo(() => {
+    return getSeriesIndexRows(items, groups, collapsedGroups, columnCount);
+  }, [items, groups, collapsedGroups, columnCount]);
+
+  const getRowHeight = useCallback(
+    (index: number) => getSeriesIndexRowHeight(rows[index], rowHeight),
+    [rows, rowHeight]
+  );
+
+  useEffect(() => {
+    ref.current?.resetAfterIndex(0);
+  }, [rows, rowHeight, ref]);
+
   useEffect(() => {
     const current = scrollerRef.current;
 
@@ -221,7 +283,7 @@ export default function SeriesIndexPosters(props: SeriesIndexPostersProps) {
           ? getWindowScrollTopPosition()
           : currentScrollerRef.scrollTop) - offsetTop;
 
-      ref.current?.scrollTo({ scrollLeft: 0, scrollTop });
+      ref.current?.scrollTo(scrollTop);
     }, 10);
 
     currentScrollListener.addEventListener('scroll', handleScroll);
@@ -237,30 +299,24 @@ export default function SeriesIndexPosters(props: SeriesIndexPostersProps) {
 
   useEffect(() => {
     if (jumpToCharacter) {
-      const index = getIndexOfFirstCharacter(items, jumpToCharacter);
-
-      if (index != null) {
-        const rowIndex = Math.floor(index / columnCount);
+      const index = getSeriesIndexRowIndexOfFirstCharacter(
+        rows,
+        jumpToCharacter
+      );
 
-        const scrollTop = rowIndex * rowHeight + padding;
+      if (index !== -1) {
+        const scrollTop =
+          getSeriesIndexRowOffset(rows, index, rowHeight) + padding;
 
-        ref.current?.scrollTo({ scrollLeft: 0, scrollTop });
+        ref.current?.scrollTo(scrollTop);
         scrollerRef.current?.scrollTo(0, scrollTop);
       }
     }
-  }, [
-    jumpToCharacter,
-    rowHeight,
-    columnCount,
-    padding,
-    items,
-    scrollerRef,
-    ref,
-  ]);
+  }, [jumpToCharacter, rowHeight, padding, rows, scrollerRef, ref]);
 
   return (
     <div ref={measureRef}>
-      <Grid<CellItemData>
+      <List<RowItemData>
         ref={ref}
         style={{
           width: '100%',
@@ -269,24 +325,24 @@ export default function SeriesIndexPosters(props: SeriesIndexPostersProps) {
         }}
         width={size.width}
         height={size.height}
-        columnCount={columnCount}
-        columnWidth={columnWidth}
-        rowCount={Math.ceil(items.length / columnCount)}
-        rowHeight={rowHeight}
+        itemCount={rows.length}
+        itemSize={getRowHeight}
         itemData={{
           layout: {
-            columnCount,
+            columnWidth,
+            rowHeight,
             padding,
             posterWidth,
             posterHeight,
           },
-          items,
+          rows,
           sortKey,
           isSelectMode,
+          onGroupCollapseToggle,
         }}
       >
-        {Cell}
-      </Grid>
+        {Row}
+      </List>
     </div>
   );
 }
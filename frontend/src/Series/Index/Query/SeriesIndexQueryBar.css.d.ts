@@ -0,0 +1,15 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'button': string;
+  'clearButton': string;
+  'errors': string;
+  'input': string;
+  'inputContainer': string;
+  'inputIconContainer': string;
+  'labelInput': string;
+  'queryBar': string;
+  'saveContainer': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,292 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AnyAction } from 'redux';
+import { ThunkDispatch } from 'redux-thunk';
+import { createSelector } from 'reselect';
+import AppState, { CustomFilter } from 'App/State/AppState';
+import AutoSuggestInput from 'Components/Form/AutoSuggestInput';
+import TextInput from 'Components/Form/TextInput';
+import Icon from 'Components/Icon';
+import Button from 'Components/Link/Button';
+import SpinnerErrorButton from 'Components/Link/SpinnerErrorButton';
+import { icons, kinds } from 'Helpers/Props';
+import { saveCustomFilter } from 'Store/Actions/customFilterActions';
+import {
+  setSeriesFilter,
+  setSeriesQuery,
+} from 'Store/Actions/seriesIndexActions';
+import createTagsSelector from 'Store/Selectors/createTagsSelector';
+import findSelectedFilters from 'Utilities/Filter/findSelectedFilters';
+import parseFilterQuery from 'Utilities/Filter/parseFilterQuery';
+import translate from 'Utilities/String/translate';
+import getSeriesIndexQuerySuggestions, {
+  SeriesIndexQuerySuggestion,
+} from './getSeriesIndexQuerySuggestions';
+import styles from './SeriesIndexQueryBar.css';
+
+function createSeriesIndexQuerySelector() {
+  return createSelector(
+    (state: AppState) => state.seriesIndex,
+    (state: AppState) => state.series.items,
+    (state: AppState) => state.settings.qualityProfiles.items,
+    (state: AppState) => state.customFilters,
+    createTagsSelector(),
+    (seriesIndex, items, qualityProfiles, customFilters, tags) => {
+      return {
+        query: seriesIndex.query,
+        queryFilters: seriesIndex.queryFilters,
+        selectedFilterKey: seriesIndex.selectedFilterKey,
+        filters: seriesIndex.filters,
+        filterBuilderProps: seriesIndex.filterBuilderProps,
+        items,
+        qualityProfiles,
+        tags,
+        customFilters: customFilters.items.filter((f) => f.type === 'series'),
+        saveCustomFilterError: customFilters.saveError,
+      };
+    }
+  );
+}
+
+function getSuggestionValue(suggestion: SeriesIndexQuerySuggestion) {
+  return suggestion.value;
+}
+
+function renderSuggestion(suggestion: SeriesIndexQuerySuggestion) {
+  return suggestion.label;
+}
+
+function SeriesIndexQueryBar() {
+  const {
+    query,
+    queryFilters,
+    selectedFilterKey,
+    filters,
+    filterBuilderProps,
+    items,
+    qualityProfiles,
+    tags,
+    customFilters,
+    saveCustomFilterError,
+  } = useSelector(createSeriesIndexQuerySelector());
+
+  const dispatch = useDispatch<ThunkDispatch<AppState, unknown, AnyAction>>();
+  const [value, setValue] = useState(query);
+  const [suggestions, setSuggestions] = useState<SeriesIndexQuerySuggestion[]>(
+    []
+  );
+  const [isLabelInputOpen, setIsLabelInputOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [label, setLabel] = useState('');
+
+  const { filters: parsedFilters, errors } = useMemo(() => {
+    return parseFilterQuery(value, filterBuilderProps, {
+      tags,
+      qualityProfiles,
+    });
+  }, [value, filterBuilderProps, tags, qualityProfiles]);
+
+  const isApplied = value.trim() === query;
+  const canSave = !!query && isApplied && !errors.length;
+
+  const applyQuery = useCallback(() => {
+    if (errors.length) {
+      return;
+    }
+
+    dispatch(
+      setSeriesQuery({
+        query: value.trim(),
+        queryFilters: parsedFilters,
+      })
+    );
+  }, [value, parsedFilters, errors, dispatch]);
+
+  const onInputChange = useCallback(
+    ({ value: newValue }: { name: string; value: string }) => {
+      setValue(newValue);
+    },
+    [setValue]
+  );
+
+  const onInputKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLInputElement>) => {
+      // A highlighted suggestion is selected by the input on enter
+      if (event.key === 'Enter' && !event.defaultPrevented) {
+        applyQuery();
+      }
+    },
+    [applyQuery]
+  );
+
+  const onInputBlur = useCallback(() => {
+    setSuggestions([]);
+  }, [setSuggestions]);
+
+  const onSuggestionsFetchRequested = useCallback(
+    ({ value: newValue }: { value: string }) => {
+      setSuggestions(
+        getSeriesIndexQuerySuggestions(newValue, {
+          filterBuilderProps,
+          items,
+          tags,
+          qualityProfiles,
+        })
+      );
+    },
+    [filterBuilderProps, items, tags, qualityProfiles, setSuggestions]
+  );
+
+  const onSuggestionsClearRequested = useCallback(() => {
+    setSuggestions([]);
+  }, [setSuggestions]);
+
+  const onClearPress = useCallback(() => {
+    setValue('');
+    setIsLabelInputOpen(false);
+    dispatch(setSeriesQuery({ query: '', queryFilters: [] }));
+  }, [setValue, setIsLabelInputOpen, dispatch]);
+
+  const onSaveAsFilterPress = useCallback(() => {
+    setIsLabelInputOpen(true);
+    setLabel('');
+  }, [setIsLabelInputOpen, setLabel]);
+
+  const onLabelChange = useCallback(
+    ({ value: newValue }: { name: string; value: string }) => {
+      setLabel(newValue);
+    },
+    [setLabel]
+  );
+
+  const onCancelSavePress = useCallback(() => {
+    setIsLabelInputOpen(false);
+  }, [setIsLabelInputOpen]);
+
+  const onSavePress = useCallback(async () => {
+    setIsSaving(true);
+
+    try {
+      // Keep the currently selected filter so the saved
+      // filter matches the series currently shown.
+      const customFilter = await (dispatch(
+        saveCustomFilter({
+          type: 'series',
+          label: label.trim(),
+          filters: [
+            ...findSelectedFilters(selectedFilterKey, filters, customFilters),
+            ...queryFilters,
+          ],
+        })
+      ) as PromiseLike<CustomFilter>);
+
+      setIsLabelInputOpen(false);
+      dispatch(setSeriesQuery({ query: '', queryFilters: [] }));
+
+      // Select the filter returned by the server rather than guessing
+      // which of the custom filters was just added.
+      dispatch(setSeriesFilter({ selectedFilterKey: customFilter.id }));
+    } catch {
+      // The save error is shown by the save button
+    }
+
+    setIsSaving(false);
+  }, [
+    label,
+    selectedFilterKey,
+    filters,
+    customFilters,
+    queryFilters,
+    setIsLabelInputOpen,
+    setIsSaving,
+    dispatch,
+  ]);
+
+  useEffect(() => {
+    setValue(query);
+  }, [query, setValue]);
+
+  return (
+    <div className={styles.queryBar}>
+      <div className={styles.inputContainer}>
+        <div className={styles.inputIconContainer}>
+          <Icon name={icons.SEARCH} />
+        </div>
+
+        <AutoSuggestInput
+          className={styles.input}
+          name="query"
+          value={value}
+          placeholder={translate('SeriesIndexQueryPlaceholder')}
+          suggestions={suggestions}
+          hasError={!!errors.length}
+          getSuggestionValue={getSuggestionValue}
+          renderSuggestion={renderSuggestion}
+          onInputKeyDown={onInputKeyDown}
+          onInputBlur={onInputBlur}
+          onSuggestionsFetchRequested={onSuggestionsFetchRequested}
+          onSuggestionsClearRequested={onSuggestionsClearRequested}
+          onChange={onInputChange}
+        />
+
+        <Button
+          className={styles.button}
+          isDisabled={isApplied || !!errors.length}
+          onPress={applyQuery}
+        >
+          {translate('Apply')}
+        </Button>
+
+        <Button
+          className={styles.button}
+          isDisabled={!canSave}
+          onPress={onSaveAsFilterPress}
+        >
+          {translate('SaveAsFilter')}
+        </Button>
+
+        <Button
+          className={styles.clearButton}
+          title={translate('Clear')}
+          onPress={onClearPress}
+        >
+          <Icon name={icons.REMOVE} />
+        </Button>
+      </div>
+
+      {errors.length ? (
+        <ul className={styles.errors}>
+          {errors.map((error, index) => {
+            return <li key={index}>{error}</li>;
+          })}
+        </ul>
+      ) : null}
+
+      {isLabelInputOpen && canSave ? (
+        <div className={styles.saveContainer}>
+          <TextInput
+            className={styles.labelInput}
+            name="label"
+            value={label}
+            placeholder={translate('Label')}
+            onChange={onLabelChange}
+          />
+
+          <Button onPress={onCancelSavePress}>{translate('Cancel')}</Button>
+
+          <SpinnerErrorButton
+            kind={kinds.PRIMARY}
+            isSpinning={isSaving}
+            isDisabled={!label.trim()}
+            error={saveCustomFilterError}
+            onPress={onSavePress}
+          >
+            {translate('Save')}
+          </SpinnerErrorButton>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default SeriesIndexQueryBar;
@@ -0,0 +1,128 @@
+import { FilterBuilderProp } from 'App/State/AppState';
+import { Tag } from 'App/State/TagsAppState';
+import { filterBuilderTypes, filterBuilderValueTypes } from 'Helpers/Props';
+import Series from 'Series/Series';
+import QualityProfile from 'typings/QualityProfile';
+import { findFilterQueryProp } from 'Utilities/Filter/parseFilterQuery';
+
+export interface SeriesIndexQuerySuggestion {
+  label: string;
+  value: string;
+}
+
+interface SeriesIndexQuerySuggestionOptions {
+  filterBuilderProps: FilterBuilderProp<Series>[];
+  items: Series[];
+  tags: Tag[];
+  qualityProfiles: QualityProfile[];
+}
+
+const KEY_REGEX = /^(-?)([a-z][\w.]*)$/i;
+const VALUE_REGEX = /^(-?)([a-z][\w.]*)(>=|<=|!=|:|=|>|<)(.*)$/i;
+const MAX_SUGGESTIONS = 20;
+
+function getValues(
+  prop: FilterBuilderProp<Series>,
+  options: SeriesIndexQuerySuggestionOptions
+): string[] {
+  switch (prop.valueType) {
+    case filterBuilderValueTypes.BOOL:
+      return ['true', 'false'];
+    case filterBuilderValueTypes.SERIES_STATUS:
+      return ['continuing', 'upcoming', 'ended', 'deleted'];
+    case filterBuilderValueTypes.SERIES_TYPES:
+      return ['anime', 'daily', 'standard'];
+    case filterBuilderValueTypes.QUALITY_PROFILE:
+      return options.qualityProfiles.map((p) => p.name);
+    case filterBuilderValueTypes.TAG:
+      return options.tags.map((t) => t.label);
+    default:
+      break;
+  }
+
+  if (prop.type === filterBuilderTypes.DATE) {
+    return ['last7d', 'last30d', 'next7d', 'next30d'];
+  }
+
+  if (prop.optionsSelector) {
+    return prop.optionsSelector(options.items).map((o) => o.id);
+  }
+
+  return [];
+}
+
+function quote(value: string) {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
+
+function getSeriesIndexQuerySuggestions(
+  query: string,
+  options: SeriesIndexQuerySuggestionOptions
+): SeriesIndexQuerySuggestion[] {
+  const termIndex = query.search(/\S+$/);
+
+  if (termIndex === -1) {
+    return [];
+  }
+
+  const prefix = query.substring(0, termIndex);
+  const term = query.substring(termIndex);
+  const keyMatch = term.match(KEY_REGEX);
+
+  if (keyMatch) {
+    const [, negate, key] = keyMatch;
+    const lowerCaseKey = key.toLowerCase();
+
+    return options.filterBuilderProps
+      .filter((prop) => prop.name.toLowerCase().startsWith(lowerCaseKey))
+      .map((prop) => {
+        const label =
+          prop.valueType === filterBuilderValueTypes.BOOL
+            ? `${negate}${prop.name}`
+            : `${negate}${prop.name}:`;
+
+        return { label, value: `${prefix}${label}` };
+      });
+  }
+
+  const valueMatch = term.match(VALUE_REGEX);
+
+  if (!valueMatch) {
+    return [];
+  }
+
+  const [, negate, key, operator, rawValue] = valueMatch;
+  const prop = findFilterQueryProp(options.filterBuilderProps, key);
+
+  if (!prop) {
+    return [];
+  }
+
+  // Only the last of several comma separated values is completed
+  const valueIndex = rawValue.lastIndexOf(',') + 1;
+  const previousValues = rawValue.substring(0, valueIndex);
+  const partialValue = rawValue
+    .substring(valueIndex)
+    .replace(/"/g, '')
+    .toLowerCase();
+
+  return getValues(prop, options)
+    .filter((value) => {
+      const lowerCaseValue = value.toLowerCase();
+
+      return (
+        lowerCaseValue.startsWith(partialValue) &&
+        lowerCaseValue !== partialValue
+      );
+    })
+    .slice(0, MAX_SUGGESTIONS)
+    .map((value) => {
+      const label = `${negate}${key}${operator}${previousValues}${quote(
+        value
+      )}`;
+
+      return { label, value: `${prefix}${label}` };
+    });
+}
+
+export default getSeriesIndexQuerySuggestions;
@@ -7,6 +7,7 @@ import React, {
 } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { SelectProvider } from 'App/SelectContext';
+import AppState from 'App/State/AppState';
 import ClientSideCollectionAppState from 'App/State/ClientSideCollectionAppState';
 import SeriesAppState, { SeriesIndexAppState } from 'App/State/SeriesAppState';
 import { RSS_SYNC } from 'Commands/commandNames';
@@ -29,7 +30,10 @@ import { executeCommand } from 'Store/Actions/commandActions';
 import { fetchQueueDetails } from 'Store/Actions/queueActions';
 import { fetchSeries } from 'Store/Actions/seriesActions';
 import {
+  selectSeriesWorkspace,
   setSeriesFilter,
+  setSeriesGroupBy,
+  setSeriesQuery,
   setSeriesSort,
   setSeriesTableOption,
   setSeriesView,
@@ -38,13 +42,20 @@ import scrollPositions from 'Store/scrollPositions';
 import createCommandExecutingSelector from 'Store/Selectors/createCommandExecutingSelector';
 import createDimensionsSelector from 'Store/Selectors/createDimensionsSelector';
 import createSeriesClientSideCollectionItemsSelector from 'Store/Selectors/createSeriesClientSideCollectionItemsSelector';
+import getSeriesIndexJumpCharacter from './Group/getSeriesIndexJumpCharacter';
+import { SeriesIndexGroupBy } from './Group/SeriesIndexGroup';
+import useSeriesIndexGroups from './Group/useSeriesIndexGroups';
+import SeriesIndexExportMenu from './Menus/SeriesIndexExportMenu';
 import SeriesIndexFilterMenu from './Menus/SeriesIndexFilterMenu';
+import SeriesIndexGroupMenu from './Menus/SeriesIndexGroupMenu';
 import SeriesIndexSortMenu from './Menus/SeriesIndexSortMenu';
 import SeriesIndexViewMenu from './Menus/SeriesIndexViewMenu';
+import SeriesIndexWorkspaceMenu from './Menus/SeriesIndexWorkspaceMenu';
 import SeriesIndexOverviewOptionsModal from './Overview/Options/SeriesIndexOverviewOptionsModal';
 import SeriesIndexOverviews from './Overview/SeriesIndexOverviews';
 import SeriesIndexPosterOptionsModal from './Posters/Options/SeriesIndexPosterOptionsModal';
 import SeriesIndexPosters from './Posters/SeriesIndexPosters';
+import SeriesIndexQueryBar from './Query/SeriesIndexQueryBar';
 import SeriesIndexSelectAllButton from './Select/SeriesIndexSelectAllButton';
 import SeriesIndexSelectAllMenuItem from './Select/SeriesIndexSelectAllMenuItem';
 import SeriesIndexSelectFooter from './Select/SeriesIndexSelectFooter';
@@ -54,6 +65,8 @@ import SeriesIndexFooter from './SeriesIndexFooter';
 import SeriesIndexRefreshSeriesButton from './SeriesIndexRefreshSeriesButton';
 import SeriesIndexTable from './Table/SeriesIndexTable';
 import SeriesIndexTableOptions from './Table/SeriesIndexTableOptions';
+import ManageSeriesIndexWorkspacesModal from './Workspaces/ManageSeriesIndexWorkspacesModal';
+import SaveSeriesIndexWorkspaceModal from './Workspaces/SaveSeriesIndexWorkspaceModal';
 import styles from './SeriesIndex.css';
 
 function getViewComponent(view: string) {
@@ -86,9 +99,14 @@ const SeriesIndex = withScrollPosition((props: SeriesIndexProps) => {
     sortKey,
     sortDirection,
     view,
+    groupBy,
   }: SeriesAppState & SeriesIndexAppState & ClientSideCollectionAppState =
     useSelector(createSeriesClientSideCollectionItemsSelector('seriesIndex'));
 
+  const { workspaces, selectedWorkspaceId, query } = useSelector(
+    (state: AppState) => state.seriesIndex
+  );
+
   const isRssSyncExecuting = useSelector(
     createCommandExecutingSelector(RSS_SYNC)
   );
@@ -96,10 +114,17 @@ const SeriesIndex = withScrollPosition((props: SeriesIndexProps) => {
   const dispatch = useDispatch();
   const scrollerRef = useRef<HTMLDivElement>(null);
   const [isOptionsModalOpen, setIsOptionsModalOpen] = useState(false);
+  const [isSaveWorkspaceModalOpen, setIsSaveWorkspaceModalOpen] =
+    useState(false);
+  const [isManageWorkspacesModalOpen, setIsManageWorkspacesModalOpen] =
+    useState(false);
   const [jumpToCharacter, setJumpToCharacter] = useState<string | undefined>(
     undefined
   );
   const [isSelectMode, setIsSelectMode] = useState(false);
+  const [isQueryBarVisible, setIsQueryBarVisible] = useState(!!query);
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+  const groups = useSeriesIndexGroups(items, groupBy);
 
   useEffect(() => {
     dispatch(fetchSeries());
@@ -136,6 +161,24 @@ const SeriesIndex = withScrollPosition((props: SeriesIndexProps) => {
     [scrollerRef, dispatch]
   );
 
+  const onGroupBySelect = useCallback(
+    (value: SeriesIndexGroupBy) => {
+      dispatch(setSeriesGroupBy({ groupBy: value }));
+    },
+    [dispatch]
+  );
+
+  const onGroupCollapseToggle = useCallback(
+    (key: string) => {
+      setCollapsedGroups((current) => {
+        return current.includes(key)
+          ? current.filter((k) => k !== key)
+          : [...current, key];
+      });
+    },
+    [setCollapsedGroups]
+  );
+
   const onSortSelect = useCallback(
     (value: string) => {
       dispatch(setSeriesSort({ sortKey: value }));
@@ -150,6 +193,42 @@ const SeriesIndex = withScrollPosition((props: SeriesIndexProps) => {
     [dispatch]
   );
 
+  const onWorkspaceSelect = useCallback(
+    (id: number) => {
+      dispatch(selectSeriesWorkspace({ id }));
+
+      if (scrollerRef.current) {
+        scrollerRef.current.scrollTo(0, 0);
+      }
+    },
+    [scrollerRef, dispatch]
+  );
+
+  const onSaveWorkspacePress = useCallback(() => {
+    setIsSaveWorkspaceModalOpen(true);
+  }, [setIsSaveWorkspaceModalOpen]);
+
+  const onSaveWorkspaceModalClose = useCallback(() => {
+    setIsSaveWorkspaceModalOpen(false);
+  }, [setIsSaveWorkspaceModalOpen]);
+
+  const onManageWorkspacesPress = useCallback(() => {
+    setIsManageWorkspacesModalOpen(true);
+  }, [setIsManageWorkspacesModalOpen]);
+
+  const onManageWorkspacesModalClose = useCallback(() => {
+    setIsManageWorkspacesModalOpen(false);
+  }, [setIsManageWorkspacesModalOpen]);
+
+  const onQueryPress = useCallback(() => {
+    // Hiding the query bar clears the query so no hidden filtering remains
+    if (isQueryBarVisible) {
+      dispatch(setSeriesQuery({ query: '', queryFilters: [] }));
+    }
+
+    setIsQueryBarVisible(!isQueryBarVisible);
+  }, [isQueryBarVisible, setIsQueryBarVisible, dispatch]);
+
   const onOptionsPress = useCallback(() => {
     setIsOptionsModalOpen(true);
   }, [setIsOptionsModalOpen]);
@@ -173,7 +252,27 @@ const SeriesIndex = withScrollPosition((props: SeriesIndexProps) => {
     [setJumpToCharacter]
   );
 
+  useEffect(() => {
+    setCollapsedGroups([]);
+  }, [groupBy, setCollapsedGroups]);
+
   const jumpBarItems = useMemo(() => {
+    // Jump between groups when grouped
+    if (groups) {
+      const characters = groups.reduce((acc: Record<string, number>, group) => {
+        const char = getSeriesIndexJumpCharacter(group.label);
+
+        acc[char] = (acc[char] ?? 0) + group.items.length;
+
+        return acc;
+      }, {});
+
+      return {
+        characters,
+        order: Object.keys(characters),
+      };
+    }
+
     // Reset if not sorting by sortTitle
     if (sortKey !== 'sortTitle') {
       return {
@@ -208,7 +307,7 @@ const SeriesIndex = withScrollPosition((props: SeriesIndexProps) => {
       characters,
       order,
     };
-  }, [items, sortKey, sortDirection]);
+  }, [items, groups, sortKey, sortDirection]);
   const ViewComponent = useMemo(() => getViewComponent(view), [view]);
 
   const isLoaded = !!(!error && isPopulated && items.length);
@@ -273,14 +372,35 @@ const SeriesIndex = withScrollPosition((props: SeriesIndexProps) => {
               />
             )}
 
+            <SeriesIndexExportMenu
+              items={items}
+              columns={columns}
+              isDisabled={!items.length}
+            />
+
             <PageToolbarSeparator />
 
+            <SeriesIndexWorkspaceMenu
+              workspaces={workspaces}
+              selectedWorkspaceId={selectedWorkspaceId}
+              isDisabled={hasNoSeries}
+              onWorkspaceSelect={onWorkspaceSelect}
+              onSaveWorkspacePress={onSaveWorkspacePress}
+              onManageWorkspacesPress={onManageWorkspacesPress}
+            />
+
             <SeriesIndexViewMenu
               view={view}
               isDisabled={hasNoSeries}
               onViewSelect={onViewSelect}
             />
 
+            <SeriesIndexGroupMenu
+              groupBy={groupBy}
+              isDisabled={hasNoSeries}
+              onGroupBySelect={onGroupBySelect}
+            />
+
             <SeriesIndexSortMenu
               sortKey={sortKey}
               sortDirection={sortDirection}
@@ -295,8 +415,16 @@ const SeriesIndex = withScrollPosition((props: SeriesIndexProps) => {
               isDisabled={hasNoSeries}
               onFilterSelect={onFilterSelect}
             />
+
+            <PageToolbarButton
+              label="Query"
+              iconName={icons.SEARCH}
+              isDisabled={hasNoSeries}
+              onPress={onQueryPress}
+            />
           </PageToolbarSection>
         </PageToolbar>
+        {isQueryBarVisible ? <SeriesIndexQueryBar /> : null}
         <div className={styles.pageContentBodyWrapper}>
           <PageContentBody
             ref={scrollerRef}
@@ -323,6 +451,9 @@ const SeriesIndex = withScrollPosition((props: SeriesIndexProps) => {
                   jumpToCharacter={jumpToCharacter}
                   isSelectMode={isSelectMode}
                   isSmallScreen={isSmallScreen}
+                  groups={groups}
+                  collapsedGroups={collapsedGroups}
+                  onGroupCollapseToggle={onGroupCollapseToggle}
                 />
 
                 <SeriesIndexFooter />
@@ -355,6 +486,16 @@ const SeriesIndex = withScrollPosition((props: SeriesIndexProps) => {
             onModalClose={onOptionsModalClose}
           />
         ) : null}
+
+        <SaveSeriesIndexWorkspaceModal
+          isOpen={isSaveWorkspaceModalOpen}
+          onModalClose={onSaveWorkspaceModalClose}
+        />
+
+        <ManageSeriesIndexWorkspacesModal
+          isOpen={isManageWorkspacesModalOpen}
+          onModalClose={onManageWorkspacesModalClose}
+        />
       </PageContent>
     </SelectProvider>
   );
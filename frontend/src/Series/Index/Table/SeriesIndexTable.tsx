@@ -1,7 +1,17 @@
 import { throttle } from 'lodash';
-import React, { RefObject, useEffect, useMemo, useRef, useState } from 'react';
+import React, {
+  RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { useSelector } from 'react-redux';
-import { FixedSizeList as List, ListChildComponentProps } from 'react-window';
+import {
+  ListChildComponentProps,
+  VariableSizeList as List,
+} from 'react-window';
 import { createSelector } from 'reselect';
 import AppState from 'App/State/AppState';
 import Scroller from 'Components/Scroller/Scroller';
@@ -9,9 +19,17 @@ import Column from 'Components/Table/Column';
 import useMeasure from 'Helpers/Hooks/useMeasure';
 import ScrollDirection from 'Helpers/Props/ScrollDirection';
 import SortDirection from 'Helpers/Props/SortDirection';
+import getSeriesIndexRowHeight from 'Series/Index/Group/getSeriesIndexRowHeight';
+import getSeriesIndexRowIndexOfFirstCharacter from 'Series/Index/Group/getSeriesIndexRowIndexOfFirstCharacter';
+import getSeriesIndexRowOffset from 'Series/Index/Group/getSeriesIndexRowOffset';
+import getSeriesIndexRows from 'Series/Index/Group/getSeriesIndexRows';
+import {
+  SeriesIndexGroup,
+  SeriesIndexListItem,
+} from 'Series/Index/Group/SeriesIndexGroup';
+import SeriesIndexGroupHeader from 'Series/Index/Group/SeriesIndexGroupHeader';
 import Series from 'Series/Series';
 import dimensions from 'Styles/Variables/dimensions';
-import getIndexOfFirstCharacter from 'Utilities/Array/getIndexOfFirstCharacter';
 import selectTableOptions from './selectTableOptions';
 import SeriesIndexRow from './SeriesIndexRow';
 import SeriesIndexTableHeader from './SeriesIndexTableHeader';
@@ -23,10 +41,11 @@ const bodyPaddingSmallScreen = parseInt(
 );
 
 interface RowItemData {
-  items: Series[];
+  rows: SeriesIndexListItem[];
   sortKey: string;
   columns: Column[];
   isSelectMode: boolean;
+  onGroupCollapseToggle(key: string): void;
 }
 
 interface SeriesIndexTableProps {
@@ -38,6 +57,9 @@ interface SeriesIndexTableProps {
   scrollerRef: RefObject<HTMLElement>;
   isSelectMode: boolean;
   isSmallScreen: boolean;
+  groups: SeriesIndexGroup[] | null;
+  collapsedGroups: string[];
+  onGroupCollapseToggle(key: string): void;
 }
 
 const columnsSelector = createSelector(
@@ -50,13 +72,27 @@ const Row: React.FC<ListChildComponentProps<RowItemData>> = ({
   style,
   data,
 }) => {
-  const { items, sortKey, columns, isSelectMode } = data;
+  const { rows, sortKey, columns, isSelectMode, onGroupCollapseToggle } = data;
 
-  if (index >= items.length) {
+  if (index >= rows.length) {
     return null;
   }
 
-  const series = items[index];
+  const row = rows[index];
+
+  if (row.type === 'group') {
+    return (
+      <div style={style}>
+        <SeriesIndexGroupHeader
+          group={row.group}
+          isCollapsed={row.isCollapsed}
+          onCollapseToggle={onGroupCollapseToggle}
+        />
+      </div>
+    );
+  }
+
+  const series = row.items[0];
 
   return (
     <div
@@ -90,6 +126,9 @@ function SeriesIndexTable(props: SeriesIndexTableProps) {
     isSelectMode,
     isSmallScreen,
     scrollerRef,
+    groups,
+    collapsedGroups,
+    onGroupCollapseToggle,
   } = props;
 
   const columns = useSelector(columnsSelector);
@@ -104,6 +143,19 @@ function SeriesIndexTable(props: SeriesIndexTableProps) {
     return showBanners ? 70 : 38;
   }, [showBanners]);
 
+  const rows = useMemo(() => {
+    return getSeriesIndexRows(items, groups, collapsedGroups, 1);
+  }, [items, groups, collapsedGroups]);
+
+  const getRowHeight = useCallback(
+    (index: number) => getSeriesIndexRowHeight(rows[index], rowHeight),
+    [rows, rowHeight]
+  );
+
+  useEffect(() => {
+    listRef.current?.resetAfterIndex(0);
+  }, [rows, rowHeight, listRef]);
+
   useEffect(() => {
     const current = scrollerRef?.current as HTMLElement;
 
@@ -155,10 +207,13 @@ function SeriesIndexTable(props: SeriesIndexTableProps) {
 
   useEffect(() => {
     if (jumpToCharacter) {
-      const index = getIndexOfFirstCharacter(items, jumpToCharacter);
+      const index = getSeriesIndexRowIndexOfFirstCharacter(
+        rows,
+        jumpToCharacter
+      );
 
-      if (index != null) {
-        let scrollTop = index * rowHeight;
+      if (index !== -1) {
+        let scrollTop = getSeriesIndexRowOffset(rows, index, rowHeight);
 
         // If the offset is zero go to the top, otherwise offset
         // by the approximate size of the header + padding (37 + 20).
@@ -172,7 +227,7 @@ function SeriesIndexTable(props: SeriesIndexTableProps) {
         scrollerRef?.current?.scrollTo(0, scrollTop);
       }
     }
-  }, [jumpToCharacter, rowHeight, items, scrollerRef, listRef]);
+  }, [jumpToCharacter, rowHeight, rows, scrollerRef, listRef]);
 
   return (
     <div ref={measureRef}>
@@ -196,13 +251,14 @@ function SeriesIndexTable(props: SeriesIndexTableProps) {
           }}
           width={size.width}
           height={size.height}
-          itemCount={items.length}
-          itemSize={rowHeight}
+          itemCount={rows.length}
+          itemSize={getRowHeight}
           itemData={{
-            items,
+            rows,
             sortKey,
             columns,
             isSelectMode,
+            onGroupCollapseToggle,
           }}
         >
           {Row}
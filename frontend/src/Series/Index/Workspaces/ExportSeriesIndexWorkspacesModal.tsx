@@ -0,0 +1,22 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import ExportSeriesIndexWorkspacesModalContent from './ExportSeriesIndexWorkspacesModalContent';
+
+interface ExportSeriesIndexWorkspacesModalProps {
+  isOpen: boolean;
+  onModalClose(): void;
+}
+
+function ExportSeriesIndexWorkspacesModal(
+  props: ExportSeriesIndexWorkspacesModalProps
+) {
+  const { isOpen, onModalClose } = props;
+
+  return (
+    <Modal isOpen={isOpen} onModalClose={onModalClose}>
+      <ExportSeriesIndexWorkspacesModalContent onModalClose={onModalClose} />
+    </Modal>
+  );
+}
+
+export default ExportSeriesIndexWorkspacesModal;
@@ -0,0 +1,64 @@
+import React, { useCallback, useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Button from 'Components/Link/Button';
+import ClipboardButton from 'Components/Link/ClipboardButton';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { kinds } from 'Helpers/Props';
+import downloadFile from 'Utilities/File/downloadFile';
+import translate from 'Utilities/String/translate';
+import createSeriesIndexWorkspacesJson from './createSeriesIndexWorkspacesJson';
+import styles from './ExportSeriesIndexWorkspacesModalContent.css';
+
+interface ExportSeriesIndexWorkspacesModalContentProps {
+  onModalClose(): void;
+}
+
+function ExportSeriesIndexWorkspacesModalContent(
+  props: ExportSeriesIndexWorkspacesModalContentProps
+) {
+  const { onModalClose } = props;
+
+  const workspaces = useSelector(
+    (state: AppState) => state.seriesIndex.workspaces
+  );
+  const customFilters = useSelector(
+    (state: AppState) => state.customFilters.items
+  );
+
+  const json = useMemo(() => {
+    return createSeriesIndexWorkspacesJson(workspaces, customFilters);
+  }, [workspaces, customFilters]);
+
+  const onDownloadPress = useCallback(() => {
+    downloadFile('sonarr-workspaces.json', json, 'application/json');
+  }, [json]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('ExportWorkspaces')}</ModalHeader>
+
+      <ModalBody>
+        <pre>{json}</pre>
+      </ModalBody>
+
+      <ModalFooter>
+        <ClipboardButton
+          className={styles.button}
+          value={json}
+          title={translate('CopyToClipboard')}
+          kind={kinds.DEFAULT}
+        />
+
+        <Button onPress={onDownloadPress}>{translate('Download')}</Button>
+
+        <Button onPress={onModalClose}>{translate('Close')}</Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default ExportSeriesIndexWorkspacesModalContent;
@@ -0,0 +1,22 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import ImportSeriesIndexWorkspacesModalContent from './ImportSeriesIndexWorkspacesModalContent';
+
+interface ImportSeriesIndexWorkspacesModalProps {
+  isOpen: boolean;
+  onModalClose(): void;
+}
+
+function ImportSeriesIndexWorkspacesModal(
+  props: ImportSeriesIndexWorkspacesModalProps
+) {
+  const { isOpen, onModalClose } = props;
+
+  return (
+    <Modal isOpen={isOpen} onModalClose={onModalClose}>
+      <ImportSeriesIndexWorkspacesModalContent onModalClose={onModalClose} />
+    </Modal>
+  );
+}
+
+export default ImportSeriesIndexWorkspacesModal;
@@ -0,0 +1,7 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'input': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
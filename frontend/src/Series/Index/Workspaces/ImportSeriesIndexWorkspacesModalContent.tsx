@@ -0,0 +1,121 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Form from 'Components/Form/Form';
+import FormGroup from 'Components/Form/FormGroup';
+import FormInputGroup from 'Components/Form/FormInputGroup';
+import FormLabel from 'Components/Form/FormLabel';
+import Button from 'Components/Link/Button';
+import SpinnerErrorButton from 'Components/Link/SpinnerErrorButton';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { inputTypes, sizes } from 'Helpers/Props';
+import { importSeriesWorkspaces } from 'Store/Actions/seriesIndexActions';
+import translate from 'Utilities/String/translate';
+import parseSeriesIndexWorkspacesJson from './parseSeriesIndexWorkspacesJson';
+import styles from './ImportSeriesIndexWorkspacesModalContent.css';
+
+interface ImportError {
+  message: string;
+  detailedMessage?: string;
+}
+
+interface ImportSeriesIndexWorkspacesModalContentProps {
+  onModalClose(): void;
+}
+
+function ImportSeriesIndexWorkspacesModalContent(
+  props: ImportSeriesIndexWorkspacesModalContentProps
+) {
+  const { onModalClose } = props;
+
+  const { isImportingWorkspaces, importWorkspacesError } = useSelector(
+    (state: AppState) => state.seriesIndex
+  );
+  const dispatch = useDispatch();
+  const [json, setJson] = useState('');
+  const [parseError, setParseError] = useState<ImportError | null>(null);
+  const wasImporting = useRef(false);
+
+  const onJsonChange = useCallback(
+    ({ value }: { name: string; value: string }) => {
+      setJson(value);
+    },
+    [setJson]
+  );
+
+  const onImportPress = useCallback(() => {
+    try {
+      const workspaces = parseSeriesIndexWorkspacesJson(json);
+
+      setParseError(null);
+      dispatch(importSeriesWorkspaces({ workspaces }));
+    } catch (e) {
+      const error = e as Error;
+
+      setParseError({
+        message: error.message,
+        detailedMessage: error.stack,
+      });
+    }
+  }, [json, dispatch]);
+
+  useEffect(() => {
+    if (wasImporting.current && !isImportingWorkspaces) {
+      if (!importWorkspacesError) {
+        onModalClose();
+      }
+    }
+
+    wasImporting.current = isImportingWorkspaces;
+  }, [isImportingWorkspaces, importWorkspacesError, onModalClose]);
+
+  const errors = [];
+
+  if (parseError) {
+    errors.push(parseError);
+  } else if (importWorkspacesError) {
+    errors.push({ message: translate('WorkspacesImportError') });
+  }
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('ImportWorkspaces')}</ModalHeader>
+
+      <ModalBody>
+        <Form>
+          <FormGroup size={sizes.MEDIUM}>
+            <FormLabel>{translate('WorkspacesJson')}</FormLabel>
+
+            <FormInputGroup
+              inputClassName={styles.input}
+              type={inputTypes.TEXT_AREA}
+              name="workspacesJson"
+              value={json}
+              helpText={translate('ImportWorkspacesHelpText')}
+              errors={errors}
+              onChange={onJsonChange}
+            />
+          </FormGroup>
+        </Form>
+      </ModalBody>
+
+      <ModalFooter>
+        <Button onPress={onModalClose}>{translate('Cancel')}</Button>
+
+        <SpinnerErrorButton
+          isSpinning={isImportingWorkspaces}
+          error={parseError ?? importWorkspacesError}
+          isDisabled={!json.trim()}
+          onPress={onImportPress}
+        >
+          {translate('Import')}
+        </SpinnerErrorButton>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default ImportSeriesIndexWorkspacesModalContent;
@@ -0,0 +1,22 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import ManageSeriesIndexWorkspacesModalContent from './ManageSeriesIndexWorkspacesModalContent';
+
+interface ManageSeriesIndexWorkspacesModalProps {
+  isOpen: boolean;
+  onModalClose(): void;
+}
+
+function ManageSeriesIndexWorkspacesModal(
+  props: ManageSeriesIndexWorkspacesModalProps
+) {
+  const { isOpen, onModalClose } = props;
+
+  return (
+    <Modal isOpen={isOpen} onModalClose={onModalClose}>
+      <ManageSeriesIndexWorkspacesModalContent onModalClose={onModalClose} />
+    </Modal>
+  );
+}
+
+export default ManageSeriesIndexWorkspacesModal;
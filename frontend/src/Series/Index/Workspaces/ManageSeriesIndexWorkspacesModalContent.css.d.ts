@@ -0,0 +1,10 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'isSelected': string;
+  'leftButtons': string;
+  'name': string;
+  'workspace': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,131 @@
+import classNames from 'classnames';
+import React, { useCallback, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import Button from 'Components/Link/Button';
+import IconButton from 'Components/Link/IconButton';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { icons, kinds } from 'Helpers/Props';
+import {
+  deleteSeriesWorkspace,
+  selectSeriesWorkspace,
+} from 'Store/Actions/seriesIndexActions';
+import translate from 'Utilities/String/translate';
+import ExportSeriesIndexWorkspacesModal from './ExportSeriesIndexWorkspacesModal';
+import ImportSeriesIndexWorkspacesModal from './ImportSeriesIndexWorkspacesModal';
+import styles from './ManageSeriesIndexWorkspacesModalContent.css';
+
+interface ManageSeriesIndexWorkspacesModalContentProps {
+  onModalClose(): void;
+}
+
+function ManageSeriesIndexWorkspacesModalContent(
+  props: ManageSeriesIndexWorkspacesModalContentProps
+) {
+  const { onModalClose } = props;
+
+  const { workspaces, selectedWorkspaceId } = useSelector(
+    (state: AppState) => state.seriesIndex
+  );
+  const dispatch = useDispatch();
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+
+  const onApplyPress = useCallback(
+    (id: number) => {
+      dispatch(selectSeriesWorkspace({ id }));
+      onModalClose();
+    },
+    [dispatch, onModalClose]
+  );
+
+  const onDeletePress = useCallback(
+    (id: number) => {
+      dispatch(deleteSeriesWorkspace({ id }));
+    },
+    [dispatch]
+  );
+
+  const onExportPress = useCallback(() => {
+    setIsExportModalOpen(true);
+  }, [setIsExportModalOpen]);
+
+  const onExportModalClose = useCallback(() => {
+    setIsExportModalOpen(false);
+  }, [setIsExportModalOpen]);
+
+  const onImportPress = useCallback(() => {
+    setIsImportModalOpen(true);
+  }, [setIsImportModalOpen]);
+
+  const onImportModalClose = useCallback(() => {
+    setIsImportModalOpen(false);
+  }, [setIsImportModalOpen]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('ManageWorkspaces')}</ModalHeader>
+
+      <ModalBody>
+        {workspaces.length ? (
+          workspaces.map((workspace) => {
+            return (
+              <div key={workspace.id} className={styles.workspace}>
+                <div
+                  className={classNames(
+                    styles.name,
+                    workspace.id === selectedWorkspaceId && styles.isSelected
+                  )}
+                >
+                  {workspace.name}
+                </div>
+
+                <IconButton
+                  name={icons.CHECK}
+                  title={translate('ApplyWorkspace')}
+                  onPress={() => onApplyPress(workspace.id)}
+                />
+
+                <IconButton
+                  name={icons.DELETE}
+                  title={translate('DeleteWorkspace')}
+                  onPress={() => onDeletePress(workspace.id)}
+                />
+              </div>
+            );
+          })
+        ) : (
+          <Alert kind={kinds.INFO}>{translate('NoWorkspaces')}</Alert>
+        )}
+      </ModalBody>
+
+      <ModalFooter>
+        <div className={styles.leftButtons}>
+          <Button onPress={onImportPress}>{translate('Import')}</Button>
+        </div>
+
+        <Button isDisabled={!workspaces.length} onPress={onExportPress}>
+          {translate('Export')}
+        </Button>
+
+        <Button onPress={onModalClose}>{translate('Close')}</Button>
+      </ModalFooter>
+
+      <ExportSeriesIndexWorkspacesModal
+        isOpen={isExportModalOpen}
+        onModalClose={onExportModalClose}
+      />
+
+      <ImportSeriesIndexWorkspacesModal
+        isOpen={isImportModalOpen}
+        onModalClose={onImportModalClose}
+      />
+    </ModalContent>
+  );
+}
+
+export default ManageSeriesIndexWorkspacesModalContent;
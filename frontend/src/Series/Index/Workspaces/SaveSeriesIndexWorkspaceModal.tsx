@@ -0,0 +1,22 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import SaveSeriesIndexWorkspaceModalContent from './SaveSeriesIndexWorkspaceModalContent';
+
+interface SaveSeriesIndexWorkspaceModalProps {
+  isOpen: boolean;
+  onModalClose(): void;
+}
+
+function SaveSeriesIndexWorkspaceModal(
+  props: SaveSeriesIndexWorkspaceModalProps
+) {
+  const { isOpen, onModalClose } = props;
+
+  return (
+    <Modal isOpen={isOpen} onModalClose={onModalClose}>
+      <SaveSeriesIndexWorkspaceModalContent onModalClose={onModalClose} />
+    </Modal>
+  );
+}
+
+export default SaveSeriesIndexWorkspaceModal;
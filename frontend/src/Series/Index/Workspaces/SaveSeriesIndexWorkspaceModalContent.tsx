@@ -0,0 +1,108 @@
+import React, { useCallback, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Form from 'Components/Form/Form';
+import FormGroup from 'Components/Form/FormGroup';
+import FormInputGroup from 'Components/Form/FormInputGroup';
+import FormLabel from 'Components/Form/FormLabel';
+import Button from 'Components/Link/Button';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { inputTypes, kinds } from 'Helpers/Props';
+import { saveSeriesWorkspace } from 'Store/Actions/seriesIndexActions';
+import translate from 'Utilities/String/translate';
+
+function createWorkspacesSelector() {
+  return (state: AppState) => {
+    const { workspaces, selectedWorkspaceId } = state.seriesIndex;
+
+    return {
+      workspaces,
+      selectedWorkspace: workspaces.find((w) => w.id === selectedWorkspaceId),
+    };
+  };
+}
+
+interface SaveSeriesIndexWorkspaceModalContentProps {
+  onModalClose(): void;
+}
+
+function SaveSeriesIndexWorkspaceModalContent(
+  props: SaveSeriesIndexWorkspaceModalContentProps
+) {
+  const { onModalClose } = props;
+
+  const { workspaces, selectedWorkspace } = useSelector(
+    createWorkspacesSelector()
+  );
+  const dispatch = useDispatch();
+  const [name, setName] = useState(selectedWorkspace?.name ?? '');
+
+  const trimmedName = name.trim();
+  const existingWorkspace = workspaces.find(
+    (w) => w.name.toLowerCase() === trimmedName.toLowerCase()
+  );
+
+  const onNameChange = useCallback(
+    ({ value }: { name: string; value: string }) => {
+      setName(value);
+    },
+    [setName]
+  );
+
+  const onSavePress = useCallback(() => {
+    dispatch(
+      saveSeriesWorkspace({
+        id: existingWorkspace?.id,
+        name: trimmedName,
+      })
+    );
+
+    onModalClose();
+  }, [existingWorkspace, trimmedName, dispatch, onModalClose]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('SaveWorkspace')}</ModalHeader>
+
+      <ModalBody>
+        <Form>
+          <FormGroup>
+            <FormLabel>{translate('Name')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.TEXT}
+              name="name"
+              value={name}
+              helpText={translate('SaveWorkspaceHelpText')}
+              helpTextWarning={
+                existingWorkspace
+                  ? translate('WorkspaceOverwriteWarning', {
+                      name: existingWorkspace.name,
+                    })
+                  : undefined
+              }
+              onChange={onNameChange}
+            />
+          </FormGroup>
+        </Form>
+      </ModalBody>
+
+      <ModalFooter>
+        <Button onPress={onModalClose}>{translate('Cancel')}</Button>
+
+        <Button
+          kind={kinds.PRIMARY}
+          isDisabled={!trimmedName}
+          onPress={onSavePress}
+        >
+          {translate('Save')}
+        </Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default SaveSeriesIndexWorkspaceModalContent;
@@ -0,0 +1,65 @@
+import { omit } from 'lodash';
+import { CustomFilter, FilterCondition } from 'App/State/AppState';
+import {
+  SeriesIndexWorkspace,
+  SeriesIndexWorkspaceOptions,
+} from 'App/State/SeriesAppState';
+
+export interface ExportedSeriesIndexWorkspace
+  extends Omit<SeriesIndexWorkspaceOptions, 'selectedFilterKey'> {
+  name: string;
+  selectedFilterKey?: string;
+  customFilter?: {
+    label: string;
+    filters: FilterCondition[];
+  };
+}
+
+export interface ExportedSeriesIndexWorkspaces {
+  workspaces: ExportedSeriesIndexWorkspace[];
+}
+
+function createSeriesIndexWorkspacesJson(
+  workspaces: SeriesIndexWorkspace[],
+  customFilters: CustomFilter[]
+) {
+  const exportedWorkspaces = workspaces.map((workspace) => {
+    const { selectedFilterKey, ...otherWorkspace } = omit(workspace, 'id');
+
+    // Custom filter IDs are specific to this instance, so include the
+    // filter itself to allow it to be recreated when importing.
+    if (typeof selectedFilterKey === 'number') {
+      const customFilter = customFilters.find(
+        (f) => f.id === selectedFilterKey
+      );
+
+      if (customFilter) {
+        return {
+          ...otherWorkspace,
+          customFilter: {
+            label: customFilter.label,
+            filters: customFilter.filters,
+          },
+        };
+      }
+
+      return {
+        ...otherWorkspace,
+        selectedFilterKey: 'all',
+      };
+    }
+
+    return {
+      ...otherWorkspace,
+      selectedFilterKey,
+    };
+  });
+
+  const result: ExportedSeriesIndexWorkspaces = {
+    workspaces: exportedWorkspaces,
+  };
+
+  return JSON.stringify(result, null, 2);
+}
+
+export default createSeriesIndexWorkspacesJson;
@@ -0,0 +1,136 @@
+import SortDirection from 'Helpers/Props/SortDirection';
+import { SeriesIndexGroupBy } from 'Series/Index/Group/SeriesIndexGroup';
+import { defaultState } from 'Store/Actions/seriesIndexActions';
+import translate from 'Utilities/String/translate';
+import { ExportedSeriesIndexWorkspace } from './createSeriesIndexWorkspacesJson';
+
+const views = ['posters', 'overview', 'table'];
+
+const groupByOptions: SeriesIndexGroupBy[] = [
+  'none',
+  'network',
+  'status',
+  'seriesType',
+  'qualityProfileId',
+  'rootFolderPath',
+  'year',
+  'tags',
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseWorkspace(
+  value: unknown,
+  index: number
+): ExportedSeriesIndexWorkspace {
+  const position = index + 1;
+
+  if (!isObject(value)) {
+    throw new Error(translate('WorkspaceImportInvalidWorkspace', { position }));
+  }
+
+  const {
+    name,
+    view,
+    groupBy = 'none',
+    sortKey,
+    sortDirection,
+    selectedFilterKey,
+    customFilter,
+    columns,
+    posterOptions,
+    overviewOptions,
+    tableOptions,
+  } = value;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error(translate('WorkspaceImportMissingName', { position }));
+  }
+
+  if (typeof view !== 'string' || !views.includes(view)) {
+    throw new Error(
+      translate('WorkspaceImportInvalidValue', { name, field: 'view' })
+    );
+  }
+
+  if (!groupByOptions.includes(groupBy as SeriesIndexGroupBy)) {
+    throw new Error(
+      translate('WorkspaceImportInvalidValue', { name, field: 'groupBy' })
+    );
+  }
+
+  if (
+    sortDirection !== SortDirection.Ascending &&
+    sortDirection !== SortDirection.Descending
+  ) {
+    throw new Error(
+      translate('WorkspaceImportInvalidValue', { name, field: 'sortDirection' })
+    );
+  }
+
+  if (
+    !Array.isArray(columns) ||
+    columns.some(
+      (c) =>
+        !isObject(c) ||
+        typeof c.name !== 'string' ||
+        typeof c.isVisible !== 'boolean'
+    )
+  ) {
+    throw new Error(
+      translate('WorkspaceImportInvalidValue', { name, field: 'columns' })
+    );
+  }
+
+  if (
+    customFilter !== undefined &&
+    (!isObject(customFilter) ||
+      typeof customFilter.label !== 'string' ||
+      !Array.isArray(customFilter.filters))
+  ) {
+    throw new Error(
+      translate('WorkspaceImportInvalidValue', { name, field: 'customFilter' })
+    );
+  }
+
+  return {
+    name: name.trim(),
+    view,
+    groupBy: groupBy as SeriesIndexGroupBy,
+    sortKey: typeof sortKey === 'string' ? sortKey : defaultState.sortKey,
+    sortDirection,
+    selectedFilterKey:
+      typeof selectedFilterKey === 'string' ? selectedFilterKey : 'all',
+    customFilter: customFilter as ExportedSeriesIndexWorkspace['customFilter'],
+    columns: columns as ExportedSeriesIndexWorkspace['columns'],
+    posterOptions: {
+      ...defaultState.posterOptions,
+      ...(isObject(posterOptions) ? posterOptions : {}),
+    },
+    overviewOptions: {
+      ...defaultState.overviewOptions,
+      ...(isObject(overviewOptions) ? overviewOptions : {}),
+    },
+    tableOptions: {
+      ...defaultState.tableOptions,
+      ...(isObject(tableOptions) ? tableOptions : {}),
+    },
+  };
+}
+
+function parseSeriesIndexWorkspacesJson(json: string) {
+  const value = JSON.parse(json);
+
+  // Accept either the exported object or a bare array of workspaces
+  const workspaces = isObject(value) ? value.workspaces : value;
+
+  if (!Array.isArray(workspaces) || !workspaces.length) {
+    throw new Error(translate('WorkspaceImportNoWorkspaces'));
+  }
+
+  return workspaces.map(parseWorkspace);
+}
+
+export default parseSeriesIndexWorkspacesJson;
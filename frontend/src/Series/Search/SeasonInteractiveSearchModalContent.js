@@ -25,6 +25,7 @@ function SeasonInteractiveSearchModalContent(props) {
       <ModalBody scrollDirection={scrollDirections.BOTH}>
         <InteractiveSearchConnector
           type="season"
+          seriesId={seriesId}
           searchPayload={{
             seriesId,
             seasonNumber
@@ -0,0 +1,21 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import { sizes } from 'Helpers/Props';
+import ExportCustomFormatsModalContent from './ExportCustomFormatsModalContent';
+
+interface ExportCustomFormatsModalProps {
+  isOpen: boolean;
+  onModalClose(): void;
+}
+
+function ExportCustomFormatsModal(props: ExportCustomFormatsModalProps) {
+  const { isOpen, onModalClose } = props;
+
+  return (
+    <Modal size={sizes.LARGE} isOpen={isOpen} onModalClose={onModalClose}>
+      <ExportCustomFormatsModalContent onModalClose={onModalClose} />
+    </Modal>
+  );
+}
+
+export default ExportCustomFormatsModal;
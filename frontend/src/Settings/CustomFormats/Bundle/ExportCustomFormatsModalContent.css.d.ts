@@ -0,0 +1,8 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'button': string;
+  'json': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,134 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Form from 'Components/Form/Form';
+import FormGroup from 'Components/Form/FormGroup';
+import FormInputGroup from 'Components/Form/FormInputGroup';
+import FormLabel from 'Components/Form/FormLabel';
+import Button from 'Components/Link/Button';
+import ClipboardButton from 'Components/Link/ClipboardButton';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { inputTypes, kinds } from 'Helpers/Props';
+import { fetchQualityProfiles } from 'Store/Actions/settingsActions';
+import translate from 'Utilities/String/translate';
+import { createCustomFormatBundle } from './customFormatBundle';
+import styles from './ExportCustomFormatsModalContent.css';
+
+interface ExportCustomFormatsModalContentProps {
+  onModalClose(): void;
+}
+
+function ExportCustomFormatsModalContent(
+  props: ExportCustomFormatsModalContentProps
+) {
+  const { onModalClose } = props;
+
+  const customFormats = useSelector(
+    (state: AppState) => state.settings.customFormats.items
+  );
+
+  const qualityProfiles = useSelector(
+    (state: AppState) => state.settings.qualityProfiles.items
+  );
+
+  const dispatch = useDispatch();
+
+  const [formatIds, setFormatIds] = useState<number[]>(() =>
+    customFormats.map(({ id }) => id)
+  );
+
+  const [qualityProfileIds, setQualityProfileIds] = useState<number[]>([]);
+
+  const customFormatOptions = useMemo(() => {
+    return customFormats.map(({ id, name }) => ({ key: id, value: name }));
+  }, [customFormats]);
+
+  const qualityProfileOptions = useMemo(() => {
+    return qualityProfiles.map(({ id, name }) => ({ key: id, value: name }));
+  }, [qualityProfiles]);
+
+  const json = useMemo(() => {
+    if (!formatIds.length) {
+      return '';
+    }
+
+    const bundle = createCustomFormatBundle(
+      customFormats.filter(({ id }) => formatIds.includes(id)),
+      qualityProfiles.filter(({ id }) => qualityProfileIds.includes(id))
+    );
+
+    return JSON.stringify(bundle, null, 2);
+  }, [customFormats, qualityProfiles, formatIds, qualityProfileIds]);
+
+  const onFormatIdsChange = useCallback(
+    ({ value }: { value: number[] }) => {
+      setFormatIds(value);
+    },
+    [setFormatIds]
+  );
+
+  const onQualityProfileIdsChange = useCallback(
+    ({ value }: { value: number[] }) => {
+      setQualityProfileIds(value);
+    },
+    [setQualityProfileIds]
+  );
+
+  useEffect(() => {
+    dispatch(fetchQualityProfiles());
+  }, [dispatch]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('ExportCustomFormats')}</ModalHeader>
+
+      <ModalBody>
+        <Form>
+          <FormGroup>
+            <FormLabel>{translate('CustomFormats')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.SELECT}
+              name="formatIds"
+              value={formatIds}
+              values={customFormatOptions}
+              onChange={onFormatIdsChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('QualityProfiles')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.SELECT}
+              name="qualityProfileIds"
+              value={qualityProfileIds}
+              values={qualityProfileOptions}
+              helpText={translate('ExportCustomFormatsQualityProfilesHelpText')}
+              onChange={onQualityProfileIdsChange}
+            />
+          </FormGroup>
+        </Form>
+
+        {json ? <pre className={styles.json}>{json}</pre> : null}
+      </ModalBody>
+
+      <ModalFooter>
+        <ClipboardButton
+          className={styles.button}
+          value={json}
+          title={translate('CopyToClipboard')}
+          kind={kinds.DEFAULT}
+          isDisabled={!json}
+        />
+
+        <Button onPress={onModalClose}>{translate('Close')}</Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default ExportCustomFormatsModalContent;
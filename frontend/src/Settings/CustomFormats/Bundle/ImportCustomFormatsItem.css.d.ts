@@ -0,0 +1,15 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'action': string;
+  'customFormat': string;
+  'field': string;
+  'header': string;
+  'name': string;
+  'rename': string;
+  'resolution': string;
+  'specification': string;
+  'specificationName': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,143 @@
+import React, { useCallback, useMemo } from 'react';
+import FormInputGroup from 'Components/Form/FormInputGroup';
+import Label from 'Components/Label';
+import { inputTypes, kinds } from 'Helpers/Props';
+import { Field } from 'typings/CustomFormat';
+import translate from 'Utilities/String/translate';
+import {
+  CustomFormatImport,
+  CustomFormatImportAction,
+  CustomFormatImportResolution,
+} from './customFormatBundle';
+import styles from './ImportCustomFormatsItem.css';
+
+function getFieldValue(field: Field) {
+  const { value, selectOptions } = field;
+
+  if (selectOptions) {
+    const option = selectOptions.find((o) => o.value === value);
+
+    if (option) {
+      return option.name;
+    }
+  }
+
+  return String(value ?? '');
+}
+
+interface ImportCustomFormatsItemProps {
+  index: number;
+  customFormat: CustomFormatImport;
+  isConflict: boolean;
+  resolution: CustomFormatImportResolution;
+  nameError?: string;
+  onResolutionChange(
+    index: number,
+    resolution: CustomFormatImportResolution
+  ): void;
+}
+
+function ImportCustomFormatsItem(props: ImportCustomFormatsItemProps) {
+  const {
+    index,
+    customFormat,
+    isConflict,
+    resolution,
+    nameError,
+    onResolutionChange,
+  } = props;
+
+  const { name, specifications } = customFormat;
+
+  const actionOptions = useMemo(() => {
+    return [
+      { key: 'skip', value: translate('Skip') },
+      { key: 'overwrite', value: translate('Overwrite') },
+      { key: 'rename', value: translate('Rename') },
+    ];
+  }, []);
+
+  const onActionChange = useCallback(
+    ({ value }: { value: CustomFormatImportAction }) => {
+      onResolutionChange(index, { ...resolution, action: value });
+    },
+    [index, resolution, onResolutionChange]
+  );
+
+  const onNameChange = useCallback(
+    ({ value }: { value: string }) => {
+      onResolutionChange(index, { ...resolution, name: value });
+    },
+    [index, resolution, onResolutionChange]
+  );
+
+  return (
+    <div className={styles.customFormat}>
+      <div className={styles.header}>
+        <div className={styles.name}>{name}</div>
+
+        {isConflict ? (
+          <Label kind={kinds.WARNING}>{translate('Existing')}</Label>
+        ) : (
+          <Label kind={kinds.SUCCESS}>{translate('New')}</Label>
+        )}
+      </div>
+
+      {isConflict ? (
+        <div className={styles.resolution}>
+          <FormInputGroup
+            containerClassName={styles.action}
+            type={inputTypes.SELECT}
+            name="action"
+            value={resolution.action}
+            values={actionOptions}
+            onChange={onActionChange}
+          />
+
+          {resolution.action === 'rename' ? (
+            <FormInputGroup
+              containerClassName={styles.rename}
+              type={inputTypes.TEXT}
+              name="name"
+              value={resolution.name}
+              errors={nameError ? [{ message: nameError }] : []}
+              onChange={onNameChange}
+            />
+          ) : null}
+        </div>
+      ) : null}
+
+      {specifications.map((specification, specificationIndex) => {
+        const { implementationName, negate, required, fields } = specification;
+
+        return (
+          <div key={specificationIndex} className={styles.specification}>
+            <span className={styles.specificationName}>
+              {specification.name}
+            </span>
+
+            <Label kind={kinds.DEFAULT}>{implementationName}</Label>
+
+            {negate ? (
+              <Label kind={kinds.DANGER}>{translate('Negated')}</Label>
+            ) : null}
+
+            {required ? (
+              <Label kind={kinds.SUCCESS}>{translate('Required')}</Label>
+            ) : null}
+
+            {fields.map((field) => {
+              return (
+                <span key={field.name} className={styles.field}>
+                  {field.label}: {getFieldValue(field)}
+                </span>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ImportCustomFormatsItem;
@@ -0,0 +1,21 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import { sizes } from 'Helpers/Props';
+import ImportCustomFormatsModalContent from './ImportCustomFormatsModalContent';
+
+interface ImportCustomFormatsModalProps {
+  isOpen: boolean;
+  onModalClose(): void;
+}
+
+function ImportCustomFormatsModal(props: ImportCustomFormatsModalProps) {
+  const { isOpen, onModalClose } = props;
+
+  return (
+    <Modal size={sizes.LARGE} isOpen={isOpen} onModalClose={onModalClose}>
+      <ImportCustomFormatsModalContent onModalClose={onModalClose} />
+    </Modal>
+  );
+}
+
+export default ImportCustomFormatsModal;
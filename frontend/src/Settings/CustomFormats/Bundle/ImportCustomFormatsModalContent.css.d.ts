@@ -0,0 +1,10 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'backButton': string;
+  'helpText': string;
+  'input': string;
+  'scores': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
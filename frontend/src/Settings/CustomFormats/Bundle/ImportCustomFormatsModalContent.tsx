@@ -0,0 +1,380 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import FormGroup from 'Components/Form/FormGroup';
+import FormInputGroup from 'Components/Form/FormInputGroup';
+import FormLabel from 'Components/Form/FormLabel';
+import TextArea from 'Components/Form/TextArea';
+import Button from 'Components/Link/Button';
+import SpinnerErrorButton from 'Components/Link/SpinnerErrorButton';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import usePrevious from 'Helpers/Hooks/usePrevious';
+import { inputTypes, kinds } from 'Helpers/Props';
+import {
+  fetchCustomFormatSpecificationSchema,
+  fetchQualityProfiles,
+  importCustomFormats,
+} from 'Store/Actions/settingsActions';
+import translate from 'Utilities/String/translate';
+import {
+  CustomFormatImportResolution,
+  getUniqueName,
+  parseCustomFormatBundle,
+  ParsedCustomFormatBundle,
+} from './customFormatBundle';
+import ImportCustomFormatsItem from './ImportCustomFormatsItem';
+import styles from './ImportCustomFormatsModalContent.css';
+
+interface ImportCustomFormatsModalContentProps {
+  onModalClose(): void;
+}
+
+function ImportCustomFormatsModalContent(
+  props: ImportCustomFormatsModalContentProps
+) {
+  const { onModalClose } = props;
+
+  const {
+    items: customFormats,
+    isImporting,
+    importError,
+  } = useSelector((state: AppState) => state.settings.customFormats);
+
+  const { schema, isSchemaPopulated } = useSelector(
+    (state: AppState) => state.settings.customFormatSpecifications
+  );
+
+  const qualityProfiles = useSelector(
+    (state: AppState) => state.settings.qualityProfiles.items
+  );
+
+  const dispatch = useDispatch();
+  const wasImporting = usePrevious(isImporting);
+
+  const [json, setJson] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [bundle, setBundle] = useState<ParsedCustomFormatBundle | null>(null);
+  const [resolutions, setResolutions] = useState<
+    CustomFormatImportResolution[]
+  >([]);
+  const [applyScores, setApplyScores] = useState(true);
+
+  const existingNames = useMemo(() => {
+    return customFormats.map(({ name }) => name);
+  }, [customFormats]);
+
+  const getExisting = useCallback(
+    (name: string) => {
+      const lowerName = name.toLowerCase();
+
+      return customFormats.find((cf) => cf.name.toLowerCase() === lowerName);
+    },
+    [customFormats]
+  );
+
+  const nameErrors = useMemo(() => {
+    if (!bundle) {
+      return [];
+    }
+
+    // Renamed custom formats can't collide with existing custom formats or
+    // any other custom format that is being imported.
+    const otherNames = bundle.customFormats.map((customFormat, index) => {
+      const resolution = resolutions[index];
+
+      return resolution.action === 'rename'
+        ? resolution.name.trim().toLowerCase()
+        : customFormat.name.toLowerCase();
+    });
+
+    return resolutions.map((resolution, index) => {
+      if (resolution.action !== 'rename') {
+        return undefined;
+      }
+
+      const name = resolution.name.trim();
+
+      if (!name) {
+        return translate('CustomFormatImportNameRequired');
+      }
+
+      const lowerName = name.toLowerCase();
+
+      if (
+        getExisting(name) ||
+        otherNames.some((n, i) => i !== index && n === lowerName)
+      ) {
+        return translate('CustomFormatImportNameExists');
+      }
+
+      return undefined;
+    });
+  }, [bundle, resolutions, getExisting]);
+
+  const { matchedProfiles, unmatchedProfiles } = useMemo(() => {
+    const lowerNames = qualityProfiles.map(({ name }) => name.toLowerCase());
+    const bundleProfiles = bundle?.qualityProfiles ?? [];
+
+    return {
+      matchedProfiles: bundleProfiles.filter(({ name }) =>
+        lowerNames.includes(name.toLowerCase())
+      ),
+      unmatchedProfiles: bundleProfiles.filter(
+        ({ name }) => !lowerNames.includes(name.toLowerCase())
+      ),
+    };
+  }, [bundle, qualityProfiles]);
+
+  const hasChanges = resolutions.some(({ action }) => action !== 'skip');
+  const hasErrors = nameErrors.some((error) => !!error);
+
+  const onJsonChange = useCallback(
+    ({ value }: { value: string }) => {
+      setJson(value);
+      setParseError(null);
+    },
+    [setJson, setParseError]
+  );
+
+  const onPreviewPress = useCallback(() => {
+    try {
+      const parsed = parseCustomFormatBundle(json, schema);
+
+      setBundle(parsed);
+      setResolutions(
+        parsed.customFormats.map(({ name }) => {
+          return getExisting(name)
+            ? { action: 'skip', name: getUniqueName(name, existingNames) }
+            : { action: 'add', name };
+        })
+      );
+    } catch (error) {
+      setParseError(
+        error instanceof SyntaxError
+          ? translate('CustomFormatBundleInvalid')
+          : (error as Error).message
+      );
+    }
+  }, [json, schema, existingNames, getExisting]);
+
+  const onBackPress = useCallback(() => {
+    setBundle(null);
+    setResolutions([]);
+  }, [setBundle, setResolutions]);
+
+  const onResolutionChange = useCallback(
+    (index: number, resolution: CustomFormatImportResolution) => {
+      setResolutions((current) => {
+        const updated = [...current];
+        updated[index] = resolution;
+
+        return updated;
+      });
+    },
+    [setResolutions]
+  );
+
+  const onApplyScoresChange = useCallback(
+    ({ value }: { value: boolean }) => {
+      setApplyScores(value);
+    },
+    [setApplyScores]
+  );
+
+  const onImportPress = useCallback(() => {
+    if (!bundle) {
+      return;
+    }
+
+    // Scores in the bundle are keyed by the original name, so they're
+    // moved to the new name of renamed custom formats and skipped custom
+    // formats keep their existing scores.
+    const renames: Record<string, string | null> = {};
+
+    const importedFormats = bundle.customFormats.reduce(
+      (acc: object[], customFormat, index) => {
+        const { action, name } = resolutions[index];
+
+        if (action === 'skip') {
+          renames[customFormat.name] = null;
+
+          return acc;
+        }
+
+        if (action === 'rename') {
+          renames[customFormat.name] = name.trim();
+          acc.push({ ...customFormat, name: name.trim() });
+        } else if (action === 'overwrite') {
+          acc.push({
+            ...customFormat,
+            id: getExisting(customFormat.name)?.id,
+            name: getExisting(customFormat.name)?.name,
+          });
+        } else {
+          acc.push(customFormat);
+        }
+
+        return acc;
+      },
+      []
+    );
+
+    const importedProfiles = applyScores
+      ? matchedProfiles.map((qualityProfile) => {
+          const scores = Object.keys(qualityProfile.scores).reduce(
+            (acc: Record<string, number>, key) => {
+              const name = key in renames ? renames[key] : key;
+
+              if (name != null) {
+                acc[name] = qualityProfile.scores[key];
+              }
+
+              return acc;
+            },
+            {}
+          );
+
+          return { name: qualityProfile.name, scores };
+        })
+      : [];
+
+    dispatch(
+      importCustomFormats({
+        customFormats: importedFormats,
+        qualityProfiles: importedProfiles,
+      })
+    );
+  }, [
+    bundle,
+    resolutions,
+    applyScores,
+    matchedProfiles,
+    getExisting,
+    dispatch,
+  ]);
+
+  useEffect(() => {
+    dispatch(fetchCustomFormatSpecificationSchema());
+    dispatch(fetchQualityProfiles());
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (wasImporting && !isImporting && !importError) {
+      onModalClose();
+    }
+  }, [wasImporting, isImporting, importError, onModalClose]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('ImportCustomFormats')}</ModalHeader>
+
+      <ModalBody>
+        {bundle ? (
+          <div>
+            <Alert kind={kinds.INFO}>
+              {translate('ImportCustomFormatsConflictHelpText')}
+            </Alert>
+
+            {bundle.customFormats.map((customFormat, index) => {
+              return (
+                <ImportCustomFormatsItem
+                  key={index}
+                  index={index}
+                  customFormat={customFormat}
+                  isConflict={resolutions[index].action !== 'add'}
+                  resolution={resolutions[index]}
+                  nameError={nameErrors[index]}
+                  onResolutionChange={onResolutionChange}
+                />
+              );
+            })}
+
+            {bundle.qualityProfiles.length ? (
+              <FormGroup className={styles.scores}>
+                <FormLabel>{translate('ApplyScores')}</FormLabel>
+
+                <FormInputGroup
+                  type={inputTypes.CHECK}
+                  name="applyScores"
+                  value={applyScores}
+                  helpText={translate(
+                    'ImportCustomFormatsApplyScoresHelpText',
+                    {
+                      qualityProfiles: matchedProfiles.length
+                        ? matchedProfiles.map(({ name }) => name).join(', ')
+                        : '-',
+                    }
+                  )}
+                  helpTextWarning={
+                    unmatchedProfiles.length
+                      ? translate('ImportCustomFormatsUnmatchedProfiles', {
+                          qualityProfiles: unmatchedProfiles
+                            .map(({ name }) => name)
+                            .join(', '),
+                        })
+                      : undefined
+                  }
+                  onChange={onApplyScoresChange}
+                />
+              </FormGroup>
+            ) : null}
+          </div>
+        ) : (
+          <div>
+            <div className={styles.helpText}>
+              {translate('ImportCustomFormatsHelpText')}
+            </div>
+
+            <TextArea
+              className={styles.input}
+              name="json"
+              value={json}
+              hasError={!!parseError}
+              onChange={onJsonChange}
+            />
+
+            {parseError ? (
+              <Alert kind={kinds.DANGER}>{parseError}</Alert>
+            ) : null}
+          </div>
+        )}
+      </ModalBody>
+
+      <ModalFooter>
+        {bundle ? (
+          <Button className={styles.backButton} onPress={onBackPress}>
+            {translate('Back')}
+          </Button>
+        ) : null}
+
+        <Button onPress={onModalClose}>{translate('Cancel')}</Button>
+
+        {bundle ? (
+          <SpinnerErrorButton
+            kind={kinds.PRIMARY}
+            isSpinning={isImporting}
+            isDisabled={!hasChanges || hasErrors}
+            error={importError}
+            onPress={onImportPress}
+          >
+            {translate('Import')}
+          </SpinnerErrorButton>
+        ) : (
+          <Button
+            kind={kinds.PRIMARY}
+            isDisabled={!json.trim() || !isSchemaPopulated}
+            onPress={onPreviewPress}
+          >
+            {translate('Preview')}
+          </Button>
+        )}
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default ImportCustomFormatsModalContent;
@@ -0,0 +1,243 @@
+import CustomFormat, { CustomFormatSpecification } from 'typings/CustomFormat';
+import QualityProfile from 'typings/QualityProfile';
+import translate from 'Utilities/String/translate';
+
+export interface CustomFormatBundleSpecification {
+  name: string;
+  implementation: string;
+  negate: boolean;
+  required: boolean;
+  fields: Record<string, unknown>;
+}
+
+export interface CustomFormatBundleFormat {
+  name: string;
+  includeCustomFormatWhenRenaming: boolean;
+  specifications: CustomFormatBundleSpecification[];
+}
+
+export interface CustomFormatBundleQualityProfile {
+  name: string;
+  scores: Record<string, number>;
+}
+
+export interface CustomFormatBundle {
+  customFormats: CustomFormatBundleFormat[];
+  qualityProfiles?: CustomFormatBundleQualityProfile[];
+}
+
+export interface CustomFormatImport {
+  name: string;
+  includeCustomFormatWhenRenaming: boolean;
+  specifications: CustomFormatSpecification[];
+}
+
+export type CustomFormatImportAction = 'add' | 'skip' | 'overwrite' | 'rename';
+
+export interface CustomFormatImportResolution {
+  action: CustomFormatImportAction;
+  name: string;
+}
+
+export interface ParsedCustomFormatBundle {
+  customFormats: CustomFormatImport[];
+  qualityProfiles: CustomFormatBundleQualityProfile[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Specifications use the same shape as a single exported custom format, so
+// either can be imported as a bundle.
+function getBundleSpecification(
+  specification: CustomFormatSpecification
+): CustomFormatBundleSpecification {
+  const { name, implementation, negate, required, fields } = specification;
+
+  return {
+    name,
+    implementation,
+    negate,
+    required,
+    fields: fields.reduce((acc: Record<string, unknown>, field) => {
+      acc[field.name] = field.value;
+
+      return acc;
+    }, {}),
+  };
+}
+
+export function createCustomFormatBundle(
+  customFormats: CustomFormat[],
+  qualityProfiles: QualityProfile[]
+): CustomFormatBundle {
+  const bundle: CustomFormatBundle = {
+    customFormats: customFormats.map((customFormat) => {
+      return {
+        name: customFormat.name,
+        includeCustomFormatWhenRenaming:
+          !!customFormat.includeCustomFormatWhenRenaming,
+        specifications: (customFormat.specifications ?? []).map(
+          getBundleSpecification
+        ),
+      };
+    }),
+  };
+
+  if (qualityProfiles.length) {
+    bundle.qualityProfiles = qualityProfiles.map((qualityProfile) => {
+      return {
+        name: qualityProfile.name,
+        scores: customFormats.reduce((acc: Record<string, number>, cf) => {
+          const formatItem = qualityProfile.formatItems.find(
+            (item) => item.format === cf.id
+          );
+
+          acc[cf.name] = formatItem?.score ?? 0;
+
+          return acc;
+        }, {}),
+      };
+    });
+  }
+
+  return bundle;
+}
+
+function parseSpecification(
+  specification: unknown,
+  schema: CustomFormatSpecification[]
+): CustomFormatSpecification {
+  if (!isObject(specification)) {
+    throw new Error(translate('CustomFormatBundleInvalid'));
+  }
+
+  const implementation = String(specification.implementation);
+  const selectedSchema = schema.find(
+    (s) => s.implementation === implementation
+  );
+
+  if (!selectedSchema) {
+    throw new Error(
+      translate('CustomFormatUnknownCondition', { implementation })
+    );
+  }
+
+  const fields = isObject(specification.fields) ? specification.fields : {};
+
+  Object.keys(fields).forEach((key) => {
+    if (!selectedSchema.fields.some((field) => field.name === key)) {
+      throw new Error(
+        translate('CustomFormatUnknownConditionOption', {
+          key,
+          implementation: selectedSchema.implementationName,
+        })
+      );
+    }
+  });
+
+  return {
+    ...selectedSchema,
+    name: String(specification.name ?? ''),
+    negate: !!specification.negate,
+    required: !!specification.required,
+    fields: selectedSchema.fields.map((field) => {
+      return field.name in fields
+        ? { ...field, value: fields[field.name] as typeof field.value }
+        : field;
+    }),
+  };
+}
+
+function parseCustomFormat(
+  customFormat: unknown,
+  schema: CustomFormatSpecification[]
+): CustomFormatImport {
+  if (
+    !isObject(customFormat) ||
+    typeof customFormat.name !== 'string' ||
+    !customFormat.name.trim() ||
+    !Array.isArray(customFormat.specifications)
+  ) {
+    throw new Error(translate('CustomFormatBundleInvalid'));
+  }
+
+  return {
+    name: customFormat.name.trim(),
+    includeCustomFormatWhenRenaming:
+      !!customFormat.includeCustomFormatWhenRenaming,
+    specifications: customFormat.specifications.map((specification) => {
+      return parseSpecification(specification, schema);
+    }),
+  };
+}
+
+function parseQualityProfile(
+  qualityProfile: unknown
+): CustomFormatBundleQualityProfile {
+  if (
+    !isObject(qualityProfile) ||
+    typeof qualityProfile.name !== 'string' ||
+    !isObject(qualityProfile.scores)
+  ) {
+    throw new Error(translate('CustomFormatBundleInvalid'));
+  }
+
+  const scores = qualityProfile.scores;
+
+  return {
+    name: qualityProfile.name,
+    scores: Object.keys(scores).reduce((acc: Record<string, number>, key) => {
+      acc[key] = Number(scores[key]) || 0;
+
+      return acc;
+    }, {}),
+  };
+}
+
+export function getUniqueName(name: string, names: string[]) {
+  const lowerNames = names.map((n) => n.toLowerCase());
+  let index = 2;
+  let uniqueName = `${name} (${index})`;
+
+  while (lowerNames.includes(uniqueName.toLowerCase())) {
+    index++;
+    uniqueName = `${name} (${index})`;
+  }
+
+  return uniqueName;
+}
+
+// Accepts a bundle, a list of custom formats or a single exported custom
+// format and throws when it can't be imported.
+export function parseCustomFormatBundle(
+  json: string,
+  schema: CustomFormatSpecification[]
+): ParsedCustomFormatBundle {
+  const value: unknown = JSON.parse(json);
+  let customFormats: unknown[] = [];
+  let qualityProfiles: unknown[] = [];
+
+  if (Array.isArray(value)) {
+    customFormats = value;
+  } else if (isObject(value) && Array.isArray(value.customFormats)) {
+    customFormats = value.customFormats;
+    qualityProfiles = Array.isArray(value.qualityProfiles)
+      ? value.qualityProfiles
+      : [];
+  } else {
+    customFormats = [value];
+  }
+
+  if (!customFormats.length) {
+    throw new Error(translate('CustomFormatBundleEmpty'));
+  }
+
+  return {
+    customFormats: customFormats.map((customFormat) => {
+      return parseCustomFormat(customFormat, schema);
+    }),
+    qualityProfiles: qualityProfiles.map(parseQualityProfile),
+  };
+}
@@ -1,15 +1,44 @@
-import React, { Fragment } from 'react';
+import React, { Fragment, useCallback, useState } from 'react';
 import { DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
+import { useHistory } from 'react-router-dom';
 import PageContent from 'Components/Page/PageContent';
 import PageContentBody from 'Components/Page/PageContentBody';
+import PageToolbarButton from 'Components/Page/Toolbar/PageToolbarButton';
 import PageToolbarSeparator from 'Components/Page/Toolbar/PageToolbarSeparator';
+import { icons } from 'Helpers/Props';
 import ParseToolbarButton from 'Parse/ParseToolbarButton';
 import SettingsToolbarConnector from 'Settings/SettingsToolbarConnector';
 import translate from 'Utilities/String/translate';
+import ExportCustomFormatsModal from './Bundle/ExportCustomFormatsModal';
+import ImportCustomFormatsModal from './Bundle/ImportCustomFormatsModal';
 import CustomFormatsConnector from './CustomFormats/CustomFormatsConnector';
 
 function CustomFormatSettingsPage() {
+  const history = useHistory();
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+
+  const onScoresPress = useCallback(() => {
+    history.push(`${window.Sonarr.urlBase}/settings/customformats/scores`);
+  }, [history]);
+
+  const onExportPress = useCallback(() => {
+    setIsExportModalOpen(true);
+  }, [setIsExportModalOpen]);
+
+  const onExportModalClose = useCallback(() => {
+    setIsExportModalOpen(false);
+  }, [setIsExportModalOpen]);
+
+  const onImportPress = useCallback(() => {
+    setIsImportModalOpen(true);
+  }, [setIsImportModalOpen]);
+
+  const onImportModalClose = useCallback(() => {
+    setIsImportModalOpen(false);
+  }, [setIsImportModalOpen]);
+
   return (
     <PageContent title={translate('CustomFormatsSettings')}>
       <SettingsToolbarConnector
@@ -21,6 +50,24 @@ function CustomFormatSettingsPage() {
             <PageToolbarSeparator />
 
             <ParseToolbarButton />
+
+            <PageToolbarButton
+              label={translate('CustomFormatScores')}
+              iconName={icons.TABLE}
+              onPress={onScoresPress}
+            />
+
+            <PageToolbarButton
+              label={translate('Export')}
+              iconName={icons.EXPORT}
+              onPress={onExportPress}
+            />
+
+            <PageToolbarButton
+              label={translate('Import')}
+              iconName={icons.IMPORT}
+              onPress={onImportPress}
+            />
           </Fragment>
         }
       />
@@ -35,6 +82,16 @@ function CustomFormatSettingsPage() {
           <CustomFormatsConnector />
         </DndProvider>
       </PageContentBody>
+
+      <ExportCustomFormatsModal
+        isOpen={isExportModalOpen}
+        onModalClose={onExportModalClose}
+      />
+
+      <ImportCustomFormatsModal
+        isOpen={isImportModalOpen}
+        onModalClose={onImportModalClose}
+      />
     </PageContent>
   );
 }
@@ -20,6 +20,7 @@ import ImportCustomFormatModal from './ImportCustomFormatModal';
 import AddSpecificationModal from './Specifications/AddSpecificationModal';
 import EditSpecificationModalConnector from './Specifications/EditSpecificationModalConnector';
 import Specification from './Specifications/Specification';
+import CustomFormatTest from './Test/CustomFormatTest';
 import styles from './EditCustomFormatModalContent.css';
 
 class EditCustomFormatModalContent extends Component {
@@ -178,6 +179,10 @@ class EditCustomFormatModalContent extends Component {
                     </div>
                   </FieldSet>
 
+                  <CustomFormatTest
+                    specifications={specifications}
+                  />
+
                   <AddSpecificationModal
                     isOpen={isAddSpecificationModalOpen}
                     onModalClose={this.onAddSpecificationModalClose}
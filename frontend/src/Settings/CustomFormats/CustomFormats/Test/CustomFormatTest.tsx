@@ -0,0 +1,60 @@
+import { uniq } from 'lodash';
+import React, { useCallback, useMemo, useState } from 'react';
+import FieldSet from 'Components/FieldSet';
+import TextArea from 'Components/Form/TextArea';
+import { CustomFormatSpecification } from 'typings/CustomFormat';
+import translate from 'Utilities/String/translate';
+import CustomFormatTestRelease from './CustomFormatTestRelease';
+import getCustomFormatTestResult from './getCustomFormatTestResult';
+import styles from './CustomFormatTest.css';
+
+interface CustomFormatTestProps {
+  specifications: CustomFormatSpecification[];
+}
+
+function CustomFormatTest(props: CustomFormatTestProps) {
+  const { specifications } = props;
+  const [titles, setTitles] = useState('');
+
+  const results = useMemo(() => {
+    const releaseTitles = uniq(
+      titles
+        .split(/\r?\n/)
+        .map((title) => title.trim())
+        .filter((title) => title !== '')
+    );
+
+    return releaseTitles.map((title) => {
+      return getCustomFormatTestResult(specifications, title);
+    });
+  }, [specifications, titles]);
+
+  const onTitlesChange = useCallback(
+    ({ value }: { value: string }) => {
+      setTitles(value);
+    },
+    [setTitles]
+  );
+
+  return (
+    <FieldSet legend={translate('Test')}>
+      <div className={styles.helpText}>
+        {translate('CustomFormatTestHelpText')}
+      </div>
+
+      <TextArea
+        className={styles.input}
+        name="titles"
+        value={titles}
+        placeholder={translate('ParseBatchPlaceholder')}
+        onChange={onTitlesChange}
+      />
+
+      {results.map((result) => {
+        return <CustomFormatTestRelease key={result.title} result={result} />;
+      })}
+    </FieldSet>
+  );
+}
+
+export default CustomFormatTest;
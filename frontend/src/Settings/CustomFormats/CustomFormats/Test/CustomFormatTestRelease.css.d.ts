@@ -0,0 +1,16 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'header': string;
+  'match': string;
+  'name': string;
+  'negatedMatch': string;
+  'notTested': string;
+  'release': string;
+  'releaseGroup': string;
+  'result': string;
+  'specification': string;
+  'title': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
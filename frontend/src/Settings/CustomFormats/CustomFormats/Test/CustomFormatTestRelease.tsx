@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import Icon from 'Components/Icon';
+import Label from 'Components/Label';
+import { icons, kinds } from 'Helpers/Props';
+import translate from 'Utilities/String/translate';
+import {
+  CustomFormatTestMatch,
+  CustomFormatTestRange,
+  CustomFormatTestResult,
+} from './getCustomFormatTestResult';
+import styles from './CustomFormatTestRelease.css';
+
+interface TitleSegment {
+  start: number;
+  text: string;
+  className?: string;
+}
+
+// Matches of negated specifications take precedence so it's clear which
+// part of the title prevents the custom format from matching.
+function getTitleSegments(title: string, ranges: CustomFormatTestRange[]) {
+  const states = new Array(title.length).fill(0);
+
+  ranges.forEach(({ start, end, isNegated }) => {
+    for (let i = start; i < end; i++) {
+      states[i] = Math.max(states[i], isNegated ? 2 : 1);
+    }
+  });
+
+  return states.reduce((acc: TitleSegment[], state, index) => {
+    const className = [undefined, styles.match, styles.negatedMatch][state];
+    const previous = acc[acc.length - 1];
+
+    if (previous && previous.className === className) {
+      previous.text += title[index];
+    } else {
+      acc.push({ start: index, text: title[index], className });
+    }
+
+    return acc;
+  }, []);
+}
+
+function getMatchLabel(isMatch: CustomFormatTestMatch) {
+  if (isMatch === null) {
+    return <Label kind={kinds.DEFAULT}>{translate('NotTested')}</Label>;
+  }
+
+  return isMatch ? (
+    <Label kind={kinds.SUCCESS}>{translate('Matches')}</Label>
+  ) : (
+    <Label kind={kinds.DANGER}>{translate('DoesNotMatch')}</Label>
+  );
+}
+
+interface CustomFormatTestReleaseProps {
+  result: CustomFormatTestResult;
+}
+
+function CustomFormatTestRelease(props: CustomFormatTestReleaseProps) {
+  const { title, releaseGroup, isMatch, specifications, ranges } = props.result;
+
+  const segments = useMemo(() => {
+    return getTitleSegments(title, ranges);
+  }, [title, ranges]);
+
+  return (
+    <div className={styles.release}>
+      <div className={styles.header}>
+        <div className={styles.title}>
+          {segments.map(({ start, text, className }) => {
+            return (
+              <span key={start} className={className}>
+                {text}
+              </span>
+            );
+          })}
+        </div>
+
+        {getMatchLabel(isMatch)}
+      </div>
+
+      <div className={styles.releaseGroup}>
+        {translate('ReleaseGroup')}: {releaseGroup ?? '-'}
+      </div>
+
+      {specifications.map((specification) => {
+        const {
+          id,
+          name,
+          implementationName,
+          negate,
+          required,
+          isTested,
+          isValid,
+          isMatch: isSpecificationMatch,
+        } = specification;
+
+        return (
+          <div key={id} className={styles.specification}>
+            <div className={styles.result}>
+              {isSpecificationMatch === null ? null : (
+                <Icon
+                  name={isSpecificationMatch ? icons.CHECK : icons.REMOVE}
+                  kind={isSpecificationMatch ? kinds.SUCCESS : kinds.DANGER}
+                />
+              )}
+            </div>
+
+            <span className={styles.name}>{name}</span>
+
+            <Label kind={kinds.DEFAULT}>{implementationName}</Label>
+
+            {negate ? (
+              <Label kind={kinds.DANGER}>{translate('Negated')}</Label>
+            ) : null}
+
+            {required ? (
+              <Label kind={kinds.SUCCESS}>{translate('Required')}</Label>
+            ) : null}
+
+            {isTested ? null : (
+              <span className={styles.notTested}>
+                {translate('CustomFormatTestConditionNotTested')}
+              </span>
+            )}
+
+            {isValid ? null : (
+              <span className={styles.notTested}>
+                {translate('InvalidRegularExpression')}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default CustomFormatTestRelease;
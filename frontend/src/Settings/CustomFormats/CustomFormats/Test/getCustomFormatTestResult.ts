@@ -0,0 +1,197 @@
+import { CustomFormatSpecification } from 'typings/CustomFormat';
+
+const RELEASE_TITLE_SPECIFICATION = 'ReleaseTitleSpecification';
+const RELEASE_GROUP_SPECIFICATION = 'ReleaseGroupSpecification';
+
+const EXTENSION_REGEX = /\.(?:mkv|mp4|avi|m4v|wmv|ts|m2ts)$/i;
+const ANIME_RELEASE_GROUP_REGEX = /^\[(.+?)\]/;
+const RELEASE_GROUP_REGEX = /-([a-z0-9]+)(?:\[[^\]]+\])?$/i;
+
+export type CustomFormatTestMatch = boolean | null;
+
+export interface CustomFormatTestRange {
+  start: number;
+  end: number;
+  isNegated: boolean;
+}
+
+export interface CustomFormatSpecificationTestResult {
+  id: number;
+  name: string;
+  implementationName: string;
+  negate: boolean;
+  required: boolean;
+  isTested: boolean;
+  isValid: boolean;
+  isMatch: CustomFormatTestMatch;
+}
+
+export interface CustomFormatTestResult {
+  title: string;
+  releaseGroup: string | null;
+  isMatch: CustomFormatTestMatch;
+  specifications: CustomFormatSpecificationTestResult[];
+  ranges: CustomFormatTestRange[];
+}
+
+// Only the release title and group can be determined without parsing the
+// release, the group is taken from the common scene and anime naming
+// conventions.
+export function getReleaseGroup(title: string) {
+  const animeMatch = ANIME_RELEASE_GROUP_REGEX.exec(title);
+
+  if (animeMatch) {
+    return animeMatch[1];
+  }
+
+  const match = RELEASE_GROUP_REGEX.exec(title.replace(EXTENSION_REGEX, ''));
+
+  return match ? match[1] : null;
+}
+
+function getRegex(specification: CustomFormatSpecification) {
+  const field = specification.fields.find((f) => f.name === 'value');
+  const value = field ? String(field.value ?? '') : '';
+
+  if (!value.trim()) {
+    return null;
+  }
+
+  // Custom format regexes are always case insensitive
+  try {
+    return new RegExp(value, 'gi');
+  } catch (error) {
+    return null;
+  }
+}
+
+function getRanges(regex: RegExp, value: string, isNegated: boolean) {
+  const ranges: CustomFormatTestRange[] = [];
+  let match = regex.exec(value);
+
+  while (match) {
+    if (match[0].length) {
+      ranges.push({
+        start: match.index,
+        end: match.index + match[0].length,
+        isNegated,
+      });
+    } else {
+      regex.lastIndex++;
+    }
+
+    match = regex.exec(value);
+  }
+
+  return ranges;
+}
+
+function getTestedValue(
+  specification: CustomFormatSpecification,
+  title: string,
+  releaseGroup: string | null
+) {
+  if (specification.implementation === RELEASE_TITLE_SPECIFICATION) {
+    return title;
+  }
+
+  return releaseGroup;
+}
+
+// Mirrors how specifications of the same type are grouped when the custom
+// format is evaluated, every required specification in a group has to match
+// and at least one of them has to match, a group with specifications that
+// couldn't be tested may not have a result.
+function getGroupMatch(results: CustomFormatSpecificationTestResult[]) {
+  if (results.some((r) => r.required && r.isMatch === false)) {
+    return false;
+  }
+
+  if (results.some((r) => r.required && r.isMatch === null)) {
+    return null;
+  }
+
+  if (results.some((r) => r.isMatch === true)) {
+    return true;
+  }
+
+  return results.some((r) => r.isMatch === null) ? null : false;
+}
+
+function getCustomFormatMatch(
+  results: CustomFormatSpecificationTestResult[],
+  specifications: CustomFormatSpecification[]
+) {
+  const groups = specifications.reduce(
+    (acc: Record<string, CustomFormatSpecificationTestResult[]>, s, index) => {
+      if (!acc[s.implementation]) {
+        acc[s.implementation] = [];
+      }
+
+      acc[s.implementation].push(results[index]);
+
+      return acc;
+    },
+    {}
+  );
+
+  const groupMatches = Object.values(groups).map(getGroupMatch);
+
+  if (groupMatches.some((isMatch) => isMatch === false)) {
+    return false;
+  }
+
+  return groupMatches.some((isMatch) => isMatch === null) ? null : true;
+}
+
+function getCustomFormatTestResult(
+  specifications: CustomFormatSpecification[],
+  title: string
+): CustomFormatTestResult {
+  const releaseGroup = getReleaseGroup(title);
+  const ranges: CustomFormatTestRange[] = [];
+
+  const results = specifications.map((specification) => {
+    const { id, name, implementation, implementationName, negate, required } =
+      specification;
+
+    const isTested =
+      implementation === RELEASE_TITLE_SPECIFICATION ||
+      implementation === RELEASE_GROUP_SPECIFICATION;
+
+    const regex = isTested ? getRegex(specification) : null;
+    const testedValue = getTestedValue(specification, title, releaseGroup);
+    let isMatch: CustomFormatTestMatch = null;
+
+    if (regex) {
+      const matches = testedValue ? getRanges(regex, testedValue, negate) : [];
+
+      isMatch = matches.length > 0 !== negate;
+
+      if (implementation === RELEASE_TITLE_SPECIFICATION) {
+        ranges.push(...matches);
+      }
+    }
+
+    return {
+      id,
+      name,
+      implementationName,
+      negate,
+      required,
+      isTested,
+      isValid: !isTested || regex != null,
+      isMatch,
+    };
+  });
+
+  return {
+    title,
+    releaseGroup,
+    isMatch: getCustomFormatMatch(results, specifications),
+    specifications: results,
+    ranges,
+  };
+}
+
+export default getCustomFormatTestResult;
@@ -0,0 +1,21 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import { sizes } from 'Helpers/Props';
+import CopyCustomFormatScoresModalContent from './CopyCustomFormatScoresModalContent';
+
+interface CopyCustomFormatScoresModalProps {
+  isOpen: boolean;
+  onModalClose(): void;
+}
+
+function CopyCustomFormatScoresModal(props: CopyCustomFormatScoresModalProps) {
+  const { isOpen, onModalClose } = props;
+
+  return (
+    <Modal size={sizes.MEDIUM} isOpen={isOpen} onModalClose={onModalClose}>
+      <CopyCustomFormatScoresModalContent onModalClose={onModalClose} />
+    </Modal>
+  );
+}
+
+export default CopyCustomFormatScoresModal;
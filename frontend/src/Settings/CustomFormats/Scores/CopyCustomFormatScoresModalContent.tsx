@@ -0,0 +1,160 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Form from 'Components/Form/Form';
+import FormGroup from 'Components/Form/FormGroup';
+import FormInputGroup from 'Components/Form/FormInputGroup';
+import FormLabel from 'Components/Form/FormLabel';
+import Button from 'Components/Link/Button';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { inputTypes, kinds } from 'Helpers/Props';
+import { setCustomFormatScores } from 'Store/Actions/settingsActions';
+import translate from 'Utilities/String/translate';
+import getCustomFormatScore, {
+  CustomFormatScore,
+} from './getCustomFormatScore';
+
+interface CopyCustomFormatScoresModalContentProps {
+  onModalClose(): void;
+}
+
+function CopyCustomFormatScoresModalContent(
+  props: CopyCustomFormatScoresModalContentProps
+) {
+  const { onModalClose } = props;
+
+  const customFormats = useSelector(
+    (state: AppState) => state.settings.customFormats.items
+  );
+
+  const qualityProfiles = useSelector(
+    (state: AppState) => state.settings.qualityProfiles.items
+  );
+
+  const pendingChanges = useSelector(
+    (state: AppState) => state.settings.customFormatScores.pendingChanges
+  );
+
+  const dispatch = useDispatch();
+  const [sourceId, setSourceId] = useState<number | null>(null);
+  const [qualityProfileIds, setQualityProfileIds] = useState<number[]>([]);
+
+  const sourceOptions = useMemo(() => {
+    return [
+      {
+        key: '',
+        value: translate('SelectQualityProfile'),
+        disabled: true,
+      },
+      ...qualityProfiles.map(({ id, name }) => ({ key: id, value: name })),
+    ];
+  }, [qualityProfiles]);
+
+  const destinationOptions = useMemo(() => {
+    return qualityProfiles
+      .filter(({ id }) => id !== sourceId)
+      .map(({ id, name }) => ({ key: id, value: name }));
+  }, [qualityProfiles, sourceId]);
+
+  const onSourceIdChange = useCallback(
+    ({ value }: { value: number }) => {
+      setSourceId(value);
+      setQualityProfileIds((ids) => ids.filter((id) => id !== value));
+    },
+    [setSourceId, setQualityProfileIds]
+  );
+
+  const onQualityProfileIdsChange = useCallback(
+    ({ value }: { value: number[] }) => {
+      setQualityProfileIds(value);
+    },
+    [setQualityProfileIds]
+  );
+
+  const onCopyPress = useCallback(() => {
+    const source = qualityProfiles.find(({ id }) => id === sourceId);
+
+    if (!source) {
+      return;
+    }
+
+    const scores = qualityProfileIds.reduce(
+      (acc: CustomFormatScore[], qualityProfileId) => {
+        customFormats.forEach(({ id: formatId }) => {
+          acc.push({
+            qualityProfileId,
+            formatId,
+            score: getCustomFormatScore(source, formatId, pendingChanges),
+          });
+        });
+
+        return acc;
+      },
+      []
+    );
+
+    dispatch(setCustomFormatScores({ scores }));
+    onModalClose();
+  }, [
+    customFormats,
+    qualityProfiles,
+    pendingChanges,
+    sourceId,
+    qualityProfileIds,
+    dispatch,
+    onModalClose,
+  ]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('CopyScores')}</ModalHeader>
+
+      <ModalBody>
+        <Form>
+          <FormGroup>
+            <FormLabel>{translate('Source')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.SELECT}
+              name="sourceId"
+              value={sourceId ?? ''}
+              values={sourceOptions}
+              helpText={translate('CopyScoresSourceHelpText')}
+              onChange={onSourceIdChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('QualityProfiles')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.SELECT}
+              name="qualityProfileIds"
+              value={qualityProfileIds}
+              values={destinationOptions}
+              helpText={translate('CopyScoresQualityProfilesHelpText')}
+              onChange={onQualityProfileIdsChange}
+            />
+          </FormGroup>
+        </Form>
+      </ModalBody>
+
+      <ModalFooter>
+        <Button onPress={onModalClose}>{translate('Cancel')}</Button>
+
+        <Button
+          kind={kinds.PRIMARY}
+          isDisabled={sourceId == null || !qualityProfileIds.length}
+          onPress={onCopyPress}
+        >
+          {translate('Copy')}
+        </Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default CopyCustomFormatScoresModalContent;
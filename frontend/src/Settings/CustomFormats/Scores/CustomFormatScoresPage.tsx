@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import PageContent from 'Components/Page/PageContent';
+import PageContentBody from 'Components/Page/PageContentBody';
+import PageSectionContent from 'Components/Page/PageSectionContent';
+import PageToolbarButton from 'Components/Page/Toolbar/PageToolbarButton';
+import PageToolbarSeparator from 'Components/Page/Toolbar/PageToolbarSeparator';
+import Table from 'Components/Table/Table';
+import TableBody from 'Components/Table/TableBody';
+import { icons, kinds } from 'Helpers/Props';
+import SettingsToolbarConnector from 'Settings/SettingsToolbarConnector';
+import {
+  clearCustomFormatScores,
+  fetchCustomFormats,
+  fetchQualityProfiles,
+  saveCustomFormatScores,
+  setCustomFormatScores,
+} from 'Store/Actions/settingsActions';
+import translate from 'Utilities/String/translate';
+import CopyCustomFormatScoresModal from './CopyCustomFormatScoresModal';
+import CustomFormatScoresRow from './CustomFormatScoresRow';
+import FillCustomFormatScoresModal from './FillCustomFormatScoresModal';
+import getCustomFormatScore from './getCustomFormatScore';
+import getInconsistentScores from './getInconsistentScores';
+
+function CustomFormatScoresPage() {
+  const customFormats = useSelector(
+    (state: AppState) => state.settings.customFormats
+  );
+
+  const qualityProfiles = useSelector(
+    (state: AppState) => state.settings.qualityProfiles
+  );
+
+  const { isSaving, saveError, pendingChanges } = useSelector(
+    (state: AppState) => state.settings.customFormatScores
+  );
+
+  const dispatch = useDispatch();
+  const [isFillModalOpen, setIsFillModalOpen] = useState(false);
+  const [isCopyModalOpen, setIsCopyModalOpen] = useState(false);
+
+  const isFetching = customFormats.isFetching || qualityProfiles.isFetching;
+  const isPopulated = customFormats.isPopulated && qualityProfiles.isPopulated;
+  const error = customFormats.error || qualityProfiles.error;
+
+  const columns = useMemo(() => {
+    return [
+      {
+        name: 'name',
+        label: () => translate('CustomFormat'),
+        isVisible: true,
+      },
+      ...qualityProfiles.items.map(({ id, name }) => ({
+        name: `${id}`,
+        label: name,
+        isVisible: true,
+      })),
+    ];
+  }, [qualityProfiles.items]);
+
+  const rows = useMemo(() => {
+    return customFormats.items.map(({ id, name }) => {
+      const scores = qualityProfiles.items.map((qualityProfile) => {
+        return getCustomFormatScore(qualityProfile, id, pendingChanges);
+      });
+
+      const inconsistentScores = getInconsistentScores(scores);
+
+      return {
+        formatId: id,
+        name,
+        cells: qualityProfiles.items.map((qualityProfile, index) => ({
+          qualityProfileId: qualityProfile.id,
+          score: scores[index],
+          isChanged: pendingChanges[qualityProfile.id]?.[id] != null,
+          isInconsistent: inconsistentScores[index],
+        })),
+      };
+    });
+  }, [customFormats.items, qualityProfiles.items, pendingChanges]);
+
+  const onScoreChange = useCallback(
+    (qualityProfileId: number, formatId: number, score: number) => {
+      dispatch(
+        setCustomFormatScores({
+          scores: [{ qualityProfileId, formatId, score }],
+        })
+      );
+    },
+    [dispatch]
+  );
+
+  const onSavePress = useCallback(() => {
+    dispatch(saveCustomFormatScores());
+  }, [dispatch]);
+
+  const onFillPress = useCallback(() => {
+    setIsFillModalOpen(true);
+  }, [setIsFillModalOpen]);
+
+  const onFillModalClose = useCallback(() => {
+    setIsFillModalOpen(false);
+  }, [setIsFillModalOpen]);
+
+  const onCopyPress = useCallback(() => {
+    setIsCopyModalOpen(true);
+  }, [setIsCopyModalOpen]);
+
+  const onCopyModalClose = useCallback(() => {
+    setIsCopyModalOpen(false);
+  }, [setIsCopyModalOpen]);
+
+  useEffect(() => {
+    dispatch(fetchCustomFormats());
+    dispatch(fetchQualityProfiles());
+
+    return () => {
+      dispatch(clearCustomFormatScores());
+    };
+  }, [dispatch]);
+
+  return (
+    <PageContent title={translate('CustomFormatScores')}>
+      <SettingsToolbarConnector
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore
+        isSaving={isSaving}
+        hasPendingChanges={!!Object.keys(pendingChanges).length}
+        additionalButtons={
+          <>
+            <PageToolbarSeparator />
+
+            <PageToolbarButton
+              label={translate('FillScores')}
+              iconName={icons.EDIT}
+              isDisabled={!isPopulated}
+              onPress={onFillPress}
+            />
+
+            <PageToolbarButton
+              label={translate('CopyScores')}
+              iconName={icons.CLONE}
+              isDisabled={!isPopulated}
+              onPress={onCopyPress}
+            />
+          </>
+        }
+        onSavePress={onSavePress}
+      />
+
+      <PageContentBody>
+        <PageSectionContent
+          isFetching={isFetching}
+          isPopulated={isPopulated}
+          error={error}
+          errorMessage={translate('CustomFormatScoresLoadError')}
+        >
+          <Alert kind={kinds.INFO}>
+            {translate('CustomFormatScoresHelpText')}
+          </Alert>
+
+          {saveError ? (
+            <Alert kind={kinds.DANGER}>
+              {translate('CustomFormatScoresSaveError')}
+            </Alert>
+          ) : null}
+
+          {rows.length ? (
+            <Table columns={columns} horizontalScroll={true}>
+              <TableBody>
+                {rows.map((row) => {
+                  return (
+                    <CustomFormatScoresRow
+                      key={row.formatId}
+                      {...row}
+                      onScoreChange={onScoreChange}
+                    />
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <Alert kind={kinds.INFO}>
+              {translate('CustomFormatScoresNoCustomFormats')}
+            </Alert>
+          )}
+        </PageSectionContent>
+      </PageContentBody>
+
+      <FillCustomFormatScoresModal
+        isOpen={isFillModalOpen}
+        onModalClose={onFillModalClose}
+      />
+
+      <CopyCustomFormatScoresModal
+        isOpen={isCopyModalOpen}
+        onModalClose={onCopyModalClose}
+      />
+    </PageContent>
+  );
+}
+
+export default CustomFormatScoresPage;
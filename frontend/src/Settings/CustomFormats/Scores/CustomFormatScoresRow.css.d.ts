@@ -0,0 +1,10 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'isChanged': string;
+  'name': string;
+  'score': string;
+  'scoreInput': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
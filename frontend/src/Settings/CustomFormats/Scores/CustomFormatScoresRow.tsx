@@ -0,0 +1,60 @@
+import classNames from 'classnames';
+import React, { useCallback } from 'react';
+import NumberInput from 'Components/Form/NumberInput';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import TableRow from 'Components/Table/TableRow';
+import styles from './CustomFormatScoresRow.css';
+
+export interface CustomFormatScoresCell {
+  qualityProfileId: number;
+  score: number;
+  isChanged: boolean;
+  isInconsistent: boolean;
+}
+
+interface CustomFormatScoresRowProps {
+  formatId: number;
+  name: string;
+  cells: CustomFormatScoresCell[];
+  onScoreChange(
+    qualityProfileId: number,
+    formatId: number,
+    score: number
+  ): void;
+}
+
+function CustomFormatScoresRow(props: CustomFormatScoresRowProps) {
+  const { formatId, name, cells, onScoreChange } = props;
+
+  const onChange = useCallback(
+    ({ name, value }: { name: string; value: number | null }) => {
+      onScoreChange(parseInt(name), formatId, value ?? 0);
+    },
+    [formatId, onScoreChange]
+  );
+
+  return (
+    <TableRow>
+      <TableRowCell className={styles.name}>{name}</TableRowCell>
+
+      {cells.map(({ qualityProfileId, score, isChanged, isInconsistent }) => {
+        return (
+          <TableRowCell key={qualityProfileId} className={styles.score}>
+            <NumberInput
+              className={classNames(
+                styles.scoreInput,
+                isChanged && styles.isChanged
+              )}
+              name={`${qualityProfileId}`}
+              value={score}
+              hasWarning={isInconsistent}
+              onChange={onChange}
+            />
+          </TableRowCell>
+        );
+      })}
+    </TableRow>
+  );
+}
+
+export default CustomFormatScoresRow;
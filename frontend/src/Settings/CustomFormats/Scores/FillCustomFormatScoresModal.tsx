@@ -0,0 +1,21 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import { sizes } from 'Helpers/Props';
+import FillCustomFormatScoresModalContent from './FillCustomFormatScoresModalContent';
+
+interface FillCustomFormatScoresModalProps {
+  isOpen: boolean;
+  onModalClose(): void;
+}
+
+function FillCustomFormatScoresModal(props: FillCustomFormatScoresModalProps) {
+  const { isOpen, onModalClose } = props;
+
+  return (
+    <Modal size={sizes.MEDIUM} isOpen={isOpen} onModalClose={onModalClose}>
+      <FillCustomFormatScoresModalContent onModalClose={onModalClose} />
+    </Modal>
+  );
+}
+
+export default FillCustomFormatScoresModal;
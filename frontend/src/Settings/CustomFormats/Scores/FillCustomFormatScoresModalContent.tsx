@@ -0,0 +1,144 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Form from 'Components/Form/Form';
+import FormGroup from 'Components/Form/FormGroup';
+import FormInputGroup from 'Components/Form/FormInputGroup';
+import FormLabel from 'Components/Form/FormLabel';
+import Button from 'Components/Link/Button';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { inputTypes, kinds } from 'Helpers/Props';
+import { setCustomFormatScores } from 'Store/Actions/settingsActions';
+import translate from 'Utilities/String/translate';
+import { CustomFormatScore } from './getCustomFormatScore';
+
+interface FillCustomFormatScoresModalContentProps {
+  onModalClose(): void;
+}
+
+function FillCustomFormatScoresModalContent(
+  props: FillCustomFormatScoresModalContentProps
+) {
+  const { onModalClose } = props;
+
+  const customFormats = useSelector(
+    (state: AppState) => state.settings.customFormats.items
+  );
+
+  const qualityProfiles = useSelector(
+    (state: AppState) => state.settings.qualityProfiles.items
+  );
+
+  const dispatch = useDispatch();
+  const [formatIds, setFormatIds] = useState<number[]>([]);
+  const [qualityProfileIds, setQualityProfileIds] = useState<number[]>([]);
+  const [score, setScore] = useState(0);
+
+  const customFormatOptions = useMemo(() => {
+    return customFormats.map(({ id, name }) => ({ key: id, value: name }));
+  }, [customFormats]);
+
+  const qualityProfileOptions = useMemo(() => {
+    return qualityProfiles.map(({ id, name }) => ({ key: id, value: name }));
+  }, [qualityProfiles]);
+
+  const onFormatIdsChange = useCallback(
+    ({ value }: { value: number[] }) => {
+      setFormatIds(value);
+    },
+    [setFormatIds]
+  );
+
+  const onQualityProfileIdsChange = useCallback(
+    ({ value }: { value: number[] }) => {
+      setQualityProfileIds(value);
+    },
+    [setQualityProfileIds]
+  );
+
+  const onScoreChange = useCallback(
+    ({ value }: { value: number | null }) => {
+      setScore(value ?? 0);
+    },
+    [setScore]
+  );
+
+  const onFillPress = useCallback(() => {
+    const scores = qualityProfileIds.reduce(
+      (acc: CustomFormatScore[], qualityProfileId) => {
+        formatIds.forEach((formatId) => {
+          acc.push({ qualityProfileId, formatId, score });
+        });
+
+        return acc;
+      },
+      []
+    );
+
+    dispatch(setCustomFormatScores({ scores }));
+    onModalClose();
+  }, [formatIds, qualityProfileIds, score, dispatch, onModalClose]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('FillScores')}</ModalHeader>
+
+      <ModalBody>
+        <Form>
+          <FormGroup>
+            <FormLabel>{translate('CustomFormats')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.SELECT}
+              name="formatIds"
+              value={formatIds}
+              values={customFormatOptions}
+              onChange={onFormatIdsChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('QualityProfiles')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.SELECT}
+              name="qualityProfileIds"
+              value={qualityProfileIds}
+              values={qualityProfileOptions}
+              onChange={onQualityProfileIdsChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('Score')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.NUMBER}
+              name="score"
+              value={score}
+              helpText={translate('FillScoresHelpText')}
+              onChange={onScoreChange}
+            />
+          </FormGroup>
+        </Form>
+      </ModalBody>
+
+      <ModalFooter>
+        <Button onPress={onModalClose}>{translate('Cancel')}</Button>
+
+        <Button
+          kind={kinds.PRIMARY}
+          isDisabled={!formatIds.length || !qualityProfileIds.length}
+          onPress={onFillPress}
+        >
+          {translate('Fill')}
+        </Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default FillCustomFormatScoresModalContent;
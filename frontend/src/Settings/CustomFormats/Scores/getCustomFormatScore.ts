@@ -0,0 +1,28 @@
+import QualityProfile from 'typings/QualityProfile';
+
+export interface CustomFormatScore {
+  qualityProfileId: number;
+  formatId: number;
+  score: number;
+}
+
+// Unsaved scores take precedence over the profile's saved score
+function getCustomFormatScore(
+  qualityProfile: QualityProfile,
+  formatId: number,
+  pendingChanges: Record<number, Record<number, number>>
+) {
+  const pendingScore = pendingChanges[qualityProfile.id]?.[formatId];
+
+  if (pendingScore != null) {
+    return pendingScore;
+  }
+
+  const formatItem = qualityProfile.formatItems.find(
+    (item) => item.format === formatId
+  );
+
+  return formatItem?.score ?? 0;
+}
+
+export default getCustomFormatScore;
@@ -0,0 +1,25 @@
+// A custom format is inconsistent when it's preferred by some profiles and
+// penalized by others, the scores with the less common sign are flagged. When
+// both are as common every non-zero score is flagged.
+function getInconsistentScores(scores: number[]) {
+  const positiveCount = scores.filter((score) => score > 0).length;
+  const negativeCount = scores.filter((score) => score < 0).length;
+
+  if (!positiveCount || !negativeCount) {
+    return scores.map(() => false);
+  }
+
+  return scores.map((score) => {
+    if (score > 0) {
+      return positiveCount <= negativeCount;
+    }
+
+    if (score < 0) {
+      return negativeCount <= positiveCount;
+    }
+
+    return false;
+  });
+}
+
+export default getInconsistentScores;
@@ -10,6 +10,7 @@ import translate from 'Utilities/String/translate';
 import DownloadClientsConnector from './DownloadClients/DownloadClientsConnector';
 import ManageDownloadClientsModal from './DownloadClients/Manage/ManageDownloadClientsModal';
 import DownloadClientOptionsConnector from './Options/DownloadClientOptionsConnector';
+import QueueJanitorRules from './QueueJanitor/QueueJanitorRules';
 import RemotePathMappingsConnector from './RemotePathMappings/RemotePathMappingsConnector';
 
 class DownloadClientSettings extends Component {
@@ -105,6 +106,8 @@ class DownloadClientSettings extends Component {
 
           <RemotePathMappingsConnector />
 
+          <QueueJanitorRules />
+
           <ManageDownloadClientsModal
             isOpen={isManageDownloadClientsOpen}
             onModalClose={this.onManageDownloadClientsModalClose}
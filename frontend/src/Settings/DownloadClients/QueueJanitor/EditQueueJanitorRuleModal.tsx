@@ -0,0 +1,26 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import { sizes } from 'Helpers/Props';
+import EditQueueJanitorRuleModalContent from './EditQueueJanitorRuleModalContent';
+
+interface EditQueueJanitorRuleModalProps {
+  isOpen: boolean;
+  id?: number;
+  onModalClose(): void;
+  onDeleteQueueJanitorRulePress?(): void;
+}
+
+function EditQueueJanitorRuleModal(props: EditQueueJanitorRuleModalProps) {
+  const { isOpen, onModalClose, ...otherProps } = props;
+
+  return (
+    <Modal size={sizes.MEDIUM} isOpen={isOpen} onModalClose={onModalClose}>
+      <EditQueueJanitorRuleModalContent
+        {...otherProps}
+        onModalClose={onModalClose}
+      />
+    </Modal>
+  );
+}
+
+export default EditQueueJanitorRuleModal;
@@ -0,0 +1,230 @@
+import React, { useCallback, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { isValidQueueJanitorPattern } from 'Activity/Queue/Janitor/getQueueJanitorMatches';
+import AppState from 'App/State/AppState';
+import Form from 'Components/Form/Form';
+import FormGroup from 'Components/Form/FormGroup';
+import FormInputGroup from 'Components/Form/FormInputGroup';
+import FormLabel from 'Components/Form/FormLabel';
+import Button from 'Components/Link/Button';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { inputTypes, kinds } from 'Helpers/Props';
+import { saveQueueJanitorRule } from 'Store/Actions/queueActions';
+import QueueJanitorRule from 'typings/QueueJanitorRule';
+import translate from 'Utilities/String/translate';
+import styles from './EditQueueJanitorRuleModalContent.css';
+
+type QueueJanitorRuleFields = Omit<QueueJanitorRule, 'id'>;
+
+const DEFAULT_RULE: QueueJanitorRuleFields = {
+  name: '',
+  enable: true,
+  trackedDownloadStatus: 'warning',
+  messagePattern: '',
+  minimumHours: 24,
+  removeFromClient: true,
+  blocklist: true,
+  searchAgain: true,
+};
+
+const STATUS_OPTIONS = [
+  {
+    key: 'warning',
+    get value() {
+      return translate('Warning');
+    },
+  },
+  {
+    key: 'error',
+    get value() {
+      return translate('Error');
+    },
+  },
+  {
+    key: 'any',
+    get value() {
+      return translate('WarningOrError');
+    },
+  },
+];
+
+interface EditQueueJanitorRuleModalContentProps {
+  id?: number;
+  onModalClose(): void;
+  onDeleteQueueJanitorRulePress?(): void;
+}
+
+function EditQueueJanitorRuleModalContent(
+  props: EditQueueJanitorRuleModalContentProps
+) {
+  const { id, onModalClose, onDeleteQueueJanitorRulePress } = props;
+
+  const existingRule = useSelector((state: AppState) =>
+    state.queue.janitor.rules.find((rule) => rule.id === id)
+  );
+
+  const dispatch = useDispatch();
+  const [rule, setRule] = useState<QueueJanitorRuleFields>(
+    existingRule ?? DEFAULT_RULE
+  );
+
+  const isValidPattern = isValidQueueJanitorPattern(rule.messagePattern);
+  const canSave = !!rule.name.trim() && isValidPattern;
+
+  const onInputChange = useCallback(
+    ({ name, value }: { name: string; value: unknown }) => {
+      setRule((currentRule) => ({ ...currentRule, [name]: value }));
+    },
+    [setRule]
+  );
+
+  const onSavePress = useCallback(() => {
+    dispatch(saveQueueJanitorRule({ ...rule, id }));
+    onModalClose();
+  }, [id, rule, dispatch, onModalClose]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>
+        {id
+          ? translate('EditQueueJanitorRule')
+          : translate('AddQueueJanitorRule')}
+      </ModalHeader>
+
+      <ModalBody>
+        <Form>
+          <FormGroup>
+            <FormLabel>{translate('Name')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.TEXT}
+              name="name"
+              value={rule.name}
+              onChange={onInputChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('Enable')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.CHECK}
+              name="enable"
+              value={rule.enable}
+              onChange={onInputChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('Status')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.SELECT}
+              name="trackedDownloadStatus"
+              value={rule.trackedDownloadStatus}
+              values={STATUS_OPTIONS}
+              helpText={translate('QueueJanitorStatusHelpText')}
+              onChange={onInputChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('Message')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.TEXT}
+              name="messagePattern"
+              value={rule.messagePattern}
+              helpText={translate('QueueJanitorMessageHelpText')}
+              errors={
+                isValidPattern
+                  ? []
+                  : [{ message: translate('InvalidRegularExpression') }]
+              }
+              onChange={onInputChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('MinimumAge')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.NUMBER}
+              name="minimumHours"
+              value={rule.minimumHours}
+              min={0}
+              unit={translate('Hours')}
+              helpText={translate('QueueJanitorMinimumHoursHelpText')}
+              onChange={onInputChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('RemoveFromDownloadClient')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.CHECK}
+              name="removeFromClient"
+              value={rule.removeFromClient}
+              helpTextWarning={translate(
+                'RemoveFromDownloadClientHelpTextWarning'
+              )}
+              onChange={onInputChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('BlocklistRelease')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.CHECK}
+              name="blocklist"
+              value={rule.blocklist}
+              helpText={translate('QueueJanitorBlocklistHelpText')}
+              onChange={onInputChange}
+            />
+          </FormGroup>
+
+          <FormGroup>
+            <FormLabel>{translate('SearchAgain')}</FormLabel>
+
+            <FormInputGroup
+              type={inputTypes.CHECK}
+              name="searchAgain"
+              value={rule.searchAgain}
+              helpText={translate('QueueJanitorSearchAgainHelpText')}
+              onChange={onInputChange}
+            />
+          </FormGroup>
+        </Form>
+      </ModalBody>
+
+      <ModalFooter>
+        {id ? (
+          <Button
+            className={styles.deleteButton}
+            kind={kinds.DANGER}
+            onPress={onDeleteQueueJanitorRulePress}
+          >
+            {translate('Delete')}
+          </Button>
+        ) : null}
+
+        <Button onPress={onModalClose}>{translate('Cancel')}</Button>
+
+        <Button
+          kind={kinds.PRIMARY}
+          isDisabled={!canSave}
+          onPress={onSavePress}
+        >
+          {translate('Save')}
+        </Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default EditQueueJanitorRuleModalContent;
@@ -0,0 +1,10 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'actions': string;
+  'condition': string;
+  'name': string;
+  'rule': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
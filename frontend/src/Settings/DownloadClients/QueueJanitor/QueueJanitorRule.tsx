@@ -0,0 +1,124 @@
+import React, { useCallback, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import Icon from 'Components/Icon';
+import Label from 'Components/Label';
+import Link from 'Components/Link/Link';
+import ConfirmModal from 'Components/Modal/ConfirmModal';
+import { icons, kinds } from 'Helpers/Props';
+import { deleteQueueJanitorRule } from 'Store/Actions/queueActions';
+import QueueJanitorRuleModel from 'typings/QueueJanitorRule';
+import translate from 'Utilities/String/translate';
+import EditQueueJanitorRuleModal from './EditQueueJanitorRuleModal';
+import styles from './QueueJanitorRule.css';
+
+export function getQueueJanitorRuleActions(rule: QueueJanitorRuleModel) {
+  const actions = [];
+
+  if (rule.removeFromClient) {
+    actions.push(translate('RemoveFromDownloadClient'));
+  }
+
+  if (rule.blocklist) {
+    actions.push(translate('Blocklist'));
+  }
+
+  if (rule.searchAgain) {
+    actions.push(translate('SearchAgain'));
+  }
+
+  return actions.length ? actions.join(', ') : translate('RemoveFromQueue');
+}
+
+export function getQueueJanitorRuleCondition(rule: QueueJanitorRuleModel) {
+  return translate('QueueJanitorRuleCondition', {
+    status:
+      rule.trackedDownloadStatus === 'any'
+        ? translate('WarningOrError')
+        : translate(
+            rule.trackedDownloadStatus === 'error' ? 'Error' : 'Warning'
+          ),
+    message: rule.messagePattern || '*',
+    hours: rule.minimumHours,
+  });
+}
+
+interface QueueJanitorRuleProps {
+  rule: QueueJanitorRuleModel;
+}
+
+function QueueJanitorRule(props: QueueJanitorRuleProps) {
+  const { rule } = props;
+
+  const dispatch = useDispatch();
+  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+
+  const onEditPress = useCallback(() => {
+    setIsEditModalOpen(true);
+  }, [setIsEditModalOpen]);
+
+  const onEditModalClose = useCallback(() => {
+    setIsEditModalOpen(false);
+  }, [setIsEditModalOpen]);
+
+  const onDeletePress = useCallback(() => {
+    setIsEditModalOpen(false);
+    setIsDeleteModalOpen(true);
+  }, [setIsEditModalOpen, setIsDeleteModalOpen]);
+
+  const onDeleteModalClose = useCallback(() => {
+    setIsDeleteModalOpen(false);
+  }, [setIsDeleteModalOpen]);
+
+  const onConfirmDelete = useCallback(() => {
+    dispatch(deleteQueueJanitorRule({ id: rule.id }));
+    setIsDeleteModalOpen(false);
+  }, [rule.id, dispatch, setIsDeleteModalOpen]);
+
+  return (
+    <div className={styles.rule}>
+      <div className={styles.name}>
+        {rule.name}
+
+        {rule.enable ? null : (
+          <Label kind={kinds.DISABLED} outline={true}>
+            {translate('Disabled')}
+          </Label>
+        )}
+      </div>
+
+      <div className={styles.condition}>
+        {getQueueJanitorRuleCondition(rule)}
+      </div>
+
+      <div className={styles.condition}>{getQueueJanitorRuleActions(rule)}</div>
+
+      <div className={styles.actions}>
+        <Link onPress={onEditPress}>
+          <Icon name={icons.EDIT} />
+        </Link>
+      </div>
+
+      <EditQueueJanitorRuleModal
+        id={rule.id}
+        isOpen={isEditModalOpen}
+        onModalClose={onEditModalClose}
+        onDeleteQueueJanitorRulePress={onDeletePress}
+      />
+
+      <ConfirmModal
+        isOpen={isDeleteModalOpen}
+        kind={kinds.DANGER}
+        title={translate('DeleteQueueJanitorRule')}
+        message={translate('DeleteQueueJanitorRuleMessageText', {
+          name: rule.name,
+        })}
+        confirmLabel={translate('Delete')}
+        onConfirm={onConfirmDelete}
+        onCancel={onDeleteModalClose}
+      />
+    </div>
+  );
+}
+
+export default QueueJanitorRule;
@@ -0,0 +1,12 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'addButton': string;
+  'addRule': string;
+  'condition': string;
+  'helpText': string;
+  'name': string;
+  'rulesHeader': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
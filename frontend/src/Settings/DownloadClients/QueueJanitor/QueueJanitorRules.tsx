@@ -0,0 +1,57 @@
+import React, { useCallback, useState } from 'react';
+import { useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import FieldSet from 'Components/FieldSet';
+import Icon from 'Components/Icon';
+import Link from 'Components/Link/Link';
+import { icons } from 'Helpers/Props';
+import translate from 'Utilities/String/translate';
+import EditQueueJanitorRuleModal from './EditQueueJanitorRuleModal';
+import QueueJanitorRule from './QueueJanitorRule';
+import styles from './QueueJanitorRules.css';
+
+function QueueJanitorRules() {
+  const rules = useSelector((state: AppState) => state.queue.janitor.rules);
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+
+  const onAddPress = useCallback(() => {
+    setIsAddModalOpen(true);
+  }, [setIsAddModalOpen]);
+
+  const onModalClose = useCallback(() => {
+    setIsAddModalOpen(false);
+  }, [setIsAddModalOpen]);
+
+  return (
+    <FieldSet legend={translate('QueueJanitorRules')}>
+      <div className={styles.helpText}>
+        {translate('QueueJanitorRulesHelpText')}
+      </div>
+
+      <div className={styles.rulesHeader}>
+        <div className={styles.name}>{translate('Name')}</div>
+        <div className={styles.condition}>{translate('Condition')}</div>
+        <div className={styles.condition}>{translate('Actions')}</div>
+      </div>
+
+      <div>
+        {rules.map((rule) => {
+          return <QueueJanitorRule key={rule.id} rule={rule} />;
+        })}
+      </div>
+
+      <div className={styles.addRule}>
+        <Link className={styles.addButton} onPress={onAddPress}>
+          <Icon name={icons.ADD} />
+        </Link>
+      </div>
+
+      <EditQueueJanitorRuleModal
+        isOpen={isAddModalOpen}
+        onModalClose={onModalClose}
+      />
+    </FieldSet>
+  );
+}
+
+export default QueueJanitorRules;
@@ -15,12 +15,27 @@ import ModalHeader from 'Components/Modal/ModalHeader';
 import { inputTypes, kinds, sizes } from 'Helpers/Props';
 import dimensions from 'Styles/Variables/dimensions';
 import translate from 'Utilities/String/translate';
+import QualityProfileChangesModal from './History/QualityProfileChangesModal';
+import QualityProfileHistoryModal from './History/QualityProfileHistoryModal';
 import QualityProfileFormatItems from './QualityProfileFormatItems';
 import QualityProfileItems from './QualityProfileItems';
+import QualityProfileSimulator from './Simulator/QualityProfileSimulator';
 import styles from './EditQualityProfileModalContent.css';
 
 const MODAL_BODY_PADDING = parseInt(dimensions.modalBodyPadding);
 
+function getQualityProfileValues(item) {
+  return {
+    name: item.name.value,
+    upgradeAllowed: item.upgradeAllowed.value,
+    cutoff: item.cutoff.value,
+    items: item.items.value,
+    minFormatScore: item.minFormatScore.value,
+    cutoffFormatScore: item.cutoffFormatScore.value,
+    formatItems: item.formatItems.value
+  };
+}
+
 function getCustomFormatRender(formatItems, otherProps) {
   return (
     <QualityProfileFormatItems
@@ -43,7 +58,9 @@ class EditQualityProfileModalContent extends Component {
     this.state = {
       headerHeight: 0,
       bodyHeight: 0,
-      footerHeight: 0
+      footerHeight: 0,
+      isChangesModalOpen: false,
+      isHistoryModalOpen: false
     };
   }
 
@@ -94,6 +111,32 @@ class EditQualityProfileModalContent extends Component {
     }
   };
 
+  onSavePress = () => {
+    // Changes to an existing profile are reviewed before they're saved
+    if (this.props.item.id) {
+      this.setState({ isChangesModalOpen: true });
+    } else {
+      this.props.onSavePress();
+    }
+  };
+
+  onChangesModalClose = () => {
+    this.setState({ isChangesModalOpen: false });
+  };
+
+  onHistoryPress = () => {
+    this.setState({ isHistoryModalOpen: true });
+  };
+
+  onHistoryModalClose = () => {
+    this.setState({ isHistoryModalOpen: false });
+  };
+
+  onRestoreSnapshotPress = (snapshot) => {
+    this.setState({ isHistoryModalOpen: false });
+    this.props.onRestoreSnapshot(snapshot);
+  };
+
   //
   // Render
 
@@ -111,11 +154,17 @@ class EditQualityProfileModalContent extends Component {
       onInputChange,
       onCutoffChange,
       onSavePress,
+      onRestoreSnapshot,
       onModalClose,
       onDeleteQualityProfilePress,
       ...otherProps
     } = this.props;
 
+    const {
+      isChangesModalOpen,
+      isHistoryModalOpen
+    } = this.state;
+
     const {
       id,
       name,
@@ -262,6 +311,15 @@ class EditQualityProfileModalContent extends Component {
                         {getCustomFormatRender(formatItems, otherProps)}
                       </div>
                     </div>
+
+                    <QualityProfileSimulator
+                      upgradeAllowed={upgradeAllowed.value}
+                      cutoff={cutoff.value}
+                      items={items.value}
+                      minFormatScore={minFormatScore.value}
+                      cutoffFormatScore={cutoffFormatScore.value}
+                      formatItems={formatItems.value}
+                    />
                   </Form>
 
               }
@@ -296,6 +354,16 @@ class EditQualityProfileModalContent extends Component {
                 null
             }
 
+            {
+              id ?
+                <Button
+                  onPress={this.onHistoryPress}
+                >
+                  {translate('History')}
+                </Button> :
+                null
+            }
+
             <Button
               onPress={onModalClose}
             >
@@ -305,12 +373,37 @@ class EditQualityProfileModalContent extends Component {
             <SpinnerErrorButton
               isSpinning={isSaving}
               error={saveError}
-              onPress={onSavePress}
+              onPress={this.onSavePress}
             >
               {translate('Save')}
             </SpinnerErrorButton>
           </ModalFooter>
         </Measure>
+
+        {
+          id ?
+            <QualityProfileChangesModal
+              isOpen={isChangesModalOpen}
+              id={id}
+              values={getQualityProfileValues(item)}
+              isSaving={isSaving}
+              saveError={saveError}
+              onSavePress={onSavePress}
+              onModalClose={this.onChangesModalClose}
+            /> :
+            null
+        }
+
+        {
+          id ?
+            <QualityProfileHistoryModal
+              isOpen={isHistoryModalOpen}
+              id={id}
+              onRestorePress={this.onRestoreSnapshotPress}
+              onModalClose={this.onHistoryModalClose}
+            /> :
+            null
+        }
       </ModalContent>
     );
   }
@@ -329,6 +422,7 @@ EditQualityProfileModalContent.propTypes = {
   onInputChange: PropTypes.func.isRequired,
   onCutoffChange: PropTypes.func.isRequired,
   onSavePress: PropTypes.func.isRequired,
+  onRestoreSnapshot: PropTypes.func.isRequired,
   onContentHeightChange: PropTypes.func.isRequired,
   onModalClose: PropTypes.func.isRequired,
   onDeleteQualityProfilePress: PropTypes.func
@@ -439,6 +439,34 @@ class EditQualityProfileModalContentConnector extends Component {
     });
   };
 
+  onRestoreSnapshot = (snapshot) => {
+    // Custom formats added since the snapshot was taken didn't have a score yet
+    const formatItems = this.props.item.formatItems.value.map((formatItem) => {
+      const snapshotItem = _.find(snapshot.formatItems, { format: formatItem.format });
+
+      return {
+        ...formatItem,
+        score: snapshotItem ? snapshotItem.score : 0
+      };
+    });
+
+    [
+      'name',
+      'upgradeAllowed',
+      'cutoff',
+      'items',
+      'minFormatScore',
+      'cutoffFormatScore'
+    ].forEach((name) => {
+      this.props.setQualityProfileValue({ name, value: _.cloneDeep(snapshot[name]) });
+    });
+
+    this.props.setQualityProfileValue({
+      name: 'formatItems',
+      value: formatItems
+    });
+  };
+
   onToggleEditGroupsMode = () => {
     this.setState({ editGroups: !this.state.editGroups });
   };
@@ -456,6 +484,7 @@ class EditQualityProfileModalContentConnector extends Component {
         {...this.state}
         {...this.props}
         onSavePress={this.onSavePress}
+        onRestoreSnapshot={this.onRestoreSnapshot}
         onInputChange={this.onInputChange}
         onCutoffChange={this.onCutoffChange}
         onCreateGroupPress={this.onCreateGroupPress}
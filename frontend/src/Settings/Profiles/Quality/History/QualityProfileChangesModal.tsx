@@ -0,0 +1,26 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import { sizes } from 'Helpers/Props';
+import QualityProfileChangesModalContent, {
+  QualityProfileChangesModalContentProps,
+} from './QualityProfileChangesModalContent';
+
+interface QualityProfileChangesModalProps
+  extends QualityProfileChangesModalContentProps {
+  isOpen: boolean;
+}
+
+function QualityProfileChangesModal(props: QualityProfileChangesModalProps) {
+  const { isOpen, onModalClose, ...otherProps } = props;
+
+  return (
+    <Modal size={sizes.LARGE} isOpen={isOpen} onModalClose={onModalClose}>
+      <QualityProfileChangesModalContent
+        {...otherProps}
+        onModalClose={onModalClose}
+      />
+    </Modal>
+  );
+}
+
+export default QualityProfileChangesModal;
@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { Error } from 'App/State/AppSectionState';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import Button from 'Components/Link/Button';
+import SpinnerErrorButton from 'Components/Link/SpinnerErrorButton';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { kinds } from 'Helpers/Props';
+import { QualityProfileValues } from 'typings/QualityProfile';
+import translate from 'Utilities/String/translate';
+import getQualityProfileDiff from './getQualityProfileDiff';
+import QualityProfileDiff from './QualityProfileDiff';
+
+export interface QualityProfileChangesModalContentProps {
+  id: number;
+  values: QualityProfileValues;
+  isSaving: boolean;
+  saveError?: Error;
+  onSavePress(): void;
+  onModalClose(): void;
+}
+
+function QualityProfileChangesModalContent(
+  props: QualityProfileChangesModalContentProps
+) {
+  const { id, values, isSaving, saveError, onSavePress, onModalClose } = props;
+
+  const savedProfile = useSelector((state: AppState) =>
+    state.settings.qualityProfiles.items.find((item) => item.id === id)
+  );
+
+  const changes = useMemo(() => {
+    return savedProfile ? getQualityProfileDiff(savedProfile, values) : [];
+  }, [savedProfile, values]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>{translate('ReviewChanges')}</ModalHeader>
+
+      <ModalBody>
+        <Alert kind={kinds.INFO}>
+          {translate('QualityProfileReviewChangesHelpText')}
+        </Alert>
+
+        <QualityProfileDiff changes={changes} />
+      </ModalBody>
+
+      <ModalFooter>
+        <Button onPress={onModalClose}>{translate('Cancel')}</Button>
+
+        <SpinnerErrorButton
+          isSpinning={isSaving}
+          error={saveError}
+          onPress={onSavePress}
+        >
+          {translate('Save')}
+        </SpinnerErrorButton>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default QualityProfileChangesModalContent;
@@ -0,0 +1,10 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'after': string;
+  'before': string;
+  'label': string;
+  'noChanges': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,64 @@
+import React from 'react';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import Table from 'Components/Table/Table';
+import TableBody from 'Components/Table/TableBody';
+import TableRow from 'Components/Table/TableRow';
+import translate from 'Utilities/String/translate';
+import { QualityProfileChange } from './getQualityProfileDiff';
+import styles from './QualityProfileDiff.css';
+
+const COLUMNS = [
+  {
+    name: 'label',
+    label: () => translate('Name'),
+    isVisible: true,
+  },
+  {
+    name: 'before',
+    label: () => translate('Before'),
+    isVisible: true,
+  },
+  {
+    name: 'after',
+    label: () => translate('After'),
+    isVisible: true,
+  },
+];
+
+interface QualityProfileDiffProps {
+  changes: QualityProfileChange[];
+}
+
+function QualityProfileDiff(props: QualityProfileDiffProps) {
+  const { changes } = props;
+
+  if (!changes.length) {
+    return <div className={styles.noChanges}>{translate('NoChanges')}</div>;
+  }
+
+  return (
+    <Table columns={COLUMNS}>
+      <TableBody>
+        {changes.map((change) => {
+          return (
+            <TableRow key={change.key}>
+              <TableRowCell className={styles.label}>
+                {change.label}
+              </TableRowCell>
+
+              <TableRowCell className={styles.before}>
+                {change.before}
+              </TableRowCell>
+
+              <TableRowCell className={styles.after}>
+                {change.after}
+              </TableRowCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default QualityProfileDiff;
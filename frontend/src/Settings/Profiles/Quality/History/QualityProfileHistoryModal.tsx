@@ -0,0 +1,26 @@
+import React from 'react';
+import Modal from 'Components/Modal/Modal';
+import { sizes } from 'Helpers/Props';
+import QualityProfileHistoryModalContent, {
+  QualityProfileHistoryModalContentProps,
+} from './QualityProfileHistoryModalContent';
+
+interface QualityProfileHistoryModalProps
+  extends QualityProfileHistoryModalContentProps {
+  isOpen: boolean;
+}
+
+function QualityProfileHistoryModal(props: QualityProfileHistoryModalProps) {
+  const { isOpen, onModalClose, ...otherProps } = props;
+
+  return (
+    <Modal size={sizes.LARGE} isOpen={isOpen} onModalClose={onModalClose}>
+      <QualityProfileHistoryModalContent
+        {...otherProps}
+        onModalClose={onModalClose}
+      />
+    </Modal>
+  );
+}
+
+export default QualityProfileHistoryModal;
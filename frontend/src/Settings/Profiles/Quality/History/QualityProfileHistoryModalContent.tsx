@@ -0,0 +1,91 @@
+import { isEqual } from 'lodash';
+import React, { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import Button from 'Components/Link/Button';
+import ModalBody from 'Components/Modal/ModalBody';
+import ModalContent from 'Components/Modal/ModalContent';
+import ModalFooter from 'Components/Modal/ModalFooter';
+import ModalHeader from 'Components/Modal/ModalHeader';
+import { kinds } from 'Helpers/Props';
+import { getQualityProfileValues } from 'Store/Actions/settingsActions';
+import { QualityProfileSnapshot as Snapshot } from 'typings/QualityProfile';
+import translate from 'Utilities/String/translate';
+import getQualityProfileDiff from './getQualityProfileDiff';
+import QualityProfileSnapshot from './QualityProfileSnapshot';
+
+export interface QualityProfileHistoryModalContentProps {
+  id: number;
+  onRestorePress(snapshot: Snapshot): void;
+  onModalClose(): void;
+}
+
+function QualityProfileHistoryModalContent(
+  props: QualityProfileHistoryModalContentProps
+) {
+  const { id, onRestorePress, onModalClose } = props;
+
+  const { items, history } = useSelector(
+    (state: AppState) => state.settings.qualityProfiles
+  );
+
+  const savedProfile = items.find((item) => item.id === id);
+
+  const snapshots = useMemo(() => {
+    const profileHistory = history[id] ?? [];
+    const savedValues = savedProfile
+      ? getQualityProfileValues(savedProfile)
+      : null;
+
+    return profileHistory.map((snapshot, index) => {
+      const previous = profileHistory[index + 1];
+
+      return {
+        snapshot,
+        changes: previous ? getQualityProfileDiff(previous, snapshot) : null,
+        isCurrent: isEqual(getQualityProfileValues(snapshot), savedValues),
+      };
+    });
+  }, [id, history, savedProfile]);
+
+  return (
+    <ModalContent onModalClose={onModalClose}>
+      <ModalHeader>
+        {translate('QualityProfileHistory', {
+          name: savedProfile?.name ?? '',
+        })}
+      </ModalHeader>
+
+      <ModalBody>
+        {snapshots.length ? (
+          <Alert kind={kinds.INFO}>
+            {translate('QualityProfileHistoryHelpText')}
+          </Alert>
+        ) : (
+          <Alert kind={kinds.INFO}>
+            {translate('QualityProfileHistoryEmpty')}
+          </Alert>
+        )}
+
+        {snapshots.map(({ snapshot, changes, isCurrent }) => {
+          return (
+            <QualityProfileSnapshot
+              key={snapshot.id}
+              snapshot={snapshot}
+              changes={changes}
+              isCurrent={isCurrent}
+              onRestorePress={onRestorePress}
+            />
+          );
+        })}
+      </ModalBody>
+
+      <ModalFooter>
+        <Button onPress={onModalClose}>{translate('Close')}</Button>
+      </ModalFooter>
+    </ModalContent>
+  );
+}
+
+export default QualityProfileHistoryModalContent;
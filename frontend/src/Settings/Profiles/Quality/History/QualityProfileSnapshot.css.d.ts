@@ -0,0 +1,11 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'header': string;
+  'helpText': string;
+  'restoreButton': string;
+  'snapshot': string;
+  'time': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
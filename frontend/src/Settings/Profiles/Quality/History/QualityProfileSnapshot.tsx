@@ -0,0 +1,68 @@
+import React, { useCallback } from 'react';
+import { useSelector } from 'react-redux';
+import Label from 'Components/Label';
+import Button from 'Components/Link/Button';
+import { kinds, sizes } from 'Helpers/Props';
+import createUISettingsSelector from 'Store/Selectors/createUISettingsSelector';
+import { QualityProfileSnapshot as Snapshot } from 'typings/QualityProfile';
+import formatDateTime from 'Utilities/Date/formatDateTime';
+import translate from 'Utilities/String/translate';
+import { QualityProfileChange } from './getQualityProfileDiff';
+import QualityProfileDiff from './QualityProfileDiff';
+import styles from './QualityProfileSnapshot.css';
+
+interface QualityProfileSnapshotProps {
+  snapshot: Snapshot;
+  changes: QualityProfileChange[] | null;
+  isCurrent: boolean;
+  onRestorePress(snapshot: Snapshot): void;
+}
+
+function QualityProfileSnapshot(props: QualityProfileSnapshotProps) {
+  const { snapshot, changes, isCurrent, onRestorePress } = props;
+
+  const { longDateFormat, timeFormat } = useSelector(
+    createUISettingsSelector()
+  );
+
+  const onRestoreButtonPress = useCallback(() => {
+    onRestorePress(snapshot);
+  }, [snapshot, onRestorePress]);
+
+  return (
+    <div className={styles.snapshot}>
+      <div className={styles.header}>
+        <div className={styles.time}>
+          {snapshot.time
+            ? formatDateTime(snapshot.time, longDateFormat, timeFormat, {
+                includeSeconds: true,
+              })
+            : translate('Original')}
+        </div>
+
+        {isCurrent ? (
+          <Label kind={kinds.SUCCESS}>{translate('Current')}</Label>
+        ) : null}
+
+        <Button
+          className={styles.restoreButton}
+          size={sizes.SMALL}
+          isDisabled={isCurrent}
+          onPress={onRestoreButtonPress}
+        >
+          {translate('Restore')}
+        </Button>
+      </div>
+
+      {changes ? (
+        <QualityProfileDiff changes={changes} />
+      ) : (
+        <div className={styles.helpText}>
+          {translate('QualityProfileHistoryFirstSnapshot')}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default QualityProfileSnapshot;
@@ -0,0 +1,189 @@
+import {
+  QualityProfileQualityItem,
+  QualityProfileValues,
+} from 'typings/QualityProfile';
+import translate from 'Utilities/String/translate';
+
+export type QualityProfileChangeType = 'profile' | 'quality' | 'format';
+
+export interface QualityProfileChange {
+  key: string;
+  type: QualityProfileChangeType;
+  label: string;
+  before: string;
+  after: string;
+}
+
+interface QualityState {
+  name: string;
+  description: string;
+}
+
+function getYesNo(value: boolean) {
+  return value ? translate('Yes') : translate('No');
+}
+
+function getItemName(item: QualityProfileQualityItem) {
+  return item.quality?.name ?? item.name ?? '';
+}
+
+function getCutoffName(profile: QualityProfileValues) {
+  const item = profile.items.find((i) => {
+    return (i.quality ? i.quality.id : i.id) === profile.cutoff;
+  });
+
+  return item ? getItemName(item) : '';
+}
+
+// Profile items are ordered from lowest to highest, but shown from highest
+// to lowest in the editor.
+function getOrder(profile: QualityProfileValues) {
+  return [...profile.items]
+    .reverse()
+    .filter((item) => item.allowed)
+    .map(getItemName)
+    .join(' > ');
+}
+
+function getQualityStates(profile: QualityProfileValues) {
+  return profile.items.reduce((acc: Record<number, QualityState>, item) => {
+    const allowed = item.allowed
+      ? translate('Allowed')
+      : translate('NotAllowed');
+
+    if (item.quality) {
+      acc[item.quality.id] = { name: item.quality.name, description: allowed };
+    }
+
+    item.items.forEach((groupItem) => {
+      if (groupItem.quality) {
+        acc[groupItem.quality.id] = {
+          name: groupItem.quality.name,
+          description: `${allowed} (${item.name})`,
+        };
+      }
+    });
+
+    return acc;
+  }, {});
+}
+
+function getFormatScores(profile: QualityProfileValues) {
+  return profile.formatItems.reduce(
+    (acc: Record<number, { name: string; score: number }>, formatItem) => {
+      acc[formatItem.format] = {
+        name: formatItem.name,
+        score: formatItem.score,
+      };
+
+      return acc;
+    },
+    {}
+  );
+}
+
+function getQualityProfileDiff(
+  before: QualityProfileValues,
+  after: QualityProfileValues
+): QualityProfileChange[] {
+  const changes: QualityProfileChange[] = [];
+
+  const addChange = (
+    key: string,
+    type: QualityProfileChangeType,
+    label: string,
+    beforeValue: string,
+    afterValue: string
+  ) => {
+    if (beforeValue !== afterValue) {
+      changes.push({
+        key,
+        type,
+        label,
+        before: beforeValue,
+        after: afterValue,
+      });
+    }
+  };
+
+  addChange('name', 'profile', translate('Name'), before.name, after.name);
+
+  addChange(
+    'upgradeAllowed',
+    'profile',
+    translate('UpgradesAllowed'),
+    getYesNo(before.upgradeAllowed),
+    getYesNo(after.upgradeAllowed)
+  );
+
+  addChange(
+    'cutoff',
+    'profile',
+    translate('UpgradeUntil'),
+    getCutoffName(before),
+    getCutoffName(after)
+  );
+
+  addChange(
+    'minFormatScore',
+    'profile',
+    translate('MinimumCustomFormatScore'),
+    String(before.minFormatScore),
+    String(after.minFormatScore)
+  );
+
+  addChange(
+    'cutoffFormatScore',
+    'profile',
+    translate('UpgradeUntilCustomFormatScore'),
+    String(before.cutoffFormatScore),
+    String(after.cutoffFormatScore)
+  );
+
+  addChange(
+    'order',
+    'quality',
+    translate('QualityOrder'),
+    getOrder(before),
+    getOrder(after)
+  );
+
+  const beforeQualities = getQualityStates(before);
+  const afterQualities = getQualityStates(after);
+
+  Object.keys(afterQualities).forEach((id) => {
+    const qualityId = parseInt(id);
+    const afterQuality = afterQualities[qualityId];
+
+    addChange(
+      `quality-${id}`,
+      'quality',
+      afterQuality.name,
+      beforeQualities[qualityId]?.description ?? '',
+      afterQuality.description
+    );
+  });
+
+  const beforeScores = getFormatScores(before);
+  const afterScores = getFormatScores(after);
+
+  const formatIds = Object.keys({ ...beforeScores, ...afterScores });
+
+  formatIds.forEach((id) => {
+    const formatId = parseInt(id);
+    const beforeScore = beforeScores[formatId];
+    const afterScore = afterScores[formatId];
+
+    addChange(
+      `format-${id}`,
+      'format',
+      afterScore?.name ?? beforeScore.name,
+      String(beforeScore?.score ?? 0),
+      String(afterScore?.score ?? 0)
+    );
+  });
+
+  return changes;
+}
+
+export default getQualityProfileDiff;
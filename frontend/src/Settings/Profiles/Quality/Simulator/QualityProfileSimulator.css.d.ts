@@ -0,0 +1,11 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'actions': string;
+  'helpText': string;
+  'input': string;
+  'samples': string;
+  'simulateButton': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,215 @@
+import { uniq } from 'lodash';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import AppState from 'App/State/AppState';
+import FieldSet from 'Components/FieldSet';
+import SelectInput from 'Components/Form/SelectInput';
+import TextArea from 'Components/Form/TextArea';
+import Button from 'Components/Link/Button';
+import SpinnerButton from 'Components/Link/SpinnerButton';
+import Table from 'Components/Table/Table';
+import TableBody from 'Components/Table/TableBody';
+import { kinds } from 'Helpers/Props';
+import { clearBatch, fetchBatch } from 'Store/Actions/parseActions';
+import translate from 'Utilities/String/translate';
+import getQualityProfileSimulation, {
+  SimulatedQualityProfile,
+} from './getQualityProfileSimulation';
+import QualityProfileSimulatorRow from './QualityProfileSimulatorRow';
+import sampleReleaseTitles from './sampleReleaseTitles';
+import styles from './QualityProfileSimulator.css';
+
+const COLUMNS = [
+  {
+    name: 'rank',
+    label: '#',
+    isVisible: true,
+  },
+  {
+    name: 'title',
+    label: () => translate('ReleaseTitle'),
+    isVisible: true,
+  },
+  {
+    name: 'quality',
+    label: () => translate('Quality'),
+    isVisible: true,
+  },
+  {
+    name: 'customFormats',
+    label: () => translate('CustomFormats'),
+    isVisible: true,
+  },
+  {
+    name: 'customFormatScore',
+    label: () => translate('CustomFormatScore'),
+    isVisible: true,
+  },
+  {
+    name: 'status',
+    label: () => translate('Status'),
+    isVisible: true,
+  },
+  {
+    name: 'qualityCutoff',
+    label: () => translate('QualityCutoff'),
+    isVisible: true,
+  },
+  {
+    name: 'formatCutoff',
+    label: () => translate('CustomFormatCutoff'),
+    isVisible: true,
+  },
+];
+
+type QualityProfileSimulatorProps = SimulatedQualityProfile;
+
+function QualityProfileSimulator(props: QualityProfileSimulatorProps) {
+  const {
+    upgradeAllowed,
+    cutoff,
+    items,
+    minFormatScore,
+    cutoffFormatScore,
+    formatItems,
+  } = props;
+
+  const { isFetching, items: parsedItems } = useSelector(
+    (state: AppState) => state.parse.batch
+  );
+
+  const dispatch = useDispatch();
+  const [sampleKey, setSampleKey] = useState('');
+  const [titles, setTitles] = useState('');
+
+  const sampleOptions = useMemo(() => {
+    return [
+      {
+        key: '',
+        value: translate('QualityProfileSimulatorSelectSamples'),
+        disabled: true,
+      },
+      ...sampleReleaseTitles.map(({ key, value }) => ({ key, value })),
+    ];
+  }, []);
+
+  const results = useMemo(() => {
+    return getQualityProfileSimulation(
+      {
+        upgradeAllowed,
+        cutoff,
+        items,
+        minFormatScore,
+        cutoffFormatScore,
+        formatItems,
+      },
+      parsedItems
+    );
+  }, [
+    upgradeAllowed,
+    cutoff,
+    items,
+    minFormatScore,
+    cutoffFormatScore,
+    formatItems,
+    parsedItems,
+  ]);
+
+  const onSampleChange = useCallback(
+    ({ value }: { value: string }) => {
+      const samples = sampleReleaseTitles.find((s) => s.key === value);
+
+      setSampleKey(value);
+      setTitles(samples ? samples.titles.join('\n') : '');
+    },
+    [setSampleKey, setTitles]
+  );
+
+  const onTitlesChange = useCallback(
+    ({ value }: { value: string }) => {
+      setTitles(value);
+    },
+    [setTitles]
+  );
+
+  const onSimulatePress = useCallback(() => {
+    const releaseTitles = uniq(
+      titles
+        .split(/\r?\n/)
+        .map((title) => title.trim())
+        .filter((title) => title !== '')
+    );
+
+    if (releaseTitles.length) {
+      dispatch(fetchBatch({ titles: releaseTitles }));
+    }
+  }, [titles, dispatch]);
+
+  const onClearPress = useCallback(() => {
+    setSampleKey('');
+    setTitles('');
+    dispatch(clearBatch());
+  }, [setSampleKey, setTitles, dispatch]);
+
+  useEffect(
+    () => {
+      return () => {
+        dispatch(clearBatch());
+      };
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+
+  return (
+    <FieldSet legend={translate('QualityProfileSimulator')}>
+      <div className={styles.helpText}>
+        {translate('QualityProfileSimulatorHelpText')}
+      </div>
+
+      <SelectInput
+        className={styles.samples}
+        name="samples"
+        value={sampleKey}
+        values={sampleOptions}
+        onChange={onSampleChange}
+      />
+
+      <TextArea
+        className={styles.input}
+        name="titles"
+        value={titles}
+        placeholder={translate('ParseBatchPlaceholder')}
+        onChange={onTitlesChange}
+      />
+
+      <div className={styles.actions}>
+        <Button onPress={onClearPress}>{translate('Clear')}</Button>
+
+        <SpinnerButton
+          className={styles.simulateButton}
+          kind={kinds.PRIMARY}
+          isSpinning={isFetching}
+          isDisabled={!titles.trim()}
+          onPress={onSimulatePress}
+        >
+          {translate('Simulate')}
+        </SpinnerButton>
+      </div>
+
+      {results.length ? (
+        <Table columns={COLUMNS} horizontalScroll={true}>
+          <TableBody>
+            {results.map((result) => {
+              return (
+                <QualityProfileSimulatorRow key={result.id} result={result} />
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : null}
+    </FieldSet>
+  );
+}
+
+export default QualityProfileSimulator;
@@ -0,0 +1,91 @@
+import React from 'react';
+import Icon from 'Components/Icon';
+import Label from 'Components/Label';
+import LoadingIndicator from 'Components/Loading/LoadingIndicator';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import TableRow from 'Components/Table/TableRow';
+import EpisodeFormats from 'Episode/EpisodeFormats';
+import { icons, kinds } from 'Helpers/Props';
+import formatCustomFormatScore from 'Utilities/Number/formatCustomFormatScore';
+import translate from 'Utilities/String/translate';
+import { QualityProfileSimulationResult } from './getQualityProfileSimulation';
+import styles from './QualityProfileSimulatorRow.css';
+
+interface QualityProfileSimulatorRowProps {
+  result: QualityProfileSimulationResult;
+}
+
+function getCutoffIcon(isCutoffMet: boolean) {
+  return (
+    <Icon
+      name={isCutoffMet ? icons.CHECK : icons.REMOVE}
+      kind={isCutoffMet ? kinds.SUCCESS : kinds.WARNING}
+      title={translate(isCutoffMet ? 'CutoffMet' : 'CutoffUnmet')}
+    />
+  );
+}
+
+function QualityProfileSimulatorRow(props: QualityProfileSimulatorRowProps) {
+  const {
+    title,
+    isFetching,
+    rank,
+    quality,
+    customFormats,
+    customFormatScore,
+    isAllowed,
+    rejections,
+    isQualityCutoffMet,
+    isFormatCutoffMet,
+  } = props.result;
+
+  return (
+    <TableRow>
+      <TableRowCell className={styles.rank}>{rank ?? '-'}</TableRowCell>
+
+      <TableRowCell className={styles.title} title={title}>
+        {title}
+      </TableRowCell>
+
+      {isFetching ? (
+        <TableRowCell colSpan={6}>
+          <LoadingIndicator className={styles.loading} size={20} />
+        </TableRowCell>
+      ) : (
+        <>
+          <TableRowCell>{quality?.quality.name ?? '-'}</TableRowCell>
+
+          <TableRowCell>
+            <EpisodeFormats formats={customFormats} />
+          </TableRowCell>
+
+          <TableRowCell>
+            {formatCustomFormatScore(customFormatScore, customFormats.length)}
+          </TableRowCell>
+
+          <TableRowCell>
+            <Label kind={isAllowed ? kinds.SUCCESS : kinds.DANGER}>
+              {translate(isAllowed ? 'Allowed' : 'Rejected')}
+            </Label>
+
+            {rejections.map((rejection) => {
+              return (
+                <div key={rejection} className={styles.rejection}>
+                  {rejection}
+                </div>
+              );
+            })}
+          </TableRowCell>
+
+          <TableRowCell>
+            {quality ? getCutoffIcon(isQualityCutoffMet) : null}
+          </TableRowCell>
+
+          <TableRowCell>{getCutoffIcon(isFormatCutoffMet)}</TableRowCell>
+        </>
+      )}
+    </TableRow>
+  );
+}
+
+export default QualityProfileSimulatorRow;
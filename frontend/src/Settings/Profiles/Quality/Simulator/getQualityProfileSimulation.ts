@@ -0,0 +1,152 @@
+import { ParseBatchItem } from 'App/State/ParseAppState';
+import { QualityModel } from 'Quality/Quality';
+import CustomFormat from 'typings/CustomFormat';
+import QualityProfile from 'typings/QualityProfile';
+import getErrorMessage from 'Utilities/Object/getErrorMessage';
+import getQualityProfileItemIndex, {
+  getQualityProfileCutoffIndex,
+  isQualityAllowed,
+} from 'Utilities/Quality/getQualityProfileItemIndex';
+import translate from 'Utilities/String/translate';
+
+export type SimulatedQualityProfile = Pick<
+  QualityProfile,
+  | 'upgradeAllowed'
+  | 'cutoff'
+  | 'items'
+  | 'minFormatScore'
+  | 'cutoffFormatScore'
+  | 'formatItems'
+>;
+
+export interface QualityProfileSimulationResult {
+  id: number;
+  title: string;
+  isFetching: boolean;
+  rank: number | null;
+  quality?: QualityModel;
+  qualityIndex: number;
+  customFormats: CustomFormat[];
+  customFormatScore: number;
+  isAllowed: boolean;
+  rejections: string[];
+  isQualityCutoffMet: boolean;
+  isFormatCutoffMet: boolean;
+}
+
+function getCutoffIndex(profile: SimulatedQualityProfile) {
+  const { upgradeAllowed, cutoff, items } = profile;
+
+  // Without upgrades the first allowed quality is the cutoff, the same as
+  // when the profile is evaluated while searching.
+  if (!upgradeAllowed) {
+    return items.findIndex((item) => item.allowed);
+  }
+
+  return getQualityProfileCutoffIndex(items, cutoff);
+}
+
+function getResult(
+  profile: SimulatedQualityProfile,
+  cutoffIndex: number,
+  item: ParseBatchItem
+): QualityProfileSimulationResult {
+  const { id, title, isFetching, error, parseResult } = item;
+  const quality = parseResult?.parsedEpisodeInfo?.quality;
+  const customFormats = parseResult?.customFormats ?? [];
+
+  const customFormatScore = customFormats.reduce((acc, customFormat) => {
+    const formatItem = profile.formatItems.find(
+      (f) => f.format === customFormat.id
+    );
+
+    return acc + (formatItem?.score ?? 0);
+  }, 0);
+
+  const rejections: string[] = [];
+
+  if (error) {
+    rejections.push(getErrorMessage(error, translate('ErrorParsingTitle')));
+  } else if (!quality) {
+    rejections.push(translate('UnableToParseTitle'));
+  } else if (!isQualityAllowed(profile.items, quality.quality.id)) {
+    rejections.push(translate('QualityProfileSimulatorQualityNotAllowed'));
+  }
+
+  if (customFormatScore < profile.minFormatScore) {
+    rejections.push(
+      translate('QualityProfileSimulatorBelowMinimumFormatScore', {
+        minFormatScore: profile.minFormatScore,
+      })
+    );
+  }
+
+  const qualityIndex = quality
+    ? getQualityProfileItemIndex(profile.items, quality.quality.id)
+    : -1;
+
+  return {
+    id,
+    title,
+    isFetching,
+    rank: null,
+    quality,
+    qualityIndex,
+    customFormats,
+    customFormatScore,
+    isAllowed: !isFetching && !rejections.length,
+    rejections: isFetching ? [] : rejections,
+    isQualityCutoffMet: qualityIndex > -1 && qualityIndex >= cutoffIndex,
+    isFormatCutoffMet: customFormatScore >= profile.cutoffFormatScore,
+  };
+}
+
+// Allowed releases come first, ordered by quality, revision and then custom
+// format score the same way releases are prioritized when grabbing.
+function compare(
+  a: QualityProfileSimulationResult,
+  b: QualityProfileSimulationResult
+) {
+  if (a.isAllowed !== b.isAllowed) {
+    return Number(b.isAllowed) - Number(a.isAllowed);
+  }
+
+  if (a.qualityIndex !== b.qualityIndex) {
+    return b.qualityIndex - a.qualityIndex;
+  }
+
+  if (a.quality && b.quality) {
+    const aRevision = a.quality.revision;
+    const bRevision = b.quality.revision;
+
+    if (aRevision.version !== bRevision.version) {
+      return bRevision.version - aRevision.version;
+    }
+
+    if (aRevision.real !== bRevision.real) {
+      return bRevision.real - aRevision.real;
+    }
+  }
+
+  return b.customFormatScore - a.customFormatScore;
+}
+
+function getQualityProfileSimulation(
+  profile: SimulatedQualityProfile,
+  items: ParseBatchItem[]
+): QualityProfileSimulationResult[] {
+  const cutoffIndex = getCutoffIndex(profile);
+  let rank = 0;
+
+  return items
+    .map((item) => getResult(profile, cutoffIndex, item))
+    .sort(compare)
+    .map((result) => {
+      return {
+        ...result,
+        rank: result.isAllowed ? ++rank : null,
+      };
+    });
+}
+
+export default getQualityProfileSimulation;
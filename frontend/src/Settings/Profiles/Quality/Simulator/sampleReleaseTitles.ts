@@ -0,0 +1,54 @@
+import translate from 'Utilities/String/translate';
+
+export interface SampleReleaseTitles {
+  key: string;
+  value: string;
+  titles: string[];
+}
+
+const sampleReleaseTitles: SampleReleaseTitles[] = [
+  {
+    key: 'standard',
+    get value() {
+      return translate('Standard');
+    },
+    titles: [
+      'Series.Title.S01E01.DVDRip.XviD-GROUP',
+      'Series.Title.S01E01.720p.HDTV.x264-GROUP',
+      'Series.Title.S01E01.1080p.WEBRip.x265-GROUP',
+      'Series.Title.S01E01.1080p.WEB-DL.DDP5.1.H.264-GROUP',
+      'Series.Title.S01E01.PROPER.1080p.WEB.h264-GROUP',
+      'Series.Title.S01E01.1080p.BluRay.x264-GROUP',
+      'Series.Title.S01E01.2160p.WEB-DL.DDP5.1.HDR.H.265-GROUP',
+      'Series.Title.S01E01.2160p.WEB-DL.DV.HDR.H.265-GROUP',
+      'Series.Title.S01E01.2160p.BluRay.REMUX.HEVC.DTS-HD.MA.5.1-GROUP',
+    ],
+  },
+  {
+    key: 'anime',
+    get value() {
+      return translate('Anime');
+    },
+    titles: [
+      '[Group] Series Title - 01 [480p]',
+      '[Group] Series Title - 01 [720p]',
+      '[Group] Series Title - 01v2 [1080p]',
+      '[Group] Series Title - 01 [WEB 1080p x265 10bit AAC]',
+      '[Group] Series Title - 01 (BD 1080p HEVC FLAC) [ABCD1234]',
+    ],
+  },
+  {
+    key: 'daily',
+    get value() {
+      return translate('Daily');
+    },
+    titles: [
+      'Series.Title.2024.01.15.480p.HDTV.x264-GROUP',
+      'Series.Title.2024.01.15.720p.HDTV.x264-GROUP',
+      'Series.Title.2024.01.15.720p.WEB.h264-GROUP',
+      'Series.Title.2024.01.15.1080p.WEB.h264-GROUP',
+    ],
+  },
+];
+
+export default sampleReleaseTitles;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { useSelector } from 'react-redux';
+import { StatisticsEpisodeFile } from 'App/State/StatisticsAppState';
+import RelativeDateCellConnector from 'Components/Table/Cells/RelativeDateCellConnector';
+import TableRowCell from 'Components/Table/Cells/TableRowCell';
+import TableRow from 'Components/Table/TableRow';
+import Series from 'Series/Series';
+import SeriesTitleLink from 'Series/SeriesTitleLink';
+import { createSeriesSelectorForHook } from 'Store/Selectors/createSeriesSelector';
+import formatBytes from 'Utilities/Number/formatBytes';
+import styles from './StatisticsEpisodeFileRow.css';
+
+interface StatisticsEpisodeFileRowProps {
+  episodeFile: StatisticsEpisodeFile;
+}
+
+function StatisticsEpisodeFileRow(props: StatisticsEpisodeFileRowProps) {
+  const {
+    seriesId,
+    relativePath,
+    quality,
+    videoCodec,
+    resolution,
+    size,
+    dateAdded,
+  } = props.episodeFile;
+
+  const series: Series | undefined = useSelector(
+    createSeriesSelectorForHook(seriesId)
+  );
+
+  return (
+    <TableRow>
+      <TableRowCell>
+        {series ? (
+          <SeriesTitleLink titleSlug={series.titleSlug} title={series.title} />
+        ) : null}
+      </TableRowCell>
+
+      <TableRowCell className={styles.relativePath}>
+        {relativePath}
+      </TableRowCell>
+
+      <TableRowCell>{quality}</TableRowCell>
+
+      <TableRowCell>{videoCodec}</TableRowCell>
+
+      <TableRowCell>{resolution}</TableRowCell>
+
+      <TableRowCell>{formatBytes(size)}</TableRowCell>
+
+      {
+        // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+        // @ts-ignore ts(2739)
+        <RelativeDateCellConnector date={dateAdded} />
+      }
+    </TableRow>
+  );
+}
+
+export default StatisticsEpisodeFileRow;
@@ -0,0 +1,225 @@
+import { sortBy } from 'lodash';
+import moment from 'moment';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useLocation } from 'react-router-dom';
+import { createSelector } from 'reselect';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import Link from 'Components/Link/Link';
+import LoadingIndicator from 'Components/Loading/LoadingIndicator';
+import PageContent from 'Components/Page/PageContent';
+import PageContentBody from 'Components/Page/PageContentBody';
+import Column from 'Components/Table/Column';
+import Table from 'Components/Table/Table';
+import TableBody from 'Components/Table/TableBody';
+import TablePager from 'Components/Table/TablePager';
+import { kinds } from 'Helpers/Props';
+import { fetchStatistics } from 'Store/Actions/statisticsActions';
+import getErrorMessage from 'Utilities/Object/getErrorMessage';
+import translate from 'Utilities/String/translate';
+import {
+  getStatisticsEpisodeFilesFilter,
+  getStatisticsEpisodeFileValue,
+  StatisticsEpisodeFilesFilter,
+} from './getStatisticsEpisodeFilesLink';
+import StatisticsEpisodeFileRow from './StatisticsEpisodeFileRow';
+
+const PAGE_SIZE = 50;
+
+const COLUMNS: Column[] = [
+  {
+    name: 'series',
+    label: () => translate('Series'),
+    isVisible: true,
+  },
+  {
+    name: 'relativePath',
+    label: () => translate('RelativePath'),
+    isVisible: true,
+  },
+  {
+    name: 'quality',
+    label: () => translate('Quality'),
+    isVisible: true,
+  },
+  {
+    name: 'videoCodec',
+    label: () => translate('VideoCodec'),
+    isVisible: true,
+  },
+  {
+    name: 'resolution',
+    label: () => translate('Resolution'),
+    isVisible: true,
+  },
+  {
+    name: 'size',
+    label: () => translate('Size'),
+    isVisible: true,
+  },
+  {
+    name: 'dateAdded',
+    label: () => translate('Added'),
+    isVisible: true,
+  },
+];
+
+function getFilterLabels({ key, value }: StatisticsEpisodeFilesFilter) {
+  switch (key) {
+    case 'quality':
+      return { name: translate('Quality'), value };
+    case 'videoCodec':
+      return {
+        name: translate('VideoCodec'),
+        value: value || translate('Unknown'),
+      };
+    case 'resolution':
+      return {
+        name: translate('Resolution'),
+        value: value || translate('Unknown'),
+      };
+    default:
+      return {
+        name: translate('Added'),
+        value: moment(value, 'YYYY-MM').format('MMMM YYYY'),
+      };
+  }
+}
+
+function createStatisticsEpisodeFilesSelector() {
+  return createSelector(
+    (state: AppState) => state.statistics,
+    (state: AppState) => state.series.isPopulated,
+    (state: AppState) => state.series.items,
+    (statistics, isSeriesPopulated, series) => {
+      return {
+        ...statistics,
+        isSeriesPopulated,
+        series,
+      };
+    }
+  );
+}
+
+function StatisticsEpisodeFiles() {
+  const {
+    isFetching,
+    isPopulated,
+    error,
+    episodeFiles,
+    isSeriesPopulated,
+    series,
+  } = useSelector(createStatisticsEpisodeFilesSelector());
+
+  const { search } = useLocation();
+  const [page, setPage] = useState(1);
+  const dispatch = useDispatch();
+
+  const filter = useMemo(
+    () => getStatisticsEpisodeFilesFilter(search),
+    [search]
+  );
+
+  const items = useMemo(() => {
+    const seriesTitles = new Map(series.map((s) => [s.id, s.sortTitle]));
+
+    const filtered = filter
+      ? episodeFiles.filter(
+          (f) => getStatisticsEpisodeFileValue(f, filter.key) === filter.value
+        )
+      : episodeFiles;
+
+    return sortBy(filtered, [
+      (f) => seriesTitles.get(f.seriesId),
+      (f) => f.relativePath,
+    ]);
+  }, [episodeFiles, series, filter]);
+
+  const totalPages = Math.max(Math.ceil(items.length / PAGE_SIZE), 1);
+  const pageItems = items.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+
+  const onFirstPagePress = useCallback(() => {
+    setPage(1);
+  }, []);
+
+  const onPreviousPagePress = useCallback(() => {
+    setPage((p) => Math.max(p - 1, 1));
+  }, []);
+
+  const onNextPagePress = useCallback(() => {
+    setPage((p) => Math.min(p + 1, totalPages));
+  }, [totalPages]);
+
+  const onLastPagePress = useCallback(() => {
+    setPage(totalPages);
+  }, [totalPages]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [filter]);
+
+  useEffect(() => {
+    if (isSeriesPopulated && !isPopulated && !isFetching) {
+      dispatch(fetchStatistics());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isSeriesPopulated, dispatch]);
+
+  const filterLabels = filter ? getFilterLabels(filter) : undefined;
+
+  return (
+    <PageContent title={translate('EpisodeFiles')}>
+      <PageContentBody>
+        {filterLabels ? (
+          <Alert kind={kinds.INFO}>
+            {translate('StatisticsEpisodeFilesFilter', filterLabels)}{' '}
+            <Link to="/statistics">{translate('BackToStatistics')}</Link>
+          </Alert>
+        ) : null}
+
+        {isFetching && !isPopulated ? <LoadingIndicator /> : null}
+
+        {!isFetching && !!error ? (
+          <Alert kind={kinds.DANGER}>
+            {translate('StatisticsLoadError')} {getErrorMessage(error)}
+          </Alert>
+        ) : null}
+
+        {isPopulated && !items.length ? (
+          <Alert kind={kinds.INFO}>{translate('NoEpisodeFilesFound')}</Alert>
+        ) : null}
+
+        {isPopulated && items.length ? (
+          <div>
+            <Table columns={COLUMNS} horizontalScroll={true}>
+              <TableBody>
+                {pageItems.map((episodeFile) => {
+                  return (
+                    <StatisticsEpisodeFileRow
+                      key={episodeFile.id}
+                      episodeFile={episodeFile}
+                    />
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            <TablePager
+              page={page}
+              totalPages={totalPages}
+              totalRecords={items.length}
+              onFirstPagePress={onFirstPagePress}
+              onPreviousPagePress={onPreviousPagePress}
+              onNextPagePress={onNextPagePress}
+              onLastPagePress={onLastPagePress}
+              onPageSelect={setPage}
+            />
+          </div>
+        ) : null}
+      </PageContentBody>
+    </PageContent>
+  );
+}
+
+export default StatisticsEpisodeFiles;
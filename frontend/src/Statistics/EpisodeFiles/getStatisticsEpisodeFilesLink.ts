@@ -0,0 +1,58 @@
+import moment from 'moment';
+import { StatisticsEpisodeFile } from 'App/State/StatisticsAppState';
+import getEpisodeFileResolution from 'Statistics/getEpisodeFileResolution';
+
+export type StatisticsEpisodeFilesFilterKey =
+  | 'quality'
+  | 'videoCodec'
+  | 'resolution'
+  | 'month';
+
+export interface StatisticsEpisodeFilesFilter {
+  key: StatisticsEpisodeFilesFilterKey;
+  value: string;
+}
+
+const FILTER_KEYS: StatisticsEpisodeFilesFilterKey[] = [
+  'quality',
+  'videoCodec',
+  'resolution',
+  'month',
+];
+
+export function getStatisticsEpisodeFileValue(
+  episodeFile: StatisticsEpisodeFile,
+  key: StatisticsEpisodeFilesFilterKey
+) {
+  switch (key) {
+    case 'resolution':
+      return getEpisodeFileResolution(episodeFile.resolution);
+    case 'month':
+      return moment(episodeFile.dateAdded).format('YYYY-MM');
+    default:
+      return episodeFile[key];
+  }
+}
+
+export function getStatisticsEpisodeFilesFilter(
+  search: string
+): StatisticsEpisodeFilesFilter | undefined {
+  const params = new URLSearchParams(search);
+  const key = FILTER_KEYS.find((k) => params.has(k));
+
+  return key ? { key, value: params.get(key) ?? '' } : undefined;
+}
+
+// An empty value matches episode files where the value is unknown
+function getStatisticsEpisodeFilesLink(
+  key: StatisticsEpisodeFilesFilterKey,
+  value: string
+) {
+  const params = new URLSearchParams();
+
+  params.set(key, value);
+
+  return `/statistics/episodefiles?${params.toString()}`;
+}
+
+export default getStatisticsEpisodeFilesLink;
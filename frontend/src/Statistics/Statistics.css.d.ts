@@ -0,0 +1,7 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'charts': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,170 @@
+import React, { useCallback, useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useHistory } from 'react-router-dom';
+import { createSelector } from 'reselect';
+import AppState from 'App/State/AppState';
+import Alert from 'Components/Alert';
+import LoadingIndicator from 'Components/Loading/LoadingIndicator';
+import PageContent from 'Components/Page/PageContent';
+import PageContentBody from 'Components/Page/PageContentBody';
+import PageToolbar from 'Components/Page/Toolbar/PageToolbar';
+import PageToolbarButton from 'Components/Page/Toolbar/PageToolbarButton';
+import PageToolbarSection from 'Components/Page/Toolbar/PageToolbarSection';
+import { icons, kinds } from 'Helpers/Props';
+import { setSeriesQuery } from 'Store/Actions/seriesIndexActions';
+import { fetchStatistics } from 'Store/Actions/statisticsActions';
+import createTagsSelector from 'Store/Selectors/createTagsSelector';
+import parseFilterQuery from 'Utilities/Filter/parseFilterQuery';
+import getErrorMessage from 'Utilities/Object/getErrorMessage';
+import translate from 'Utilities/String/translate';
+import createStatisticsChartsSelector from './createStatisticsChartsSelector';
+import StatisticsChart from './StatisticsChart';
+import styles from './Statistics.css';
+
+function createStatisticsSelector() {
+  return createSelector(
+    (state: AppState) => state.statistics,
+    (state: AppState) => state.series.isPopulated,
+    (state: AppState) => state.seriesIndex.filterBuilderProps,
+    (state: AppState) => state.settings.qualityProfiles.items,
+    createTagsSelector(),
+    (
+      statistics,
+      isSeriesPopulated,
+      filterBuilderProps,
+      qualityProfiles,
+      tags
+    ) => {
+      return {
+        ...statistics,
+        isSeriesPopulated,
+        filterBuilderProps,
+        qualityProfiles,
+        tags,
+      };
+    }
+  );
+}
+
+function Statistics() {
+  const {
+    isFetching,
+    isPopulated,
+    error,
+    isSeriesPopulated,
+    filterBuilderProps,
+    qualityProfiles,
+    tags,
+  } = useSelector(createStatisticsSelector());
+
+  const {
+    sizeByNetwork,
+    qualities,
+    codecs,
+    resolutions,
+    episodesAddedPerMonth,
+    releaseGroups,
+    cutoffUnmet,
+  } = useSelector(createStatisticsChartsSelector());
+
+  const dispatch = useDispatch();
+  const history = useHistory();
+
+  const onRefreshPress = useCallback(() => {
+    dispatch(fetchStatistics());
+  }, [dispatch]);
+
+  const onSeriesQueryPress = useCallback(
+    (query: string) => {
+      const { filters } = parseFilterQuery(query, filterBuilderProps, {
+        tags,
+        qualityProfiles,
+      });
+
+      dispatch(setSeriesQuery({ query, queryFilters: filters }));
+      history.push(`${window.Sonarr.urlBase}/`);
+    },
+    [filterBuilderProps, tags, qualityProfiles, history, dispatch]
+  );
+
+  useEffect(() => {
+    if (isSeriesPopulated && !isPopulated && !isFetching) {
+      dispatch(fetchStatistics());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isSeriesPopulated, dispatch]);
+
+  return (
+    <PageContent title={translate('Statistics')}>
+      <PageToolbar>
+        <PageToolbarSection>
+          <PageToolbarButton
+            label={translate('Refresh')}
+            iconName={icons.REFRESH}
+            isSpinning={isFetching}
+            isDisabled={!isSeriesPopulated}
+            onPress={onRefreshPress}
+          />
+        </PageToolbarSection>
+      </PageToolbar>
+
+      <PageContentBody>
+        {isFetching && !isPopulated ? <LoadingIndicator /> : null}
+
+        {!isFetching && !!error ? (
+          <Alert kind={kinds.DANGER}>
+            {translate('StatisticsLoadError')} {getErrorMessage(error)}
+          </Alert>
+        ) : null}
+
+        {isPopulated ? (
+          <div className={styles.charts}>
+            <StatisticsChart
+              title={translate('SizeByNetwork')}
+              items={sizeByNetwork}
+              onSeriesQueryPress={onSeriesQueryPress}
+            />
+
+            <StatisticsChart
+              title={translate('QualityDistribution')}
+              items={qualities}
+              onSeriesQueryPress={onSeriesQueryPress}
+            />
+
+            <StatisticsChart
+              title={translate('VideoCodecs')}
+              items={codecs}
+              onSeriesQueryPress={onSeriesQueryPress}
+            />
+
+            <StatisticsChart
+              title={translate('Resolutions')}
+              items={resolutions}
+              onSeriesQueryPress={onSeriesQueryPress}
+            />
+
+            <StatisticsChart
+              title={translate('EpisodesAddedPerMonth')}
+              items={episodesAddedPerMonth}
+              onSeriesQueryPress={onSeriesQueryPress}
+            />
+
+            <StatisticsChart
+              title={translate('TopReleaseGroups')}
+              items={releaseGroups}
+              onSeriesQueryPress={onSeriesQueryPress}
+            />
+
+            <StatisticsChart
+              title={translate('CutoffUnmetByQualityProfile')}
+              items={cutoffUnmet}
+              onSeriesQueryPress={onSeriesQueryPress}
+            />
+          </div>
+        ) : null}
+      </PageContentBody>
+    </PageContent>
+  );
+}
+
+export default Statistics;
@@ -0,0 +1,14 @@
+// This file is automatically generated.
+// Please do not change this file!
+interface CssExports {
+  'bar': string;
+  'barContainer': string;
+  'chart': string;
+  'label': string;
+  'noData': string;
+  'row': string;
+  'title': string;
+  'value': string;
+}
+export const cssExports: CssExports;
+export default cssExports;
@@ -0,0 +1,77 @@
+import React, { useCallback } from 'react';
+import Link from 'Components/Link/Link';
+import translate from 'Utilities/String/translate';
+import StatisticsChartItem from './StatisticsChartItem';
+import styles from './StatisticsChart.css';
+
+interface StatisticsChartRowProps {
+  item: StatisticsChartItem;
+  maxValue: number;
+  onSeriesQueryPress(query: string): void;
+}
+
+function StatisticsChartRow(props: StatisticsChartRowProps) {
+  const { item, maxValue, onSeriesQueryPress } = props;
+  const { label, value, formattedValue, seriesQuery, to } = item;
+
+  const onPress = useCallback(() => {
+    if (seriesQuery) {
+      onSeriesQueryPress(seriesQuery);
+    }
+  }, [seriesQuery, onSeriesQueryPress]);
+
+  const width = maxValue ? Math.max((value / maxValue) * 100, 0) : 0;
+
+  return (
+    <Link
+      className={styles.row}
+      to={to}
+      isDisabled={!to && !seriesQuery}
+      onPress={to ? undefined : onPress}
+    >
+      <div className={styles.label} title={label}>
+        {label}
+      </div>
+
+      <div className={styles.barContainer}>
+        <div className={styles.bar} style={{ width: `${width}%` }} />
+      </div>
+
+      <div className={styles.value}>{formattedValue}</div>
+    </Link>
+  );
+}
+
+interface StatisticsChartProps {
+  title: string;
+  items: StatisticsChartItem[];
+  onSeriesQueryPress(query: string): void;
+}
+
+function StatisticsChart(props: StatisticsChartProps) {
+  const { title, items, onSeriesQueryPress } = props;
+  const maxValue = Math.max(0, ...items.map((i) => i.value));
+
+  return (
+    <div className={styles.chart}>
+      <div className={styles.title}>{title}</div>
+
+      {items.length ? (
+        items.map((item) => {
+          return (
+            <StatisticsChartRow
+              key={item.key}
+              item={item}
+              maxValue={maxValue}
+              onSeriesQueryPress={onSeriesQueryPress}
+            />
+          );
+        })
+      ) : (
+        <div className={styles.noData}>{translate('NoData')}</div>
+      )}
+    </div>
+  );
+}
+
+export default StatisticsChart;
@@ -0,0 +1,12 @@
+interface StatisticsChartItem {
+  key: string;
+  label: string;
+  value: number;
+  formattedValue: string;
+
+  // A query for the Series Index or a link to another page
+  seriesQuery?: string;
+  to?: string;
+}
+
+export default StatisticsChartItem;
@@ -0,0 +1,148 @@
+import { groupBy, orderBy, sumBy } from 'lodash';
+import moment from 'moment';
+import { createSelector } from 'reselect';
+import AppState from 'App/State/AppState';
+import { StatisticsEpisodeFile } from 'App/State/StatisticsAppState';
+import formatBytes from 'Utilities/Number/formatBytes';
+import translate from 'Utilities/String/translate';
+import getStatisticsEpisodeFilesLink, {
+  getStatisticsEpisodeFileValue,
+  StatisticsEpisodeFilesFilterKey,
+} from './EpisodeFiles/getStatisticsEpisodeFilesLink';
+import StatisticsChartItem from './StatisticsChartItem';
+
+const MAXIMUM_CHART_ITEMS = 10;
+const UNKNOWN_KEY = 'unknown';
+
+function getQueryValue(value: string) {
+  return /[\s,]/.test(value) ? `"${value}"` : value;
+}
+
+function getEpisodeFileCountItems(
+  episodeFiles: StatisticsEpisodeFile[],
+  getKey: (episodeFile: StatisticsEpisodeFile) => string,
+  getLink: (value: string) => Pick<StatisticsChartItem, 'seriesQuery' | 'to'>
+): StatisticsChartItem[] {
+  const groups = groupBy(episodeFiles, (f) => getKey(f) || UNKNOWN_KEY);
+
+  const items = Object.keys(groups).map((key) => {
+    const files = groups[key];
+
+    return {
+      key,
+      label: key === UNKNOWN_KEY ? translate('Unknown') : key,
+      value: files.length,
+      formattedValue: `${files.length}`,
+      ...getLink(key === UNKNOWN_KEY ? '' : key),
+    };
+  });
+
+  return orderBy(items, ['value'], ['desc']).slice(0, MAXIMUM_CHART_ITEMS);
+}
+
+function getEpisodeFileFilterItems(
+  episodeFiles: StatisticsEpisodeFile[],
+  filterKey: StatisticsEpisodeFilesFilterKey
+) {
+  return getEpisodeFileCountItems(
+    episodeFiles,
+    (f) => getStatisticsEpisodeFileValue(f, filterKey),
+    (value) => {
+      return { to: getStatisticsEpisodeFilesLink(filterKey, value) };
+    }
+  );
+}
+
+function createStatisticsChartsSelector() {
+  return createSelector(
+    (state: AppState) => state.series.items,
+    (state: AppState) => state.settings.qualityProfiles.items,
+    (state: AppState) => state.statistics.episodeFiles,
+    (state: AppState) => state.statistics.cutoffUnmet,
+    (series, qualityProfiles, episodeFiles, cutoffUnmetCounts) => {
+      const networks = groupBy(
+        series.filter((s) => !!s.network),
+        (s) => s.network
+      );
+
+      const sizeByNetwork = orderBy(
+        Object.keys(networks).map((network) => {
+          const size = sumBy(
+            networks[network],
+            (s) => s.statistics?.sizeOnDisk ?? 0
+          );
+
+          return {
+            key: network,
+            label: network,
+            value: size,
+            formattedValue: formatBytes(size),
+            seriesQuery: `network=${getQueryValue(network)}`,
+          };
+        }),
+        ['value'],
+        ['desc']
+      ).slice(0, MAXIMUM_CHART_ITEMS);
+
+      const qualities = getEpisodeFileFilterItems(episodeFiles, 'quality');
+      const codecs = getEpisodeFileFilterItems(episodeFiles, 'videoCodec');
+      const resolutions = getEpisodeFileFilterItems(episodeFiles, 'resolution');
+
+      const releaseGroups = getEpisodeFileCountItems(
+        episodeFiles.filter((f) => !!f.releaseGroup),
+        (f) => f.releaseGroup,
+        (value) => {
+          return { seriesQuery: `releaseGroups:${getQueryValue(value)}` };
+        }
+      );
+
+      const filesByMonth = groupBy(episodeFiles, (f) =>
+        getStatisticsEpisodeFileValue(f, 'month')
+      );
+
+      const episodesAddedPerMonth = Array.from({ length: 12 }, (_, index) => {
+        const month = moment().subtract(11 - index, 'months');
+        const key = month.format('YYYY-MM');
+        const count = filesByMonth[key]?.length ?? 0;
+
+        return {
+          key,
+          label: month.format('MMM YYYY'),
+          value: count,
+          formattedValue: `${count}`,
+          to: getStatisticsEpisodeFilesLink('month', key),
+        };
+      });
+
+      const cutoffUnmet = orderBy(
+        qualityProfiles.map((profile) => {
+          const count =
+            cutoffUnmetCounts.find((c) => c.qualityProfileId === profile.id)
+              ?.count ?? 0;
+
+          return {
+            key: `${profile.id}`,
+            label: profile.name,
+            value: count,
+            formattedValue: `${count}`,
+            to: `/wanted/cutoffunmet?qualityProfileId=${profile.id}`,
+          };
+        }),
+        ['value'],
+        ['desc']
+      );
+
+      return {
+        sizeByNetwork,
+        qualities,
+        codecs,
+        resolutions,
+        episodesAddedPerMonth,
+        releaseGroups,
+        cutoffUnmet,
+      };
+    }
+  );
+}
+
+export default createStatisticsChartsSelector;
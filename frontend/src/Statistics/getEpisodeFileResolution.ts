@@ -0,0 +1,28 @@
+// Group an episode file's WIDTHxHEIGHT resolution into a common bucket,
+// unknown resolutions are returned as an empty string.
+function getEpisodeFileResolution(resolution: string) {
+  const match = resolution.match(/^(\d+)x(\d+)$/);
+
+  if (!match) {
+    return '';
+  }
+
+  const width = parseInt(match[1]);
+  const height = parseInt(match[2]);
+
+  if (width >= 3200 || height >= 2100) {
+    return '2160p';
+  }
+
+  if (width >= 1800 || height >= 1000) {
+    return '1080p';
+  }
+
+  if (width >= 1200 || height >= 700) {
+    return '720p';
+  }
+
+  return 'SD';
+}
+
+export default getEpisodeFileResolution;
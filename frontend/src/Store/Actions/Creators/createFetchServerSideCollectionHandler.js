@@ -2,6 +2,8 @@ import _ from 'lodash';
 import { batchActions } from 'redux-batched-actions';
 import createAjaxRequest from 'Utilities/createAjaxRequest';
 import findSelectedFilters from 'Utilities/Filter/findSelectedFilters';
+import isFilterGroup from 'Utilities/Filter/isFilterGroup';
+import serializeFilterConditions from 'Utilities/Filter/serializeFilterConditions';
 import getSectionState from 'Utilities/State/getSectionState';
 import { set, updateServerSideCollection } from '../baseActions';
 
@@ -30,10 +32,19 @@ function createFetchServerSideCollectionHandler(section, url, fetchDataAugmenter
     } = sectionState;
 
     const selectedFilters = findSelectedFilters(selectedFilterKey, filters, customFilters);
+    const selectedKeys = selectedFilters.map((filter) => filter.key);
 
-    selectedFilters.forEach((filter) => {
-      data[filter.key] = filter.value;
-    });
+    // Groups and filters that share a key can't be sent as query parameters
+    if (
+      selectedFilters.some(isFilterGroup) ||
+      _.uniq(selectedKeys).length !== selectedKeys.length
+    ) {
+      data.filters = JSON.stringify(serializeFilterConditions(selectedFilters));
+    } else {
+      selectedFilters.forEach((filter) => {
+        data[filter.key] = filter.value;
+      });
+    }
 
     const promise = createAjaxRequest({
       url,
@@ -74,6 +74,8 @@ function createSaveProviderHandler(section, url, options = {}) {
         saveError: xhr.aborted ? null : xhr
       }));
     });
+
+    return request;
   };
 }
 
@@ -0,0 +1,184 @@
+import _ from 'lodash';
+import { createAction } from 'redux-actions';
+import { batchActions } from 'redux-batched-actions';
+import { set, updateItem } from 'Store/Actions/baseActions';
+import { createThunk } from 'Store/thunks';
+import createAjaxRequest from 'Utilities/createAjaxRequest';
+import getSectionState from 'Utilities/State/getSectionState';
+import updateSectionState from 'Utilities/State/updateSectionState';
+import { addQualityProfileSnapshot } from './qualityProfiles';
+
+//
+// Variables
+
+const section = 'settings.customFormatScores';
+const qualityProfilesSection = 'settings.qualityProfiles';
+
+//
+// Actions Types
+
+export const SAVE_CUSTOM_FORMAT_SCORES = 'settings/customFormatScores/saveCustomFormatScores';
+export const SET_CUSTOM_FORMAT_SCORES = 'settings/customFormatScores/setCustomFormatScores';
+export const CLEAR_CUSTOM_FORMAT_SCORES = 'settings/customFormatScores/clearCustomFormatScores';
+
+//
+// Action Creators
+
+export const saveCustomFormatScores = createThunk(SAVE_CUSTOM_FORMAT_SCORES);
+
+export const setCustomFormatScores = createAction(SET_CUSTOM_FORMAT_SCORES);
+export const clearCustomFormatScores = createAction(CLEAR_CUSTOM_FORMAT_SCORES);
+
+//
+// Helpers
+
+function getQualityProfileWithScores(qualityProfile, scores) {
+  return {
+    ...qualityProfile,
+    formatItems: qualityProfile.formatItems.map((formatItem) => {
+      return formatItem.format in scores ?
+        { ...formatItem, score: scores[formatItem.format] } :
+        formatItem;
+    })
+  };
+}
+
+//
+// Details
+
+export default {
+
+  //
+  // State
+
+  defaultState: {
+    isSaving: false,
+    saveError: null,
+    pendingChanges: {}
+  },
+
+  //
+  // Action Handlers
+
+  actionHandlers: {
+    [SAVE_CUSTOM_FORMAT_SCORES]: function(getState, payload, dispatch) {
+      const {
+        customFormatScores,
+        qualityProfiles
+      } = getState().settings;
+
+      const updatedProfiles = Object.keys(customFormatScores.pendingChanges).reduce((acc, key) => {
+        const id = parseInt(key);
+        const qualityProfile = _.find(qualityProfiles.items, { id });
+
+        if (qualityProfile) {
+          acc.push({
+            previous: qualityProfile,
+            qualityProfile: getQualityProfileWithScores(qualityProfile, customFormatScores.pendingChanges[id])
+          });
+        }
+
+        return acc;
+      }, []);
+
+      // If there is nothing to save don't bother isSaving
+      if (!updatedProfiles.length) {
+        return;
+      }
+
+      dispatch(set({
+        section,
+        isSaving: true
+      }));
+
+      // Each profile is saved separately so it is validated the same way as
+      // when it's saved from the profile editor.
+      const promises = updatedProfiles.map(({ previous, qualityProfile }) => {
+        const promise = createAjaxRequest({
+          method: 'PUT',
+          url: `/qualityprofile/${qualityProfile.id}`,
+          data: JSON.stringify(qualityProfile),
+          contentType: 'application/json',
+          dataType: 'json'
+        }).request;
+
+        promise.done((data) => {
+          dispatch(batchActions([
+            updateItem({ section: qualityProfilesSection, ...data }),
+            clearCustomFormatScores({ qualityProfileId: data.id })
+          ]));
+
+          dispatch(addQualityProfileSnapshot({ previous, qualityProfile: data }));
+        });
+
+        return promise;
+      });
+
+      Promise.all(promises).then(
+        () => {
+          dispatch(set({
+            section,
+            isSaving: false,
+            saveError: null
+          }));
+        },
+        (xhr) => {
+          dispatch(set({
+            section,
+            isSaving: false,
+            saveError: xhr
+          }));
+        }
+      );
+    }
+  },
+
+  //
+  // Reducers
+
+  reducers: {
+    [SET_CUSTOM_FORMAT_SCORES]: function(state, { payload }) {
+      const newState = getSectionState(state, section);
+      const qualityProfiles = state.qualityProfiles.items;
+
+      newState.pendingChanges = _.cloneDeep(newState.pendingChanges);
+
+      payload.scores.forEach(({ qualityProfileId, formatId, score }) => {
+        const qualityProfile = _.find(qualityProfiles, { id: qualityProfileId });
+        const formatItem = qualityProfile && _.find(qualityProfile.formatItems, { format: formatId });
+
+        if (!formatItem) {
+          return;
+        }
+
+        const pendingState = newState.pendingChanges[qualityProfileId] || {};
+
+        if (formatItem.score === score) {
+          delete pendingState[formatId];
+        } else {
+          pendingState[formatId] = score;
+        }
+
+        if (_.isEmpty(pendingState)) {
+          delete newState.pendingChanges[qualityProfileId];
+        } else {
+          newState.pendingChanges[qualityProfileId] = pendingState;
+        }
+      });
+
+      return updateSectionState(state, section, newState);
+    },
+
+    [CLEAR_CUSTOM_FORMAT_SCORES]: function(state, { payload = {} }) {
+      const newState = getSectionState(state, section);
+      const { qualityProfileId } = payload;
+
+      newState.pendingChanges = qualityProfileId == null ?
+        {} :
+        _.omit(newState.pendingChanges, qualityProfileId);
+
+      return updateSectionState(state, section, newState);
+    }
+  }
+
+};
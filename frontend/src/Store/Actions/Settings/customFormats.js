@@ -1,12 +1,15 @@
+import _ from 'lodash';
 import { createAction } from 'redux-actions';
 import createFetchHandler from 'Store/Actions/Creators/createFetchHandler';
 import createRemoveItemHandler from 'Store/Actions/Creators/createRemoveItemHandler';
 import createSaveProviderHandler from 'Store/Actions/Creators/createSaveProviderHandler';
 import createSetSettingValueReducer from 'Store/Actions/Creators/Reducers/createSetSettingValueReducer';
 import { createThunk } from 'Store/thunks';
+import createAjaxRequest from 'Utilities/createAjaxRequest';
 import getSectionState from 'Utilities/State/getSectionState';
 import updateSectionState from 'Utilities/State/updateSectionState';
 import { set } from '../baseActions';
+import { addQualityProfileSnapshot, fetchQualityProfiles } from './qualityProfiles';
 
 //
 // Variables
@@ -21,6 +24,7 @@ export const SAVE_CUSTOM_FORMAT = 'settings/customFormats/saveCustomFormat';
 export const DELETE_CUSTOM_FORMAT = 'settings/customFormats/deleteCustomFormat';
 export const SET_CUSTOM_FORMAT_VALUE = 'settings/customFormats/setCustomFormatValue';
 export const CLONE_CUSTOM_FORMAT = 'settings/customFormats/cloneCustomFormat';
+export const IMPORT_CUSTOM_FORMATS = 'settings/customFormats/importCustomFormats';
 
 //
 // Action Creators
@@ -28,6 +32,7 @@ export const CLONE_CUSTOM_FORMAT = 'settings/customFormats/cloneCustomFormat';
 export const fetchCustomFormats = createThunk(FETCH_CUSTOM_FORMATS);
 export const saveCustomFormat = createThunk(SAVE_CUSTOM_FORMAT);
 export const deleteCustomFormat = createThunk(DELETE_CUSTOM_FORMAT);
+export const importCustomFormats = createThunk(IMPORT_CUSTOM_FORMATS);
 
 export const setCustomFormatValue = createAction(SET_CUSTOM_FORMAT_VALUE, (payload) => {
   return {
@@ -38,6 +43,82 @@ export const setCustomFormatValue = createAction(SET_CUSTOM_FORMAT_VALUE, (paylo
 
 export const cloneCustomFormat = createAction(CLONE_CUSTOM_FORMAT);
 
+//
+// Helpers
+
+function saveSequentially(items, getAjaxOptions, onSaved) {
+  return items.reduce((acc, item) => {
+    return acc.then(() => {
+      const promise = createAjaxRequest(getAjaxOptions(item)).request;
+
+      promise.done((data) => onSaved(item, data));
+
+      return promise;
+    });
+  }, Promise.resolve());
+}
+
+// Scores are matched to quality profiles and custom formats by name, since
+// IDs aren't the same between instances.
+function applyQualityProfileScores(bundleQualityProfiles, dispatch) {
+  const customFormatsRequest = createAjaxRequest({ url: '/customformat' }).request;
+  const qualityProfilesRequest = createAjaxRequest({ url: '/qualityprofile' }).request;
+
+  return Promise.all([customFormatsRequest, qualityProfilesRequest]).then(([customFormats, qualityProfiles]) => {
+    const formatIds = customFormats.reduce((acc, customFormat) => {
+      acc[customFormat.name.toLowerCase()] = customFormat.id;
+
+      return acc;
+    }, {});
+
+    const updatedProfiles = bundleQualityProfiles.reduce((acc, bundleQualityProfile) => {
+      const qualityProfile = qualityProfiles.find((p) => p.name.toLowerCase() === bundleQualityProfile.name.toLowerCase());
+
+      if (!qualityProfile) {
+        return acc;
+      }
+
+      const scores = Object.keys(bundleQualityProfile.scores).reduce((scoresAcc, name) => {
+        const formatId = formatIds[name.toLowerCase()];
+
+        if (formatId != null) {
+          scoresAcc[formatId] = bundleQualityProfile.scores[name];
+        }
+
+        return scoresAcc;
+      }, {});
+
+      const formatItems = qualityProfile.formatItems.map((formatItem) => {
+        return formatItem.format in scores ?
+          { ...formatItem, score: scores[formatItem.format] } :
+          formatItem;
+      });
+
+      if (!_.isEqual(formatItems, qualityProfile.formatItems)) {
+        acc.push({ previous: qualityProfile, qualityProfile: { ...qualityProfile, formatItems } });
+      }
+
+      return acc;
+    }, []);
+
+    return saveSequentially(
+      updatedProfiles,
+      ({ qualityProfile }) => {
+        return {
+          method: 'PUT',
+          url: `/qualityprofile/${qualityProfile.id}`,
+          data: JSON.stringify(qualityProfile),
+          contentType: 'application/json',
+          dataType: 'json'
+        };
+      },
+      ({ previous }, data) => {
+        dispatch(addQualityProfileSnapshot({ previous, qualityProfile: data }));
+      }
+    );
+  });
+}
+
 //
 // Details
 
@@ -59,6 +140,8 @@ export default {
     deleteError: null,
     isSaving: false,
     saveError: null,
+    isImporting: false,
+    importError: null,
     items: [],
     pendingChanges: {}
   },
@@ -82,6 +165,64 @@ export default {
       }));
 
       createSaveProviderHandler(section, '/customformat')(getState, payload, dispatch);
+    },
+
+    [IMPORT_CUSTOM_FORMATS]: function(getState, payload, dispatch) {
+      const {
+        customFormats,
+        qualityProfiles = []
+      } = payload;
+
+      dispatch(set({
+        section,
+        isImporting: true,
+        importError: null
+      }));
+
+      // New custom formats are added to every quality profile, so they're
+      // saved one at a time to prevent the profiles being updated at once.
+      const promise = saveSequentially(
+        customFormats,
+        (customFormat) => {
+          return {
+            method: customFormat.id ? 'PUT' : 'POST',
+            url: customFormat.id ? `/customformat/${customFormat.id}` : '/customformat',
+            data: JSON.stringify(customFormat),
+            contentType: 'application/json',
+            dataType: 'json'
+          };
+        },
+        _.noop
+      ).then(() => {
+        return qualityProfiles.length ?
+          applyQualityProfileScores(qualityProfiles, dispatch) :
+          null;
+      });
+
+      promise.then(
+        () => {
+          dispatch(set({
+            section,
+            isImporting: false,
+            importError: null
+          }));
+
+          // Don't use batchActions with thunks
+          dispatch(fetchCustomFormats());
+          dispatch(fetchQualityProfiles());
+        },
+        (xhr) => {
+          dispatch(set({
+            section,
+            isImporting: false,
+            importError: xhr
+          }));
+
+          // Some custom formats may have been saved before the error
+          dispatch(fetchCustomFormats());
+          dispatch(fetchQualityProfiles());
+        }
+      );
     }
   },
 
@@ -1,3 +1,4 @@
+import _ from 'lodash';
 import { createAction } from 'redux-actions';
 import createFetchHandler from 'Store/Actions/Creators/createFetchHandler';
 import createFetchSchemaHandler from 'Store/Actions/Creators/createFetchSchemaHandler';
@@ -13,6 +14,12 @@ import updateSectionState from 'Utilities/State/updateSectionState';
 
 const section = 'settings.qualityProfiles';
 
+// Snapshots are kept in local storage, so only the most recent are kept
+const MAXIMUM_HISTORY_COUNT = 10;
+
+const saveQualityProfileHandler = createSaveProviderHandler(section, '/qualityprofile');
+const deleteQualityProfileHandler = createRemoveItemHandler(section, '/qualityprofile');
+
 //
 // Actions Types
 
@@ -22,6 +29,8 @@ export const SAVE_QUALITY_PROFILE = 'settings/qualityProfiles/saveQualityProfile
 export const DELETE_QUALITY_PROFILE = 'settings/qualityProfiles/deleteQualityProfile';
 export const SET_QUALITY_PROFILE_VALUE = 'settings/qualityProfiles/setQualityProfileValue';
 export const CLONE_QUALITY_PROFILE = 'settings/qualityProfiles/cloneQualityProfile';
+export const ADD_QUALITY_PROFILE_SNAPSHOT = 'settings/qualityProfiles/addQualityProfileSnapshot';
+export const CLEAR_QUALITY_PROFILE_HISTORY = 'settings/qualityProfiles/clearQualityProfileHistory';
 
 //
 // Action Creators
@@ -39,6 +48,23 @@ export const setQualityProfileValue = createAction(SET_QUALITY_PROFILE_VALUE, (p
 });
 
 export const cloneQualityProfile = createAction(CLONE_QUALITY_PROFILE);
+export const addQualityProfileSnapshot = createAction(ADD_QUALITY_PROFILE_SNAPSHOT);
+export const clearQualityProfileHistory = createAction(CLEAR_QUALITY_PROFILE_HISTORY);
+
+//
+// Helpers
+
+export function getQualityProfileValues(qualityProfile) {
+  return _.pick(qualityProfile, [
+    'name',
+    'upgradeAllowed',
+    'cutoff',
+    'items',
+    'minFormatScore',
+    'cutoffFormatScore',
+    'formatItems'
+  ]);
+}
 
 //
 // Details
@@ -61,7 +87,8 @@ export default {
     isSaving: false,
     saveError: null,
     items: [],
-    pendingChanges: {}
+    pendingChanges: {},
+    history: {}
   },
 
   //
@@ -70,8 +97,20 @@ export default {
   actionHandlers: {
     [FETCH_QUALITY_PROFILES]: createFetchHandler(section, '/qualityprofile'),
     [FETCH_QUALITY_PROFILE_SCHEMA]: createFetchSchemaHandler(section, '/qualityprofile/schema'),
-    [SAVE_QUALITY_PROFILE]: createSaveProviderHandler(section, '/qualityprofile'),
-    [DELETE_QUALITY_PROFILE]: createRemoveItemHandler(section, '/qualityprofile')
+
+    [SAVE_QUALITY_PROFILE]: function(getState, payload, dispatch) {
+      const previous = getState().settings.qualityProfiles.items.find((i) => i.id === payload.id);
+
+      return saveQualityProfileHandler(getState, payload, dispatch).done((data) => {
+        dispatch(addQualityProfileSnapshot({ previous, qualityProfile: data }));
+      });
+    },
+
+    [DELETE_QUALITY_PROFILE]: function(getState, payload, dispatch) {
+      return deleteQualityProfileHandler(getState, payload, dispatch).done(() => {
+        dispatch(clearQualityProfileHistory({ id: payload.id }));
+      });
+    }
   },
 
   //
@@ -90,6 +129,53 @@ export default {
       pendingChanges.name = `${pendingChanges.name} - Copy`;
       newState.pendingChanges = pendingChanges;
 
+      return updateSectionState(state, section, newState);
+    },
+
+    [ADD_QUALITY_PROFILE_SNAPSHOT]: function(state, { payload }) {
+      const {
+        previous,
+        qualityProfile
+      } = payload;
+
+      const newState = getSectionState(state, section);
+      const id = qualityProfile.id;
+      const snapshots = newState.history[id] ? [...newState.history[id]] : [];
+      const values = getQualityProfileValues(qualityProfile);
+
+      // Keep the profile as it was before the first tracked save so it can
+      // be restored as well.
+      if (!snapshots.length && previous) {
+        snapshots.push({
+          ...getQualityProfileValues(previous),
+          id: 1,
+          time: null
+        });
+      }
+
+      if (snapshots.length && _.isEqual(getQualityProfileValues(snapshots[0]), values)) {
+        return state;
+      }
+
+      snapshots.unshift({
+        ...values,
+        id: Math.max(0, ...snapshots.map((snapshot) => snapshot.id)) + 1,
+        time: new Date().toISOString()
+      });
+
+      newState.history = {
+        ...newState.history,
+        [id]: snapshots.slice(0, MAXIMUM_HISTORY_COUNT)
+      };
+
+      return updateSectionState(state, section, newState);
+    },
+
+    [CLEAR_QUALITY_PROFILE_HISTORY]: function(state, { payload }) {
+      const newState = getSectionState(state, section);
+
+      newState.history = _.omit(newState.history, payload.id);
+
       return updateSectionState(state, section, newState);
     }
   }
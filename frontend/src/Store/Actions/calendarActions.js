@@ -3,6 +3,7 @@ import moment from 'moment';
 import { createAction } from 'redux-actions';
 import { batchActions } from 'redux-batched-actions';
 import * as calendarViews from 'Calendar/calendarViews';
+import * as timelineScales from 'Calendar/Timeline/timelineScales';
 import * as commandNames from 'Commands/commandNames';
 import { filterBuilderTypes, filterBuilderValueTypes, filterTypes } from 'Helpers/Props';
 import { createThunk, handleThunks } from 'Store/thunks';
@@ -26,6 +27,9 @@ const viewRanges = {
   [calendarViews.FORECAST]: 'day'
 };
 
+// Number of weeks shown when the timeline is zoomed in to the week scale
+const TIMELINE_WEEK_COUNT = 4;
+
 //
 // State
 
@@ -37,6 +41,7 @@ export const defaultState = {
   dates: [],
   dayCount: 7,
   view: window.innerWidth > 768 ? 'week' : 'day',
+  timelineScale: timelineScales.WEEK,
   error: null,
   items: [],
   searchMissingCommandId: null,
@@ -97,6 +102,7 @@ export const defaultState = {
 
 export const persistState = [
   'calendar.view',
+  'calendar.timelineScale',
   'calendar.selectedFilterKey',
   'calendar.options',
   'seriesIndex.customFilters'
@@ -109,6 +115,7 @@ export const FETCH_CALENDAR = 'calendar/fetchCalendar';
 export const SET_CALENDAR_DAYS_COUNT = 'calendar/setCalendarDaysCount';
 export const SET_CALENDAR_FILTER = 'calendar/setCalendarFilter';
 export const SET_CALENDAR_VIEW = 'calendar/setCalendarView';
+export const SET_CALENDAR_TIMELINE_SCALE = 'calendar/setCalendarTimelineScale';
 export const GOTO_CALENDAR_TODAY = 'calendar/gotoCalendarToday';
 export const GOTO_CALENDAR_NEXT_RANGE = 'calendar/gotoCalendarNextRange';
 export const CLEAR_CALENDAR = 'calendar/clearCalendar';
@@ -130,7 +137,7 @@ function getDays(start, end) {
   });
 }
 
-function getDates(time, view, firstDayOfWeek, dayCount) {
+function getDates(time, view, firstDayOfWeek, dayCount, timelineScale) {
   const weekName = firstDayOfWeek === 0 ? 'week' : 'isoWeek';
 
   let start = time.clone().startOf('day');
@@ -156,6 +163,14 @@ function getDates(time, view, firstDayOfWeek, dayCount) {
     end = time.clone().add(1, 'month').endOf('day');
   }
 
+  if (view === calendarViews.TIMELINE && timelineScale === timelineScales.QUARTER) {
+    start = time.clone().startOf('quarter').startOf(weekName);
+    end = time.clone().endOf('quarter').endOf(weekName);
+  } else if (view === calendarViews.TIMELINE) {
+    start = time.clone().startOf(weekName);
+    end = start.clone().add(TIMELINE_WEEK_COUNT - 1, 'weeks').endOf(weekName);
+  }
+
   return {
     start: start.toISOString(),
     end: end.toISOString(),
@@ -164,6 +179,20 @@ function getDates(time, view, firstDayOfWeek, dayCount) {
   };
 }
 
+function getRangeOffset(view, dayCount, timelineScale) {
+  if (view === calendarViews.FORECAST) {
+    return { amount: dayCount, unit: viewRanges[view] };
+  }
+
+  if (view === calendarViews.TIMELINE) {
+    return timelineScale === timelineScales.QUARTER ?
+      { amount: 1, unit: 'quarter' } :
+      { amount: TIMELINE_WEEK_COUNT, unit: 'week' };
+  }
+
+  return { amount: 1, unit: viewRanges[view] };
+}
+
 function getPopulatableRange(startDate, endDate, view) {
   switch (view) {
     case calendarViews.DAY:
@@ -222,6 +251,7 @@ export const fetchCalendar = createThunk(FETCH_CALENDAR);
 export const setCalendarDaysCount = createThunk(SET_CALENDAR_DAYS_COUNT);
 export const setCalendarFilter = createThunk(SET_CALENDAR_FILTER);
 export const setCalendarView = createThunk(SET_CALENDAR_VIEW);
+export const setCalendarTimelineScale = createThunk(SET_CALENDAR_TIMELINE_SCALE);
 export const gotoCalendarToday = createThunk(GOTO_CALENDAR_TODAY);
 export const gotoCalendarPreviousRange = createThunk(GOTO_CALENDAR_PREVIOUS_RANGE);
 export const gotoCalendarNextRange = createThunk(GOTO_CALENDAR_NEXT_RANGE);
@@ -244,8 +274,12 @@ export const actionHandlers = handleThunks({
       view = calendar.view
     } = payload;
 
-    const dayCount = state.calendar.dayCount;
-    const dates = getDates(moment(time), view, state.settings.ui.item.firstDayOfWeek, dayCount);
+    const {
+      dayCount,
+      timelineScale
+    } = state.calendar;
+
+    const dates = getDates(moment(time), view, state.settings.ui.item.firstDayOfWeek, dayCount, timelineScale);
     const { start, end } = getPopulatableRange(dates.start, dates.end, view);
     const isPrePopulated = isRangePopulated(start, end, state.calendar);
 
@@ -349,6 +383,22 @@ export const actionHandlers = handleThunks({
     dispatch(fetchCalendar({ time, view }));
   },
 
+  [SET_CALENDAR_TIMELINE_SCALE]: function(getState, payload, dispatch) {
+    if (payload.timelineScale === getState().calendar.timelineScale) {
+      return;
+    }
+
+    dispatch(set({
+      section,
+      timelineScale: payload.timelineScale
+    }));
+
+    const state = getState();
+    const { time, view } = state.calendar;
+
+    dispatch(fetchCalendar({ time, view }));
+  },
+
   [GOTO_CALENDAR_TODAY]: function(getState, payload, dispatch) {
     const state = getState();
     const view = state.calendar.view;
@@ -362,11 +412,12 @@ export const actionHandlers = handleThunks({
 
     const {
       view,
-      dayCount
+      dayCount,
+      timelineScale
     } = state.calendar;
 
-    const amount = view === calendarViews.FORECAST ? dayCount : 1;
-    const time = moment(state.calendar.time).subtract(amount, viewRanges[view]);
+    const { amount, unit } = getRangeOffset(view, dayCount, timelineScale);
+    const time = moment(state.calendar.time).subtract(amount, unit);
 
     dispatch(fetchCalendar({ time, view }));
   },
@@ -376,11 +427,12 @@ export const actionHandlers = handleThunks({
 
     const {
       view,
-      dayCount
+      dayCount,
+      timelineScale
     } = state.calendar;
 
-    const amount = view === calendarViews.FORECAST ? dayCount : 1;
-    const time = moment(state.calendar.time).add(amount, viewRanges[view]);
+    const { amount, unit } = getRangeOffset(view, dayCount, timelineScale);
+    const time = moment(state.calendar.time).add(amount, unit);
 
     dispatch(fetchCalendar({ time, view }));
   },
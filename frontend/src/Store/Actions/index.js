@@ -24,6 +24,7 @@ import * as series from './seriesActions';
 import * as seriesHistory from './seriesHistoryActions';
 import * as seriesIndex from './seriesIndexActions';
 import * as settings from './settingsActions';
+import * as statistics from './statisticsActions';
 import * as system from './systemActions';
 import * as tags from './tagActions';
 import * as wanted from './wantedActions';
@@ -55,6 +56,7 @@ export default [
   seriesHistory,
   seriesIndex,
   settings,
+  statistics,
   system,
   tags,
   wanted
@@ -1,3 +1,4 @@
+import _ from 'lodash';
 import moment from 'moment';
 import { createAction } from 'redux-actions';
 import { batchActions } from 'redux-batched-actions';
@@ -6,6 +7,7 @@ import { createThunk, handleThunks } from 'Store/thunks';
 import createAjaxRequest from 'Utilities/createAjaxRequest';
 import naturalExpansion from 'Utilities/String/naturalExpansion';
 import { set, update, updateItem } from './baseActions';
+import createFetchHandler from './Creators/createFetchHandler';
 import createHandleActions from './Creators/createHandleActions';
 import createSetClientSideCollectionSortReducer from './Creators/Reducers/createSetClientSideCollectionSortReducer';
 
@@ -13,6 +15,8 @@ import createSetClientSideCollectionSortReducer from './Creators/Reducers/create
 // Variables
 
 export const section = 'interactiveImport';
+const previewSection = 'interactiveImport.preview';
+const existingFilesSection = 'interactiveImport.existingFiles';
 
 let abortCurrentRequest = null;
 let currentIds = [];
@@ -26,12 +30,29 @@ export const defaultState = {
   isFetching: false,
   isPopulated: false,
   error: null,
+  isApplyingRule: false,
+  applyRuleError: null,
   items: [],
   originalItems: [],
   sortKey: 'quality',
   sortDirection: sortDirections.DESCENDING,
   recentFolders: [],
   importMode: 'chooseImportMode',
+
+  preview: {
+    isFetching: false,
+    isPopulated: false,
+    error: null,
+    items: []
+  },
+
+  existingFiles: {
+    isFetching: false,
+    isPopulated: false,
+    error: null,
+    items: []
+  },
+
   sortPredicates: {
     relativePath: function(item, direction) {
       const relativePath = item.relativePath;
@@ -67,6 +88,10 @@ export const persistState = [
 
 export const FETCH_INTERACTIVE_IMPORT_ITEMS = 'interactiveImport/fetchInteractiveImportItems';
 export const REPROCESS_INTERACTIVE_IMPORT_ITEMS = 'interactiveImport/reprocessInteractiveImportItems';
+export const APPLY_INTERACTIVE_IMPORT_RULE = 'interactiveImport/applyInteractiveImportRule';
+export const FETCH_INTERACTIVE_IMPORT_PREVIEW = 'interactiveImport/fetchInteractiveImportPreview';
+export const CLEAR_INTERACTIVE_IMPORT_PREVIEW = 'interactiveImport/clearInteractiveImportPreview';
+export const FETCH_INTERACTIVE_IMPORT_EXISTING_FILES = 'interactiveImport/fetchInteractiveImportExistingFiles';
 export const SET_INTERACTIVE_IMPORT_SORT = 'interactiveImport/setInteractiveImportSort';
 export const UPDATE_INTERACTIVE_IMPORT_ITEM = 'interactiveImport/updateInteractiveImportItem';
 export const UPDATE_INTERACTIVE_IMPORT_ITEMS = 'interactiveImport/updateInteractiveImportItems';
@@ -80,6 +105,10 @@ export const SET_INTERACTIVE_IMPORT_MODE = 'interactiveImport/setInteractiveImpo
 
 export const fetchInteractiveImportItems = createThunk(FETCH_INTERACTIVE_IMPORT_ITEMS);
 export const reprocessInteractiveImportItems = createThunk(REPROCESS_INTERACTIVE_IMPORT_ITEMS);
+export const applyInteractiveImportRule = createThunk(APPLY_INTERACTIVE_IMPORT_RULE);
+export const fetchInteractiveImportPreview = createThunk(FETCH_INTERACTIVE_IMPORT_PREVIEW);
+export const clearInteractiveImportPreview = createAction(CLEAR_INTERACTIVE_IMPORT_PREVIEW);
+export const fetchInteractiveImportExistingFiles = createThunk(FETCH_INTERACTIVE_IMPORT_EXISTING_FILES);
 export const setInteractiveImportSort = createAction(SET_INTERACTIVE_IMPORT_SORT);
 export const updateInteractiveImportItem = createAction(UPDATE_INTERACTIVE_IMPORT_ITEM);
 export const updateInteractiveImportItems = createAction(UPDATE_INTERACTIVE_IMPORT_ITEMS);
@@ -201,6 +230,134 @@ export const actionHandlers = handleThunks({
         }))
       ));
     });
+  },
+
+  [APPLY_INTERACTIVE_IMPORT_RULE]: function(getState, payload, dispatch) {
+    const matches = payload.matches;
+    const items = getState()[section].items;
+    const ids = matches.map(({ id }) => id);
+
+    const getSeries = (match) => {
+      return match.changes.series || items.find((i) => i.id === match.id).series;
+    };
+
+    // Episodes are only known by number until they're looked up for the series
+    const seriesIds = matches.reduce((acc, match) => {
+      const series = getSeries(match);
+
+      if (match.changes.episodeNumbers && series && !acc.includes(series.id)) {
+        acc.push(series.id);
+      }
+
+      return acc;
+    }, []);
+
+    dispatch(set({ section, isApplyingRule: true }));
+
+    const promises = seriesIds.map((seriesId) => {
+      return createAjaxRequest({
+        url: '/episode',
+        data: { seriesId }
+      }).request;
+    });
+
+    Promise.all(promises).then(
+      (responses) => {
+        const episodes = _.flatten(responses);
+
+        dispatch(batchActions([
+          ...matches.map((match) => {
+            const item = items.find((i) => i.id === match.id);
+            const { episodeNumbers, ...otherChanges } = match.changes;
+            const changes = { ...otherChanges };
+
+            if (changes.series) {
+              changes.seasonNumber = changes.seasonNumber ?? undefined;
+              changes.episodes = [];
+            } else if (changes.seasonNumber != null) {
+              changes.episodes = [];
+            }
+
+            if (episodeNumbers) {
+              const series = getSeries(match);
+              const seasonNumber = changes.seasonNumber ?? item.seasonNumber;
+
+              changes.episodes = series ?
+                episodes.filter((e) => {
+                  return (
+                    e.seriesId === series.id &&
+                    e.seasonNumber === seasonNumber &&
+                    episodeNumbers.includes(e.episodeNumber)
+                  );
+                }) :
+                [];
+            }
+
+            return updateInteractiveImportItem({ id: match.id, ...changes });
+          }),
+
+          set({
+            section,
+            isApplyingRule: false,
+            applyRuleError: null
+          })
+        ]));
+
+        dispatch(reprocessInteractiveImportItems({ ids }));
+      },
+      (xhr) => {
+        dispatch(set({
+          section,
+          isApplyingRule: false,
+          applyRuleError: xhr
+        }));
+      }
+    );
+  },
+
+  [FETCH_INTERACTIVE_IMPORT_EXISTING_FILES]: createFetchHandler(existingFilesSection, '/episodeFile'),
+
+  [FETCH_INTERACTIVE_IMPORT_PREVIEW]: function(getState, payload, dispatch) {
+    dispatch(set({ section: previewSection, isFetching: true }));
+
+    const requestPayload = payload.files.map((file) => {
+      return {
+        path: file.path,
+        seriesId: file.seriesId,
+        episodeIds: file.episodeIds,
+        quality: file.quality,
+        languages: file.languages,
+        releaseGroup: file.releaseGroup,
+        downloadId: file.downloadId,
+        folderName: file.folderName
+      };
+    });
+
+    const promise = createAjaxRequest({
+      method: 'POST',
+      url: '/manualimport/preview',
+      contentType: 'application/json',
+      data: JSON.stringify(requestPayload)
+    }).request;
+
+    promise.done((data) => {
+      dispatch(set({
+        section: previewSection,
+        isFetching: false,
+        isPopulated: true,
+        error: null,
+        items: data
+      }));
+    });
+
+    promise.fail((xhr) => {
+      dispatch(set({
+        section: previewSection,
+        isFetching: false,
+        isPopulated: false,
+        error: xhr
+      }));
+    });
   }
 });
 
@@ -276,6 +433,13 @@ export const reducers = createHandleActions({
     return newState;
   },
 
+  [CLEAR_INTERACTIVE_IMPORT_PREVIEW]: function(state) {
+    return {
+      ...state,
+      preview: defaultState.preview
+    };
+  },
+
   [SET_INTERACTIVE_IMPORT_SORT]: createSetClientSideCollectionSortReducer(section),
 
   [SET_INTERACTIVE_IMPORT_MODE]: function(state, { payload }) {
@@ -2,31 +2,107 @@ import { Dispatch } from 'redux';
 import { createAction } from 'redux-actions';
 import { batchActions } from 'redux-batched-actions';
 import AppState from 'App/State/AppState';
+import { ParseBatchItem } from 'App/State/ParseAppState';
+import { sortDirections } from 'Helpers/Props';
 import { createThunk, handleThunks } from 'Store/thunks';
 import createAjaxRequest from 'Utilities/createAjaxRequest';
-import { set, update } from './baseActions';
+import { set, update, updateItem } from './baseActions';
+import createFetchHandler from './Creators/createFetchHandler';
 import createHandleActions from './Creators/createHandleActions';
 import createClearReducer from './Creators/Reducers/createClearReducer';
+import createSetClientSideCollectionSortReducer from './Creators/Reducers/createSetClientSideCollectionSortReducer';
 
 interface FetchPayload {
   title: string;
+  seriesId?: number;
+}
+
+interface FetchBatchPayload {
+  titles: string[];
 }
 
 //
 // Variables
 
 export const section = 'parse';
+const batchSection = 'parse.batch';
+const episodeFilesSection = 'parse.episodeFiles';
+const MAXIMUM_CONCURRENT_BATCH_REQUESTS = 4;
+
 let parseTimeout: number | null = null;
 let abortCurrentRequest: (() => void) | null = null;
+let currentBatchId = 0;
+let abortBatchRequests: (() => void)[] = [];
 
 //
 // State
 
+const episodeFilesDefaultState = {
+  isFetching: false,
+  isPopulated: false,
+  error: null,
+  items: [],
+};
+
 export const defaultState = {
   isFetching: false,
   isPopulated: false,
   error: null,
   item: {},
+
+  episodeFiles: episodeFilesDefaultState,
+
+  batch: {
+    isFetching: false,
+    isPopulated: false,
+    error: null,
+    items: [],
+    sortKey: 'title',
+    sortDirection: sortDirections.ASCENDING,
+    sortPredicates: {
+      series: function (item: ParseBatchItem) {
+        return item.parseResult?.series?.sortTitle ?? '';
+      },
+
+      seasonNumber: function (item: ParseBatchItem) {
+        return item.parseResult?.parsedEpisodeInfo?.seasonNumber ?? -1;
+      },
+
+      episodeNumbers: function (item: ParseBatchItem) {
+        const parsedEpisodeInfo = item.parseResult?.parsedEpisodeInfo;
+
+        if (!parsedEpisodeInfo) {
+          return -1;
+        }
+
+        return (
+          parsedEpisodeInfo.episodeNumbers[0] ??
+          parsedEpisodeInfo.absoluteEpisodeNumbers[0] ??
+          -1
+        );
+      },
+
+      quality: function (item: ParseBatchItem) {
+        return item.parseResult?.parsedEpisodeInfo?.quality.quality.name ?? '';
+      },
+
+      languages: function (item: ParseBatchItem) {
+        const parseResult = item.parseResult;
+        const languages =
+          parseResult?.languages ?? parseResult?.parsedEpisodeInfo?.languages;
+
+        return languages?.map((l) => l.name).join(', ') ?? '';
+      },
+
+      releaseGroup: function (item: ParseBatchItem) {
+        return item.parseResult?.parsedEpisodeInfo?.releaseGroup ?? '';
+      },
+
+      customFormatScore: function (item: ParseBatchItem) {
+        return item.parseResult?.customFormatScore ?? 0;
+      },
+    },
+  },
 };
 
 //
@@ -34,12 +110,32 @@ export const defaultState = {
 
 export const FETCH = 'parse/fetch';
 export const CLEAR = 'parse/clear';
+export const FETCH_BATCH = 'parse/fetchBatch';
+export const SET_BATCH_SORT = 'parse/setBatchSort';
+export const CLEAR_BATCH = 'parse/clearBatch';
+export const FETCH_EPISODE_FILES = 'parse/fetchEpisodeFiles';
+export const CLEAR_EPISODE_FILES = 'parse/clearEpisodeFiles';
 
 //
 // Action Creators
 
 export const fetch = createThunk(FETCH);
 export const clear = createAction(CLEAR);
+export const fetchBatch = createThunk(FETCH_BATCH);
+export const setBatchSort = createAction(SET_BATCH_SORT);
+export const clearBatch = createThunk(CLEAR_BATCH);
+export const fetchEpisodeFiles = createThunk(FETCH_EPISODE_FILES);
+export const clearEpisodeFiles = createAction(CLEAR_EPISODE_FILES);
+
+//
+// Helpers
+
+function abortBatch() {
+  currentBatchId++;
+
+  abortBatchRequests.forEach((abortRequest) => abortRequest());
+  abortBatchRequests = [];
+}
 
 //
 // Action Handlers
@@ -61,11 +157,17 @@ export const actionHandlers = handleThunks({
         abortCurrentRequest();
       }
 
+      const requestData: FetchPayload = {
+        title: payload.title,
+      };
+
+      if (payload.seriesId) {
+        requestData.seriesId = payload.seriesId;
+      }
+
       const { request, abortRequest } = createAjaxRequest({
         url: '/parse',
-        data: {
-          title: payload.title,
-        },
+        data: requestData,
       });
 
       try {
@@ -97,6 +199,131 @@ export const actionHandlers = handleThunks({
       abortCurrentRequest = abortRequest;
     }, 300);
   },
+
+  [FETCH_BATCH]: async function (
+    _getState: () => AppState,
+    payload: FetchBatchPayload,
+    dispatch: Dispatch
+  ) {
+    abortBatch();
+
+    const batchId = currentBatchId;
+    const pendingItems = payload.titles.map((title, index) => {
+      return {
+        id: index + 1,
+        title,
+        isFetching: true,
+      };
+    });
+
+    dispatch(
+      batchActions([
+        update({ section: batchSection, data: pendingItems }),
+
+        set({
+          section: batchSection,
+          isFetching: true,
+          isPopulated: false,
+          error: null,
+        }),
+      ])
+    );
+
+    let nextIndex = 0;
+
+    // Each worker takes the next pending title once its previous request has
+    // completed, limiting the number of parse requests running at once.
+    const parseNext = async (): Promise<void> => {
+      if (batchId !== currentBatchId || nextIndex >= pendingItems.length) {
+        return;
+      }
+
+      const { id, title } = pendingItems[nextIndex++];
+
+      const { request, abortRequest } = createAjaxRequest({
+        url: '/parse',
+        data: {
+          title,
+        },
+      });
+
+      abortBatchRequests.push(abortRequest);
+
+      try {
+        const data = await request;
+
+        if (batchId === currentBatchId) {
+          dispatch(
+            updateItem({
+              section: batchSection,
+              id,
+              isFetching: false,
+              error: null,
+              parseResult: data,
+            })
+          );
+        }
+      } catch (error) {
+        if (batchId === currentBatchId) {
+          dispatch(
+            updateItem({
+              section: batchSection,
+              id,
+              isFetching: false,
+              error,
+            })
+          );
+        }
+      }
+
+      abortBatchRequests = abortBatchRequests.filter((a) => a !== abortRequest);
+
+      return parseNext();
+    };
+
+    const workerCount = Math.min(
+      MAXIMUM_CONCURRENT_BATCH_REQUESTS,
+      pendingItems.length
+    );
+
+    await Promise.all(Array.from({ length: workerCount }, parseNext));
+
+    if (batchId === currentBatchId) {
+      dispatch(
+        set({
+          section: batchSection,
+          isFetching: false,
+          isPopulated: true,
+        })
+      );
+    }
+  },
+
+  [CLEAR_BATCH]: function (
+    _getState: () => AppState,
+    _payload: unknown,
+    dispatch: Dispatch
+  ) {
+    abortBatch();
+
+    dispatch(
+      batchActions([
+        update({ section: batchSection, data: [] }),
+
+        set({
+          section: batchSection,
+          isFetching: false,
+          isPopulated: false,
+          error: null,
+        }),
+      ])
+    );
+  },
+
+  [FETCH_EPISODE_FILES]: createFetchHandler(
+    episodeFilesSection,
+    '/episodeFile'
+  ),
 });
 
 //
@@ -105,6 +332,11 @@ export const actionHandlers = handleThunks({
 export const reducers = createHandleActions(
   {
     [CLEAR]: createClearReducer(section, defaultState),
+    [SET_BATCH_SORT]: createSetClientSideCollectionSortReducer(batchSection),
+    [CLEAR_EPISODE_FILES]: createClearReducer(
+      episodeFilesSection,
+      episodeFilesDefaultState
+    ),
   },
   defaultState,
   section
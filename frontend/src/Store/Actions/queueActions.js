@@ -2,6 +2,7 @@ import _ from 'lodash';
 import React from 'react';
 import { createAction } from 'redux-actions';
 import { batchActions } from 'redux-batched-actions';
+import { updateQueueThroughput } from 'Activity/Queue/Throughput/getQueueThroughput';
 import Icon from 'Components/Icon';
 import { icons, sortDirections } from 'Helpers/Props';
 import { createThunk, handleThunks } from 'Store/thunks';
@@ -22,13 +23,15 @@ export const section = 'queue';
 const status = `${section}.status`;
 const details = `${section}.details`;
 const paged = `${section}.paged`;
+const janitor = `${section}.janitor`;
 
 //
 // State
 
 export const defaultState = {
   options: {
-    includeUnknownSeriesItems: true
+    includeUnknownSeriesItems: true,
+    groupBySeason: false
   },
 
   status: {
@@ -46,6 +49,18 @@ export const defaultState = {
     params: {}
   },
 
+  throughput: {
+    time: null,
+    items: [],
+    samples: []
+  },
+
+  janitor: {
+    isRunning: false,
+    runError: null,
+    rules: []
+  },
+
   paged: {
     isFetching: false,
     isPopulated: false,
@@ -176,6 +191,7 @@ export const defaultState = {
 
 export const persistState = [
   'queue.options',
+  'queue.janitor.rules',
   'queue.paged.pageSize',
   'queue.paged.sortKey',
   'queue.paged.sortDirection',
@@ -197,6 +213,12 @@ export const FETCH_QUEUE_STATUS = 'queue/fetchQueueStatus';
 export const FETCH_QUEUE_DETAILS = 'queue/fetchQueueDetails';
 export const CLEAR_QUEUE_DETAILS = 'queue/clearQueueDetails';
 
+export const ADD_QUEUE_THROUGHPUT_SAMPLE = 'queue/addQueueThroughputSample';
+
+export const SAVE_QUEUE_JANITOR_RULE = 'queue/saveQueueJanitorRule';
+export const DELETE_QUEUE_JANITOR_RULE = 'queue/deleteQueueJanitorRule';
+export const RUN_QUEUE_JANITOR = 'queue/runQueueJanitor';
+
 export const FETCH_QUEUE = 'queue/fetchQueue';
 export const GOTO_FIRST_QUEUE_PAGE = 'queue/gotoQueueFirstPage';
 export const GOTO_PREVIOUS_QUEUE_PAGE = 'queue/gotoQueuePreviousPage';
@@ -221,6 +243,12 @@ export const fetchQueueStatus = createThunk(FETCH_QUEUE_STATUS);
 export const fetchQueueDetails = createThunk(FETCH_QUEUE_DETAILS);
 export const clearQueueDetails = createAction(CLEAR_QUEUE_DETAILS);
 
+export const addQueueThroughputSample = createAction(ADD_QUEUE_THROUGHPUT_SAMPLE);
+
+export const saveQueueJanitorRule = createAction(SAVE_QUEUE_JANITOR_RULE);
+export const deleteQueueJanitorRule = createAction(DELETE_QUEUE_JANITOR_RULE);
+export const runQueueJanitor = createThunk(RUN_QUEUE_JANITOR);
+
 export const fetchQueue = createThunk(FETCH_QUEUE);
 export const gotoQueueFirstPage = createThunk(GOTO_FIRST_QUEUE_PAGE);
 export const gotoQueuePreviousPage = createThunk(GOTO_PREVIOUS_QUEUE_PAGE);
@@ -402,6 +430,71 @@ export const actionHandlers = handleThunks({
     });
   },
 
+  [RUN_QUEUE_JANITOR]: function(getState, payload, dispatch) {
+    const matches = payload.matches;
+
+    // Rules with the same actions can share a request
+    const requests = matches.reduce((acc, { rule, items }) => {
+      const params = {
+        removeFromClient: rule.removeFromClient,
+        blocklist: rule.blocklist,
+        skipRedownload: !rule.searchAgain
+      };
+
+      const key = JSON.stringify(params);
+
+      if (!acc[key]) {
+        acc[key] = { params, ids: [] };
+      }
+
+      acc[key].ids.push(...items.map((item) => item.id));
+
+      return acc;
+    }, {});
+
+    dispatch(set({ section: janitor, isRunning: true }));
+
+    const promises = Object.values(requests).map(({ params, ids }) => {
+      const {
+        removeFromClient,
+        blocklist,
+        skipRedownload
+      } = params;
+
+      return createAjaxRequest({
+        url: `/queue/bulk?removeFromClient=${removeFromClient}&blocklist=${blocklist}&skipRedownload=${skipRedownload}`,
+        method: 'DELETE',
+        dataType: 'json',
+        contentType: 'application/json',
+        data: JSON.stringify({ ids })
+      }).request;
+    });
+
+    Promise.all(promises).then(
+      () => {
+        dispatch(set({
+          section: janitor,
+          isRunning: false,
+          runError: null
+        }));
+
+        // Don't use batchActions with thunks
+        dispatch(fetchQueue());
+        dispatch(fetchQueueDetails());
+      },
+      (xhr) => {
+        dispatch(set({
+          section: janitor,
+          isRunning: false,
+          runError: xhr
+        }));
+
+        dispatch(fetchQueue());
+        dispatch(fetchQueueDetails());
+      }
+    );
+  },
+
   [REMOVE_QUEUE_ITEMS]: function(getState, payload, dispatch) {
     const {
       ids,
@@ -460,6 +553,50 @@ export const reducers = createHandleActions({
 
   [CLEAR_QUEUE_DETAILS]: createClearReducer(details, defaultState.details),
 
+  [ADD_QUEUE_THROUGHPUT_SAMPLE]: function(state, { payload }) {
+    const {
+      items,
+      time
+    } = payload;
+
+    return {
+      ...state,
+      throughput: updateQueueThroughput(state.throughput, items, time)
+    };
+  },
+
+  [SAVE_QUEUE_JANITOR_RULE]: function(state, { payload }) {
+    const rules = state.janitor.rules;
+    const index = rules.findIndex((rule) => rule.id === payload.id);
+    const nextRules = [...rules];
+
+    if (index > -1) {
+      nextRules.splice(index, 1, payload);
+    } else {
+      const id = rules.reduce((acc, rule) => Math.max(acc, rule.id), 0) + 1;
+
+      nextRules.push({ ...payload, id });
+    }
+
+    return {
+      ...state,
+      janitor: {
+        ...state.janitor,
+        rules: nextRules
+      }
+    };
+  },
+
+  [DELETE_QUEUE_JANITOR_RULE]: function(state, { payload }) {
+    return {
+      ...state,
+      janitor: {
+        ...state.janitor,
+        rules: state.janitor.rules.filter((rule) => rule.id !== payload.id)
+      }
+    };
+  },
+
   [SET_QUEUE_TABLE_OPTION]: createSetTableOptionReducer(paged),
 
   [SET_QUEUE_OPTION]: function(state, { payload }) {
@@ -1,13 +1,19 @@
+import React from 'react';
 import { createAction } from 'redux-actions';
-import { filterBuilderTypes, filterBuilderValueTypes, filterTypePredicates, filterTypes, sortDirections } from 'Helpers/Props';
+import { batchActions } from 'redux-batched-actions';
+import Icon from 'Components/Icon';
+import { filterBuilderTypes, filterBuilderValueTypes, filterTypePredicates, filterTypes, icons, sortDirections } from 'Helpers/Props';
+import getInteractiveSearchPreset from 'InteractiveSearch/Presets/getInteractiveSearchPreset';
 import { createThunk, handleThunks } from 'Store/thunks';
 import sortByName from 'Utilities/Array/sortByName';
 import createAjaxRequest from 'Utilities/createAjaxRequest';
 import translate from 'Utilities/String/translate';
+import { set } from './baseActions';
 import createFetchHandler from './Creators/createFetchHandler';
 import createHandleActions from './Creators/createHandleActions';
 import createSetClientSideCollectionFilterReducer from './Creators/Reducers/createSetClientSideCollectionFilterReducer';
 import createSetClientSideCollectionSortReducer from './Creators/Reducers/createSetClientSideCollectionSortReducer';
+import createSetTableOptionReducer from './Creators/Reducers/createSetTableOptionReducer';
 
 //
 // Variables
@@ -28,6 +34,94 @@ export const defaultState = {
   items: [],
   sortKey: 'releaseWeight',
   sortDirection: sortDirections.ASCENDING,
+  presets: [],
+  activePresetId: null,
+
+  // The sort and filters in use before a preset was applied, restored
+  // once a search that doesn't match a preset is opened.
+  nonPresetOptions: null,
+
+  columns: [
+    {
+      name: 'protocol',
+      label: () => translate('Source'),
+      isSortable: true,
+      isVisible: true
+    },
+    {
+      name: 'age',
+      label: () => translate('Age'),
+      isSortable: true,
+      isVisible: true
+    },
+    {
+      name: 'title',
+      label: () => translate('Title'),
+      isSortable: true,
+      isVisible: true,
+      isModifiable: false
+    },
+    {
+      name: 'indexer',
+      label: () => translate('Indexer'),
+      isSortable: true,
+      isVisible: true
+    },
+    {
+      name: 'size',
+      label: () => translate('Size'),
+      isSortable: true,
+      isVisible: true
+    },
+    {
+      name: 'peers',
+      label: () => translate('Peers'),
+      isSortable: true,
+      isVisible: true
+    },
+    {
+      name: 'languageWeight',
+      label: () => translate('Languages'),
+      isSortable: true,
+      isVisible: true
+    },
+    {
+      name: 'qualityWeight',
+      label: () => translate('Quality'),
+      isSortable: true,
+      isVisible: true
+    },
+    {
+      name: 'customFormatScore',
+      columnLabel: () => translate('CustomFormatScore'),
+      label: React.createElement(Icon, {
+        name: icons.SCORE,
+        title: () => translate('CustomFormatScore')
+      }),
+      isSortable: true,
+      isVisible: true
+    },
+    {
+      name: 'rejections',
+      columnLabel: () => translate('Rejections'),
+      label: React.createElement(Icon, {
+        name: icons.DANGER,
+        title: () => translate('Rejections')
+      }),
+      isSortable: true,
+      fixedSortDirection: sortDirections.ASCENDING,
+      isVisible: true
+    },
+    {
+      name: 'releaseWeight',
+      label: React.createElement(Icon, { name: icons.DOWNLOAD }),
+      isSortable: true,
+      fixedSortDirection: sortDirections.ASCENDING,
+      isVisible: true,
+      isModifiable: false
+    }
+  ],
+
   sortPredicates: {
     age: function(item, direction) {
       return item.ageMinutes;
@@ -265,7 +359,9 @@ export const defaultState = {
 export const persistState = [
   'releases.selectedFilterKey',
   'releases.episode.customFilters',
-  'releases.season.customFilters'
+  'releases.season.customFilters',
+  'releases.columns',
+  'releases.presets'
 ];
 
 //
@@ -279,6 +375,10 @@ export const GRAB_RELEASE = 'releases/grabRelease';
 export const UPDATE_RELEASE = 'releases/updateRelease';
 export const SET_EPISODE_RELEASES_FILTER = 'releases/setEpisodeReleasesFilter';
 export const SET_SEASON_RELEASES_FILTER = 'releases/setSeasonReleasesFilter';
+export const SET_RELEASES_TABLE_OPTION = 'releases/setReleasesTableOption';
+export const SAVE_RELEASES_PRESET = 'releases/saveReleasesPreset';
+export const DELETE_RELEASES_PRESET = 'releases/deleteReleasesPreset';
+export const APPLY_RELEASES_PRESET = 'releases/applyReleasesPreset';
 
 //
 // Action Creators
@@ -291,11 +391,16 @@ export const grabRelease = createThunk(GRAB_RELEASE);
 export const updateRelease = createAction(UPDATE_RELEASE);
 export const setEpisodeReleasesFilter = createAction(SET_EPISODE_RELEASES_FILTER);
 export const setSeasonReleasesFilter = createAction(SET_SEASON_RELEASES_FILTER);
+export const setReleasesTableOption = createAction(SET_RELEASES_TABLE_OPTION);
+export const saveReleasesPreset = createAction(SAVE_RELEASES_PRESET);
+export const deleteReleasesPreset = createAction(DELETE_RELEASES_PRESET);
+export const applyReleasesPreset = createThunk(APPLY_RELEASES_PRESET);
 
 //
 // Helpers
 
 const fetchReleasesHelper = createFetchHandler(section, '/release');
+const setReleasesTableOptionReducer = createSetTableOptionReducer(section);
 
 //
 // Action Handlers
@@ -314,6 +419,78 @@ export const actionHandlers = handleThunks({
     }
   },
 
+  [APPLY_RELEASES_PRESET]: function(getState, payload, dispatch) {
+    const {
+      seriesId,
+      type
+    } = payload;
+
+    const state = getState();
+    const releases = state.releases;
+    const series = state.series.items.find((s) => s.id === seriesId);
+    const preset = getInteractiveSearchPreset(releases.presets, series);
+    const nonPresetOptions = releases.nonPresetOptions;
+
+    if (!preset) {
+      if (!nonPresetOptions) {
+        dispatch(set({ section, activePresetId: null }));
+
+        return;
+      }
+
+      dispatch(batchActions([
+        set({
+          section,
+          activePresetId: null,
+          nonPresetOptions: null,
+          sortKey: nonPresetOptions.sortKey,
+          sortDirection: nonPresetOptions.sortDirection
+        }),
+
+        set({
+          section: episodeSection,
+          selectedFilterKey: nonPresetOptions.episodeSelectedFilterKey
+        }),
+
+        set({
+          section: seasonSection,
+          selectedFilterKey: nonPresetOptions.seasonSelectedFilterKey
+        })
+      ]));
+
+      return;
+    }
+
+    const actions = [
+      set({
+        section,
+        activePresetId: preset.id,
+        sortKey: preset.sortKey,
+        sortDirection: preset.sortDirection,
+        nonPresetOptions: nonPresetOptions || {
+          sortKey: releases.sortKey,
+          sortDirection: releases.sortDirection,
+          episodeSelectedFilterKey: releases.episode.selectedFilterKey,
+          seasonSelectedFilterKey: releases.season.selectedFilterKey
+        }
+      })
+    ];
+
+    const filterSection = type === 'episode' ? episodeSection : seasonSection;
+    const selectedFilterKey = preset.selectedFilterKey;
+
+    // The preset's custom filter may have been deleted since it was saved
+    const hasFilter =
+      releases.filters.some((f) => f.key === selectedFilterKey) ||
+      state.customFilters.items.some((f) => f.type === filterSection && f.id === selectedFilterKey);
+
+    if (hasFilter) {
+      actions.push(set({ section: filterSection, selectedFilterKey }));
+    }
+
+    dispatch(batchActions(actions));
+  },
+
   [GRAB_RELEASE]: function(getState, payload, dispatch) {
     const guid = payload.guid;
 
@@ -358,6 +535,8 @@ export const reducers = createHandleActions({
     const {
       episode,
       season,
+      columns,
+      presets,
       ...otherDefaultState
     } = defaultState;
 
@@ -382,6 +561,62 @@ export const reducers = createHandleActions({
     return newState;
   },
 
+  [SET_RELEASES_TABLE_OPTION]: (state, action) => {
+    const activePreset = state.presets.find((preset) => preset.id === state.activePresetId);
+    const payloadColumns = action.payload.columns;
+
+    if (!activePreset || !payloadColumns) {
+      return setReleasesTableOptionReducer(state, action);
+    }
+
+    // While a preset is active the visible columns belong to it, only the
+    // order is shared with searches that don't use a preset.
+    return {
+      ...state,
+      columns: payloadColumns.map((column) => {
+        const existingColumn = state.columns.find((c) => c.name === column.name);
+
+        return {
+          ...column,
+          isVisible: existingColumn ? existingColumn.isVisible : column.isVisible
+        };
+      }),
+      presets: state.presets.map((preset) => {
+        if (preset.id !== activePreset.id) {
+          return preset;
+        }
+
+        return {
+          ...preset,
+          columns: payloadColumns.filter((c) => c.isVisible).map((c) => c.name)
+        };
+      })
+    };
+  },
+
+  [SAVE_RELEASES_PRESET]: (state, { payload }) => {
+    const presets = state.presets;
+    const index = presets.findIndex((preset) => preset.id === payload.id);
+    const newPresets = [...presets];
+
+    if (index > -1) {
+      newPresets.splice(index, 1, payload);
+    } else {
+      const id = presets.reduce((acc, preset) => Math.max(acc, preset.id), 0) + 1;
+
+      newPresets.push({ ...payload, id });
+    }
+
+    return Object.assign({}, state, { presets: newPresets });
+  },
+
+  [DELETE_RELEASES_PRESET]: (state, { payload }) => {
+    return Object.assign({}, state, {
+      presets: state.presets.filter((preset) => preset.id !== payload.id),
+      activePresetId: state.activePresetId === payload.id ? null : state.activePresetId
+    });
+  },
+
   [SET_RELEASES_SORT]: createSetClientSideCollectionSortReducer(section),
   [SET_EPISODE_RELEASES_FILTER]: createSetClientSideCollectionFilterReducer(episodeSection),
   [SET_SEASON_RELEASES_FILTER]: createSetClientSideCollectionFilterReducer(seasonSection)
@@ -1,7 +1,12 @@
+import _ from 'lodash';
 import moment from 'moment';
 import { createAction } from 'redux-actions';
+import { batchActions } from 'redux-batched-actions';
 import { sortDirections } from 'Helpers/Props';
+import { createThunk, handleThunks } from 'Store/thunks';
+import createAjaxRequest from 'Utilities/createAjaxRequest';
 import translate from 'Utilities/String/translate';
+import { set, updateItem } from './baseActions';
 import createHandleActions from './Creators/createHandleActions';
 import createSetClientSideCollectionFilterReducer from './Creators/Reducers/createSetClientSideCollectionFilterReducer';
 import createSetClientSideCollectionSortReducer from './Creators/Reducers/createSetClientSideCollectionSortReducer';
@@ -22,6 +27,9 @@ export const defaultState = {
   secondarySortKey: 'sortTitle',
   secondarySortDirection: sortDirections.ASCENDING,
   view: 'posters',
+  groupBy: 'none',
+  query: '',
+  queryFilters: [],
 
   posterOptions: {
     detailedProgressBar: false,
@@ -281,7 +289,12 @@ export const defaultState = {
 
   filterPredicates,
 
-  filterBuilderProps
+  filterBuilderProps,
+
+  workspaces: [],
+  selectedWorkspaceId: null,
+  isImportingWorkspaces: false,
+  importWorkspacesError: null
 };
 
 export const persistState = [
@@ -290,21 +303,105 @@ export const persistState = [
   'seriesIndex.selectedFilterKey',
   'seriesIndex.customFilters',
   'seriesIndex.view',
+  'seriesIndex.groupBy',
+  'seriesIndex.query',
+  'seriesIndex.queryFilters',
   'seriesIndex.columns',
   'seriesIndex.posterOptions',
   'seriesIndex.overviewOptions',
-  'seriesIndex.tableOptions'
+  'seriesIndex.tableOptions',
+  'seriesIndex.workspaces',
+  'seriesIndex.selectedWorkspaceId'
 ];
 
+//
+// Helpers
+
+function getWorkspaceOptions(state) {
+  return {
+    view: state.view,
+    groupBy: state.groupBy,
+    sortKey: state.sortKey,
+    sortDirection: state.sortDirection,
+    selectedFilterKey: state.selectedFilterKey,
+    columns: state.columns.map(({ name, isVisible }) => ({ name, isVisible })),
+    posterOptions: { ...state.posterOptions },
+    overviewOptions: { ...state.overviewOptions },
+    tableOptions: { ...state.tableOptions }
+  };
+}
+
+// The selected workspace no longer applies once any of the options it saves are changed
+function createClearSelectedWorkspaceReducer(reducer) {
+  return (state, action) => {
+    const newState = reducer(state, action);
+
+    if (
+      newState.selectedWorkspaceId == null ||
+      _.isEqual(getWorkspaceOptions(state), getWorkspaceOptions(newState))
+    ) {
+      return newState;
+    }
+
+    return {
+      ...newState,
+      selectedWorkspaceId: null
+    };
+  };
+}
+
+function getWorkspaceColumns(columns, workspaceColumns) {
+  // Columns added after the workspace was saved keep their current
+  // visibility and are appended after the saved columns.
+
+  const savedColumns = workspaceColumns.reduce((acc, workspaceColumn) => {
+    const column = columns.find((c) => c.name === workspaceColumn.name);
+
+    if (column) {
+      acc.push({
+        ...column,
+        isVisible: column.isModifiable === false ? column.isVisible : workspaceColumn.isVisible
+      });
+    }
+
+    return acc;
+  }, []);
+
+  const newColumns = columns.filter((column) => {
+    return !workspaceColumns.some((c) => c.name === column.name);
+  });
+
+  return [...savedColumns, ...newColumns];
+}
+
+function getNextWorkspaceId(workspaces) {
+  return workspaces.reduce((acc, workspace) => Math.max(acc, workspace.id), 0) + 1;
+}
+
+function isMatchingCustomFilter(customFilter, label, propertyFilters) {
+  return (
+    customFilter.type === 'series' &&
+    customFilter.label === label &&
+    _.isEqual(customFilter.filters, propertyFilters)
+  );
+}
+
 //
 // Actions Types
 
 export const SET_SERIES_SORT = 'seriesIndex/setSeriesSort';
 export const SET_SERIES_FILTER = 'seriesIndex/setSeriesFilter';
 export const SET_SERIES_VIEW = 'seriesIndex/setSeriesView';
+export const SET_SERIES_GROUP_BY = 'seriesIndex/setSeriesGroupBy';
+export const SET_SERIES_QUERY = 'seriesIndex/setSeriesQuery';
 export const SET_SERIES_TABLE_OPTION = 'seriesIndex/setSeriesTableOption';
 export const SET_SERIES_POSTER_OPTION = 'seriesIndex/setSeriesPosterOption';
 export const SET_SERIES_OVERVIEW_OPTION = 'seriesIndex/setSeriesOverviewOption';
+export const SAVE_SERIES_WORKSPACE = 'seriesIndex/saveSeriesWorkspace';
+export const SELECT_SERIES_WORKSPACE = 'seriesIndex/selectSeriesWorkspace';
+export const DELETE_SERIES_WORKSPACE = 'seriesIndex/deleteSeriesWorkspace';
+export const IMPORT_SERIES_WORKSPACES = 'seriesIndex/importSeriesWorkspaces';
+export const ADD_SERIES_WORKSPACES = 'seriesIndex/addSeriesWorkspaces';
 
 //
 // Action Creators
@@ -312,25 +409,168 @@ export const SET_SERIES_OVERVIEW_OPTION = 'seriesIndex/setSeriesOverviewOption';
 export const setSeriesSort = createAction(SET_SERIES_SORT);
 export const setSeriesFilter = createAction(SET_SERIES_FILTER);
 export const setSeriesView = createAction(SET_SERIES_VIEW);
+export const setSeriesGroupBy = createAction(SET_SERIES_GROUP_BY);
+export const setSeriesQuery = createAction(SET_SERIES_QUERY);
 export const setSeriesTableOption = createAction(SET_SERIES_TABLE_OPTION);
 export const setSeriesPosterOption = createAction(SET_SERIES_POSTER_OPTION);
 export const setSeriesOverviewOption = createAction(SET_SERIES_OVERVIEW_OPTION);
+export const saveSeriesWorkspace = createAction(SAVE_SERIES_WORKSPACE);
+export const selectSeriesWorkspace = createThunk(SELECT_SERIES_WORKSPACE);
+export const deleteSeriesWorkspace = createAction(DELETE_SERIES_WORKSPACE);
+export const importSeriesWorkspaces = createThunk(IMPORT_SERIES_WORKSPACES);
+export const addSeriesWorkspaces = createAction(ADD_SERIES_WORKSPACES);
+
+//
+// Action Handlers
+
+export const actionHandlers = handleThunks({
+  [SELECT_SERIES_WORKSPACE]: function(getState, payload, dispatch) {
+    const state = getState();
+    const seriesIndex = state.seriesIndex;
+    const workspace = seriesIndex.workspaces.find((w) => w.id === payload.id);
+
+    if (!workspace) {
+      return;
+    }
+
+    const {
+      id,
+      name,
+      columns,
+      selectedFilterKey,
+      groupBy = 'none',
+      ...otherOptions
+    } = workspace;
+
+    // Fall back to all series if the custom filter was deleted since the workspace was saved.
+    const hasFilter = typeof selectedFilterKey === 'string' ?
+      seriesIndex.filters.some((f) => f.key === selectedFilterKey) :
+      state.customFilters.items.some((f) => f.id === selectedFilterKey);
+
+    dispatch(set({
+      section,
+      ...otherOptions,
+      groupBy,
+      selectedFilterKey: hasFilter ? selectedFilterKey : 'all',
+      columns: getWorkspaceColumns(seriesIndex.columns, columns),
+      selectedWorkspaceId: id
+    }));
+  },
+
+  [IMPORT_SERIES_WORKSPACES]: function(getState, payload, dispatch) {
+    const customFilters = getState().customFilters.items;
+    const addedCustomFilters = [];
+
+    dispatch(set({ section, isImportingWorkspaces: true, importWorkspacesError: null }));
+
+    function importWorkspace(workspace) {
+      const {
+        customFilter,
+        ...otherWorkspace
+      } = workspace;
+
+      if (!customFilter) {
+        return Promise.resolve(otherWorkspace);
+      }
+
+      const existingCustomFilter = [...customFilters, ...addedCustomFilters].find((f) => {
+        return isMatchingCustomFilter(f, customFilter.label, customFilter.filters);
+      });
+
+      if (existingCustomFilter) {
+        return Promise.resolve({
+          ...otherWorkspace,
+          selectedFilterKey: existingCustomFilter.id
+        });
+      }
+
+      const promise = createAjaxRequest({
+        url: '/customFilter',
+        method: 'POST',
+        contentType: 'application/json',
+        dataType: 'json',
+        data: JSON.stringify({ type: 'series', ...customFilter })
+      }).request;
+
+      return promise.then((data) => {
+        addedCustomFilters.push(data);
+
+        return {
+          ...otherWorkspace,
+          selectedFilterKey: data.id
+        };
+      });
+    }
+
+    // Import one workspace at a time so workspaces sharing a custom filter
+    // reuse the one saved for the first of them instead of creating duplicates.
+    const importPromise = payload.workspaces.reduce((acc, workspace) => {
+      return acc.then((workspaces) => {
+        return importWorkspace(workspace).then((importedWorkspace) => {
+          return [...workspaces, importedWorkspace];
+        });
+      });
+    }, Promise.resolve([]));
+
+    importPromise.then(
+      (workspaces) => {
+        dispatch(batchActions([
+          ...addedCustomFilters.map((customFilter) => {
+            return updateItem({ section: 'customFilters', ...customFilter });
+          }),
+
+          addSeriesWorkspaces({ workspaces }),
+
+          set({
+            section,
+            isImportingWorkspaces: false,
+            importWorkspacesError: null
+          })
+        ]));
+      },
+      (xhr) => {
+        dispatch(batchActions([
+          ...addedCustomFilters.map((customFilter) => {
+            return updateItem({ section: 'customFilters', ...customFilter });
+          }),
+
+          set({
+            section,
+            isImportingWorkspaces: false,
+            importWorkspacesError: xhr
+          })
+        ]));
+      }
+    );
+  }
+});
 
 //
 // Reducers
 
 export const reducers = createHandleActions({
 
-  [SET_SERIES_SORT]: createSetClientSideCollectionSortReducer(section),
-  [SET_SERIES_FILTER]: createSetClientSideCollectionFilterReducer(section),
+  [SET_SERIES_SORT]: createClearSelectedWorkspaceReducer(createSetClientSideCollectionSortReducer(section)),
+  [SET_SERIES_FILTER]: createClearSelectedWorkspaceReducer(createSetClientSideCollectionFilterReducer(section)),
 
-  [SET_SERIES_VIEW]: function(state, { payload }) {
+  [SET_SERIES_VIEW]: createClearSelectedWorkspaceReducer((state, { payload }) => {
     return Object.assign({}, state, { view: payload.view });
+  }),
+
+  [SET_SERIES_GROUP_BY]: createClearSelectedWorkspaceReducer((state, { payload }) => {
+    return Object.assign({}, state, { groupBy: payload.groupBy });
+  }),
+
+  [SET_SERIES_QUERY]: function(state, { payload }) {
+    return Object.assign({}, state, {
+      query: payload.query,
+      queryFilters: payload.queryFilters
+    });
   },
 
-  [SET_SERIES_TABLE_OPTION]: createSetTableOptionReducer(section),
+  [SET_SERIES_TABLE_OPTION]: createClearSelectedWorkspaceReducer(createSetTableOptionReducer(section)),
 
-  [SET_SERIES_POSTER_OPTION]: function(state, { payload }) {
+  [SET_SERIES_POSTER_OPTION]: createClearSelectedWorkspaceReducer((state, { payload }) => {
     const posterOptions = state.posterOptions;
 
     return {
@@ -340,9 +580,9 @@ export const reducers = createHandleActions({
         ...payload
       }
     };
-  },
+  }),
 
-  [SET_SERIES_OVERVIEW_OPTION]: function(state, { payload }) {
+  [SET_SERIES_OVERVIEW_OPTION]: createClearSelectedWorkspaceReducer((state, { payload }) => {
     const overviewOptions = state.overviewOptions;
 
     return {
@@ -352,6 +592,53 @@ export const reducers = createHandleActions({
         ...payload
       }
     };
+  }),
+
+  [SAVE_SERIES_WORKSPACE]: function(state, { payload }) {
+    const workspaces = [...state.workspaces];
+    const index = workspaces.findIndex((w) => w.id === payload.id);
+
+    const workspace = {
+      id: index > -1 ? payload.id : getNextWorkspaceId(workspaces),
+      name: payload.name,
+      ...getWorkspaceOptions(state)
+    };
+
+    if (index > -1) {
+      workspaces.splice(index, 1, workspace);
+    } else {
+      workspaces.push(workspace);
+    }
+
+    return {
+      ...state,
+      workspaces,
+      selectedWorkspaceId: workspace.id
+    };
+  },
+
+  [DELETE_SERIES_WORKSPACE]: function(state, { payload }) {
+    return {
+      ...state,
+      workspaces: state.workspaces.filter((w) => w.id !== payload.id),
+      selectedWorkspaceId: state.selectedWorkspaceId === payload.id ? null : state.selectedWorkspaceId
+    };
+  },
+
+  [ADD_SERIES_WORKSPACES]: function(state, { payload }) {
+    const workspaces = [...state.workspaces];
+
+    payload.workspaces.forEach((workspace) => {
+      workspaces.push({
+        ...workspace,
+        id: getNextWorkspaceId(workspaces)
+      });
+    });
+
+    return {
+      ...state,
+      workspaces
+    };
   }
 
 }, defaultState, section);
@@ -4,6 +4,7 @@ import createHandleActions from './Creators/createHandleActions';
 import autoTaggings from './Settings/autoTaggings';
 import autoTaggingSpecifications from './Settings/autoTaggingSpecifications';
 import customFormats from './Settings/customFormats';
+import customFormatScores from './Settings/customFormatScores';
 import customFormatSpecifications from './Settings/customFormatSpecifications';
 import delayProfiles from './Settings/delayProfiles';
 import downloadClientOptions from './Settings/downloadClientOptions';
@@ -29,6 +30,7 @@ export * from './Settings/autoTaggingSpecifications';
 export * from './Settings/autoTaggings';
 export * from './Settings/customFormatSpecifications.js';
 export * from './Settings/customFormats';
+export * from './Settings/customFormatScores';
 export * from './Settings/delayProfiles';
 export * from './Settings/downloadClients';
 export * from './Settings/downloadClientOptions';
@@ -63,6 +65,7 @@ export const defaultState = {
   autoTaggings: autoTaggings.defaultState,
   customFormatSpecifications: customFormatSpecifications.defaultState,
   customFormats: customFormats.defaultState,
+  customFormatScores: customFormatScores.defaultState,
   delayProfiles: delayProfiles.defaultState,
   downloadClients: downloadClients.defaultState,
   downloadClientOptions: downloadClientOptions.defaultState,
@@ -85,7 +88,8 @@ export const defaultState = {
 };
 
 export const persistState = [
-  'settings.advancedSettings'
+  'settings.advancedSettings',
+  'settings.qualityProfiles.history'
 ];
 
 //
@@ -106,6 +110,7 @@ export const actionHandlers = handleThunks({
   ...autoTaggings.actionHandlers,
   ...customFormatSpecifications.actionHandlers,
   ...customFormats.actionHandlers,
+  ...customFormatScores.actionHandlers,
   ...delayProfiles.actionHandlers,
   ...downloadClients.actionHandlers,
   ...downloadClientOptions.actionHandlers,
@@ -140,6 +145,7 @@ export const reducers = createHandleActions({
   ...autoTaggings.reducers,
   ...customFormatSpecifications.reducers,
   ...customFormats.reducers,
+  ...customFormatScores.reducers,
   ...delayProfiles.reducers,
   ...downloadClients.reducers,
   ...downloadClientOptions.reducers,
@@ -0,0 +1,135 @@
+import { Dispatch } from 'redux';
+import AppState from 'App/State/AppState';
+import {
+  StatisticsCutoffUnmet,
+  StatisticsEpisodeFile,
+} from 'App/State/StatisticsAppState';
+import { createThunk, handleThunks } from 'Store/thunks';
+import createAjaxRequest from 'Utilities/createAjaxRequest';
+import { set } from './baseActions';
+import createHandleActions from './Creators/createHandleActions';
+
+interface EpisodeFileStatistics {
+  id: number;
+  seriesId: number;
+  relativePath: string;
+  quality: string;
+  videoCodec: string | null;
+  resolution: string | null;
+  releaseGroup: string | null;
+  size: number;
+  dateAdded: string;
+}
+
+interface CutoffUnmetPage {
+  totalRecords: number;
+}
+
+//
+// Variables
+
+export const section = 'statistics';
+
+let currentFetchId = 0;
+
+//
+// State
+
+export const defaultState = {
+  isFetching: false,
+  isPopulated: false,
+  error: null,
+  episodeFiles: [],
+  cutoffUnmet: [],
+};
+
+//
+// Actions Types
+
+export const FETCH_STATISTICS = 'statistics/fetchStatistics';
+
+//
+// Action Creators
+
+export const fetchStatistics = createThunk(FETCH_STATISTICS);
+
+//
+// Helpers
+
+function toStatisticsEpisodeFile(
+  episodeFile: EpisodeFileStatistics
+): StatisticsEpisodeFile {
+  return {
+    ...episodeFile,
+    videoCodec: episodeFile.videoCodec ?? '',
+    resolution: episodeFile.resolution ?? '',
+    releaseGroup: episodeFile.releaseGroup ?? '',
+  };
+}
+
+//
+// Action Handlers
+
+export const actionHandlers = handleThunks({
+  [FETCH_STATISTICS]: async function (
+    getState: () => AppState,
+    _payload: unknown,
+    dispatch: Dispatch
+  ) {
+    const fetchId = ++currentFetchId;
+
+    dispatch(set({ section, isFetching: true, error: null }));
+
+    try {
+      const episodeFiles: EpisodeFileStatistics[] = await createAjaxRequest({
+        url: '/episodeFile/statistics',
+      }).request;
+
+      // Count monitored episodes the same way Wanted > Cutoff Unmet does
+      const cutoffUnmet: StatisticsCutoffUnmet[] = await Promise.all(
+        getState().settings.qualityProfiles.items.map(async ({ id }) => {
+          const { totalRecords }: CutoffUnmetPage = await createAjaxRequest({
+            url: '/wanted/cutoff',
+            data: {
+              page: 1,
+              pageSize: 1,
+              monitored: true,
+              qualityProfileId: id,
+            },
+          }).request;
+
+          return { qualityProfileId: id, count: totalRecords };
+        })
+      );
+
+      if (fetchId === currentFetchId) {
+        dispatch(
+          set({
+            section,
+            isFetching: false,
+            isPopulated: true,
+            error: null,
+            episodeFiles: episodeFiles.map(toStatisticsEpisodeFile),
+            cutoffUnmet,
+          })
+        );
+      }
+    } catch (error) {
+      if (fetchId === currentFetchId) {
+        dispatch(
+          set({
+            section,
+            isFetching: false,
+            isPopulated: false,
+            error,
+          })
+        );
+      }
+    }
+  },
+});
+
+//
+// Reducers
+
+export const reducers = createHandleActions({}, defaultState, section);
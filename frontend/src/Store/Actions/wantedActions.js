@@ -2,6 +2,7 @@ import { createAction } from 'redux-actions';
 import { filterTypes, sortDirections } from 'Helpers/Props';
 import { createThunk, handleThunks } from 'Store/thunks';
 import serverSideCollectionHandlers from 'Utilities/serverSideCollectionHandlers';
+import parseUrl from 'Utilities/String/parseUrl';
 import translate from 'Utilities/String/translate';
 import createBatchToggleEpisodeMonitoredHandler from './Creators/createBatchToggleEpisodeMonitoredHandler';
 import createHandleActions from './Creators/createHandleActions';
@@ -182,6 +183,18 @@ export const persistState = [
   'wanted.cutoffUnmet.columns'
 ];
 
+//
+// Helpers
+
+// Cutoff Unmet can be linked to with a quality profile to only show its episodes
+function cutoffUnmetFetchDataAugmenter(getState, payload, data) {
+  const { params } = parseUrl(getState().router.location.search);
+
+  if (params.qualityProfileId) {
+    data.qualityProfileId = params.qualityProfileId;
+  }
+}
+
 //
 // Actions Types
 
@@ -276,7 +289,8 @@ export const actionHandlers = handleThunks({
       [serverSideCollectionHandlers.EXACT_PAGE]: GOTO_CUTOFF_UNMET_PAGE,
       [serverSideCollectionHandlers.SORT]: SET_CUTOFF_UNMET_SORT,
       [serverSideCollectionHandlers.FILTER]: SET_CUTOFF_UNMET_FILTER
-    }
+    },
+    cutoffUnmetFetchDataAugmenter
   ),
 
   [BATCH_TOGGLE_CUTOFF_UNMET_EPISODES]: createBatchToggleEpisodeMonitoredHandler('wanted.cutoffUnmet', fetchCutoffUnmet)
@@ -1,7 +1,8 @@
 import _ from 'lodash';
 import { createSelector } from 'reselect';
-import { filterTypePredicates, filterTypes, sortDirections } from 'Helpers/Props';
+import { filterGroupTypes, filterTypePredicates, filterTypes, sortDirections } from 'Helpers/Props';
 import findSelectedFilters from 'Utilities/Filter/findSelectedFilters';
+import isFilterGroup from 'Utilities/Filter/isFilterGroup';
 
 function getSortClause(sortKey, sortDirection, sortPredicates) {
   if (sortPredicates && sortPredicates.hasOwnProperty(sortKey)) {
@@ -15,70 +16,90 @@ function getSortClause(sortKey, sortDirection, sortPredicates) {
   };
 }
 
+function isFilterAccepted(item, selectedFilter, filterPredicates) {
+  const {
+    key,
+    value,
+    type = filterTypes.EQUAL
+  } = selectedFilter;
+
+  if (filterPredicates && filterPredicates.hasOwnProperty(key)) {
+    const predicate = filterPredicates[key];
+
+    if (Array.isArray(value)) {
+      if (
+        type === filterTypes.NOT_CONTAINS ||
+        type === filterTypes.NOT_EQUAL
+      ) {
+        return value.every((v) => predicate(item, v, type));
+      }
+
+      return value.some((v) => predicate(item, v, type));
+    }
+
+    return predicate(item, value, type);
+  }
+
+  if (item.hasOwnProperty(key)) {
+    const predicate = filterTypePredicates[type];
+
+    if (Array.isArray(value)) {
+      if (
+        type === filterTypes.NOT_CONTAINS ||
+        type === filterTypes.NOT_EQUAL
+      ) {
+        return value.every((v) => predicate(item[key], v));
+      }
+
+      return value.some((v) => predicate(item[key], v));
+    }
+
+    return predicate(item[key], value);
+  }
+
+  // Default to false if the filter can't be tested
+  return false;
+}
+
+function isGroupAccepted(item, filters, groupType, filterPredicates) {
+  const isAccepted = (selectedFilter) => {
+    if (isFilterGroup(selectedFilter)) {
+      return isGroupAccepted(item, selectedFilter.filters, selectedFilter.groupType, filterPredicates);
+    }
+
+    return isFilterAccepted(item, selectedFilter, filterPredicates);
+  };
+
+  // An empty group shouldn't exclude anything
+  if (!filters.length) {
+    return true;
+  }
+
+  return groupType === filterGroupTypes.OR ?
+    filters.some(isAccepted) :
+    filters.every(isAccepted);
+}
+
 function filter(items, state) {
   const {
     selectedFilterKey,
     filters,
     customFilters,
-    filterPredicates
+    filterPredicates,
+    queryFilters = []
   } = state;
 
-  if (!selectedFilterKey) {
+  if (!selectedFilterKey && !queryFilters.length) {
     return items;
   }
 
-  const selectedFilters = findSelectedFilters(selectedFilterKey, filters, customFilters);
+  const selectedFilters = [
+    ...findSelectedFilters(selectedFilterKey, filters, customFilters),
+    ...queryFilters
+  ];
 
   return _.filter(items, (item) => {
-    let i = 0;
-    let accepted = true;
-
-    while (accepted && i < selectedFilters.length) {
-      const {
-        key,
-        value,
-        type = filterTypes.EQUAL
-      } = selectedFilters[i];
-
-      if (filterPredicates && filterPredicates.hasOwnProperty(key)) {
-        const predicate = filterPredicates[key];
-
-        if (Array.isArray(value)) {
-          if (
-            type === filterTypes.NOT_CONTAINS ||
-            type === filterTypes.NOT_EQUAL
-          ) {
-            accepted = value.every((v) => predicate(item, v, type));
-          } else {
-            accepted = value.some((v) => predicate(item, v, type));
-          }
-        } else {
-          accepted = predicate(item, value, type);
-        }
-      } else if (item.hasOwnProperty(key)) {
-        const predicate = filterTypePredicates[type];
-
-        if (Array.isArray(value)) {
-          if (
-            type === filterTypes.NOT_CONTAINS ||
-            type === filterTypes.NOT_EQUAL
-          ) {
-            accepted = value.every((v) => predicate(item[key], v));
-          } else {
-            accepted = value.some((v) => predicate(item[key], v));
-          }
-        } else {
-          accepted = predicate(item[key], value);
-        }
-      } else {
-        // Default to false if the filter can't be tested
-        accepted = false;
-      }
-
-      i++;
-    }
-
-    return accepted;
+    return isGroupAccepted(item, selectedFilters, filterGroupTypes.AND, filterPredicates);
   });
 }
 
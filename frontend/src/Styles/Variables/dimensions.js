@@ -49,5 +49,6 @@ module.exports = {
   // Series
   seriesIndexColumnPadding: '10px',
   seriesIndexColumnPaddingSmallScreen: '5px',
-  seriesIndexOverviewInfoRowHeight: '21px'
+  seriesIndexOverviewInfoRowHeight: '21px',
+  seriesIndexGroupHeaderHeight: '46px'
 };
@@ -0,0 +1,7 @@
+import { FilterCondition, FilterGroup } from 'App/State/AppState';
+
+function isFilterGroup(filter: FilterCondition): filter is FilterGroup {
+  return filter.hasOwnProperty('groupType');
+}
+
+export default isFilterGroup;
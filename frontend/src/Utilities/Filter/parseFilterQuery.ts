@@ -0,0 +1,325 @@
+import moment from 'moment';
+import {
+  DateFilterValue,
+  FilterBuilderProp,
+  PropertyFilter,
+} from 'App/State/AppState';
+import { Tag } from 'App/State/TagsAppState';
+import {
+  filterBuilderTypes,
+  filterBuilderValueTypes,
+  filterTypes,
+} from 'Helpers/Props';
+import QualityProfile from 'typings/QualityProfile';
+import convertToBytes from 'Utilities/Number/convertToBytes';
+import translate from 'Utilities/String/translate';
+
+export interface FilterQueryOptions {
+  tags: Tag[];
+  qualityProfiles: QualityProfile[];
+}
+
+export interface FilterQueryResult {
+  filters: PropertyFilter[];
+  errors: string[];
+}
+
+type FilterValue = boolean | string | number;
+
+const TOKEN_REGEX = /(?:[^\s"]+|"[^"]*")+/g;
+const TERM_REGEX = /^(-?)([a-z][\w.]*)(?:(>=|<=|!=|:|=|>|<)(.*))?$/i;
+const BYTES_REGEX = /^(\d+(?:\.\d+)?)\s*([kmgt])?(i?b)?$/i;
+const DURATION_REGEX = /^(last|next)(\d+)([hdwm])$/i;
+
+const bytePowers: Record<string, number> = {
+  k: 1,
+  m: 2,
+  g: 3,
+  t: 4,
+};
+
+const durationUnits: Record<string, string> = {
+  h: 'hours',
+  d: 'days',
+  w: 'weeks',
+  m: 'months',
+};
+
+const negatedFilterTypes: Record<string, string> = {
+  [filterTypes.CONTAINS]: filterTypes.NOT_CONTAINS,
+  [filterTypes.EQUAL]: filterTypes.NOT_EQUAL,
+  [filterTypes.GREATER_THAN]: filterTypes.LESS_THAN_OR_EQUAL,
+  [filterTypes.GREATER_THAN_OR_EQUAL]: filterTypes.LESS_THAN,
+  [filterTypes.LESS_THAN]: filterTypes.GREATER_THAN_OR_EQUAL,
+  [filterTypes.LESS_THAN_OR_EQUAL]: filterTypes.GREATER_THAN,
+};
+
+// Date filters only support before/after and relative ranges, so negated
+// comparisons have to map onto those rather than the inclusive number types.
+const negatedDateFilterTypes: Record<string, string> = {
+  [filterTypes.GREATER_THAN]: filterTypes.LESS_THAN,
+  [filterTypes.LESS_THAN]: filterTypes.GREATER_THAN,
+  [filterTypes.IN_LAST]: filterTypes.NOT_IN_LAST,
+  [filterTypes.IN_NEXT]: filterTypes.NOT_IN_NEXT,
+};
+
+function normalize(value: string) {
+  return value.replace(/\s/g, '').toLowerCase();
+}
+
+function unquote(value: string) {
+  return value.replace(/"/g, '');
+}
+
+function translateLabel<T>(prop: FilterBuilderProp<T>) {
+  const label = prop.label as string | (() => string);
+
+  return typeof label === 'function' ? label() : label;
+}
+
+export function findFilterQueryProp<T>(
+  filterBuilderProps: FilterBuilderProp<T>[],
+  key: string
+) {
+  const normalizedKey = normalize(key);
+
+  // Match on the name or label and allow the singular form of array
+  // properties, for example `tag:4k` or `genre:drama`.
+  return filterBuilderProps.find((prop) => {
+    const names = [normalize(prop.name), normalize(translateLabel(prop))];
+
+    return names.some((name) => {
+      return (
+        name === normalizedKey ||
+        (prop.type === filterBuilderTypes.ARRAY && name === `${normalizedKey}s`)
+      );
+    });
+  });
+}
+
+function getFilterType(operator: string, builderType: string) {
+  switch (builderType) {
+    case filterBuilderTypes.ARRAY:
+    case filterBuilderTypes.CONTAINS:
+      return operator === ':' || operator === '=' ? filterTypes.CONTAINS : null;
+    case filterBuilderTypes.STRING:
+      if (operator === ':') {
+        return filterTypes.CONTAINS;
+      }
+
+      return operator === '=' ? filterTypes.EQUAL : null;
+    case filterBuilderTypes.NUMBER:
+      switch (operator) {
+        case ':':
+        case '=':
+          return filterTypes.EQUAL;
+        case '>':
+          return filterTypes.GREATER_THAN;
+        case '>=':
+          return filterTypes.GREATER_THAN_OR_EQUAL;
+        case '<':
+          return filterTypes.LESS_THAN;
+        case '<=':
+          return filterTypes.LESS_THAN_OR_EQUAL;
+        default:
+          return null;
+      }
+    case filterBuilderTypes.DATE:
+      if (operator === '>') {
+        return filterTypes.GREATER_THAN;
+      }
+
+      return operator === '<' ? filterTypes.LESS_THAN : null;
+    default:
+      return operator === ':' || operator === '=' ? filterTypes.EQUAL : null;
+  }
+}
+
+function parseValue<T>(
+  value: string,
+  prop: FilterBuilderProp<T>,
+  options: FilterQueryOptions
+): FilterValue | undefined {
+  const lowerCaseValue = value.toLowerCase();
+
+  switch (prop.valueType) {
+    case filterBuilderValueTypes.BOOL:
+      if (lowerCaseValue === 'true' || lowerCaseValue === 'yes') {
+        return true;
+      }
+
+      return lowerCaseValue === 'false' || lowerCaseValue === 'no'
+        ? false
+        : undefined;
+    case filterBuilderValueTypes.BYTES: {
+      const match = value.match(BYTES_REGEX);
+
+      if (!match) {
+        return undefined;
+      }
+
+      const [, size, unit] = match;
+
+      return unit
+        ? convertToBytes(size, bytePowers[unit.toLowerCase()], true)
+        : parseInt(size);
+    }
+    case filterBuilderValueTypes.QUALITY_PROFILE:
+      return options.qualityProfiles.find((p) => {
+        return p.name.toLowerCase() === lowerCaseValue || `${p.id}` === value;
+      })?.id;
+    case filterBuilderValueTypes.TAG:
+      return options.tags.find((t) => {
+        return t.label.toLowerCase() === lowerCaseValue;
+      })?.id;
+    case filterBuilderValueTypes.SERIES_STATUS:
+    case filterBuilderValueTypes.SERIES_TYPES:
+      return lowerCaseValue;
+    default:
+      if (prop.type === filterBuilderTypes.NUMBER) {
+        const number = parseFloat(value);
+
+        return isNaN(number) ? undefined : number;
+      }
+
+      return value;
+  }
+}
+
+function parseDateValue(
+  value: string,
+  operator: string
+): { type: string; value: string | DateFilterValue } | undefined {
+  const durationMatch = value.match(DURATION_REGEX);
+
+  if (durationMatch && operator === ':') {
+    const [, direction, amount, unit] = durationMatch;
+
+    return {
+      type:
+        direction.toLowerCase() === 'last'
+          ? filterTypes.IN_LAST
+          : filterTypes.IN_NEXT,
+      value: {
+        time: durationUnits[unit.toLowerCase()],
+        value: parseInt(amount),
+      },
+    };
+  }
+
+  const type = getFilterType(operator, filterBuilderTypes.DATE);
+  const date = moment(value, 'YYYY-MM-DD', true);
+
+  if (!type || !date.isValid()) {
+    return undefined;
+  }
+
+  return { type, value };
+}
+
+function parseFilterQuery<T>(
+  query: string,
+  filterBuilderProps: FilterBuilderProp<T>[],
+  options: FilterQueryOptions
+): FilterQueryResult {
+  const filters: PropertyFilter[] = [];
+  const errors: string[] = [];
+  const terms = query.match(TOKEN_REGEX) ?? [];
+
+  terms.forEach((term) => {
+    const match = term.match(TERM_REGEX);
+
+    if (!match) {
+      errors.push(translate('FilterQueryInvalidTerm', { term }));
+      return;
+    }
+
+    const [, negate, key, operator, rawValue] = match;
+    const isNegated = negate === '-';
+    const prop = findFilterQueryProp(filterBuilderProps, key);
+
+    if (!prop) {
+      errors.push(translate('FilterQueryUnknownKey', { key }));
+      return;
+    }
+
+    // A bare boolean key such as `monitored` or `-monitored`
+    if (!operator) {
+      if (prop.valueType === filterBuilderValueTypes.BOOL) {
+        filters.push({
+          key: prop.name,
+          value: [!isNegated],
+          type: filterTypes.EQUAL,
+        });
+      } else {
+        errors.push(translate('FilterQueryMissingValue', { key }));
+      }
+
+      return;
+    }
+
+    if (!rawValue) {
+      errors.push(translate('FilterQueryMissingValue', { key }));
+      return;
+    }
+
+    if (prop.type === filterBuilderTypes.DATE) {
+      const result = parseDateValue(unquote(rawValue), operator);
+
+      if (!result) {
+        errors.push(
+          translate('FilterQueryInvalidValue', { key, value: rawValue })
+        );
+        return;
+      }
+
+      filters.push({
+        key: prop.name,
+        value: result.value,
+        type: isNegated ? negatedDateFilterTypes[result.type] : result.type,
+      });
+
+      return;
+    }
+
+    const filterType =
+      operator === '!='
+        ? getFilterType('=', prop.type)
+        : getFilterType(operator, prop.type);
+
+    if (!filterType) {
+      errors.push(translate('FilterQueryInvalidOperator', { key, operator }));
+      return;
+    }
+
+    // Quoted values are kept whole, otherwise commas separate multiple values
+    const rawValues = rawValue.startsWith('"')
+      ? [unquote(rawValue)]
+      : rawValue.split(',').filter((v) => !!v);
+
+    const values = rawValues.map((v) => parseValue(v, prop, options));
+    const invalidIndex = values.findIndex((v) => v === undefined);
+
+    if (invalidIndex > -1) {
+      errors.push(
+        translate('FilterQueryInvalidValue', {
+          key,
+          value: rawValues[invalidIndex],
+        })
+      );
+      return;
+    }
+
+    const shouldNegate = isNegated !== (operator === '!=');
+
+    filters.push({
+      key: prop.name,
+      value: values as PropertyFilter['value'],
+      type: shouldNegate ? negatedFilterTypes[filterType] : filterType,
+    });
+  });
+
+  return { filters, errors };
+}
+
+export default parseFilterQuery;
@@ -0,0 +1,41 @@
+import { FilterCondition, FilterGroupType } from 'App/State/AppState';
+import isFilterGroup from './isFilterGroup';
+
+interface SerializedFilter {
+  key: string;
+  value: string;
+  type: string;
+}
+
+interface SerializedFilterGroup {
+  groupType: FilterGroupType;
+  filters: (SerializedFilter | SerializedFilterGroup)[];
+}
+
+type SerializedFilterCondition = SerializedFilter | SerializedFilterGroup;
+
+// Server side collections accept a single value per filter, multiple values
+// are comma separated and match any of them.
+
+function serializeFilterConditions(
+  filters: FilterCondition[]
+): SerializedFilterCondition[] {
+  return filters.map((filter) => {
+    if (isFilterGroup(filter)) {
+      return {
+        groupType: filter.groupType,
+        filters: serializeFilterConditions(filter.filters),
+      };
+    }
+
+    const { key, value, type } = filter;
+
+    return {
+      key,
+      value: Array.isArray(value) ? value.join(',') : String(value),
+      type,
+    };
+  });
+}
+
+export default serializeFilterConditions;
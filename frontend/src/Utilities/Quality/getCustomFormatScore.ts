@@ -0,0 +1,19 @@
+import CustomFormat, { QualityProfileFormatItem } from 'typings/CustomFormat';
+
+export function getCustomFormatItemScore(
+  formatItems: QualityProfileFormatItem[],
+  customFormatId: number
+) {
+  return formatItems.find((f) => f.format === customFormatId)?.score ?? 0;
+}
+
+function getCustomFormatScore(
+  formatItems: QualityProfileFormatItem[],
+  customFormats: CustomFormat[] = []
+) {
+  return customFormats.reduce((acc, customFormat) => {
+    return acc + getCustomFormatItemScore(formatItems, customFormat.id);
+  }, 0);
+}
+
+export default getCustomFormatScore;
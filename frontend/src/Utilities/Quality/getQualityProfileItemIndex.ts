@@ -0,0 +1,36 @@
+import { QualityProfileQualityItem } from 'typings/QualityProfile';
+
+// Profile items are ordered from lowest to highest, qualities within a group
+// share the index of the group they belong to.
+function getQualityProfileItemIndex(
+  items: QualityProfileQualityItem[],
+  qualityId: number
+) {
+  return items.findIndex((item) => {
+    if (item.quality) {
+      return item.quality.id === qualityId;
+    }
+
+    return item.items.some((i) => i.quality?.id === qualityId);
+  });
+}
+
+export function getQualityProfileCutoffIndex(
+  items: QualityProfileQualityItem[],
+  cutoff: number
+) {
+  return items.findIndex((item) => {
+    return (item.quality ? item.quality.id : item.id) === cutoff;
+  });
+}
+
+export function isQualityAllowed(
+  items: QualityProfileQualityItem[],
+  qualityId: number
+) {
+  const index = getQualityProfileItemIndex(items, qualityId);
+
+  return index > -1 && items[index].allowed;
+}
+
+export default getQualityProfileItemIndex;
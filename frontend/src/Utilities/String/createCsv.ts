@@ -0,0 +1,23 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+function escapeCsvValue(value: CsvValue) {
+  if (value == null) {
+    return '';
+  }
+
+  const stringValue = String(value);
+
+  if (/[",\r\n]/.test(stringValue)) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+
+  return stringValue;
+}
+
+function createCsv(headers: string[], rows: CsvValue[][]) {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+}
+
+export default createCsv;
@@ -1,6 +1,7 @@
 import PropTypes from 'prop-types';
 import React, { Component } from 'react';
 import Alert from 'Components/Alert';
+import Link from 'Components/Link/Link';
 import LoadingIndicator from 'Components/Loading/LoadingIndicator';
 import FilterMenu from 'Components/Menu/FilterMenu';
 import ConfirmModal from 'Components/Modal/ConfirmModal';
@@ -16,6 +17,7 @@ import TablePager from 'Components/Table/TablePager';
 import { align, icons, kinds } from 'Helpers/Props';
 import getFilterValue from 'Utilities/Filter/getFilterValue';
 import hasDifferentItems from 'Utilities/Object/hasDifferentItems';
+import translate from 'Utilities/String/translate';
 import getSelectedIds from 'Utilities/Table/getSelectedIds';
 import removeOldSelectedState from 'Utilities/Table/removeOldSelectedState';
 import selectAll from 'Utilities/Table/selectAll';
@@ -130,6 +132,7 @@ class CutoffUnmet extends Component {
       filters,
       columns,
       totalRecords,
+      qualityProfileName,
       isSearchingForCutoffUnmetEpisodes,
       isSaving,
       onFilterSelect,
@@ -170,7 +173,7 @@ class CutoffUnmet extends Component {
             <PageToolbarButton
               label="Search All"
               iconName={icons.SEARCH}
-              isDisabled={!items.length}
+              isDisabled={!items.length || !!qualityProfileName}
               isSpinning={isSearchingForCutoffUnmetEpisodes}
               onPress={this.onSearchAllCutoffUnmetPress}
             />
@@ -190,6 +193,19 @@ class CutoffUnmet extends Component {
         </PageToolbar>
 
         <PageContentBody>
+          {
+            !!qualityProfileName &&
+              <Alert kind={kinds.INFO}>
+                {translate('CutoffUnmetQualityProfileFilter', { qualityProfile: qualityProfileName })}
+
+                {' '}
+
+                <Link to="/wanted/cutoffunmet">
+                  {translate('ShowAll')}
+                </Link>
+              </Alert>
+          }
+
           {
             isFetching && !isPopulated &&
               <LoadingIndicator />
@@ -278,6 +294,7 @@ CutoffUnmet.propTypes = {
   filters: PropTypes.arrayOf(PropTypes.object).isRequired,
   columns: PropTypes.arrayOf(PropTypes.object).isRequired,
   totalRecords: PropTypes.number,
+  qualityProfileName: PropTypes.string,
   isSearchingForCutoffUnmetEpisodes: PropTypes.bool.isRequired,
   isSaving: PropTypes.bool.isRequired,
   onFilterSelect: PropTypes.func.isRequired,
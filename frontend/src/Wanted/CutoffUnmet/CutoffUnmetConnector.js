@@ -12,15 +12,24 @@ import createCommandExecutingSelector from 'Store/Selectors/createCommandExecuti
 import hasDifferentItems from 'Utilities/Object/hasDifferentItems';
 import selectUniqueIds from 'Utilities/Object/selectUniqueIds';
 import { registerPagePopulator, unregisterPagePopulator } from 'Utilities/pagePopulator';
+import parseUrl from 'Utilities/String/parseUrl';
 import CutoffUnmet from './CutoffUnmet';
 
 function createMapStateToProps() {
   return createSelector(
     (state) => state.wanted.cutoffUnmet,
+    (state) => state.settings.qualityProfiles.items,
+    (state, { location }) => location,
     createCommandExecutingSelector(commandNames.CUTOFF_UNMET_EPISODE_SEARCH),
-    (cutoffUnmet, isSearchingForCutoffUnmetEpisodes) => {
+    (cutoffUnmet, qualityProfiles, location, isSearchingForCutoffUnmetEpisodes) => {
+      const { params } = parseUrl(location.search);
+      const qualityProfile = params.qualityProfileId ?
+        qualityProfiles.find((p) => p.id === parseInt(params.qualityProfileId)) :
+        undefined;
+
       return {
         isSearchingForCutoffUnmetEpisodes,
+        qualityProfileName: qualityProfile?.name,
         isSaving: cutoffUnmet.items.filter((m) => m.isSaving).length > 1,
         ...cutoffUnmet
       };
@@ -59,6 +68,10 @@ class CutoffUnmetConnector extends Component {
   }
 
   componentDidUpdate(prevProps) {
+    if (prevProps.location.search !== this.props.location.search) {
+      this.props.gotoCutoffUnmetFirstPage();
+    }
+
     if (hasDifferentItems(prevProps.items, this.props.items)) {
       const episodeIds = selectUniqueIds(this.props.items, 'id');
       const episodeFileIds = selectUniqueIds(this.props.items, 'episodeFileId');
@@ -161,6 +174,7 @@ class CutoffUnmetConnector extends Component {
 }
 
 CutoffUnmetConnector.propTypes = {
+  location: PropTypes.object.isRequired,
   useCurrentPage: PropTypes.bool.isRequired,
   items: PropTypes.arrayOf(PropTypes.object).isRequired,
   fetchCutoffUnmet: PropTypes.func.isRequired,
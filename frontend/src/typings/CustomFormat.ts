@@ -4,9 +4,38 @@ export interface QualityProfileFormatItem {
   score: number;
 }
 
+export interface FieldSelectOption {
+  value: number;
+  name: string;
+}
+
+export interface Field {
+  order: number;
+  name: string;
+  label: string;
+  value: boolean | number | string;
+  type: string;
+  advanced: boolean;
+  privacy: string;
+  selectOptions?: FieldSelectOption[];
+}
+
+export interface CustomFormatSpecification {
+  id: number;
+  name: string;
+  implementation: string;
+  implementationName: string;
+  negate: boolean;
+  required: boolean;
+  infoLink?: string;
+  fields: Field[];
+}
+
 interface CustomFormat {
   id: number;
   name: string;
+  includeCustomFormatWhenRenaming?: boolean;
+  specifications?: CustomFormatSpecification[];
 }
 
 export default CustomFormat;
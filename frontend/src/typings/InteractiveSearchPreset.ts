@@ -0,0 +1,14 @@
+import { SeriesType } from 'Series/Series';
+
+interface InteractiveSearchPreset {
+  id: number;
+  name: string;
+  seriesType: SeriesType | null;
+  tags: number[];
+  sortKey: string;
+  sortDirection: string;
+  selectedFilterKey: string | number;
+  columns: string[];
+}
+
+export default InteractiveSearchPreset;
@@ -0,0 +1,12 @@
+export interface NamingSettings {
+  renameEpisodes: boolean;
+  replaceIllegalCharacters: boolean;
+  colonReplacementFormat: number;
+  multiEpisodeStyle: number;
+  standardEpisodeFormat: string;
+  dailyEpisodeFormat: string;
+  animeEpisodeFormat: string;
+  seriesFolderFormat: string;
+  seasonFolderFormat: string;
+  specialsFolderFormat: string;
+}
@@ -20,4 +20,11 @@ interface QualityProfile {
   id: number;
 }
 
+export type QualityProfileValues = Omit<QualityProfile, 'id'>;
+
+export interface QualityProfileSnapshot extends QualityProfileValues {
+  id: number;
+  time: string | null;
+}
+
 export default QualityProfile;
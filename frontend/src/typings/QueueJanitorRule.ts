@@ -0,0 +1,15 @@
+export type QueueJanitorRuleStatus = 'warning' | 'error' | 'any';
+
+interface QueueJanitorRule {
+  id: number;
+  name: string;
+  enable: boolean;
+  trackedDownloadStatus: QueueJanitorRuleStatus;
+  messagePattern: string;
+  minimumHours: number;
+  removeFromClient: boolean;
+  blocklist: boolean;
+  searchAgain: boolean;
+}
+
+export default QueueJanitorRule;
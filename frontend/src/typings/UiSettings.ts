@@ -2,5 +2,6 @@ export interface UiSettings {
   showRelativeDates: boolean;
   shortDateFormat: string;
   longDateFormat: string;
+  calendarWeekColumnHeader: string;
   timeFormat: string;
 }
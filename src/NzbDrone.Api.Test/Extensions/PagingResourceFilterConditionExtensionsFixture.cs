@@ -0,0 +1,200 @@
+﻿using System;
+using System.Collections.Generic;
+using System.Linq;
+using System.Linq.Expressions;
+using FluentAssertions;
+using Microsoft.AspNetCore.Http;
+using NUnit.Framework;
+using NzbDrone.Test.Common;
+using Sonarr.Http;
+using Sonarr.Http.Extensions;
+using Sonarr.Http.REST;
+
+namespace NzbDrone.Api.Test.Extensions
+{
+    [TestFixture]
+    public class PagingResourceFilterConditionExtensionsFixture : TestBase
+    {
+        private List<TestModel> _models;
+
+        [SetUp]
+        public void Setup()
+        {
+            _models = new List<TestModel>
+            {
+                new TestModel { SeriesId = 1, DownloadId = "a" },
+                new TestModel { SeriesId = 2, DownloadId = "b" },
+                new TestModel { SeriesId = 3, DownloadId = "a" }
+            };
+        }
+
+        private static Expression<Func<TestModel, bool>> GetFilterExpression(string key, string value)
+        {
+            switch (key)
+            {
+                case "seriesId":
+                    var seriesId = PagingResourceFilterConditionExtensions.ParseIntFilterValue(key, value);
+                    return m => m.SeriesId == seriesId;
+                case "downloadId":
+                    return m => m.DownloadId == value;
+                default:
+                    return null;
+            }
+        }
+
+        private static PagingResourceFilterCondition Condition(string key, string value)
+        {
+            return new PagingResourceFilterCondition { Key = key, Value = value };
+        }
+
+        private static PagingResourceFilterCondition Group(PagingResourceFilterGroupType groupType, params PagingResourceFilterCondition[] filters)
+        {
+            return new PagingResourceFilterCondition { GroupType = groupType, Filters = filters.ToList() };
+        }
+
+        private List<int> Apply(List<PagingResourceFilterCondition> conditions)
+        {
+            var expression = conditions.ToFilterExpression<TestModel>(GetFilterExpression);
+
+            return _models.Where(expression.Compile()).Select(m => m.SeriesId).ToList();
+        }
+
+        private static PagingResource<TestModel> ReadPagingResource(string filters)
+        {
+            var context = new DefaultHttpContext();
+            context.Request.QueryString = QueryString.Create("filters", filters);
+
+            return context.Request.ReadPagingResourceFromRequest<TestModel>();
+        }
+
+        [Test]
+        public void should_return_null_without_conditions()
+        {
+            ((List<PagingResourceFilterCondition>)null).ToFilterExpression<TestModel>(GetFilterExpression).Should().BeNull();
+            new List<PagingResourceFilterCondition>().ToFilterExpression<TestModel>(GetFilterExpression).Should().BeNull();
+        }
+
+        [Test]
+        public void should_and_top_level_conditions()
+        {
+            Apply(new List<PagingResourceFilterCondition>
+            {
+                Condition("downloadId", "a"),
+                Condition("seriesId", "3")
+            }).Should().BeEquivalentTo(new[] { 3 });
+        }
+
+        [Test]
+        public void should_or_conditions_in_or_group()
+        {
+            Apply(new List<PagingResourceFilterCondition>
+            {
+                Group(PagingResourceFilterGroupType.Or, Condition("seriesId", "1"), Condition("downloadId", "b"))
+            }).Should().BeEquivalentTo(new[] { 1, 2 });
+        }
+
+        [Test]
+        public void should_and_repeated_keys()
+        {
+            Apply(new List<PagingResourceFilterCondition>
+            {
+                Condition("seriesId", "1"),
+                Condition("seriesId", "2")
+            }).Should().BeEmpty();
+        }
+
+        [Test]
+        public void should_match_any_comma_separated_value()
+        {
+            Apply(new List<PagingResourceFilterCondition>
+            {
+                Condition("seriesId", "1,3")
+            }).Should().BeEquivalentTo(new[] { 1, 3 });
+        }
+
+        [Test]
+        public void should_ignore_empty_group_in_and_group()
+        {
+            Apply(new List<PagingResourceFilterCondition>
+            {
+                Group(PagingResourceFilterGroupType.And),
+                Condition("seriesId", "2")
+            }).Should().BeEquivalentTo(new[] { 2 });
+        }
+
+        [Test]
+        public void should_match_everything_for_empty_group_in_or_group()
+        {
+            new List<PagingResourceFilterCondition>
+            {
+                Group(PagingResourceFilterGroupType.Or, Group(PagingResourceFilterGroupType.And), Condition("seriesId", "2"))
+            }.ToFilterExpression<TestModel>(GetFilterExpression).Should().BeNull();
+        }
+
+        [TestCase(null, "1")]
+        [TestCase("", "1")]
+        [TestCase("unknown", "1")]
+        [TestCase("seriesId", "one")]
+        [TestCase("seriesId", "")]
+        public void should_reject_invalid_condition(string key, string value)
+        {
+            Assert.Throws<BadRequestException>(() => Apply(new List<PagingResourceFilterCondition> { Condition(key, value) }));
+        }
+
+        [Test]
+        public void should_reject_unsupported_filter_type()
+        {
+            var condition = Condition("seriesId", "1");
+            condition.Type = "contains";
+
+            Assert.Throws<BadRequestException>(() => Apply(new List<PagingResourceFilterCondition> { condition }));
+        }
+
+        [Test]
+        public void should_reject_null_condition()
+        {
+            Assert.Throws<BadRequestException>(() => Apply(new List<PagingResourceFilterCondition> { null }));
+        }
+
+        [Test]
+        public void should_parse_enum_filter_value()
+        {
+            PagingResourceFilterConditionExtensions.ParseEnumFilterValue<PagingResourceFilterGroupType>("groupType", "or").Should().Be(PagingResourceFilterGroupType.Or);
+            PagingResourceFilterConditionExtensions.ParseEnumFilterValue<PagingResourceFilterGroupType>("groupType", "1").Should().Be(PagingResourceFilterGroupType.Or);
+        }
+
+        [TestCase("nand")]
+        [TestCase("5")]
+        [TestCase("")]
+        public void should_reject_invalid_enum_filter_value(string value)
+        {
+            Assert.Throws<BadRequestException>(() => PagingResourceFilterConditionExtensions.ParseEnumFilterValue<PagingResourceFilterGroupType>("groupType", value));
+        }
+
+        [Test]
+        public void should_read_filters_param_from_request()
+        {
+            var pagingResource = ReadPagingResource("[{\"groupType\":\"or\",\"filters\":[{\"key\":\"seriesId\",\"value\":\"1\"},{\"key\":\"seriesId\",\"value\":\"2\"}]},{\"key\":\"downloadId\",\"value\":\"a\"}]");
+
+            pagingResource.Filters.Should().BeEmpty();
+            pagingResource.FilterConditions.Should().HaveCount(2);
+            pagingResource.FilterConditions[0].GroupType.Should().Be(PagingResourceFilterGroupType.Or);
+            pagingResource.FilterConditions[0].Filters.Should().HaveCount(2);
+
+            Apply(pagingResource.FilterConditions).Should().BeEquivalentTo(new[] { 1 });
+        }
+
+        [TestCase("not json")]
+        [TestCase("{\"key\":\"seriesId\"}")]
+        public void should_reject_invalid_filters_param(string filters)
+        {
+            Assert.Throws<NzbDrone.Core.Exceptions.BadRequestException>(() => ReadPagingResource(filters));
+        }
+
+        public class TestModel
+        {
+            public int SeriesId { get; set; }
+            public string DownloadId { get; set; }
+        }
+    }
+}
@@ -1,3 +1,4 @@
+using System;
 using System.Collections.Generic;
 using System.Linq;
 using FluentAssertions;
@@ -326,5 +327,80 @@ public void should_not_throw_when_processing_deleted_series()
             trackedDownloads.Should().HaveCount(1);
             trackedDownloads.First().RemoteEpisode.Should().BeNull();
         }
+
+        [Test]
+        public void should_keep_status_change_time_when_tracking_a_download_with_a_warning_again()
+        {
+            Mocker.GetMock<IHistoryService>()
+                  .Setup(s => s.FindByDownloadId(It.IsAny<string>()))
+                  .Returns(new List<EpisodeHistory>());
+
+            var client = new DownloadClientDefinition()
+            {
+                Id = 1,
+                Protocol = DownloadProtocol.Torrent
+            };
+
+            var item = new DownloadClientItem()
+            {
+                Title = "TV Series - S01E01",
+                DownloadId = "12345",
+                DownloadClientInfo = new DownloadClientItemClientInfo
+                {
+                    Id = 1,
+                    Type = "Blackhole",
+                    Name = "Blackhole Client",
+                    Protocol = DownloadProtocol.Torrent
+                }
+            };
+
+            var statusChangeTime = DateTime.UtcNow.AddHours(-6);
+            var existingItem = Subject.TrackDownload(client, item);
+
+            existingItem.Warn("Warning");
+            existingItem.StatusChangeTime = statusChangeTime;
+
+            var trackedDownload = Subject.TrackDownload(client, item);
+
+            trackedDownload.Should().NotBeSameAs(existingItem);
+            trackedDownload.StatusChangeTime.Should().Be(statusChangeTime);
+
+            trackedDownload.Warn("Warning");
+            trackedDownload.StatusChangeTime.Should().Be(statusChangeTime);
+        }
+
+        [Test]
+        public void should_not_keep_status_change_time_when_existing_download_has_no_warning()
+        {
+            Mocker.GetMock<IHistoryService>()
+                  .Setup(s => s.FindByDownloadId(It.IsAny<string>()))
+                  .Returns(new List<EpisodeHistory>());
+
+            var client = new DownloadClientDefinition()
+            {
+                Id = 1,
+                Protocol = DownloadProtocol.Torrent
+            };
+
+            var item = new DownloadClientItem()
+            {
+                Title = "TV Series - S01E01",
+                DownloadId = "12345",
+                DownloadClientInfo = new DownloadClientItemClientInfo
+                {
+                    Id = 1,
+                    Type = "Blackhole",
+                    Name = "Blackhole Client",
+                    Protocol = DownloadProtocol.Torrent
+                }
+            };
+
+            var existingItem = Subject.TrackDownload(client, item);
+            existingItem.StatusChangeTime = DateTime.UtcNow.AddHours(-6);
+
+            var trackedDownload = Subject.TrackDownload(client, item);
+
+            trackedDownload.StatusChangeTime.Should().BeNull();
+        }
     }
 }
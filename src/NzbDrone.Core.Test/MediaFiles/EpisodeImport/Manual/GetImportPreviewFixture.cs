@@ -0,0 +1,252 @@
+using System.Collections.Generic;
+using System.IO;
+using System.Linq;
+using FizzWare.NBuilder;
+using FluentAssertions;
+using Moq;
+using NUnit.Framework;
+using NzbDrone.Common.Disk;
+using NzbDrone.Core.CustomFormats;
+using NzbDrone.Core.Datastore;
+using NzbDrone.Core.Languages;
+using NzbDrone.Core.Localization;
+using NzbDrone.Core.MediaFiles;
+using NzbDrone.Core.MediaFiles.EpisodeImport.Manual;
+using NzbDrone.Core.MediaFiles.MediaInfo;
+using NzbDrone.Core.Organizer;
+using NzbDrone.Core.Qualities;
+using NzbDrone.Core.Test.Framework;
+using NzbDrone.Core.Tv;
+using NzbDrone.Test.Common;
+
+namespace NzbDrone.Core.Test.MediaFiles.EpisodeImport.Manual
+{
+    [TestFixture]
+    public class GetImportPreviewFixture : CoreTest<ManualImportService>
+    {
+        private Series _series;
+        private List<Episode> _episodes;
+        private string _path;
+        private string _destinationPath;
+
+        [SetUp]
+        public void Setup()
+        {
+            _series = Builder<Series>.CreateNew()
+                                     .With(s => s.Id = 1)
+                                     .With(s => s.Path = @"C:\Test\TV\Series Title".AsOsAgnostic())
+                                     .Build();
+
+            _episodes = Builder<Episode>.CreateListOfSize(1)
+                                        .All()
+                                        .With(e => e.SeriesId = _series.Id)
+                                        .With(e => e.SeasonNumber = 1)
+                                        .With(e => e.EpisodeFileId = 0)
+                                        .Build()
+                                        .ToList();
+
+            _path = @"C:\Test\Unsorted\Series.Title.S01E01.720p.HDTV.x264-Sonarr.mkv".AsOsAgnostic();
+            _destinationPath = @"C:\Test\TV\Series Title\Season 01\Series Title - S01E01.mkv".AsOsAgnostic();
+
+            Mocker.GetMock<ISeriesService>()
+                  .Setup(s => s.GetSeries(_series.Id))
+                  .Returns(_series);
+
+            Mocker.GetMock<IEpisodeService>()
+                  .Setup(s => s.GetEpisodes(It.IsAny<IEnumerable<int>>()))
+                  .Returns(_episodes);
+
+            Mocker.GetMock<IDiskProvider>()
+                  .Setup(s => s.FileExists(_path))
+                  .Returns(true);
+
+            Mocker.GetMock<IBuildFileNames>()
+                  .Setup(s => s.BuildFilePath(It.IsAny<List<Episode>>(), It.IsAny<Series>(), It.IsAny<EpisodeFile>(), It.IsAny<string>(), null, It.IsAny<List<CustomFormat>>()))
+                  .Returns(_destinationPath);
+
+            Mocker.GetMock<ILocalizationService>()
+                  .Setup(s => s.GetLocalizedString(It.IsAny<string>()))
+                  .Returns<string>(phrase => phrase);
+        }
+
+        private ManualImportPreview GetImportPreview(QualityModel quality = null, string folderName = null)
+        {
+            return Subject.GetImportPreview(_path, _series.Id, new List<int> { 1 }, null, quality ?? new QualityModel(Quality.HDTV720p), new List<Language> { Language.English }, null, folderName);
+        }
+
+        private void GivenMediaInfoRequired()
+        {
+            Mocker.GetMock<IBuildFileNames>()
+                  .Setup(s => s.RequiresMediaInfo(It.IsAny<Series>(), It.IsAny<List<Episode>>()))
+                  .Returns(true);
+        }
+
+        [Test]
+        public void should_return_destination_path()
+        {
+            var preview = GetImportPreview();
+
+            preview.Path.Should().Be(_path);
+            preview.DestinationPath.Should().Be(_destinationPath);
+            preview.Error.Should().BeNull();
+        }
+
+        [Test]
+        public void should_return_error_if_series_does_not_exist()
+        {
+            Mocker.GetMock<ISeriesService>()
+                  .Setup(s => s.GetSeries(It.IsAny<int>()))
+                  .Throws(new ModelNotFoundException(typeof(Series), _series.Id));
+
+            var preview = GetImportPreview();
+
+            preview.DestinationPath.Should().BeNull();
+            preview.Error.Should().Be("ImportPreviewSeriesNotFound");
+        }
+
+        [Test]
+        public void should_return_error_if_episodes_are_not_selected()
+        {
+            Mocker.GetMock<IEpisodeService>()
+                  .Setup(s => s.GetEpisodes(It.IsAny<IEnumerable<int>>()))
+                  .Returns(new List<Episode>());
+
+            var preview = GetImportPreview();
+
+            preview.DestinationPath.Should().BeNull();
+            preview.Error.Should().Be("ImportPreviewEpisodesNotSelected");
+        }
+
+        [Test]
+        public void should_return_error_if_file_no_longer_exists()
+        {
+            Mocker.GetMock<IDiskProvider>()
+                  .Setup(s => s.FileExists(_path))
+                  .Returns(false);
+
+            var preview = GetImportPreview();
+
+            preview.DestinationPath.Should().BeNull();
+            preview.Error.Should().Be("ImportPreviewFileNotFound");
+
+            Mocker.GetMock<IDiskProvider>()
+                  .Verify(v => v.GetFileSize(It.IsAny<string>()), Times.Never());
+        }
+
+        [Test]
+        public void should_parse_quality_if_quality_is_not_provided()
+        {
+            Subject.GetImportPreview(_path, _series.Id, new List<int> { 1 }, null, null, null, null, null);
+
+            Mocker.GetMock<IBuildFileNames>()
+                  .Verify(v => v.BuildFilePath(It.IsAny<List<Episode>>(), It.IsAny<Series>(), It.Is<EpisodeFile>(f => f.Quality.Quality == Quality.HDTV720p), It.IsAny<string>(), null, It.IsAny<List<CustomFormat>>()), Times.Once());
+        }
+
+        [Test]
+        public void should_set_scene_name_and_original_file_path_for_new_download()
+        {
+            GetImportPreview(folderName: "Unsorted");
+
+            Mocker.GetMock<IBuildFileNames>()
+                  .Verify(v => v.BuildFilePath(It.IsAny<List<Episode>>(), It.IsAny<Series>(), It.Is<EpisodeFile>(f => f.SceneName == "Series.Title.S01E01.720p.HDTV.x264-Sonarr" && f.OriginalFilePath == @"Unsorted\Series.Title.S01E01.720p.HDTV.x264-Sonarr.mkv".AsOsAgnostic()), It.IsAny<string>(), null, It.IsAny<List<CustomFormat>>()), Times.Once());
+        }
+
+        [Test]
+        public void should_not_set_scene_name_or_original_file_path_for_existing_file()
+        {
+            _path = @"C:\Test\TV\Series Title\Series.Title.S01E01.720p.HDTV.x264-Sonarr.mkv".AsOsAgnostic();
+
+            Mocker.GetMock<IDiskProvider>()
+                  .Setup(s => s.FileExists(_path))
+                  .Returns(true);
+
+            GetImportPreview(folderName: "Series Title");
+
+            Mocker.GetMock<IBuildFileNames>()
+                  .Verify(v => v.BuildFilePath(It.IsAny<List<Episode>>(), It.IsAny<Series>(), It.Is<EpisodeFile>(f => f.SceneName == null && f.OriginalFilePath == null), It.IsAny<string>(), null, It.IsAny<List<CustomFormat>>()), Times.Once());
+        }
+
+        [Test]
+        public void should_pass_custom_formats_to_file_name_builder()
+        {
+            var customFormats = new List<CustomFormat> { new CustomFormat("My Format") { Id = 1 } };
+
+            Mocker.GetMock<ICustomFormatCalculationService>()
+                  .Setup(s => s.ParseCustomFormat(It.IsAny<EpisodeFile>(), _series))
+                  .Returns(customFormats);
+
+            GetImportPreview();
+
+            Mocker.GetMock<IBuildFileNames>()
+                  .Verify(v => v.BuildFilePath(It.IsAny<List<Episode>>(), It.IsAny<Series>(), It.IsAny<EpisodeFile>(), It.IsAny<string>(), null, customFormats), Times.Once());
+        }
+
+        [Test]
+        public void should_not_read_media_info_if_naming_format_does_not_use_it()
+        {
+            GetImportPreview();
+
+            Mocker.GetMock<IVideoFileInfoReader>()
+                  .Verify(v => v.GetMediaInfo(It.IsAny<string>()), Times.Never());
+        }
+
+        [Test]
+        public void should_read_media_info_if_naming_format_uses_it()
+        {
+            GivenMediaInfoRequired();
+
+            GetImportPreview();
+
+            Mocker.GetMock<IVideoFileInfoReader>()
+                  .Verify(v => v.GetMediaInfo(_path), Times.Once());
+        }
+
+        [Test]
+        public void should_return_naming_error_if_destination_path_cannot_be_built()
+        {
+            Mocker.GetMock<IBuildFileNames>()
+                  .Setup(s => s.BuildFilePath(It.IsAny<List<Episode>>(), It.IsAny<Series>(), It.IsAny<EpisodeFile>(), It.IsAny<string>(), null, It.IsAny<List<CustomFormat>>()))
+                  .Throws(new NamingFormatException("Standard episode format cannot be empty"));
+
+            var preview = GetImportPreview();
+
+            preview.DestinationPath.Should().BeNull();
+            preview.Error.Should().Be("Standard episode format cannot be empty");
+
+            ExceptionVerification.ExpectedWarns(1);
+        }
+
+        [Test]
+        public void should_return_error_instead_of_throwing_if_preview_fails()
+        {
+            Mocker.GetMock<IDiskProvider>()
+                  .Setup(s => s.GetFileSize(_path))
+                  .Throws(new FileNotFoundException());
+
+            var preview = GetImportPreview();
+
+            preview.DestinationPath.Should().BeNull();
+            preview.Error.Should().Be("ImportPreviewFailed");
+
+            ExceptionVerification.ExpectedErrors(1);
+        }
+
+        [Test]
+        public void should_return_paths_of_existing_episode_files()
+        {
+            _episodes.ForEach(e => e.EpisodeFileId = 2);
+
+            Mocker.GetMock<IMediaFileService>()
+                  .Setup(s => s.Get(It.IsAny<IEnumerable<int>>()))
+                  .Returns(new List<EpisodeFile>
+                  {
+                      new EpisodeFile { Id = 2, RelativePath = "Season 01/Series Title - S01E01.avi".AsOsAgnostic() }
+                  });
+
+            var preview = GetImportPreview();
+
+            preview.ExistingFilePaths.Should().ContainSingle()
+                   .Which.Should().Be(Path.Combine(_series.Path, "Season 01/Series Title - S01E01.avi".AsOsAgnostic()));
+        }
+    }
+}
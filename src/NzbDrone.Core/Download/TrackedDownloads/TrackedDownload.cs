@@ -13,6 +13,7 @@ public class TrackedDownload
         public TrackedDownloadStatus Status { get; private set; }
         public RemoteEpisode RemoteEpisode { get; set; }
         public TrackedDownloadStatusMessage[] StatusMessages { get; private set; }
+        public DateTime? StatusChangeTime { get; set; }
         public DownloadProtocol Protocol { get; set; }
         public string Indexer { get; set; }
         public bool IsTrackable { get; set; }
@@ -33,6 +34,7 @@ public void Warn(params TrackedDownloadStatusMessage[] statusMessages)
         {
             Status = TrackedDownloadStatus.Warning;
             StatusMessages = statusMessages;
+            StatusChangeTime ??= DateTime.UtcNow;
         }
     }
 
@@ -104,7 +104,10 @@ public TrackedDownload TrackDownload(DownloadClientDefinition downloadClient, Do
                 DownloadItem = downloadItem,
                 Protocol = downloadClient.Protocol,
                 IsTrackable = true,
-                HasNotifiedManualInteractionRequired = existingItem?.HasNotifiedManualInteractionRequired ?? false
+                HasNotifiedManualInteractionRequired = existingItem?.HasNotifiedManualInteractionRequired ?? false,
+
+                // Keep when the previous status started so it isn't reset every time the download is refreshed
+                StatusChangeTime = existingItem?.Status == TrackedDownloadStatus.Warning ? existingItem.StatusChangeTime : null
             };
 
             try
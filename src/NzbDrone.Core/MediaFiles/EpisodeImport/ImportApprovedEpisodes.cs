@@ -1,6 +1,5 @@
 using System;
 using System.Collections.Generic;
-using System.IO;
 using System.Linq;
 using NLog;
 using NzbDrone.Common.Disk;
@@ -108,7 +107,7 @@ public List<ImportResult> Import(List<ImportDecision> decisions, bool newDownloa
                     if (newDownload)
                     {
                         episodeFile.SceneName = localEpisode.SceneName;
-                        episodeFile.OriginalFilePath = GetOriginalFilePath(downloadClientItem, localEpisode);
+                        episodeFile.OriginalFilePath = OriginalFilePathCalculator.GetOriginalFilePath(downloadClientItem, localEpisode);
 
                         oldFiles = _episodeFileUpgrader.UpgradeEpisodeFile(episodeFile, localEpisode, copyOnly).OldFiles;
                     }
@@ -169,42 +168,5 @@ public List<ImportResult> Import(List<ImportDecision> decisions, bool newDownloa
 
             return importResults;
         }
-
-        private string GetOriginalFilePath(DownloadClientItem downloadClientItem, LocalEpisode localEpisode)
-        {
-            var path = localEpisode.Path;
-
-            if (downloadClientItem != null && !downloadClientItem.OutputPath.IsEmpty)
-            {
-                var outputDirectory = downloadClientItem.OutputPath.Directory.ToString();
-
-                if (outputDirectory.IsParentPath(path))
-                {
-                    return outputDirectory.GetRelativePath(path);
-                }
-            }
-
-            var folderEpisodeInfo = localEpisode.FolderEpisodeInfo;
-
-            if (folderEpisodeInfo != null)
-            {
-                var folderPath = path.GetAncestorPath(folderEpisodeInfo.ReleaseTitle);
-
-                if (folderPath != null)
-                {
-                    return folderPath.GetParentPath().GetRelativePath(path);
-                }
-            }
-
-            var parentPath = path.GetParentPath();
-            var grandparentPath = parentPath.GetParentPath();
-
-            if (grandparentPath != null)
-            {
-                return grandparentPath.GetRelativePath(path);
-            }
-
-            return Path.GetFileName(path);
-        }
     }
 }
@@ -0,0 +1,17 @@
+using System.Collections.Generic;
+
+namespace NzbDrone.Core.MediaFiles.EpisodeImport.Manual
+{
+    public class ManualImportPreview
+    {
+        public string Path { get; set; }
+        public string DestinationPath { get; set; }
+        public List<string> ExistingFilePaths { get; set; }
+        public string Error { get; set; }
+
+        public ManualImportPreview()
+        {
+            ExistingFilePaths = new List<string>();
+        }
+    }
+}
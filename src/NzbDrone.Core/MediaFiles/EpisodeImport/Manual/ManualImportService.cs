@@ -7,13 +7,17 @@
 using NzbDrone.Common.Extensions;
 using NzbDrone.Common.Instrumentation.Extensions;
 using NzbDrone.Core.CustomFormats;
+using NzbDrone.Core.Datastore;
 using NzbDrone.Core.DecisionEngine;
 using NzbDrone.Core.Download;
 using NzbDrone.Core.Download.TrackedDownloads;
 using NzbDrone.Core.Languages;
+using NzbDrone.Core.Localization;
 using NzbDrone.Core.MediaFiles.EpisodeImport.Aggregation;
+using NzbDrone.Core.MediaFiles.MediaInfo;
 using NzbDrone.Core.Messaging.Commands;
 using NzbDrone.Core.Messaging.Events;
+using NzbDrone.Core.Organizer;
 using NzbDrone.Core.Parser;
 using NzbDrone.Core.Parser.Model;
 using NzbDrone.Core.Qualities;
@@ -26,6 +30,7 @@ public interface IManualImportService
         List<ManualImportItem> GetMediaFiles(int seriesId, int? seasonNumber);
         List<ManualImportItem> GetMediaFiles(string path, string downloadId, int? seriesId, bool filterExistingFiles);
         ManualImportItem ReprocessItem(string path, string downloadId, int seriesId, int? seasonNumber, List<int> episodeIds, string releaseGroup, QualityModel quality, List<Language> languages);
+        ManualImportPreview GetImportPreview(string path, int seriesId, List<int> episodeIds, string releaseGroup, QualityModel quality, List<Language> languages, string downloadId, string folderName);
     }
 
     public class ManualImportService : IExecute<ManualImportCommand>, IManualImportService
@@ -42,6 +47,9 @@ public class ManualImportService : IExecute<ManualImportCommand>, IManualImportS
         private readonly IDownloadedEpisodesImportService _downloadedEpisodesImportService;
         private readonly IMediaFileService _mediaFileService;
         private readonly ICustomFormatCalculationService _formatCalculator;
+        private readonly IBuildFileNames _fileNameBuilder;
+        private readonly IVideoFileInfoReader _videoFileInfoReader;
+        private readonly ILocalizationService _localizationService;
         private readonly IEventAggregator _eventAggregator;
         private readonly Logger _logger;
 
@@ -57,6 +65,9 @@ public class ManualImportService : IExecute<ManualImportCommand>, IManualImportS
                                    IDownloadedEpisodesImportService downloadedEpisodesImportService,
                                    IMediaFileService mediaFileService,
                                    ICustomFormatCalculationService formatCalculator,
+                                   IBuildFileNames fileNameBuilder,
+                                   IVideoFileInfoReader videoFileInfoReader,
+                                   ILocalizationService localizationService,
                                    IEventAggregator eventAggregator,
                                    Logger logger)
         {
@@ -72,6 +83,9 @@ public class ManualImportService : IExecute<ManualImportCommand>, IManualImportS
             _downloadedEpisodesImportService = downloadedEpisodesImportService;
             _mediaFileService = mediaFileService;
             _formatCalculator = formatCalculator;
+            _fileNameBuilder = fileNameBuilder;
+            _videoFileInfoReader = videoFileInfoReader;
+            _localizationService = localizationService;
             _eventAggregator = eventAggregator;
             _logger = logger;
         }
@@ -204,6 +218,121 @@ public ManualImportItem ReprocessItem(string path, string downloadId, int series
             return ProcessFile(rootFolder, rootFolder, path, downloadId, series);
         }
 
+        public ManualImportPreview GetImportPreview(string path, int seriesId, List<int> episodeIds, string releaseGroup, QualityModel quality, List<Language> languages, string downloadId, string folderName)
+        {
+            var preview = new ManualImportPreview { Path = path };
+
+            // Previews are requested for a batch of files, a file that can't be previewed
+            // shouldn't prevent the others from being previewed.
+            try
+            {
+                BuildImportPreview(preview, path, seriesId, episodeIds, releaseGroup, quality, languages, downloadId, folderName);
+            }
+            catch (Exception ex)
+            {
+                _logger.Error(ex, "Unable to build import preview for {0}", path);
+                preview.DestinationPath = null;
+                preview.Error = _localizationService.GetLocalizedString("ImportPreviewFailed");
+            }
+
+            return preview;
+        }
+
+        private void BuildImportPreview(ManualImportPreview preview, string path, int seriesId, List<int> episodeIds, string releaseGroup, QualityModel quality, List<Language> languages, string downloadId, string folderName)
+        {
+            Series series;
+
+            try
+            {
+                series = _seriesService.GetSeries(seriesId);
+            }
+            catch (ModelNotFoundException)
+            {
+                preview.Error = _localizationService.GetLocalizedString("ImportPreviewSeriesNotFound");
+                return;
+            }
+
+            var episodes = _episodeService.GetEpisodes(episodeIds);
+
+            if (!episodes.Any())
+            {
+                preview.Error = _localizationService.GetLocalizedString("ImportPreviewEpisodesNotSelected");
+                return;
+            }
+
+            if (!_diskProvider.FileExists(path))
+            {
+                preview.Error = _localizationService.GetLocalizedString("ImportPreviewFileNotFound");
+                return;
+            }
+
+            // Mirrors the episode file created when importing so the naming format is applied the same way
+            var episodeFile = new EpisodeFile
+            {
+                SeriesId = series.Id,
+                SeasonNumber = episodes.First().SeasonNumber,
+                Path = path.CleanFilePath(),
+                Size = _diskProvider.GetFileSize(path),
+                Quality = quality == null || quality.Quality == Quality.Unknown ? QualityParser.ParseQuality(path) : quality,
+                Episodes = episodes,
+                ReleaseGroup = releaseGroup.IsNullOrWhiteSpace() ? Parser.Parser.ParseReleaseGroup(path) : releaseGroup,
+                Languages = languages ?? new List<Language>()
+            };
+
+            var existingFile = series.Path.IsParentPath(path);
+            var trackedDownload = downloadId.IsNotNullOrWhiteSpace() ? _trackedDownloadService.Find(downloadId) : null;
+
+            // Only new downloads keep their scene name and original path when imported
+            if (trackedDownload != null || !existingFile)
+            {
+                var localEpisode = new LocalEpisode
+                {
+                    ExistingFile = existingFile,
+                    Episodes = episodes,
+                    Path = path,
+                    Series = series,
+                    DownloadClientEpisodeInfo = trackedDownload?.RemoteEpisode?.ParsedEpisodeInfo,
+                    DownloadItem = trackedDownload?.DownloadItem
+                };
+
+                if (folderName.IsNotNullOrWhiteSpace())
+                {
+                    localEpisode.FolderEpisodeInfo = Parser.Parser.ParseTitle(folderName);
+                    localEpisode.SceneSource = !existingFile;
+                }
+
+                episodeFile.SceneName = localEpisode.SceneSource ? SceneNameCalculator.GetSceneName(localEpisode) : null;
+                episodeFile.OriginalFilePath = OriginalFilePathCalculator.GetOriginalFilePath(trackedDownload?.DownloadItem, localEpisode);
+            }
+
+            // Reading media info runs ffprobe, only do it when the naming format needs it
+            if (_fileNameBuilder.RequiresMediaInfo(series, episodes))
+            {
+                episodeFile.MediaInfo = _videoFileInfoReader.GetMediaInfo(path);
+            }
+
+            var customFormats = _formatCalculator.ParseCustomFormat(episodeFile, series);
+
+            try
+            {
+                preview.DestinationPath = _fileNameBuilder.BuildFilePath(episodes, series, episodeFile, Path.GetExtension(path), null, customFormats);
+            }
+            catch (NamingFormatException ex)
+            {
+                _logger.Warn(ex, "Unable to build destination path for {0}", path);
+                preview.Error = ex.Message;
+            }
+
+            var existingFileIds = episodes.Where(e => e.EpisodeFileId > 0).Select(e => e.EpisodeFileId).Distinct().ToList();
+
+            if (existingFileIds.Any())
+            {
+                preview.ExistingFilePaths = _mediaFileService.Get(existingFileIds)
+                    .Select(f => Path.Combine(series.Path, f.RelativePath))
+                    .ToList();
+            }
+        }
+
         private List<ManualImportItem> ProcessFolder(string rootFolder, string baseFolder, string downloadId, int? seriesId, bool filterExistingFiles)
         {
             DownloadClientItem downloadClientItem = null;
@@ -0,0 +1,47 @@
+using System.IO;
+using NzbDrone.Common.Extensions;
+using NzbDrone.Core.Download;
+using NzbDrone.Core.Parser.Model;
+
+namespace NzbDrone.Core.MediaFiles.EpisodeImport
+{
+    public static class OriginalFilePathCalculator
+    {
+        public static string GetOriginalFilePath(DownloadClientItem downloadClientItem, LocalEpisode localEpisode)
+        {
+            var path = localEpisode.Path;
+
+            if (downloadClientItem != null && !downloadClientItem.OutputPath.IsEmpty)
+            {
+                var outputDirectory = downloadClientItem.OutputPath.Directory.ToString();
+
+                if (outputDirectory.IsParentPath(path))
+                {
+                    return outputDirectory.GetRelativePath(path);
+                }
+            }
+
+            var folderEpisodeInfo = localEpisode.FolderEpisodeInfo;
+
+            if (folderEpisodeInfo != null)
+            {
+                var folderPath = path.GetAncestorPath(folderEpisodeInfo.ReleaseTitle);
+
+                if (folderPath != null)
+                {
+                    return folderPath.GetParentPath().GetRelativePath(path);
+                }
+            }
+
+            var parentPath = path.GetParentPath();
+            var grandparentPath = parentPath.GetParentPath();
+
+            if (grandparentPath != null)
+            {
+                return grandparentPath.GetRelativePath(path);
+            }
+
+            return Path.GetFileName(path);
+        }
+    }
+}
@@ -20,6 +20,7 @@ public interface IMediaFileService
         List<EpisodeFile> GetFilesBySeason(int seriesId, int seasonNumber);
         List<EpisodeFile> GetFiles(IEnumerable<int> ids);
         List<EpisodeFile> GetFilesWithoutMediaInfo();
+        List<EpisodeFile> GetAllFiles();
         List<string> FilterExistingFiles(List<string> files, Series series);
         EpisodeFile Get(int id);
         List<EpisodeFile> Get(IEnumerable<int> ids);
@@ -86,6 +87,11 @@ public List<EpisodeFile> GetFilesWithoutMediaInfo()
             return _mediaFileRepository.GetFilesWithoutMediaInfo();
         }
 
+        public List<EpisodeFile> GetAllFiles()
+        {
+            return _mediaFileRepository.All().ToList();
+        }
+
         public List<string> FilterExistingFiles(List<string> files, Series series)
         {
             var seriesFiles = GetFilesBySeries(series.Id);
@@ -27,6 +27,7 @@ public interface IBuildFileNames
         string GetSeriesFolder(Series series, NamingConfig namingConfig = null);
         string GetSeasonFolder(Series series, int seasonNumber, NamingConfig namingConfig = null);
         bool RequiresEpisodeTitle(Series series, List<Episode> episodes);
+        bool RequiresMediaInfo(Series series, List<Episode> episodes);
         bool RequiresAbsoluteEpisodeNumber();
     }
 
@@ -42,6 +43,7 @@ public class FileNameBuilder : IBuildFileNames
         private readonly ICached<EpisodeFormat[]> _episodeFormatCache;
         private readonly ICached<AbsoluteEpisodeFormat[]> _absoluteEpisodeFormatCache;
         private readonly ICached<bool> _requiresEpisodeTitleCache;
+        private readonly ICached<bool> _requiresMediaInfoCache;
         private readonly ICached<bool> _requiresAbsoluteEpisodeNumberCache;
         private readonly ICached<bool> _patternHasEpisodeIdentifierCache;
         private readonly Logger _logger;
@@ -125,6 +127,7 @@ public class FileNameBuilder : IBuildFileNames
             _episodeFormatCache = cacheManager.GetCache<EpisodeFormat[]>(GetType(), "episodeFormat");
             _absoluteEpisodeFormatCache = cacheManager.GetCache<AbsoluteEpisodeFormat[]>(GetType(), "absoluteEpisodeFormat");
             _requiresEpisodeTitleCache = cacheManager.GetCache<bool>(GetType(), "requiresEpisodeTitle");
+            _requiresMediaInfoCache = cacheManager.GetCache<bool>(GetType(), "requiresMediaInfo");
             _requiresAbsoluteEpisodeNumberCache = cacheManager.GetCache<bool>(GetType(), "requiresAbsoluteEpisodeNumber");
             _patternHasEpisodeIdentifierCache = cacheManager.GetCache<bool>(GetType(), "patternHasEpisodeIdentifier");
             _logger = logger;
@@ -428,6 +431,44 @@ public bool RequiresEpisodeTitle(Series series, List<Episode> episodes)
             });
         }
 
+        public bool RequiresMediaInfo(Series series, List<Episode> episodes)
+        {
+            var namingConfig = _namingConfigService.GetConfig();
+            var pattern = namingConfig.StandardEpisodeFormat;
+
+            if (!namingConfig.RenameEpisodes)
+            {
+                return false;
+            }
+
+            if (series.SeriesType == SeriesTypes.Daily)
+            {
+                pattern = namingConfig.DailyEpisodeFormat;
+            }
+
+            if (series.SeriesType == SeriesTypes.Anime && episodes.All(e => e.AbsoluteEpisodeNumber.HasValue))
+            {
+                pattern = namingConfig.AnimeEpisodeFormat;
+            }
+
+            return _requiresMediaInfoCache.Get(pattern, () =>
+            {
+                var matches = TitleRegex.Matches(pattern);
+
+                foreach (Match match in matches)
+                {
+                    var token = match.Groups["token"].Value;
+
+                    if (token.StartsWith("MediaInfo", StringComparison.InvariantCultureIgnoreCase))
+                    {
+                        return true;
+                    }
+                }
+
+                return false;
+            });
+        }
+
         public bool RequiresAbsoluteEpisodeNumber()
         {
             var namingConfig = _namingConfigService.GetConfig();
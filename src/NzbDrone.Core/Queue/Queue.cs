@@ -23,6 +23,7 @@ public class Queue : ModelBase
         public DateTime? EstimatedCompletionTime { get; set; }
         public string Status { get; set; }
         public TrackedDownloadStatus? TrackedDownloadStatus { get; set; }
+        public DateTime? StatusChangeTime { get; set; }
         public TrackedDownloadState? TrackedDownloadState { get; set; }
         public List<TrackedDownloadStatusMessage> StatusMessages { get; set; }
         public string DownloadId { get; set; }
@@ -71,6 +71,7 @@ private Queue MapQueueItem(TrackedDownload trackedDownload, Episode episode)
                 Timeleft = trackedDownload.DownloadItem.RemainingTime,
                 Status = trackedDownload.DownloadItem.Status.ToString(),
                 TrackedDownloadStatus = trackedDownload.Status,
+                StatusChangeTime = trackedDownload.StatusChangeTime,
                 TrackedDownloadState = trackedDownload.State,
                 StatusMessages = trackedDownload.StatusMessages.ToList(),
                 ErrorMessage = trackedDownload.DownloadItem.Message,
@@ -1,7 +1,10 @@
+using System;
+using System.Linq.Expressions;
 using Microsoft.AspNetCore.Mvc;
 using NzbDrone.Core.Blocklisting;
 using NzbDrone.Core.CustomFormats;
 using NzbDrone.Core.Datastore;
+using NzbDrone.Core.Indexers;
 using Sonarr.Http;
 using Sonarr.Http.Extensions;
 using Sonarr.Http.REST.Attributes;
@@ -27,10 +30,31 @@ public PagingResource<BlocklistResource> GetBlocklist()
         {
             var pagingResource = Request.ReadPagingResourceFromRequest<BlocklistResource>();
             var pagingSpec = pagingResource.MapToPagingSpec<BlocklistResource, NzbDrone.Core.Blocklisting.Blocklist>("date", SortDirection.Descending);
+            var filterExpression = pagingResource.FilterConditions.ToFilterExpression<NzbDrone.Core.Blocklisting.Blocklist>(GetFilterExpression);
+
+            if (filterExpression != null)
+            {
+                pagingSpec.FilterExpressions.Add(filterExpression);
+            }
 
             return pagingSpec.ApplyToPage(_blocklistService.Paged, model => BlocklistResourceMapper.MapToResource(model, _formatCalculator));
         }
 
+        private static Expression<Func<NzbDrone.Core.Blocklisting.Blocklist, bool>> GetFilterExpression(string key, string value)
+        {
+            switch (key)
+            {
+                case "seriesId":
+                    var seriesId = PagingResourceFilterConditionExtensions.ParseIntFilterValue(key, value);
+                    return b => b.SeriesId == seriesId;
+                case "protocol":
+                    var protocol = PagingResourceFilterConditionExtensions.ParseEnumFilterValue<DownloadProtocol>(key, value);
+                    return b => b.Protocol == protocol;
+                default:
+                    return null;
+            }
+        }
+
         [RestDeleteById]
         public void DeleteBlocklist(int id)
         {
@@ -87,6 +87,18 @@ public List<EpisodeFileResource> GetEpisodeFiles(int? seriesId, [FromQuery] List
             }
         }
 
+        [HttpGet("statistics")]
+        [Produces("application/json")]
+        public List<EpisodeFileStatisticsResource> GetEpisodeFileStatistics()
+        {
+            var seriesIds = _seriesService.GetAllSeries().Select(s => s.Id).ToHashSet();
+
+            return _mediaFileService.GetAllFiles()
+                                    .Where(f => seriesIds.Contains(f.SeriesId))
+                                    .Select(f => f.ToStatisticsResource())
+                                    .ToList();
+        }
+
         [RestPutById]
         [Consumes("application/json")]
         public ActionResult<EpisodeFileResource> SetQuality(EpisodeFileResource episodeFileResource)
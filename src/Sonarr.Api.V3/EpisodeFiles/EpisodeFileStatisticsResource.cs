@@ -0,0 +1,40 @@
+using System;
+using NzbDrone.Core.MediaFiles;
+using NzbDrone.Core.MediaFiles.MediaInfo;
+
+namespace Sonarr.Api.V3.EpisodeFiles
+{
+    public class EpisodeFileStatisticsResource
+    {
+        public int Id { get; set; }
+        public int SeriesId { get; set; }
+        public string RelativePath { get; set; }
+        public string Quality { get; set; }
+        public string VideoCodec { get; set; }
+        public string Resolution { get; set; }
+        public string ReleaseGroup { get; set; }
+        public long Size { get; set; }
+        public DateTime DateAdded { get; set; }
+    }
+
+    public static class EpisodeFileStatisticsResourceMapper
+    {
+        public static EpisodeFileStatisticsResource ToStatisticsResource(this EpisodeFile model)
+        {
+            var mediaInfo = model.MediaInfo;
+
+            return new EpisodeFileStatisticsResource
+            {
+                Id = model.Id,
+                SeriesId = model.SeriesId,
+                RelativePath = model.RelativePath,
+                Quality = model.Quality.Quality.Name,
+                VideoCodec = mediaInfo == null ? null : MediaInfoFormatter.FormatVideoCodec(mediaInfo, model.SceneName),
+                Resolution = mediaInfo == null ? null : $"{mediaInfo.Width}x{mediaInfo.Height}",
+                ReleaseGroup = model.ReleaseGroup,
+                Size = model.Size,
+                DateAdded = model.DateAdded
+            };
+        }
+    }
+}
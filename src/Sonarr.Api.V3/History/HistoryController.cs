@@ -1,6 +1,7 @@
 using System;
 using System.Collections.Generic;
 using System.Linq;
+using System.Linq.Expressions;
 using Microsoft.AspNetCore.Mvc;
 using NzbDrone.Core.CustomFormats;
 using NzbDrone.Core.Datastore;
@@ -88,9 +89,36 @@ public PagingResource<HistoryResource> GetHistory(bool includeSeries, bool inclu
                 pagingSpec.FilterExpressions.Add(h => h.DownloadId == downloadId);
             }
 
+            var filterExpression = pagingResource.FilterConditions.ToFilterExpression<EpisodeHistory>(GetFilterExpression);
+
+            if (filterExpression != null)
+            {
+                pagingSpec.FilterExpressions.Add(filterExpression);
+            }
+
             return pagingSpec.ApplyToPage(_historyService.Paged, h => MapToResource(h, includeSeries, includeEpisode));
         }
 
+        private static Expression<Func<EpisodeHistory, bool>> GetFilterExpression(string key, string value)
+        {
+            switch (key)
+            {
+                case "eventType":
+                    var eventType = PagingResourceFilterConditionExtensions.ParseEnumFilterValue<EpisodeHistoryEventType>(key, value);
+                    return h => h.EventType == eventType;
+                case "episodeId":
+                    var episodeId = PagingResourceFilterConditionExtensions.ParseIntFilterValue(key, value);
+                    return h => h.EpisodeId == episodeId;
+                case "seriesId":
+                    var seriesId = PagingResourceFilterConditionExtensions.ParseIntFilterValue(key, value);
+                    return h => h.SeriesId == seriesId;
+                case "downloadId":
+                    return h => h.DownloadId == value;
+                default:
+                    return null;
+            }
+        }
+
         [HttpGet("since")]
         [Produces("application/json")]
         public List<HistoryResource> GetHistorySince(DateTime date, EpisodeHistoryEventType? eventType = null, bool includeSeries = false, bool includeEpisode = false)
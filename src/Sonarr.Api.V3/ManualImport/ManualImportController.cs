@@ -71,6 +71,23 @@ public object ReprocessItems([FromBody] List<ManualImportReprocessResource> item
             return items;
         }
 
+        [HttpPost("preview")]
+        [Consumes("application/json")]
+        [Produces("application/json")]
+        public List<ManualImportPreviewResource> PreviewItems([FromBody] List<ManualImportPreviewResource> items)
+        {
+            foreach (var item in items)
+            {
+                var preview = _manualImportService.GetImportPreview(item.Path, item.SeriesId, item.EpisodeIds ?? new List<int>(), item.ReleaseGroup, item.Quality, item.Languages, item.DownloadId, item.FolderName);
+
+                item.DestinationPath = preview.DestinationPath;
+                item.ExistingFilePaths = preview.ExistingFilePaths;
+                item.Error = preview.Error;
+            }
+
+            return items;
+        }
+
         private ManualImportResource AddQualityWeight(ManualImportResource item)
         {
             if (item.Quality != null)
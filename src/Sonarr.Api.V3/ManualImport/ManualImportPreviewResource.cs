@@ -0,0 +1,22 @@
+using System.Collections.Generic;
+using NzbDrone.Core.Languages;
+using NzbDrone.Core.Qualities;
+using Sonarr.Http.REST;
+
+namespace Sonarr.Api.V3.ManualImport
+{
+    public class ManualImportPreviewResource : RestResource
+    {
+        public string Path { get; set; }
+        public int SeriesId { get; set; }
+        public List<int> EpisodeIds { get; set; }
+        public QualityModel Quality { get; set; }
+        public List<Language> Languages { get; set; }
+        public string ReleaseGroup { get; set; }
+        public string DownloadId { get; set; }
+        public string FolderName { get; set; }
+        public string DestinationPath { get; set; }
+        public List<string> ExistingFilePaths { get; set; }
+        public string Error { get; set; }
+    }
+}
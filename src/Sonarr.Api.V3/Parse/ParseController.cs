@@ -1,8 +1,10 @@
 using Microsoft.AspNetCore.Mvc;
 using NzbDrone.Common.Extensions;
 using NzbDrone.Core.CustomFormats;
+using NzbDrone.Core.Datastore;
 using NzbDrone.Core.Download.Aggregation;
 using NzbDrone.Core.Parser;
+using NzbDrone.Core.Tv;
 using Sonarr.Api.V3.CustomFormats;
 using Sonarr.Api.V3.Episodes;
 using Sonarr.Api.V3.Series;
@@ -16,19 +18,22 @@ public class ParseController : Controller
         private readonly IParsingService _parsingService;
         private readonly IRemoteEpisodeAggregationService _aggregationService;
         private readonly ICustomFormatCalculationService _formatCalculator;
+        private readonly ISeriesService _seriesService;
 
         public ParseController(IParsingService parsingService,
                                IRemoteEpisodeAggregationService aggregationService,
-                               ICustomFormatCalculationService formatCalculator)
+                               ICustomFormatCalculationService formatCalculator,
+                               ISeriesService seriesService)
         {
             _parsingService = parsingService;
             _aggregationService = aggregationService;
             _formatCalculator = formatCalculator;
+            _seriesService = seriesService;
         }
 
         [HttpGet]
         [Produces("application/json")]
-        public ParseResource Parse(string title, string path)
+        public ParseResource Parse(string title, string path, int? seriesId)
         {
             if (title.IsNullOrWhiteSpace())
             {
@@ -45,7 +50,11 @@ public ParseResource Parse(string title, string path)
                 };
             }
 
-            var remoteEpisode = _parsingService.Map(parsedEpisodeInfo, 0, 0);
+            var series = GetSeries(seriesId);
+
+            var remoteEpisode = series != null
+                ? _parsingService.Map(parsedEpisodeInfo, series)
+                : _parsingService.Map(parsedEpisodeInfo, 0, 0);
 
             if (remoteEpisode != null)
             {
@@ -74,5 +83,23 @@ public ParseResource Parse(string title, string path)
                 };
             }
         }
+
+        // A series that no longer exists falls back to finding the series from the title
+        private NzbDrone.Core.Tv.Series GetSeries(int? seriesId)
+        {
+            if (!seriesId.HasValue)
+            {
+                return null;
+            }
+
+            try
+            {
+                return _seriesService.GetSeries(seriesId.Value);
+            }
+            catch (ModelNotFoundException)
+            {
+                return null;
+            }
+        }
     }
 }
@@ -1,6 +1,7 @@
 using System;
 using System.Collections.Generic;
 using System.Linq;
+using System.Linq.Expressions;
 using Microsoft.AspNetCore.Mvc;
 using NzbDrone.Common.Extensions;
 using NzbDrone.Core.Blocklisting;
@@ -9,6 +10,7 @@
 using NzbDrone.Core.Download;
 using NzbDrone.Core.Download.Pending;
 using NzbDrone.Core.Download.TrackedDownloads;
+using NzbDrone.Core.Indexers;
 using NzbDrone.Core.Languages;
 using NzbDrone.Core.Messaging.Events;
 using NzbDrone.Core.Profiles.Qualities;
@@ -139,6 +141,12 @@ public PagingResource<QueueResource> GetQueue(bool includeUnknownSeriesItems = f
         {
             var pagingResource = Request.ReadPagingResourceFromRequest<QueueResource>();
             var pagingSpec = pagingResource.MapToPagingSpec<QueueResource, NzbDrone.Core.Queue.Queue>("timeleft", SortDirection.Ascending);
+            var filterExpression = pagingResource.FilterConditions.ToFilterExpression<NzbDrone.Core.Queue.Queue>(GetFilterExpression);
+
+            if (filterExpression != null)
+            {
+                pagingSpec.FilterExpressions.Add(filterExpression);
+            }
 
             return pagingSpec.ApplyToPage((spec) => GetQueue(spec, includeUnknownSeriesItems), (q) => MapToResource(q, includeSeries, includeEpisode));
         }
@@ -152,6 +160,12 @@ private PagingSpec<NzbDrone.Core.Queue.Queue> GetQueue(PagingSpec<NzbDrone.Core.
             var filteredQueue = includeUnknownSeriesItems ? queue : queue.Where(q => q.Series != null);
             var pending = _pendingReleaseService.GetPendingQueue();
             var fullQueue = filteredQueue.Concat(pending).ToList();
+
+            foreach (var filterExpression in pagingSpec.FilterExpressions)
+            {
+                fullQueue = fullQueue.Where(filterExpression.Compile()).ToList();
+            }
+
             IOrderedEnumerable<NzbDrone.Core.Queue.Queue> ordered;
 
             if (pagingSpec.SortKey == "timeleft")
@@ -216,6 +230,24 @@ private PagingSpec<NzbDrone.Core.Queue.Queue> GetQueue(PagingSpec<NzbDrone.Core.
             return pagingSpec;
         }
 
+        private static Expression<Func<NzbDrone.Core.Queue.Queue, bool>> GetFilterExpression(string key, string value)
+        {
+            switch (key)
+            {
+                case "seriesId":
+                    var seriesId = PagingResourceFilterConditionExtensions.ParseIntFilterValue(key, value);
+                    return q => q.Series != null && q.Series.Id == seriesId;
+                case "protocol":
+                    var protocol = PagingResourceFilterConditionExtensions.ParseEnumFilterValue<DownloadProtocol>(key, value);
+                    return q => q.Protocol == protocol;
+                case "status":
+                    var status = PagingResourceFilterConditionExtensions.ParseEnumFilterValue<TrackedDownloadStatus>(key, value);
+                    return q => q.TrackedDownloadStatus == status;
+                default:
+                    return null;
+            }
+        }
+
         private Func<NzbDrone.Core.Queue.Queue, object> GetOrderByFunc(PagingSpec<NzbDrone.Core.Queue.Queue> pagingSpec)
         {
             switch (pagingSpec.SortKey)
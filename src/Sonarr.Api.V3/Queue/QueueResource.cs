@@ -31,6 +31,7 @@ public class QueueResource : RestResource
         public DateTime? EstimatedCompletionTime { get; set; }
         public string Status { get; set; }
         public TrackedDownloadStatus? TrackedDownloadStatus { get; set; }
+        public DateTime? StatusChangeTime { get; set; }
         public TrackedDownloadState? TrackedDownloadState { get; set; }
         public List<TrackedDownloadStatusMessage> StatusMessages { get; set; }
         public string ErrorMessage { get; set; }
@@ -73,6 +74,7 @@ public static QueueResource ToResource(this NzbDrone.Core.Queue.Queue model, boo
                 EstimatedCompletionTime = model.EstimatedCompletionTime,
                 Status = model.Status.FirstCharToLower(),
                 TrackedDownloadStatus = model.TrackedDownloadStatus,
+                StatusChangeTime = model.StatusChangeTime,
                 TrackedDownloadState = model.TrackedDownloadState,
                 StatusMessages = model.StatusMessages,
                 ErrorMessage = model.ErrorMessage,
@@ -51,6 +51,13 @@ public PagingResource<EpisodeResource> GetCutoffUnmetEpisodes(bool includeSeries
                 pagingSpec.FilterExpressions.Add(v => v.Monitored == true && v.Series.Monitored == true);
             }
 
+            var qualityProfileFilter = pagingResource.Filters.FirstOrDefault(f => f.Key == "qualityProfileId");
+
+            if (qualityProfileFilter != null && int.TryParse(qualityProfileFilter.Value, out var qualityProfileId))
+            {
+                pagingSpec.FilterExpressions.Add(v => v.Series.QualityProfileId == qualityProfileId);
+            }
+
             var resource = pagingSpec.ApplyToPage(_episodeCutoffService.EpisodesWhereCutoffUnmet, v => MapToResource(v, includeSeries, includeEpisodeFile, includeImages));
 
             return resource;
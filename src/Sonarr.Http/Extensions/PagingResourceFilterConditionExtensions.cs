@@ -0,0 +1,143 @@
+using System;
+using System.Collections.Generic;
+using System.Linq.Expressions;
+using NzbDrone.Common.Extensions;
+using Sonarr.Http.REST;
+
+namespace Sonarr.Http.Extensions
+{
+    public static class PagingResourceFilterConditionExtensions
+    {
+        private const string EqualFilterType = "equal";
+
+        // Returns null when the conditions don't exclude anything, keys that
+        // can't be filtered on are rejected so grouped filters are never
+        // partially applied.
+        public static Expression<Func<TModel, bool>> ToFilterExpression<TModel>(this List<PagingResourceFilterCondition> conditions, Func<string, string, Expression<Func<TModel, bool>>> getFilterExpression)
+        {
+            if (conditions == null)
+            {
+                return null;
+            }
+
+            var parameter = Expression.Parameter(typeof(TModel), "m");
+            var body = GetGroupExpression(PagingResourceFilterGroupType.And, conditions, parameter, getFilterExpression);
+
+            return body == null ? null : Expression.Lambda<Func<TModel, bool>>(body, parameter);
+        }
+
+        public static int ParseIntFilterValue(string key, string value)
+        {
+            if (!int.TryParse(value, out var result))
+            {
+                throw new BadRequestException($"Invalid value '{value}' for filter '{key}'");
+            }
+
+            return result;
+        }
+
+        public static TEnum ParseEnumFilterValue<TEnum>(string key, string value)
+            where TEnum : struct, Enum
+        {
+            if (!Enum.TryParse<TEnum>(value, true, out var result) || !Enum.IsDefined(result))
+            {
+                throw new BadRequestException($"Invalid value '{value}' for filter '{key}'");
+            }
+
+            return result;
+        }
+
+        private static Expression GetGroupExpression<TModel>(PagingResourceFilterGroupType groupType, List<PagingResourceFilterCondition> conditions, ParameterExpression parameter, Func<string, string, Expression<Func<TModel, bool>>> getFilterExpression)
+        {
+            Expression result = null;
+
+            foreach (var condition in conditions)
+            {
+                var expression = GetConditionExpression(condition, parameter, getFilterExpression);
+
+                // An empty group matches everything
+                if (expression == null)
+                {
+                    if (groupType == PagingResourceFilterGroupType.Or)
+                    {
+                        return null;
+                    }
+
+                    continue;
+                }
+
+                if (result == null)
+                {
+                    result = expression;
+                }
+                else
+                {
+                    result = groupType == PagingResourceFilterGroupType.Or
+                        ? Expression.OrElse(result, expression)
+                        : Expression.AndAlso(result, expression);
+                }
+            }
+
+            return result;
+        }
+
+        private static Expression GetConditionExpression<TModel>(PagingResourceFilterCondition condition, ParameterExpression parameter, Func<string, string, Expression<Func<TModel, bool>>> getFilterExpression)
+        {
+            if (condition == null)
+            {
+                throw new BadRequestException("Invalid filter");
+            }
+
+            if (condition.Filters != null)
+            {
+                return GetGroupExpression(condition.GroupType ?? PagingResourceFilterGroupType.And, condition.Filters, parameter, getFilterExpression);
+            }
+
+            if (condition.Key.IsNullOrWhiteSpace())
+            {
+                throw new BadRequestException("Filter key is required");
+            }
+
+            if (condition.Type.IsNotNullOrWhiteSpace() && condition.Type != EqualFilterType)
+            {
+                throw new BadRequestException($"Filter type '{condition.Type}' is not supported");
+            }
+
+            Expression result = null;
+
+            // Multiple values match any of them
+            foreach (var value in (condition.Value ?? string.Empty).Split(','))
+            {
+                var filterExpression = getFilterExpression(condition.Key, value);
+
+                if (filterExpression == null)
+                {
+                    throw new BadRequestException($"Filtering by '{condition.Key}' is not supported");
+                }
+
+                var body = new ParameterReplacer(filterExpression.Parameters[0], parameter).Visit(filterExpression.Body);
+
+                result = result == null ? body : Expression.OrElse(result, body);
+            }
+
+            return result;
+        }
+
+        private class ParameterReplacer : ExpressionVisitor
+        {
+            private readonly ParameterExpression _source;
+            private readonly ParameterExpression _target;
+
+            public ParameterReplacer(ParameterExpression source, ParameterExpression target)
+            {
+                _source = source;
+                _target = target;
+            }
+
+            protected override Expression VisitParameter(ParameterExpression node)
+            {
+                return node == _source ? _target : base.VisitParameter(node);
+            }
+        }
+    }
+}
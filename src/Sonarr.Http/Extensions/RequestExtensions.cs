@@ -3,6 +3,7 @@
 using System.Linq;
 using Microsoft.AspNetCore.Http;
 using NzbDrone.Common.EnvironmentInfo;
+using NzbDrone.Common.Serializer;
 using NzbDrone.Core.Datastore;
 using NzbDrone.Core.Exceptions;
 
@@ -37,6 +38,7 @@ public static class RequestExtensions
             "sortDirection",
             "filterKey",
             "filterValue",
+            "filters",
         };
 
         public static bool IsApiRequest(this HttpRequest request)
@@ -117,6 +119,17 @@ public static PagingResource<TResource> ReadPagingResourceFromRequest<TResource>
                 pagingResource.Filters.Add(filter);
             }
 
+            // Grouped filters and filters that share a key are sent as JSON
+            if (request.Query["filters"].Any())
+            {
+                if (!STJson.TryDeserialize<List<PagingResourceFilterCondition>>(request.Query["filters"].ToString(), out var filterConditions))
+                {
+                    throw new BadRequestException("Invalid filters");
+                }
+
+                pagingResource.FilterConditions = filterConditions;
+            }
+
             // v3 uses filters in key=value format
             foreach (var pair in request.Query)
             {
@@ -1,4 +1,5 @@
 using System.Collections.Generic;
+using System.Text.Json.Serialization;
 using NzbDrone.Core.Datastore;
 
 namespace Sonarr.Http
@@ -10,6 +11,11 @@ public class PagingResource<TResource>
         public string SortKey { get; set; }
         public SortDirection SortDirection { get; set; }
         public List<PagingResourceFilter> Filters { get; set; }
+
+        // Only read from the request's filters parameter
+        [JsonIgnore]
+        public List<PagingResourceFilterCondition> FilterConditions { get; set; }
+
         public int TotalRecords { get; set; }
         public List<TResource> Records { get; set; }
     }
@@ -0,0 +1,19 @@
+using System.Collections.Generic;
+
+namespace Sonarr.Http
+{
+    public enum PagingResourceFilterGroupType
+    {
+        And,
+        Or
+    }
+
+    public class PagingResourceFilterCondition
+    {
+        public string Key { get; set; }
+        public string Value { get; set; }
+        public string Type { get; set; }
+        public PagingResourceFilterGroupType? GroupType { get; set; }
+        public List<PagingResourceFilterCondition> Filters { get; set; }
+    }
+}